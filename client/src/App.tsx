@@ -31,8 +31,17 @@ import NotFound from "@/pages/not-found";
 import Templates from "@/pages/templates";
 import AICopilot from '@/pages/ai-copilot';
 import AdminLogin from "./pages/admin/login";
+import AdminBasemaps from "@/pages/admin/basemaps";
+import AdminArcgisGroups from "@/pages/admin/arcgis-groups";
+import AdminSsoProviders from "@/pages/admin/sso-providers";
+import AdminSchools from "@/pages/admin/schools";
+import AdminLockouts from "@/pages/admin/lockouts";
+import AdminSecurity from "@/pages/admin/security";
+import Datasets from "@/pages/datasets";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
+import SsoCallback from "@/pages/sso-callback";
+import PictureLogin from "@/pages/picture-login";
 
 function Layout({ children }: { children: React.ReactNode }) {
   return (
@@ -103,6 +112,9 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/forgot-password" component={ForgotPassword} />
       <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/sso/callback" component={SsoCallback} />
+      <Route path="/picture-login" component={PictureLogin} />
+      <Route path="/picture-login/:code" component={PictureLogin} />
       <Route path="/ai-copilot">
         <div className="ai-copilot-page h-screen"> {/* Apply the class here */}
           <AICopilot />
@@ -245,6 +257,14 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/datasets">
+        <ProtectedRoute>
+          <Layout>
+            <Datasets />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/copilot">
         <ProtectedRoute requiredRole="teacher">
           <Layout>
@@ -261,6 +281,54 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/admin/basemaps">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminBasemaps />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/arcgis-groups">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminArcgisGroups />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/sso-providers">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminSsoProviders />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/schools">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminSchools />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/lockouts">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminLockouts />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/admin/security">
+        <ProtectedRoute requiredRole="admin">
+          <Layout>
+            <AdminSecurity />
+          </Layout>
+        </ProtectedRoute>
+      </Route>
+
       <Route component={NotFound} />
     </Switch>
   );
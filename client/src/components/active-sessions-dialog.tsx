@@ -0,0 +1,139 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { auth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { ActiveSession } from '@/lib/types';
+
+interface ActiveSessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// e.g. "Chrome on Chromebook"; good enough to tell a user's devices apart
+function describeDevice(userAgent: string | null): { label: string; isMobile: boolean } {
+  if (!userAgent) return { label: 'Unknown device', isMobile: false };
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const device =
+    /CrOS/.test(userAgent) ? 'Chromebook'
+    : /iPad/.test(userAgent) ? 'iPad'
+    : /iPhone/.test(userAgent) ? 'iPhone'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'unknown device';
+  return { label: `${browser} on ${device}`, isMobile: /Mobi|iPad|iPhone|Android/.test(userAgent) };
+}
+
+// Lists the devices the user is signed in on, so a forgotten sign-in on a shared computer can be ended
+export function ActiveSessionsDialog({ open, onOpenChange }: ActiveSessionsDialogProps) {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ['/api/auth/sessions'],
+    enabled: open,
+  });
+
+  const endSessionMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      const response = await apiRequest('DELETE', `/api/auth/sessions/${sessionId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out device',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: auth.logoutAllDevices,
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to sign out devices',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleLogoutAll = () => {
+    if (window.confirm('Sign out on every device, including this one?')) {
+      logoutAllMutation.mutate();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Devices you're signed in on. Sessions that aren't used for a while end on their own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map(session => {
+              const device = describeDevice(session.userAgent);
+              const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center gap-3 py-3">
+                  <DeviceIcon className="h-5 w-5 text-slate-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {device.label}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      Signed in {new Date(session.createdAt).toLocaleDateString()}
+                      {' · '}Last active {new Date(session.lastSeenAt).toLocaleString()}
+                      {session.ipAddress && ` · ${session.ipAddress}`}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => endSessionMutation.mutate(session.id)}
+                      disabled={endSessionMutation.isPending && endSessionMutation.variables === session.id}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleLogoutAll} disabled={logoutAllMutation.isPending}>
+            <LogOut className="h-4 w-4 mr-2" />
+            {logoutAllMutation.isPending ? 'Signing out...' : 'Log Out All Devices'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Feature } from 'geojson';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDownWideNarrow, ArrowUpDown, ArrowUpNarrowWide, MessageSquare, X } from 'lucide-react';
+import { LayerData } from '@/lib/types';
+import { getFeatureFields } from '@/lib/map-utils';
+
+interface AttributeTableProps {
+  layer: LayerData;
+  // Index into layer.data.features of the feature selected on the map or in the table
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+  // Omitted for read-only maps, which hides the popup settings
+  onPopupChange?: (popup: LayerData['popup']) => void;
+}
+
+// Rendering thousands of rows makes the drawer sluggish; filtering narrows it down
+const MAX_ROWS = 500;
+const ALL_FIELDS = '__all__';
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function compareValues(a: unknown, b: unknown, descending: boolean): number {
+  // Empty values sort last in both directions
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? 1 : -1;
+
+  const numberA = Number(a);
+  const numberB = Number(b);
+  const result =
+    !isNaN(numberA) && !isNaN(numberB)
+      ? numberA - numberB
+      : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+  return descending ? -result : result;
+}
+
+function PopupSettings({ layer, fields, onPopupChange }: {
+  layer: LayerData;
+  fields: string[];
+  onPopupChange: (popup: LayerData['popup']) => void;
+}) {
+  const shownFields = layer.popup?.fields ?? fields;
+
+  const toggleField = (field: string, shown: boolean) => {
+    const next = shown ? fields.filter(f => f === field || shownFields.includes(f)) : shownFields.filter(f => f !== field);
+    onPopupChange({ ...layer.popup, fields: next });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-8">
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Popups
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Popup title</Label>
+          <Select
+            value={layer.popup?.titleField ?? 'none'}
+            onValueChange={value =>
+              onPopupChange({ fields: shownFields, titleField: value === 'none' ? undefined : value })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No title</SelectItem>
+              {fields.map(field => (
+                <SelectItem key={field} value={field}>{field}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Fields shown</Label>
+          <div className="max-h-48 space-y-1 overflow-y-auto">
+            {fields.map(field => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={shownFields.includes(field)}
+                  onCheckedChange={checked => toggleField(field, checked as boolean)}
+                />
+                {field}
+              </label>
+            ))}
+          </div>
+        </div>
+        {layer.popup && (
+          <Button type="button" variant="ghost" size="sm" className="w-full" onClick={() => onPopupChange(undefined)}>
+            Show all fields
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Drawer under the map listing a layer's features, kept in sync with the selection on the map
+export function AttributeTable({ layer, selectedIndex, onSelect, onClose, onPopupChange }: AttributeTableProps) {
+  const [sort, setSort] = useState<{ field: string; descending: boolean } | null>(null);
+  const [filterText, setFilterText] = useState('');
+  const [filterField, setFilterField] = useState(ALL_FIELDS);
+  const selectedRowRef = useRef<HTMLTableRowElement>(null);
+
+  const features: Feature[] = layer.data?.features ?? [];
+  const fields = useMemo(() => getFeatureFields(layer.data), [layer.data]);
+
+  const rows = useMemo(() => {
+    const query = filterText.trim().toLowerCase();
+    let indexed = features.map((feature, index) => ({ feature, index }));
+
+    if (query) {
+      indexed = indexed.filter(({ feature }) => {
+        const values =
+          filterField === ALL_FIELDS
+            ? Object.values(feature.properties || {})
+            : [feature.properties?.[filterField]];
+        return values.some(value => value !== null && value !== undefined && String(value).toLowerCase().includes(query));
+      });
+    }
+
+    if (sort) {
+      indexed.sort((a, b) =>
+        compareValues(a.feature.properties?.[sort.field], b.feature.properties?.[sort.field], sort.descending)
+      );
+    }
+
+    return indexed;
+  }, [features, filterText, filterField, sort]);
+
+  // Features selected on the map are scrolled into view
+  useEffect(() => {
+    selectedRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleSort = (field: string) => {
+    setSort(current =>
+      current?.field !== field
+        ? { field, descending: false }
+        : !current.descending
+          ? { field, descending: true }
+          : null
+    );
+  };
+
+  return (
+    <div className="flex h-72 flex-col border-t border-gray-200 bg-white">
+      <div className="flex items-center gap-2 border-b border-gray-200 px-3 py-2">
+        <div className="mr-auto text-sm font-medium">
+          {layer.name}
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {rows.length === features.length
+              ? `${features.length} features`
+              : `${rows.length} of ${features.length} features`}
+          </span>
+        </div>
+        <Select value={filterField} onValueChange={setFilterField}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FIELDS}>All fields</SelectItem>
+            {fields.map(field => (
+              <SelectItem key={field} value={field}>{field}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder="Filter features..."
+          className="h-8 w-48"
+        />
+        {onPopupChange && <PopupSettings layer={layer} fields={fields} onPopupChange={onPopupChange} />}
+        <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose} title="Close table">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {fields.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">The features on this layer have no attributes.</p>
+        ) : (
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                {fields.map(field => {
+                  const SortIcon =
+                    sort?.field !== field ? ArrowUpDown : sort.descending ? ArrowDownWideNarrow : ArrowUpNarrowWide;
+                  return (
+                    <TableHead key={field} className="h-8 whitespace-nowrap">
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 font-medium hover:text-gray-900"
+                        onClick={() => handleSort(field)}
+                      >
+                        {field}
+                        <SortIcon className={`h-3 w-3 ${sort?.field === field ? 'text-gray-900' : 'text-gray-400'}`} />
+                      </button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, MAX_ROWS).map(({ feature, index }) => (
+                <TableRow
+                  key={index}
+                  ref={index === selectedIndex ? selectedRowRef : undefined}
+                  data-state={index === selectedIndex ? 'selected' : undefined}
+                  className={`cursor-pointer ${index === selectedIndex ? 'bg-blue-50' : ''}`}
+                  onClick={() => onSelect(index)}
+                >
+                  {fields.map(field => (
+                    <TableCell key={field} className="whitespace-nowrap py-1.5">
+                      {isEmpty(feature.properties?.[field]) ? '' : String(feature.properties![field])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {rows.length > MAX_ROWS && (
+          <p className="p-3 text-xs text-gray-500">
+            Showing the first {MAX_ROWS} of {rows.length} features. Filter or sort to find others.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
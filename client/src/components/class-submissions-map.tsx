@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation } from 'wouter';
+import { MapContainer, CircleMarker, Polyline, Polygon, Rectangle, Circle, Popup, Tooltip, useMap } from 'react-leaflet';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ExternalLink, Flame, Layers, Users } from 'lucide-react';
+import { DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { MapDataLayers } from '@/components/map-data-layers';
+import { Annotation, MapData } from '@/lib/types';
+import { ANNOTATION_TYPE_LABELS, getAnnotationPathOptions } from '@/lib/map-utils';
+import { HEATMAP_GRADIENT, HeatmapLayer } from '@/lib/heatmap';
+import L from 'leaflet';
+
+interface ClassSubmissionsMapProps {
+  starterMap?: MapData | null;
+  // Latest submission per student, as returned by /api/assignments/:id/submissions
+  submissions: any[];
+}
+
+interface StudentMap {
+  submissionId: number;
+  name: string;
+  color: string;
+  annotations: Annotation[];
+}
+
+// Distinct enough to tell a class of ~30 apart at a glance; repeats after that
+const STUDENT_COLORS = [
+  '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324',
+  '#469990', '#800000', '#808000', '#000075', '#bfef45', '#fabed4', '#dcbeff', '#aaffc3',
+];
+
+function getStudentName(submission: any): string {
+  const student = submission.student;
+  const name = [student?.firstName, student?.lastName].filter(Boolean).join(' ');
+  return name || student?.username || `Submission ${submission.id}`;
+}
+
+// Zooms to the students' work once it has loaded
+function FitToBounds({ bounds }: { bounds: L.LatLngBounds | null }) {
+  const map = useMap();
+  const hasFitted = useRef(false);
+
+  useEffect(() => {
+    if (hasFitted.current || !bounds?.isValid()) return;
+    hasFitted.current = true;
+    map.fitBounds(bounds, { padding: [30, 30], maxZoom: 14 });
+  }, [map, bounds]);
+
+  return null;
+}
+
+function HeatmapOverlay({ points }: { points: [number, number][] }) {
+  const map = useMap();
+  const layerRef = useRef<HeatmapLayer | null>(null);
+
+  useEffect(() => {
+    const layer = new HeatmapLayer(points);
+    layer.addTo(map);
+    layerRef.current = layer;
+    return () => {
+      layer.remove();
+      layerRef.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    layerRef.current?.setPoints(points);
+  }, [points]);
+
+  return null;
+}
+
+function renderStudentAnnotation(annotation: Annotation, student: StudentMap, onOpen: () => void) {
+  const base = getAnnotationPathOptions(annotation);
+  const pathOptions: L.PathOptions = { ...base, color: student.color, fillColor: student.color };
+  const popup = (
+    <Popup>
+      <div className="space-y-1">
+        <div className="font-medium">{student.name}</div>
+        <div className="text-xs text-gray-500">{ANNOTATION_TYPE_LABELS[annotation.type]}</div>
+        {annotation.properties.text && <div>{annotation.properties.text}</div>}
+        <Button type="button" size="sm" variant="outline" className="mt-1 h-7" onClick={onOpen}>
+          <ExternalLink className="h-3 w-3 mr-1" />
+          Open grading
+        </Button>
+      </div>
+    </Popup>
+  );
+  const key = `${student.submissionId}-${annotation.id}`;
+
+  switch (annotation.type) {
+    case 'point':
+    case 'text':
+      // Markers can't take a per-student colour, so points are drawn as coloured dots
+      return (
+        <CircleMarker key={key} center={annotation.coordinates} radius={7} pathOptions={{ ...pathOptions, fillOpacity: 0.8, weight: 2 }}>
+          {annotation.type === 'text' && annotation.properties.text && <Tooltip>{annotation.properties.text}</Tooltip>}
+          {popup}
+        </CircleMarker>
+      );
+    case 'line':
+      return <Polyline key={key} positions={annotation.coordinates} pathOptions={pathOptions}>{popup}</Polyline>;
+    case 'polygon':
+      return <Polygon key={key} positions={annotation.coordinates} pathOptions={pathOptions}>{popup}</Polygon>;
+    case 'rectangle':
+      return <Rectangle key={key} bounds={annotation.coordinates} pathOptions={pathOptions}>{popup}</Rectangle>;
+    case 'circle':
+      return (
+        <Circle key={key} center={annotation.coordinates} radius={annotation.properties.radius ?? 100} pathOptions={pathOptions}>
+          {popup}
+        </Circle>
+      );
+    default:
+      return null;
+  }
+}
+
+// Every student's map annotations on one map, for reviewing the class's work side by side
+export function ClassSubmissionsMap({ starterMap, submissions }: ClassSubmissionsMapProps) {
+  const [, setLocation] = useLocation();
+  const baseMap = starterMap || DEFAULT_MAP_DATA;
+  const [hiddenIds, setHiddenIds] = useState<number[]>([]);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  const students = useMemo<StudentMap[]>(
+    () =>
+      submissions
+        .map(submission => ({
+          submissionId: submission.id as number,
+          name: getStudentName(submission),
+          // Prompt markers come from the starter map, so every student has the same ones
+          annotations: ((submission.mapData as MapData | null)?.annotations ?? []).filter(
+            annotation => !annotation.properties.prompt
+          ),
+        }))
+        .filter(student => student.annotations.length > 0)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((student, index) => ({ ...student, color: STUDENT_COLORS[index % STUDENT_COLORS.length] })),
+    [submissions]
+  );
+
+  const visibleStudents = students.filter(student => !hiddenIds.includes(student.submissionId));
+
+  const heatmapPoints = useMemo(
+    () =>
+      visibleStudents.flatMap(student =>
+        student.annotations
+          .filter(annotation => annotation.type === 'point')
+          .map(annotation => annotation.coordinates as [number, number])
+      ),
+    [students, hiddenIds]
+  );
+
+  const bounds = useMemo(() => {
+    const all = students.flatMap(student => student.annotations);
+    if (all.length === 0) return null;
+    const group = L.featureGroup();
+    all.forEach(annotation => {
+      if (annotation.type === 'point' || annotation.type === 'text' || annotation.type === 'circle') {
+        group.addLayer(L.marker(annotation.coordinates));
+      } else if (annotation.type === 'rectangle') {
+        group.addLayer(L.rectangle(annotation.coordinates));
+      } else {
+        group.addLayer(L.polyline(annotation.coordinates));
+      }
+    });
+    return group.getBounds();
+  }, [students]);
+
+  const toggleStudent = (submissionId: number, visible: boolean) => {
+    setHiddenIds(current => (visible ? current.filter(id => id !== submissionId) : [...current, submissionId]));
+  };
+
+  const openGrading = (submissionId: number) => setLocation(`/grading/${submissionId}`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Class Map
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={showHeatmap ? 'outline' : 'secondary'}
+              onClick={() => setShowHeatmap(false)}
+            >
+              <Layers className="h-4 w-4 mr-2" />
+              Annotations
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={showHeatmap ? 'secondary' : 'outline'}
+              onClick={() => setShowHeatmap(true)}
+            >
+              <Flame className="h-4 w-4 mr-2" />
+              Heatmap
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-600">
+          Every submitted map on one view, coloured by student. Click a shape to open that student's submission for grading.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {students.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">No submitted maps with annotations yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[1fr_220px]">
+            <div className="relative h-[500px] overflow-hidden rounded-lg border border-gray-200">
+              <MapContainer center={baseMap.center} zoom={baseMap.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+                <MapDataLayers data={{ ...baseMap, annotations: baseMap.annotations.filter(a => a.properties.prompt) }} />
+                <FitToBounds bounds={bounds} />
+                {showHeatmap ? (
+                  <HeatmapOverlay points={heatmapPoints} />
+                ) : (
+                  visibleStudents.flatMap(student =>
+                    student.annotations.map(annotation =>
+                      renderStudentAnnotation(annotation, student, () => openGrading(student.submissionId))
+                    )
+                  )
+                )}
+              </MapContainer>
+              {showHeatmap && (
+                <div className="absolute bottom-2 left-2 z-10 rounded bg-white/90 px-2 py-1 text-xs text-gray-600 shadow">
+                  <div className="mb-1">{heatmapPoints.length} points</div>
+                  <div
+                    className="h-2 w-32 rounded"
+                    style={{ background: `linear-gradient(to right, ${HEATMAP_GRADIENT.map(([, color]) => color).join(', ')})` }}
+                  />
+                  <div className="flex justify-between">
+                    <span>Few</span>
+                    <span>Many</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm font-medium">
+                Students ({visibleStudents.length}/{students.length})
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setHiddenIds(hiddenIds.length ? [] : students.map(student => student.submissionId))}
+                >
+                  {hiddenIds.length ? 'Show all' : 'Hide all'}
+                </Button>
+              </div>
+              <div className="max-h-[460px] space-y-1 overflow-y-auto">
+                {students.map(student => (
+                  <div key={student.submissionId} className="flex items-center gap-2 rounded px-1 py-1 hover:bg-gray-50">
+                    <Checkbox
+                      id={`class-map-student-${student.submissionId}`}
+                      checked={!hiddenIds.includes(student.submissionId)}
+                      onCheckedChange={(checked) => toggleStudent(student.submissionId, checked as boolean)}
+                    />
+                    <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: student.color }} />
+                    <label htmlFor={`class-map-student-${student.submissionId}`} className="flex-1 truncate text-sm">
+                      {student.name}
+                      <span className="ml-1 text-xs text-gray-500">({student.annotations.length})</span>
+                    </label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => openGrading(student.submissionId)}
+                      title="Open grading"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
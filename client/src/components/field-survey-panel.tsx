@@ -0,0 +1,343 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Crosshair, Download, Save, Trash2 } from 'lucide-react';
+import { MapEditor, DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { MapData, SurveyField, SurveyForm, SurveyRecord } from '@/lib/types';
+import { DeviceLocation, downloadSurveyRecords, getDeviceLocation, surveyRecordsToLayer, uploadSurveyPhoto } from '@/lib/field-survey';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { auth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+
+interface FieldSurveyPanelProps {
+  assignmentId: number;
+  title: string;
+  surveyForm: SurveyForm;
+  starterMap?: MapData | null;
+  allowedBasemaps?: string[] | null;
+}
+
+// Other students' new observations show up without reloading the page
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+function formatValue(field: SurveyField, value: string | number | null | undefined) {
+  if (value === null || value === undefined || value === '') return <span className="text-gray-400">—</span>;
+  if (field.type === 'photo') {
+    return (
+      <a href={String(value)} target="_blank" rel="noopener noreferrer">
+        <img src={String(value)} alt={field.label} className="h-10 w-10 rounded object-cover" />
+      </a>
+    );
+  }
+  return String(value);
+}
+
+// Students record geotagged observations; everyone in the class sees them together on one map
+export function FieldSurveyPanel({ assignmentId, title, surveyForm, starterMap, allowedBasemaps }: FieldSurveyPanelProps) {
+  const { toast } = useToast();
+  const user = auth.getUser();
+  const isStudent = user?.role === 'student';
+  const [location, setLocation] = useState<DeviceLocation | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [uploadingFieldId, setUploadingFieldId] = useState<string | null>(null);
+
+  const recordsQueryKey = ['/api/assignments', assignmentId, 'survey-records'];
+  const { data: records = [], isLoading } = useQuery<SurveyRecord[]>({
+    queryKey: recordsQueryKey,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const saveRecordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/assignments/${assignmentId}/survey-records`, {
+        ...location,
+        values,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recordsQueryKey });
+      setValues({});
+      setLocation(null);
+      toast({
+        title: 'Observation saved',
+        description: 'Your observation has been added to the class map.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save observation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteRecordMutation = useMutation({
+    mutationFn: async (recordId: number) => {
+      const response = await apiRequest('DELETE', `/api/survey-records/${recordId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: recordsQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete observation',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const classMap = useMemo<MapData>(() => {
+    const base = starterMap || DEFAULT_MAP_DATA;
+    const latest = records[records.length - 1];
+    return {
+      ...base,
+      // Without a starter map, open where the class has been recording
+      center: !starterMap && latest ? [latest.latitude, latest.longitude] : base.center,
+      zoom: !starterMap && latest ? 15 : base.zoom,
+      layers: [...base.layers, surveyRecordsToLayer(surveyForm, records)],
+    };
+  }, [starterMap, surveyForm, records]);
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    try {
+      setLocation(await getDeviceLocation());
+    } catch (error) {
+      toast({
+        title: 'Location unavailable',
+        description: error instanceof Error ? error.message : 'Your location could not be found.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handlePhotoSelected = async (fieldId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploadingFieldId(fieldId);
+    try {
+      const url = await uploadSurveyPhoto(file);
+      setValues(current => ({ ...current, [fieldId]: url }));
+    } catch (error) {
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'Failed to upload photo',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadingFieldId(null);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'geojson') => {
+    try {
+      await downloadSurveyRecords(assignmentId, format);
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Failed to export observations',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = () => {
+    const missing = surveyForm.fields.find(field => field.required && !values[field.id]?.trim());
+    if (missing) {
+      toast({
+        title: 'Observation incomplete',
+        description: `"${missing.label}" is required.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveRecordMutation.mutate();
+  };
+
+  const renderFieldInput = (field: SurveyField) => {
+    const id = `survey-value-${field.id}`;
+    switch (field.type) {
+      case 'choice':
+        return (
+          <Select value={values[field.id] ?? ''} onValueChange={value => setValues(current => ({ ...current, [field.id]: value }))}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder="Choose..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options ?? []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'photo':
+        return (
+          <div className="flex items-center gap-3">
+            {/* capture opens the camera on phones and tablets */}
+            <Input
+              id={id}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={(e) => handlePhotoSelected(field.id, e)}
+              disabled={uploadingFieldId === field.id}
+            />
+            {uploadingFieldId === field.id && <span className="text-sm text-gray-500">Uploading...</span>}
+            {values[field.id] && (
+              <img src={values[field.id]} alt={field.label} className="h-12 w-12 rounded object-cover" />
+            )}
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === 'number' ? 'number' : 'text'}
+            step="any"
+            value={values[field.id] ?? ''}
+            onChange={(e) => setValues(current => ({ ...current, [field.id]: e.target.value }))}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Field Survey
+          </CardTitle>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button type="button" size="sm" variant="outline" disabled={records.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('csv')}>Spreadsheet (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('geojson')}>GeoJSON (.geojson)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <p className="text-sm text-slate-600">
+          {isStudent
+            ? 'Record each observation where you make it. Your location is added automatically and the observation appears on the class map.'
+            : 'Observations recorded by the class, tagged with each student’s location when they recorded it.'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isStudent && (
+          <div className="space-y-4 rounded-lg border border-gray-200 p-4">
+            <h4 className="font-medium">New observation</h4>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button type="button" variant="outline" onClick={handleLocate} disabled={isLocating}>
+                <Crosshair className="h-4 w-4 mr-2" />
+                {isLocating ? 'Finding location...' : location ? 'Update Location' : 'Use My Location'}
+              </Button>
+              {location && (
+                <span className="text-sm text-gray-600">
+                  {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)} (±{Math.round(location.accuracy)} m)
+                </span>
+              )}
+            </div>
+
+            {surveyForm.fields.map(field => (
+              <div key={field.id} className="space-y-1">
+                <Label htmlFor={`survey-value-${field.id}`}>
+                  {field.label}
+                  {field.required && <span className="text-red-600"> *</span>}
+                </Label>
+                {renderFieldInput(field)}
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={!location || saveRecordMutation.isPending || uploadingFieldId !== null}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveRecordMutation.isPending ? 'Saving...' : 'Save Observation'}
+            </Button>
+            {!location && <p className="text-sm text-slate-500">Add your location before saving.</p>}
+          </div>
+        )}
+
+        <div className="border rounded-lg overflow-hidden">
+          <MapEditor
+            key={records.length}
+            initialData={classMap}
+            readOnly
+            allowedBasemaps={allowedBasemaps}
+            title={`${title} - Field Survey`}
+            className="h-[500px]"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="h-24 bg-slate-200 rounded animate-pulse"></div>
+        ) : records.length === 0 ? (
+          <p className="py-4 text-center text-sm text-slate-500">No observations recorded yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-3 font-medium">Student</th>
+                  <th className="py-2 pr-3 font-medium">Recorded</th>
+                  {surveyForm.fields.map(field => (
+                    <th key={field.id} className="py-2 pr-3 font-medium">{field.label}</th>
+                  ))}
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {[...records].reverse().map(record => (
+                  <tr key={record.id} className="border-b last:border-0">
+                    <td className="py-2 pr-3">{record.studentName}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{new Date(record.createdAt).toLocaleString()}</td>
+                    {surveyForm.fields.map(field => (
+                      <td key={field.id} className="py-2 pr-3">{formatValue(field, record.values[field.id])}</td>
+                    ))}
+                    <td className="py-2 text-right">
+                      {(!isStudent || record.studentId === user?.id) && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-red-600"
+                          onClick={() => deleteRecordMutation.mutate(record.id)}
+                          disabled={deleteRecordMutation.isPending}
+                          title="Delete observation"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
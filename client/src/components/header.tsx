@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Bell, ChevronDown, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -9,11 +10,15 @@ import { useLocation } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
 import { auth } from '@/lib/auth';
 import { Chat } from '@/components/chat';
+import { ActiveSessionsDialog } from '@/components/active-sessions-dialog';
+import { TwoFactorDialog } from '@/components/two-factor-dialog';
 
 export function Header() {
   const user = auth.getUser();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
+  const [sessionsDialogOpen, setSessionsDialogOpen] = useState(false);
+  const [twoFactorDialogOpen, setTwoFactorDialogOpen] = useState(false);
   
   // Fetch notifications
   const { data: notifications = [] } = useQuery({
@@ -207,12 +212,22 @@ export function Header() {
               <DropdownMenuContent align="end">
                 {/* <DropdownMenuItem>Profile</DropdownMenuItem>
                 <DropdownMenuItem>Settings</DropdownMenuItem> */}
+                <DropdownMenuItem onClick={() => setSessionsDialogOpen(true)}>
+                  Active Sessions
+                </DropdownMenuItem>
+                {user?.role !== 'student' && (
+                  <DropdownMenuItem onClick={() => setTwoFactorDialogOpen(true)}>
+                    Two-Factor Authentication
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   Logout
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <ActiveSessionsDialog open={sessionsDialogOpen} onOpenChange={setSessionsDialogOpen} />
+            <TwoFactorDialog open={twoFactorDialogOpen} onOpenChange={setTwoFactorDialogOpen} />
           </div>
         </div>
       </div>
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Marker, Polygon, useMap } from 'react-leaflet';
+import { ImageCorners, LayerData } from '@/lib/types';
+import { AffineImageOverlay, getBottomRightCorner } from '@/lib/image-overlay';
+import L from 'leaflet';
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom left'];
+
+function createHandleIcon(label: string) {
+  return L.divIcon({
+    className: '',
+    html: `<div title="${label}" style="width:14px;height:14px;border-radius:9999px;background:#ffffff;border:3px solid #2563eb;box-shadow:0 1px 3px rgba(0,0,0,0.4);cursor:move"></div>`,
+    iconSize: [14, 14],
+    iconAnchor: [7, 7],
+  });
+}
+
+const MOVE_ICON = L.divIcon({
+  className: '',
+  html: '<div title="Move image" style="width:18px;height:18px;border-radius:4px;background:#2563eb;border:2px solid #ffffff;box-shadow:0 1px 3px rgba(0,0,0,0.4);cursor:move"></div>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9],
+});
+
+// Adds an image layer's picture to the surrounding MapContainer
+export function ImageOverlayLayer({ layer, pane }: { layer: LayerData; pane?: string }) {
+  const map = useMap();
+  const overlayRef = useRef<AffineImageOverlay | null>(null);
+  const image = layer.image!;
+
+  useEffect(() => {
+    const overlay = new AffineImageOverlay(image.url, image.corners, { opacity: layer.opacity, pane });
+    overlay.addTo(map);
+    overlayRef.current = overlay;
+    return () => {
+      overlay.remove();
+      overlayRef.current = null;
+    };
+  }, [map, image.url, pane]);
+
+  useEffect(() => {
+    overlayRef.current?.setCorners(image.corners);
+  }, [image.corners]);
+
+  useEffect(() => {
+    overlayRef.current?.setOpacity(layer.opacity);
+  }, [layer.opacity]);
+
+  return null;
+}
+
+/**
+ * Draggable control points for aligning an image layer: one per positioned corner,
+ * plus a centre handle that moves the whole image.
+ */
+export function ImageCornerHandles({ corners, onChange }: { corners: ImageCorners; onChange: (corners: ImageCorners) => void }) {
+  const map = useMap();
+  const icons = useMemo(() => CORNER_LABELS.map(createHandleIcon), []);
+  const bottomRight = getBottomRightCorner(map, corners);
+  const center: [number, number] = [(corners[1][0] + corners[2][0]) / 2, (corners[1][1] + corners[2][1]) / 2];
+
+  const moveCorner = (index: number, latlng: L.LatLng) => {
+    const next = [...corners] as ImageCorners;
+    next[index] = [latlng.lat, latlng.lng];
+    onChange(next);
+  };
+
+  const moveImage = (latlng: L.LatLng) => {
+    const dLat = latlng.lat - center[0];
+    const dLng = latlng.lng - center[1];
+    onChange(corners.map(([lat, lng]) => [lat + dLat, lng + dLng]) as ImageCorners);
+  };
+
+  return (
+    <>
+      <Polygon
+        positions={[corners[0], corners[1], bottomRight, corners[2]]}
+        pathOptions={{ color: '#2563eb', weight: 2, dashArray: '6 4', fill: false }}
+        interactive={false}
+      />
+      {corners.map((corner, index) => (
+        <Marker
+          key={index}
+          position={corner}
+          icon={icons[index]}
+          draggable
+          eventHandlers={{ drag: (e) => moveCorner(index, (e.target as L.Marker).getLatLng()) }}
+        />
+      ))}
+      <Marker
+        position={center}
+        icon={MOVE_ICON}
+        draggable
+        eventHandlers={{ drag: (e) => moveImage((e.target as L.Marker).getLatLng()) }}
+      />
+    </>
+  );
+}
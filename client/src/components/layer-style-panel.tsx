@@ -0,0 +1,167 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { ClassificationMethod, LayerData, LayerStyle } from '@/lib/types';
+import {
+  CLASSIFICATION_METHOD_LABELS,
+  COLOR_RAMPS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  NO_DATA_COLOR,
+  buildLayerStyle,
+  getNumericProperties,
+  getRampColors,
+  hasPointFeatures,
+} from '@/lib/map-styling';
+
+interface LayerStylePanelProps {
+  layer: LayerData;
+  onChange: (style: LayerStyle | undefined) => void;
+}
+
+// Legend for an attribute-styled layer, shown under the layer in the Layers card
+export function LayerLegend({ style }: { style: LayerStyle }) {
+  return (
+    <div className="space-y-1 text-xs text-gray-600">
+      <div className="font-medium">{style.property}</div>
+      {style.legend.map(entry => (
+        <div key={entry.label} className="flex items-center gap-2">
+          {entry.radius !== undefined ? (
+            <span className="flex w-8 justify-center">
+              <span
+                className="rounded-full border border-gray-500"
+                style={{ backgroundColor: entry.color, width: entry.radius * 2, height: entry.radius * 2 }}
+              />
+            </span>
+          ) : (
+            <span className="h-3 w-5 rounded-sm border border-gray-400" style={{ backgroundColor: entry.color }} />
+          )}
+          {entry.label}
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <span
+          className={`${style.mode === 'graduated' ? 'mx-[9px] h-3 w-3 rounded-full' : 'h-3 w-5 rounded-sm'} border border-gray-400`}
+          style={{ backgroundColor: NO_DATA_COLOR }}
+        />
+        No data
+      </div>
+    </div>
+  );
+}
+
+// Choropleth / graduated-symbol controls for a vector layer with numeric attributes
+export function LayerStylePanel({ layer, onChange }: LayerStylePanelProps) {
+  const properties = getNumericProperties(layer.data);
+  const supportsGraduated = hasPointFeatures(layer.data);
+  const current: Omit<LayerStyle, 'legend'> = {
+    mode: layer.style?.mode ?? 'choropleth',
+    property: layer.style?.property ?? properties[0] ?? '',
+    method: layer.style?.method ?? 'quantile',
+    classes: layer.style?.classes ?? 5,
+    ramp: layer.style?.ramp ?? 'blues',
+  };
+
+  if (properties.length === 0) {
+    return <p className="text-xs text-gray-500">This layer has no numeric attributes to style by.</p>;
+  }
+
+  const apply = (changes: Partial<Omit<LayerStyle, 'legend'>>) => {
+    onChange(buildLayerStyle(layer.data, { ...current, ...changes }));
+  };
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-2">
+      {supportsGraduated && (
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Style</Label>
+          <Select value={current.mode} onValueChange={value => apply({ mode: value as LayerStyle['mode'] })}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="choropleth">Colour by class</SelectItem>
+              <SelectItem value="graduated">Graduated symbols</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Attribute</Label>
+        <Select value={current.property} onValueChange={property => apply({ property })}>
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Choose an attribute" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(property => (
+              <SelectItem key={property} value={property}>{property}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Classification</Label>
+        <Select value={current.method} onValueChange={value => apply({ method: value as ClassificationMethod })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CLASSIFICATION_METHOD_LABELS) as ClassificationMethod[]).map(method => (
+              <SelectItem key={method} value={method}>{CLASSIFICATION_METHOD_LABELS[method]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Classes: {current.classes}</Label>
+        <Slider
+          value={[current.classes]}
+          onValueChange={([classes]) => apply({ classes })}
+          min={MIN_CLASSES}
+          max={MAX_CLASSES}
+          step={1}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-gray-500">Colour ramp</Label>
+        <Select value={current.ramp} onValueChange={ramp => apply({ ramp })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(COLOR_RAMPS).map(([id, ramp]) => (
+              <SelectItem key={id} value={id}>
+                <span className="flex items-center gap-2">
+                  <span className="flex">
+                    {getRampColors(id, 5).map(color => (
+                      <span key={color} className="h-3 w-3" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                  {ramp.label}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-2">
+        {!layer.style && (
+          <Button type="button" size="sm" className="flex-1" onClick={() => apply({})}>
+            Apply
+          </Button>
+        )}
+        {layer.style && (
+          <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => onChange(undefined)}>
+            Clear styling
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Image as ImageIcon } from 'lucide-react';
+
+export interface LibraryImage {
+  id: number;
+  originalName: string;
+  description?: string | null;
+  url: string;
+  type: string;
+}
+
+interface LibraryImagePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (image: LibraryImage) => void;
+}
+
+// Lists the images in the user's Library (scanned maps, aerial photos) for placing on a map
+export function LibraryImagePicker({ open, onOpenChange, onSelect }: LibraryImagePickerProps) {
+  const [search, setSearch] = useState('');
+
+  const { data: files = [], isLoading } = useQuery<LibraryImage[]>({
+    queryKey: ['/api/library/files'],
+    enabled: open,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+
+  const query = search.trim().toLowerCase();
+  const images = files.filter(
+    file =>
+      file.type === 'image' &&
+      (!query || file.originalName.toLowerCase().includes(query) || file.description?.toLowerCase().includes(query))
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Add Image Overlay</DialogTitle>
+          <DialogDescription>
+            Choose an image from your Library, such as a scanned historical map. You can then drag its corners into place.
+          </DialogDescription>
+        </DialogHeader>
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search images..." />
+        <div className="grid max-h-[60vh] grid-cols-2 gap-3 overflow-y-auto sm:grid-cols-3">
+          {isLoading && <p className="col-span-full text-sm text-gray-500">Loading images...</p>}
+          {!isLoading && images.length === 0 && (
+            <div className="col-span-full py-8 text-center text-sm text-gray-500">
+              <ImageIcon className="mx-auto mb-2 h-10 w-10 text-gray-300" />
+              No images found. Upload scanned maps or photos to your Library first.
+            </div>
+          )}
+          {images.map(image => (
+            <button
+              key={image.id}
+              type="button"
+              className="overflow-hidden rounded-lg border border-gray-200 text-left hover:border-blue-500 hover:shadow"
+              onClick={() => onSelect(image)}
+            >
+              <img src={image.url} alt={image.originalName} className="h-28 w-full bg-gray-100 object-cover" />
+              <div className="truncate p-2 text-xs font-medium">{image.originalName}</div>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
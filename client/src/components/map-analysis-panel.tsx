@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FlaskConical, Plus } from 'lucide-react';
+import { MapData } from '@/lib/types';
+import {
+  ANALYSIS_OPERATION_LABELS,
+  AnalysisOperation,
+  AnalysisResult,
+  getAnalysisSources,
+  runAnalysis,
+} from '@/lib/map-analysis';
+
+interface MapAnalysisPanelProps {
+  mapData: MapData;
+  onSaveResult: (result: AnalysisResult) => void;
+}
+
+const SECOND_INPUT_LABELS: Partial<Record<AnalysisOperation, string>> = {
+  'point-in-polygon': 'Points to count',
+  intersect: 'Second layer',
+  union: 'Second layer',
+};
+
+// Runs buffer, centroid, point-in-polygon and overlay analyses on the student's annotations and layers
+export function MapAnalysisPanel({ mapData, onSaveResult }: MapAnalysisPanelProps) {
+  const [operation, setOperation] = useState<AnalysisOperation>('buffer');
+  const [firstSourceId, setFirstSourceId] = useState('');
+  const [secondSourceId, setSecondSourceId] = useState('');
+  const [bufferMeters, setBufferMeters] = useState(500);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sources = getAnalysisSources(mapData);
+  const firstSource = sources.find(source => source.id === firstSourceId);
+  const secondSource = sources.find(source => source.id === secondSourceId);
+  const secondInputLabel = SECOND_INPUT_LABELS[operation];
+  const canRun = !!firstSource && (!secondInputLabel || !!secondSource) && (operation !== 'buffer' || bufferMeters > 0);
+
+  const handleOperationChange = (value: string) => {
+    setOperation(value as AnalysisOperation);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleRun = () => {
+    if (!firstSource) return;
+    try {
+      setResult(runAnalysis(operation, firstSource, secondSource, bufferMeters));
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'The analysis could not be completed.');
+    }
+  };
+
+  const handleSave = () => {
+    if (!result) return;
+    onSaveResult(result);
+    setResult(null);
+  };
+
+  return (
+    <Card className="border-0 rounded-none border-t">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          Analysis
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sources.length === 0 ? (
+          <p className="text-xs text-gray-500">Draw shapes or import a layer to analyse them.</p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Tool</Label>
+              <Select value={operation} onValueChange={handleOperationChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ANALYSIS_OPERATION_LABELS) as AnalysisOperation[]).map(op => (
+                    <SelectItem key={op} value={op}>{ANALYSIS_OPERATION_LABELS[op]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">
+                {operation === 'point-in-polygon' ? 'Polygons' : 'Input'}
+              </Label>
+              <Select value={firstSourceId} onValueChange={setFirstSourceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose features" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sources.map(source => (
+                    <SelectItem key={source.id} value={source.id}>{source.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {secondInputLabel && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">{secondInputLabel}</Label>
+                <Select value={secondSourceId} onValueChange={setSecondSourceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose features" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sources.map(source => (
+                      <SelectItem key={source.id} value={source.id}>{source.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {operation === 'buffer' && (
+              <div className="space-y-1">
+                <Label htmlFor="buffer-distance" className="text-xs text-gray-500">Distance (metres)</Label>
+                <Input
+                  id="buffer-distance"
+                  type="number"
+                  min={1}
+                  value={bufferMeters}
+                  onChange={(e) => setBufferMeters(Number(e.target.value))}
+                />
+              </div>
+            )}
+
+            <Button type="button" size="sm" className="w-full" disabled={!canRun} onClick={handleRun}>
+              Run {ANALYSIS_OPERATION_LABELS[operation]}
+            </Button>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            {result && (
+              <div className="space-y-2 rounded bg-gray-50 p-2 text-sm">
+                <div className="font-medium">{result.title}</div>
+                <ul className="space-y-0.5 text-xs text-gray-600">
+                  {result.summary.map((line, index) => (
+                    <li key={index}>{line}</li>
+                  ))}
+                </ul>
+                {result.collection.features.length > 0 && (
+                  <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleSave}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Save as layer
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
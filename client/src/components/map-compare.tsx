@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import { MapContainer, Pane } from 'react-leaflet';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Columns2, Layers, SplitSquareHorizontal, X } from 'lucide-react';
+import { MapDataLayers } from '@/components/map-data-layers';
+import { MapData } from '@/lib/types';
+import L from 'leaflet';
+
+export interface MapCompareSource {
+  id: string;
+  label: string;
+  data: MapData;
+}
+
+interface MapCompareProps {
+  // The first two sources are shown initially; more can be picked from each side's menu
+  sources: MapCompareSource[];
+  onClose?: () => void;
+  className?: string;
+}
+
+type CompareMode = 'side-by-side' | 'swipe';
+
+interface CompareSide {
+  sourceId: string;
+  // Layer visibility for this side only, so one map can be compared against itself (e.g. two eras)
+  visibleLayerIds: string[];
+}
+
+const RIGHT_PANE = 'compare-right';
+
+function getVisibleLayerIds(data: MapData): string[] {
+  return data.layers.filter(layer => layer.visible).map(layer => layer.id);
+}
+
+function SideControls({ label, side, sources, onChange }: {
+  label: string;
+  side: CompareSide;
+  sources: MapCompareSource[];
+  onChange: (side: CompareSide) => void;
+}) {
+  const source = sources.find(s => s.id === side.sourceId) ?? sources[0];
+
+  const toggleLayer = (layerId: string, visible: boolean) => {
+    onChange({
+      ...side,
+      visibleLayerIds: visible
+        ? [...side.visibleLayerIds, layerId]
+        : side.visibleLayerIds.filter(id => id !== layerId),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1 rounded-lg bg-white p-1 shadow-md">
+      <span className="px-1 text-xs font-medium text-gray-500">{label}</span>
+      {sources.length > 1 && (
+        <Select
+          value={source.id}
+          onValueChange={sourceId => {
+            const next = sources.find(s => s.id === sourceId)!;
+            onChange({ sourceId, visibleLayerIds: getVisibleLayerIds(next.data) });
+          }}
+        >
+          <SelectTrigger className="h-8 w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map(s => (
+              <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Layers">
+            <Layers className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 space-y-1">
+          {source.data.layers.map(layer => (
+            <label key={layer.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={side.visibleLayerIds.includes(layer.id)}
+                onCheckedChange={checked => toggleLayer(layer.id, checked as boolean)}
+              />
+              {layer.name}
+            </label>
+          ))}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+/**
+ * Shows two map states for comparison, either side-by-side with pan and zoom kept in sync
+ * or overlaid with a swipe divider revealing the right-hand map.
+ */
+export function MapCompare({ sources, onClose, className = 'h-full' }: MapCompareProps) {
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [left, setLeft] = useState<CompareSide>(() => ({
+    sourceId: sources[0].id,
+    visibleLayerIds: getVisibleLayerIds(sources[0].data),
+  }));
+  const [right, setRight] = useState<CompareSide>(() => {
+    const source = sources[1] ?? sources[0];
+    return { sourceId: source.id, visibleLayerIds: getVisibleLayerIds(source.data) };
+  });
+  const [leftMap, setLeftMap] = useState<L.Map | null>(null);
+  const [rightMap, setRightMap] = useState<L.Map | null>(null);
+  const [swipeMap, setSwipeMap] = useState<L.Map | null>(null);
+  const [rightPane, setRightPane] = useState<HTMLElement | null>(null);
+  // Fraction of the width showing the left map in swipe mode
+  const [swipePosition, setSwipePosition] = useState(0.5);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const leftSource = sources.find(s => s.id === left.sourceId) ?? sources[0];
+  const rightSource = sources.find(s => s.id === right.sourceId) ?? sources[0];
+  // Opens on the first map's saved view and keeps the current view when switching modes
+  const viewRef = useRef({ center: sources[0].data.center, zoom: sources[0].data.zoom });
+  const view = viewRef.current;
+
+  useEffect(() => {
+    const map = mode === 'swipe' ? swipeMap : leftMap;
+    if (!map) return;
+    const remember = () => {
+      const center = map.getCenter();
+      viewRef.current = { center: [center.lat, center.lng], zoom: map.getZoom() };
+    };
+    map.on('moveend', remember);
+    return () => {
+      map.off('moveend', remember);
+    };
+  }, [mode, leftMap, swipeMap]);
+
+  // Side-by-side: moving either map moves the other
+  useEffect(() => {
+    if (mode !== 'side-by-side' || !leftMap || !rightMap) return;
+
+    let syncing = false;
+    const follow = (from: L.Map, to: L.Map) => () => {
+      if (syncing) return;
+      syncing = true;
+      to.setView(from.getCenter(), from.getZoom(), { animate: false });
+      syncing = false;
+    };
+    const followLeft = follow(leftMap, rightMap);
+    const followRight = follow(rightMap, leftMap);
+    leftMap.on('move', followLeft);
+    rightMap.on('move', followRight);
+    return () => {
+      leftMap.off('move', followLeft);
+      rightMap.off('move', followRight);
+    };
+  }, [mode, leftMap, rightMap]);
+
+  // Swipe: clip the right-hand pane to the area right of the divider
+  useEffect(() => {
+    if (mode !== 'swipe' || !swipeMap || !rightPane) return;
+
+    const clip = () => {
+      const size = swipeMap.getSize();
+      const topLeft = swipeMap.containerPointToLayerPoint([0, 0]);
+      const bottomRight = swipeMap.containerPointToLayerPoint(size);
+      const divider = topLeft.x + size.x * swipePosition;
+      rightPane.style.clip = `rect(${topLeft.y}px, ${bottomRight.x}px, ${bottomRight.y}px, ${divider}px)`;
+    };
+    clip();
+    swipeMap.on('move', clip);
+    return () => {
+      swipeMap.off('move', clip);
+    };
+  }, [mode, swipeMap, rightPane, swipePosition]);
+
+  const handleDividerPointerDown = (event: React.PointerEvent) => {
+    event.preventDefault();
+    const move = (e: PointerEvent) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      setSwipePosition(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    };
+    const stop = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', stop);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', stop);
+  };
+
+  return (
+    <div className={`relative flex flex-col bg-white ${className}`}>
+      <div className="flex flex-wrap items-center gap-2 border-b border-gray-200 p-2">
+        <SideControls label="Left" side={left} sources={sources} onChange={setLeft} />
+        <ToggleGroup
+          type="single"
+          value={mode}
+          onValueChange={value => value && setMode(value as CompareMode)}
+          className="mx-auto"
+        >
+          <ToggleGroupItem value="side-by-side" size="sm" title="Side by side">
+            <Columns2 className="h-4 w-4 mr-1" />
+            Side by side
+          </ToggleGroupItem>
+          <ToggleGroupItem value="swipe" size="sm" title="Swipe">
+            <SplitSquareHorizontal className="h-4 w-4 mr-1" />
+            Swipe
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <SideControls label="Right" side={right} sources={sources} onChange={setRight} />
+        {onClose && (
+          <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClose} title="Exit comparison">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative flex flex-1 min-h-0">
+        {mode === 'side-by-side' ? (
+          <>
+            <div className="relative flex-1 border-r border-gray-300">
+              <MapContainer ref={setLeftMap} center={view.center} zoom={view.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+                <MapDataLayers key={left.sourceId} data={leftSource.data} visibleLayerIds={left.visibleLayerIds} />
+              </MapContainer>
+              <div className="absolute bottom-2 left-2 z-10 rounded bg-white/90 px-2 py-1 text-xs font-medium shadow">
+                {leftSource.label}
+              </div>
+            </div>
+            <div className="relative flex-1">
+              <MapContainer ref={setRightMap} center={view.center} zoom={view.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+                <MapDataLayers key={right.sourceId} data={rightSource.data} visibleLayerIds={right.visibleLayerIds} />
+              </MapContainer>
+              <div className="absolute bottom-2 left-2 z-10 rounded bg-white/90 px-2 py-1 text-xs font-medium shadow">
+                {rightSource.label}
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="relative flex-1">
+            <MapContainer ref={setSwipeMap} center={view.center} zoom={view.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+              <MapDataLayers key={`left-${left.sourceId}`} data={leftSource.data} visibleLayerIds={left.visibleLayerIds} />
+              {/* Above the left map's markers, below popups */}
+              <Pane name={RIGHT_PANE} ref={setRightPane} style={{ zIndex: 620 }}>
+                <MapDataLayers
+                  key={`right-${right.sourceId}`}
+                  data={rightSource.data}
+                  visibleLayerIds={right.visibleLayerIds}
+                  pane={RIGHT_PANE}
+                />
+              </Pane>
+            </MapContainer>
+            <div
+              className="absolute inset-y-0 z-10 w-1 -translate-x-1/2 cursor-ew-resize bg-white shadow-[0_0_4px_rgba(0,0,0,0.5)]"
+              style={{ left: `${swipePosition * 100}%` }}
+              onPointerDown={handleDividerPointerDown}
+            >
+              <div className="absolute top-1/2 left-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border border-gray-300 bg-white shadow">
+                <SplitSquareHorizontal className="h-4 w-4 text-gray-600" />
+              </div>
+            </div>
+            <div className="absolute bottom-2 left-2 z-10 rounded bg-white/90 px-2 py-1 text-xs font-medium shadow">
+              {leftSource.label}
+            </div>
+            <div className="absolute bottom-2 right-2 z-10 rounded bg-white/90 px-2 py-1 text-xs font-medium shadow">
+              {rightSource.label}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
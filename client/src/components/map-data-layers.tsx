@@ -0,0 +1,130 @@
+import { TileLayer, Marker, Popup, Polyline, Polygon, Rectangle, Circle, GeoJSON } from 'react-leaflet';
+import { Annotation, Basemap, MapData } from '@/lib/types';
+import {
+  createTextLabelIcon,
+  getAnnotationPathOptions,
+  getFeaturePopupHtml,
+} from '@/lib/map-utils';
+import { getVectorFeatureStyle } from '@/lib/map-styling';
+import { getTimeFilteredData } from '@/lib/map-time';
+import { resolveBasemapLayers } from '@/lib/basemaps';
+import { useBasemaps } from '@/hooks/use-basemaps';
+import { ImageOverlayLayer } from '@/components/image-overlay-layer';
+import L from 'leaflet';
+
+interface MapDataLayersProps {
+  data: MapData;
+  // Defaults to the layers marked visible in the map data
+  visibleLayerIds?: string[];
+  // When set, these annotations are emphasised and the others faded
+  highlightedAnnotationIds?: string[];
+  // Leaflet pane to draw into, for stacking one map over another
+  pane?: string;
+}
+
+const HIGHLIGHT_COLOR = '#f59e0b';
+const FADED_OPACITY = 0.35;
+
+function renderAnnotation(annotation: Annotation, emphasis: 'normal' | 'highlighted' | 'faded', pane?: string) {
+  const popup = annotation.properties.text ? <Popup>{annotation.properties.text}</Popup> : null;
+  const baseOptions = getAnnotationPathOptions(annotation);
+  const pathOptions: L.PathOptions = {
+    ...baseOptions,
+    pane,
+    ...(emphasis === 'highlighted' ? { color: HIGHLIGHT_COLOR, weight: (baseOptions.weight ?? 3) + 2, opacity: 1 } : {}),
+    ...(emphasis === 'faded' ? { opacity: FADED_OPACITY, fillOpacity: (baseOptions.fillOpacity ?? 0.2) * FADED_OPACITY } : {}),
+  };
+  const markerOpacity = emphasis === 'faded' ? FADED_OPACITY : 1;
+
+  switch (annotation.type) {
+    case 'point':
+      return (
+        <Marker key={annotation.id} position={annotation.coordinates} opacity={markerOpacity} zIndexOffset={emphasis === 'highlighted' ? 1000 : 0} pane={pane}>
+          {popup}
+        </Marker>
+      );
+    case 'text':
+      return <Marker key={annotation.id} position={annotation.coordinates} icon={createTextLabelIcon(annotation)} opacity={markerOpacity} pane={pane} />;
+    case 'line':
+      return <Polyline key={annotation.id} positions={annotation.coordinates} pathOptions={pathOptions}>{popup}</Polyline>;
+    case 'polygon':
+      return <Polygon key={annotation.id} positions={annotation.coordinates} pathOptions={pathOptions}>{popup}</Polygon>;
+    case 'rectangle':
+      return <Rectangle key={annotation.id} bounds={annotation.coordinates} pathOptions={pathOptions}>{popup}</Rectangle>;
+    case 'circle':
+      return (
+        <Circle
+          key={annotation.id}
+          center={annotation.coordinates}
+          radius={annotation.properties.radius ?? 100}
+          pathOptions={pathOptions}
+        >
+          {popup}
+        </Circle>
+      );
+    default:
+      return null;
+  }
+}
+
+export function BasemapTileLayer({ basemap, opacity, pane }: { basemap: Basemap; opacity: number; pane?: string }) {
+  return (
+    <TileLayer
+      url={basemap.urlTemplate}
+      attribution={basemap.attribution}
+      maxZoom={basemap.maxZoom}
+      opacity={opacity}
+      pane={pane}
+      // Leaflet's "abc" default only applies when the option is left out entirely
+      {...(basemap.subdomains ? { subdomains: basemap.subdomains } : {})}
+    />
+  );
+}
+
+// Read-only rendering of a map's basemaps, image overlays, vector layers and annotations, for use inside a MapContainer
+export function MapDataLayers({ data, visibleLayerIds, highlightedAnnotationIds = [], pane }: MapDataLayersProps) {
+  const basemaps = useBasemaps();
+  const layers = data.layers.filter(layer =>
+    visibleLayerIds ? visibleLayerIds.includes(layer.id) : layer.visible
+  );
+  const hasHighlights = highlightedAnnotationIds.length > 0;
+  const basemapLayers = resolveBasemapLayers(data.layers, basemaps, layer => layers.includes(layer));
+
+  return (
+    <>
+      {basemapLayers.map(({ layer, basemap }) => (
+        <BasemapTileLayer key={layer.id} basemap={basemap} opacity={layer.opacity} pane={pane} />
+      ))}
+      {layers
+        .filter(layer => layer.type === 'image' && layer.image)
+        .map(layer => (
+          <ImageOverlayLayer key={layer.id} layer={layer} pane={pane} />
+        ))}
+      {layers
+        .filter(layer => layer.type === 'vector' && layer.data)
+        .map(layer => (
+          <GeoJSON
+            key={`${layer.id}-${layer.style?.mode ?? 'plain'}-${JSON.stringify(layer.popup ?? null)}-${layer.time ? `${data.timeWindow?.start}-${data.timeWindow?.end}` : ''}`}
+            data={getTimeFilteredData(layer, data.timeWindow)}
+            pane={pane}
+            style={feature => getVectorFeatureStyle(layer, feature)}
+            pointToLayer={(feature, latlng) => {
+              const style = getVectorFeatureStyle(layer, feature);
+              return L.circleMarker(latlng, { ...style, radius: style.radius ?? 6, pane });
+            }}
+            onEachFeature={(feature, featureLayer) => {
+              const popupHtml = getFeaturePopupHtml(feature.properties, layer.popup);
+              if (popupHtml) featureLayer.bindPopup(popupHtml);
+            }}
+          />
+        ))}
+      {data.annotations.map(annotation =>
+        renderAnnotation(
+          annotation,
+          !hasHighlights ? 'normal' : highlightedAnnotationIds.includes(annotation.id) ? 'highlighted' : 'faded',
+          pane
+        )
+      )}
+    </>
+  );
+}
@@ -1,32 +1,81 @@
 import { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { MapContainer, Marker, Popup, Polyline, Polygon, Rectangle, Circle, FeatureGroup, GeoJSON, CircleMarker, Tooltip, useMapEvents } from 'react-leaflet';
+import { EditControl } from 'react-leaflet-draw';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Checkbox } from '@/components/ui/checkbox';
-import { ZoomIn, ZoomOut, Home, MousePointer, Hand, MapPin, Save, Download } from 'lucide-react';
-import { MapData, LayerData, Annotation } from '@/lib/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ZoomIn, ZoomOut, Home, MousePointer, Hand, MapPin, Save, Download, Trash2, Spline, Pentagon, Square, Circle as CircleIcon, Type, Upload, Ruler, LandPlot, X, Palette, Table2, Columns2, ImagePlus, Move, Clock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MapAnalysisPanel } from '@/components/map-analysis-panel';
+import { LayerLegend, LayerStylePanel } from '@/components/layer-style-panel';
+import { AttributeTable } from '@/components/attribute-table';
+import { MapCompare, MapCompareSource } from '@/components/map-compare';
+import { ImageCornerHandles, ImageOverlayLayer } from '@/components/image-overlay-layer';
+import { LibraryImage, LibraryImagePicker } from '@/components/library-image-picker';
+import { LayerTimePanel, TimeSlider } from '@/components/time-slider';
+import { MapSearchBox } from '@/components/map-search-box';
+import { BasemapTileLayer } from '@/components/map-data-layers';
+import { useBasemaps } from '@/hooks/use-basemaps';
+import { MapData, Annotation, AnnotationType, ImageCorners, LayerData, LayerStyle, TimeWindow, GeocodeResult } from '@/lib/types';
+import {
+  ANNOTATION_TYPE_LABELS,
+  DEFAULT_ANNOTATION_COLOR,
+  LAYER_COLORS,
+  MAP_LAYER_FILE_ACCEPT,
+  annotationToGeometry,
+  createTextLabelIcon,
+  getAnnotationPathOptions,
+  getAnnotationTypeForDrawLayer,
+  getFeaturePopupHtml,
+  getLayerGeometry,
+  importMapLayerFile,
+} from '@/lib/map-utils';
+import { getVectorFeatureStyle } from '@/lib/map-styling';
+import { exportMap, MapExportFormat } from '@/lib/map-export';
+import { getInitialImageCorners, loadImage } from '@/lib/image-overlay';
+import { getFullTimeWindow, getTimeExtent, getTimeFilteredData } from '@/lib/map-time';
+import { createBasemapLayer, resolveBasemapLayers } from '@/lib/basemaps';
+import { ANALYSIS_OPERATION_LABELS, AnalysisOperation, AnalysisResult, formatMeasurement, measureGeometry } from '@/lib/map-analysis';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import 'leaflet-draw';
+import 'leaflet-draw/dist/leaflet.draw.css';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 
-// Fix Leaflet default icon issue
+// Leaflet looks for its marker images relative to its CSS, which the bundler moves;
+// point it at the bundled copies so markers load without reaching a CDN
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.3.1/images/marker-icon-2x.png',
-  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.3.1/images/marker-icon.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.3.1/images/marker-shadow.png',
+  iconRetinaUrl: markerIcon2x,
+  iconUrl: markerIcon,
+  shadowUrl: markerShadow,
 });
 
 interface MapEditorProps {
   initialData?: MapData;
   onSave?: (data: MapData) => void;
-  onExport?: (data: MapData) => void;
+  // Used as the title of exported snapshots and as the download filename
+  title?: string;
+  // Called with the latest map state whenever the student edits the map
+  onChange?: (data: MapData) => void;
   readOnly?: boolean;
+  // Teacher editing an assignment's starter map: new annotations become prompt markers
+  authoring?: boolean;
+  // Other maps offered in comparison mode alongside this one (e.g. the starter map or another student's map)
+  compareSources?: MapCompareSource[];
+  // Keys of the basemaps that can be chosen (set per assignment); every basemap when unset
+  allowedBasemaps?: string[] | null;
+  className?: string;
 }
 
-const DEFAULT_MAP_DATA: MapData = {
+export const DEFAULT_MAP_DATA: MapData = {
   zoom: 10,
   center: [40.7128, -74.0060], // NYC
   layers: [
@@ -38,22 +87,184 @@ const DEFAULT_MAP_DATA: MapData = {
   annotations: [],
 };
 
-export function MapEditor({ initialData, onSave, onExport, readOnly = false }: MapEditorProps) {
+type DrawTool = 'line' | 'polygon' | 'rectangle' | 'circle';
+
+// Measure tools draw a temporary line or polygon instead of an annotation
+const MEASURE_TOOLS: Record<string, 'line' | 'polygon'> = {
+  'measure-distance': 'line',
+  'measure-area': 'polygon',
+};
+
+const DRAW_SHAPE_OPTIONS: L.PathOptions = {
+  color: DEFAULT_ANNOTATION_COLOR,
+  weight: 3,
+  fillOpacity: 0.2,
+};
+
+const MEASURE_SHAPE_OPTIONS: L.PathOptions = {
+  color: '#f97316',
+  weight: 3,
+  dashArray: '6 6',
+  fillOpacity: 0.1,
+};
+
+interface Measurement {
+  type: 'line' | 'polygon';
+  coordinates: any;
+  lines: string[];
+}
+
+// Starts the leaflet-draw handler for a shape tool
+function createDrawHandler(map: L.Map, tool: DrawTool, shapeOptions: L.PathOptions = DRAW_SHAPE_OPTIONS): L.Draw.Feature {
+  const drawMap = map as L.DrawMap;
+  switch (tool) {
+    case 'line':
+      return new L.Draw.Polyline(drawMap, { shapeOptions });
+    case 'polygon':
+      return new L.Draw.Polygon(drawMap, { shapeOptions, allowIntersection: false });
+    case 'rectangle':
+      // showArea triggers a leaflet-draw 1.0.4 bug for rectangles, so it stays off
+      return new L.Draw.Rectangle(drawMap, { shapeOptions, showArea: false } as L.DrawOptions.RectangleOptions);
+    case 'circle':
+      return new L.Draw.Circle(drawMap, { shapeOptions });
+  }
+}
+
+// Tracks clicks and view changes on the Leaflet map
+function MapEventHandler({
+  onClick,
+  onViewChange,
+}: {
+  onClick: (latlng: L.LatLng) => void;
+  onViewChange: (center: [number, number], zoom: number) => void;
+}) {
+  const map = useMapEvents({
+    click: (e) => onClick(e.latlng),
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange([center.lat, center.lng], map.getZoom());
+    },
+  });
+  return null;
+}
+
+export function MapEditor({ initialData, onSave, onChange, readOnly = false, authoring = false, compareSources = [], allowedBasemaps, title = 'My Map', className = 'h-screen' }: MapEditorProps) {
   const [mapData, setMapData] = useState<MapData>(initialData || DEFAULT_MAP_DATA);
   const [selectedTool, setSelectedTool] = useState<string>('select');
-  const [markers, setMarkers] = useState<Array<{ id: string; position: [number, number]; name: string }>>([]);
-  const mapRef = useRef<any>(null);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const [stylingLayerId, setStylingLayerId] = useState<string | null>(null);
+  const [tableLayerId, setTableLayerId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isPickingImage, setIsPickingImage] = useState(false);
+  // Image layer whose corner control points are shown for alignment
+  const [aligningLayerId, setAligningLayerId] = useState<string | null>(null);
+  // Layer whose date attribute settings are open in the Layers card
+  const [timeLayerId, setTimeLayerId] = useState<string | null>(null);
+  // Place picked in the search box, marked on the map until the search is cleared
+  const [searchResult, setSearchResult] = useState<GeocodeResult | null>(null);
+  // Feature picked on the map or in the attribute table, by index into the layer's features
+  const [selectedFeature, setSelectedFeature] = useState<{ layerId: string; index: number } | null>(null);
+  const { toast } = useToast();
+  const basemaps = useBasemaps(allowedBasemaps);
+  const layerFileInputRef = useRef<HTMLInputElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const featureGroupRef = useRef<L.FeatureGroup | null>(null);
+  const drawHandlerRef = useRef<L.Draw.Feature | null>(null);
+  // Leaflet layer id -> annotation id, so leaflet-draw edit/delete events can be mapped back
+  const layerAnnotationIds = useRef(new Map<number, string>());
+  const homeView = useRef({ center: mapData.center, zoom: mapData.zoom });
+  const isFirstRender = useRef(true);
+
+  const selectedAnnotation = mapData.annotations.find(a => a.id === selectedAnnotationId) || null;
+  // Prompt markers are fixed for students; only the teacher authoring the starter map can change them
+  const isLocked = (annotation: Annotation) => readOnly || (!!annotation.properties.prompt && !authoring);
+
+  useEffect(() => {
+    // Skip the initial state so loading a saved map doesn't mark it as edited
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    if (onChange && !readOnly) {
+      onChange(mapData);
+    }
+  }, [mapData]);
+
+  useEffect(() => {
+    return () => {
+      drawHandlerRef.current?.disable();
+    };
+  }, []);
+
+  // Opening or closing the attribute table or time slider resizes the map container
+  const hasTimeLayers = mapData.layers.some(layer => layer.visible && layer.time && layer.data);
+  useEffect(() => {
+    mapRef.current?.invalidateSize();
+  }, [tableLayerId, hasTimeLayers]);
 
   const tools = [
     { id: 'select', name: 'Select', icon: MousePointer },
     { id: 'pan', name: 'Pan', icon: Hand },
     { id: 'point', name: 'Point', icon: MapPin },
+    { id: 'line', name: 'Line', icon: Spline },
+    { id: 'polygon', name: 'Polygon', icon: Pentagon },
+    { id: 'rectangle', name: 'Rectangle', icon: Square },
+    { id: 'circle', name: 'Circle', icon: CircleIcon },
+    { id: 'text', name: 'Text label', icon: Type },
+    { id: 'measure-distance', name: 'Measure distance', icon: Ruler },
+    { id: 'measure-area', name: 'Measure area', icon: LandPlot },
   ];
 
   const handleToolSelect = (toolId: string) => {
+    drawHandlerRef.current?.disable();
+    drawHandlerRef.current = null;
+
+    if (mapRef.current && ['line', 'polygon', 'rectangle', 'circle'].includes(toolId)) {
+      const handler = createDrawHandler(mapRef.current, toolId as DrawTool);
+      handler.enable();
+      drawHandlerRef.current = handler;
+    } else if (mapRef.current && MEASURE_TOOLS[toolId]) {
+      const handler = createDrawHandler(mapRef.current, MEASURE_TOOLS[toolId], MEASURE_SHAPE_OPTIONS);
+      handler.enable();
+      drawHandlerRef.current = handler;
+    }
     setSelectedTool(toolId);
   };
 
+  const addAnnotation = (type: AnnotationType, coordinates: any, properties: Annotation['properties'] = {}) => {
+    const annotation: Annotation = {
+      id: `${type}-${Date.now()}`,
+      type,
+      coordinates,
+      properties: { color: DEFAULT_ANNOTATION_COLOR, ...properties, ...(authoring ? { prompt: true } : {}) },
+    };
+    setMapData(prev => {
+      const typeCount = prev.annotations.filter(a => a.type === type).length;
+      const text = annotation.properties.text || `${ANNOTATION_TYPE_LABELS[type]} ${typeCount + 1}`;
+      return {
+        ...prev,
+        annotations: [...prev.annotations, { ...annotation, properties: { ...annotation.properties, text } }],
+      };
+    });
+    setSelectedAnnotationId(annotation.id);
+  };
+
+  const updateAnnotation = (annotationId: string, changes: Partial<Annotation>) => {
+    setMapData(prev => ({
+      ...prev,
+      annotations: prev.annotations.map(a =>
+        a.id === annotationId ? { ...a, ...changes, properties: { ...a.properties, ...changes.properties } } : a
+      ),
+    }));
+  };
+
+  const updateAnnotationProperties = (annotationId: string, properties: Annotation['properties']) => {
+    updateAnnotation(annotationId, { properties });
+  };
+
   const handleLayerToggle = (layerId: string, visible: boolean) => {
     setMapData(prev => ({
       ...prev,
@@ -72,6 +283,189 @@ export function MapEditor({ initialData, onSave, onExport, readOnly = false }: M
     }));
   };
 
+  // Shows the chosen basemap in place of the others; its tile layer is added the first time it's picked
+  const handleBasemapChange = (key: string) => {
+    const basemap = basemaps.find(b => b.key === key);
+    if (!basemap) return;
+    setMapData(prev => {
+      const layers = prev.layers.map(layer =>
+        layer.type === 'tile' ? { ...layer, visible: layer.id === key } : layer
+      );
+      return {
+        ...prev,
+        layers: layers.some(layer => layer.id === key) ? layers : [createBasemapLayer(basemap), ...layers],
+      };
+    });
+  };
+
+  const handleLayerStyle = (layerId: string, style: LayerStyle | undefined) => {
+    setMapData(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer =>
+        layer.id === layerId ? { ...layer, style } : layer
+      ),
+    }));
+  };
+
+  const handleLayerPopup = (layerId: string, popup: LayerData['popup']) => {
+    setMapData(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer =>
+        layer.id === layerId ? { ...layer, popup } : layer
+      ),
+    }));
+  };
+
+  const handleLayerTime = (layerId: string, time: LayerData['time']) => {
+    setMapData(prev => {
+      const layers = prev.layers.map(layer =>
+        layer.id === layerId ? { ...layer, time } : layer
+      );
+      // The first time-enabled layer starts with every date shown
+      const extent = getTimeExtent(layers);
+      return {
+        ...prev,
+        layers,
+        timeWindow: !extent ? undefined : prev.timeWindow ?? getFullTimeWindow(extent),
+      };
+    });
+  };
+
+  const handleTimeWindow = (timeWindow: TimeWindow) => {
+    setMapData(prev => ({ ...prev, timeWindow }));
+  };
+
+  const handleSelectFeature = (layerId: string, index: number, zoomTo = false) => {
+    setSelectedFeature({ layerId, index });
+    // Clicking a feature on the map switches an open table to that feature's layer
+    setTableLayerId(current => (current ? layerId : current));
+
+    const feature = mapData.layers.find(l => l.id === layerId)?.data?.features?.[index];
+    if (!zoomTo || !feature || !mapRef.current) return;
+    const bounds = L.geoJSON(feature).getBounds();
+    if (!bounds.isValid()) return;
+    if (bounds.getNorthEast().equals(bounds.getSouthWest())) {
+      mapRef.current.panTo(bounds.getCenter());
+    } else {
+      mapRef.current.fitBounds(bounds, { padding: [40, 40], maxZoom: mapRef.current.getZoom() + 2 });
+    }
+  };
+
+  const handleLayerFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importMapLayerFile(file);
+      const importedCount = mapData.layers.filter(l => l.source).length;
+      const layer: LayerData = {
+        id: `layer-${Date.now()}`,
+        name: result.layer.name,
+        type: 'vector',
+        visible: true,
+        opacity: 0.8,
+        color: LAYER_COLORS[importedCount % LAYER_COLORS.length],
+        data: result.layer.data,
+        source: {
+          originalName: result.file.originalName,
+          url: result.file.url,
+          format: result.layer.format,
+        },
+      };
+      setMapData(prev => ({ ...prev, layers: [...prev.layers, layer] }));
+
+      const bounds = L.geoJSON(result.layer.data).getBounds();
+      if (mapRef.current && bounds.isValid()) {
+        mapRef.current.fitBounds(bounds, { padding: [20, 20] });
+      }
+
+      toast({
+        title: "Layer imported",
+        description: [`${result.layer.featureCount} feature(s) added from ${result.file.originalName}.`, ...result.layer.warnings].join(' '),
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import map layer.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleSaveAnalysisResult = (result: AnalysisResult) => {
+    const layer: LayerData = {
+      id: `layer-${Date.now()}`,
+      name: result.title,
+      type: 'vector',
+      visible: true,
+      opacity: 0.8,
+      color: LAYER_COLORS[mapData.layers.filter(l => l.data).length % LAYER_COLORS.length],
+      data: result.collection,
+      analysis: result.operation,
+    };
+    setMapData(prev => ({ ...prev, layers: [...prev.layers, layer] }));
+  };
+
+  const handleAddImageOverlay = async (file: LibraryImage) => {
+    setIsPickingImage(false);
+    if (!mapRef.current) return;
+
+    try {
+      const image = await loadImage(file.url);
+      const layer: LayerData = {
+        id: `layer-${Date.now()}`,
+        name: file.originalName,
+        type: 'image',
+        visible: true,
+        // Partly transparent so the basemap shows through while aligning
+        opacity: 0.7,
+        image: {
+          fileId: file.id,
+          originalName: file.originalName,
+          url: file.url,
+          corners: getInitialImageCorners(mapRef.current, image.naturalWidth, image.naturalHeight),
+        },
+      };
+      setMapData(prev => ({ ...prev, layers: [...prev.layers, layer] }));
+      setAligningLayerId(layer.id);
+    } catch (error) {
+      toast({
+        title: "Image could not be added",
+        description: error instanceof Error ? error.message : "Failed to load the image.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImageCorners = (layerId: string, corners: ImageCorners) => {
+    setMapData(prev => ({
+      ...prev,
+      layers: prev.layers.map(layer =>
+        layer.id === layerId && layer.image ? { ...layer, image: { ...layer.image, corners } } : layer
+      ),
+    }));
+  };
+
+  const handleRemoveLayer = (layerId: string) => {
+    setMapData(prev => ({
+      ...prev,
+      layers: prev.layers.filter(layer => layer.id !== layerId),
+    }));
+    if (tableLayerId === layerId) setTableLayerId(null);
+    if (selectedFeature?.layerId === layerId) setSelectedFeature(null);
+    if (aligningLayerId === layerId) setAligningLayerId(null);
+    if (timeLayerId === layerId) setTimeLayerId(null);
+  };
+
+  const handleSearchSelect = (result: GeocodeResult) => {
+    setSearchResult(result);
+    mapRef.current?.flyTo([result.latitude, result.longitude], result.zoom);
+  };
+
   const handleZoomIn = () => {
     if (mapRef.current) {
       mapRef.current.zoomIn();
@@ -86,177 +480,544 @@ export function MapEditor({ initialData, onSave, onExport, readOnly = false }: M
 
   const handleZoomToExtent = () => {
     if (mapRef.current) {
-      mapRef.current.setView(DEFAULT_MAP_DATA.center, DEFAULT_MAP_DATA.zoom);
+      mapRef.current.setView(homeView.current.center, homeView.current.zoom);
     }
   };
 
-  const handleMapClick = (e: any) => {
+  const handleViewChange = (center: [number, number], zoom: number) => {
+    if (readOnly) return;
+    setMapData(prev => ({ ...prev, center, zoom }));
+  };
+
+  const handleMapClick = (latlng: L.LatLng) => {
+    if (readOnly) return;
+
     if (selectedTool === 'point') {
-      const newMarker = {
-        id: `marker-${Date.now()}`,
-        position: [e.latlng.lat, e.latlng.lng] as [number, number],
-        name: `Point ${markers.length + 1}`
-      };
-      setMarkers(prev => [...prev, newMarker]);
+      addAnnotation('point', [latlng.lat, latlng.lng]);
+    } else if (selectedTool === 'text') {
+      addAnnotation('text', [latlng.lat, latlng.lng], { color: '#1e293b', fontSize: 14 });
+      setSelectedTool('select');
+    }
+  };
+
+  const handleDrawCreated = (e: L.DrawEvents.Created) => {
+    // leaflet-draw adds the new layer to the feature group; it's rendered from state instead
+    featureGroupRef.current?.removeLayer(e.layer);
+    drawHandlerRef.current = null;
+
+    const measureType = MEASURE_TOOLS[selectedTool];
+    if (measureType) {
+      const { coordinates } = getLayerGeometry(measureType, e.layer);
+      const geometry = annotationToGeometry({ id: 'measurement', type: measureType, coordinates, properties: {} });
+      setMeasurement({ type: measureType, coordinates, lines: formatMeasurement(measureGeometry(geometry)) });
+      setSelectedTool('select');
+      return;
+    }
+
+    const type = getAnnotationTypeForDrawLayer(e.layerType);
+    if (!type) return;
+
+    const { coordinates, radius } = getLayerGeometry(type, e.layer);
+    addAnnotation(type, coordinates, radius !== undefined ? { radius } : {});
+    setSelectedTool('select');
+  };
+
+  const handleDrawEdited = (e: L.DrawEvents.Edited) => {
+    e.layers.eachLayer(layer => {
+      const annotationId = layerAnnotationIds.current.get(L.stamp(layer));
+      const annotation = mapData.annotations.find(a => a.id === annotationId);
+      if (!annotation) return;
+
+      const { coordinates, radius } = getLayerGeometry(annotation.type, layer);
+      updateAnnotation(annotation.id, {
+        coordinates,
+        properties: radius !== undefined ? { radius } : {},
+      });
+    });
+  };
+
+  const handleDrawDeleted = (e: L.DrawEvents.Deleted) => {
+    const deletedIds = new Set<string>();
+    e.layers.eachLayer(layer => {
+      const annotationId = layerAnnotationIds.current.get(L.stamp(layer));
+      if (annotationId) deletedIds.add(annotationId);
+    });
+    setMapData(prev => ({
+      ...prev,
+      annotations: prev.annotations.filter(a => !deletedIds.has(a.id)),
+    }));
+  };
+
+  // leaflet-draw keeps the callbacks it was first given, so route its events through the latest handlers
+  const drawEventHandlers = useRef({ handleDrawCreated, handleDrawEdited, handleDrawDeleted });
+  drawEventHandlers.current = { handleDrawCreated, handleDrawEdited, handleDrawDeleted };
+  const stableDrawEvents = useRef({
+    onCreated: (e: L.DrawEvents.Created) => drawEventHandlers.current.handleDrawCreated(e),
+    onEdited: (e: L.DrawEvents.Edited) => drawEventHandlers.current.handleDrawEdited(e),
+    onDeleted: (e: L.DrawEvents.Deleted) => drawEventHandlers.current.handleDrawDeleted(e),
+  }).current;
+
+  const handleSaveMeasurement = () => {
+    if (!measurement) return;
+    addAnnotation(measurement.type, measurement.coordinates, { text: measurement.lines.join(' · ') });
+    setMeasurement(null);
+  };
+
+  const handleRemoveAnnotation = (annotationId: string) => {
+    setMapData(prev => ({
+      ...prev,
+      annotations: prev.annotations.filter(a => a.id !== annotationId),
+    }));
+    if (selectedAnnotationId === annotationId) {
+      setSelectedAnnotationId(null);
     }
   };
 
   const handleSave = () => {
     if (onSave) {
-      const updatedMapData = {
-        ...mapData,
-        annotations: markers.map(marker => ({
-          id: marker.id,
-          type: 'point' as const,
-          coordinates: marker.position,
-          properties: {
-            text: marker.name,
-            color: '#3388ff'
-          }
-        }))
-      };
-      onSave(updatedMapData);
+      onSave(mapData);
     }
   };
 
-  const handleExport = () => {
-    if (onExport) {
-      const updatedMapData = {
-        ...mapData,
-        annotations: markers.map(marker => ({
-          id: marker.id,
-          type: 'point' as const,
-          coordinates: marker.position,
-          properties: {
-            text: marker.name,
-            color: '#3388ff'
-          }
-        }))
-      };
-      onExport(updatedMapData);
+  const handleExport = async (format: MapExportFormat) => {
+    if (!mapRef.current) return;
+
+    setIsExporting(true);
+    try {
+      await exportMap(format, mapRef.current, mapData, title, basemaps);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export map.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const registerLayer = (annotationId: string) => (layer: L.Layer | null) => {
+    if (layer) {
+      layerAnnotationIds.current.set(L.stamp(layer), annotationId);
+    }
+  };
+
+  const renderAnnotation = (annotation: Annotation) => {
+    const common = {
+      ref: registerLayer(annotation.id),
+      eventHandlers: {
+        click: () => setSelectedAnnotationId(annotation.id),
+      },
+    };
+    const popup = annotation.properties.text ? <Popup>{annotation.properties.text}</Popup> : null;
+    const pathOptions = getAnnotationPathOptions(annotation);
+
+    switch (annotation.type) {
+      case 'point':
+        return (
+          <Marker key={annotation.id} position={annotation.coordinates} {...common}>
+            {popup}
+          </Marker>
+        );
+      case 'text':
+        return (
+          <Marker
+            key={annotation.id}
+            position={annotation.coordinates}
+            icon={createTextLabelIcon(annotation)}
+            {...common}
+          />
+        );
+      case 'line':
+        return (
+          <Polyline key={annotation.id} positions={annotation.coordinates} pathOptions={pathOptions} {...common}>
+            {popup}
+          </Polyline>
+        );
+      case 'polygon':
+        return (
+          <Polygon key={annotation.id} positions={annotation.coordinates} pathOptions={pathOptions} {...common}>
+            {popup}
+          </Polygon>
+        );
+      case 'rectangle':
+        return (
+          <Rectangle key={annotation.id} bounds={annotation.coordinates} pathOptions={pathOptions} {...common}>
+            {popup}
+          </Rectangle>
+        );
+      case 'circle':
+        return (
+          <Circle
+            key={annotation.id}
+            center={annotation.coordinates}
+            radius={annotation.properties.radius ?? 100}
+            pathOptions={pathOptions}
+            {...common}
+          >
+            {popup}
+          </Circle>
+        );
+      default:
+        return null;
     }
   };
 
-  const streetLayer = mapData.layers.find(l => l.id === 'streets');
-  const satelliteLayer = mapData.layers.find(l => l.id === 'satellite');
+  const basemapLayers = resolveBasemapLayers(mapData.layers, basemaps);
+  // Tile layers whose basemap was removed from the registry or isn't allowed here aren't offered
+  const listedLayers = mapData.layers.filter(layer => layer.type !== 'tile' || basemaps.some(b => b.key === layer.id));
+  const tableLayer = mapData.layers.find(l => l.id === tableLayerId && l.data) || null;
+  const selectedFeatureData = selectedFeature
+    ? mapData.layers.find(l => l.id === selectedFeature.layerId && l.visible)?.data?.features?.[selectedFeature.index]
+    : null;
+  const aligningLayer = readOnly ? null : mapData.layers.find(l => l.id === aligningLayerId && l.image && l.visible) || null;
+
+  const isShape = selectedAnnotation && ['line', 'polygon', 'rectangle', 'circle'].includes(selectedAnnotation.type);
+  const hasFill = selectedAnnotation && ['polygon', 'rectangle', 'circle'].includes(selectedAnnotation.type);
 
   return (
-    <div className="flex h-screen w-full">
+    <div className={`flex w-full ${className}`}>
       {/* Map Area */}
-      <div className="flex-1 relative">
-        <MapContainer
-          ref={mapRef}
-          center={mapData.center}
-          zoom={mapData.zoom}
-          style={{ height: '100%', width: '100%' }}
-          className="z-0"
-          whenReady={() => {
-            // Handle map ready
-          }}
-        >
-          {streetLayer?.visible && (
-            <TileLayer
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              opacity={streetLayer.opacity}
-            />
-          )}
-          {satelliteLayer?.visible && (
-            <TileLayer
-              url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-              attribution='&copy; <a href="https://www.esri.com/">Esri</a>'
-              opacity={satelliteLayer.opacity}
-            />
-          )}
-          
-          {markers.map(marker => (
-            <Marker key={marker.id} position={marker.position}>
-              <Popup>{marker.name}</Popup>
-            </Marker>
-          ))}
-        </MapContainer>
-
-        {/* Map Controls */}
-        <div className="absolute top-4 left-4 z-10 flex flex-col gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleZoomIn}
-            className="bg-white hover:bg-gray-50"
-          >
-            <ZoomIn className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleZoomOut}
-            className="bg-white hover:bg-gray-50"
+      <div className="flex-1 flex flex-col min-w-0 relative">
+        <div className="flex-1 relative min-h-0">
+          <MapContainer
+            ref={mapRef}
+            center={mapData.center}
+            zoom={mapData.zoom}
+            zoomControl={false}
+            style={{ height: '100%', width: '100%' }}
+            className="z-0"
           >
-            <ZoomOut className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={handleZoomToExtent}
-            className="bg-white hover:bg-gray-50"
-          >
-            <Home className="h-4 w-4" />
-          </Button>
-        </div>
+            <MapEventHandler onClick={handleMapClick} onViewChange={handleViewChange} />
 
-        {/* Tools */}
-        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10">
-          <div className="flex gap-1 bg-white rounded-lg p-1 shadow-md">
-            {tools.map(tool => (
-              <Button
-                key={tool.id}
-                variant={selectedTool === tool.id ? "default" : "outline"}
-                size="sm"
-                onClick={() => handleToolSelect(tool.id)}
-                disabled={readOnly}
-              >
-                <tool.icon className="h-4 w-4" />
-              </Button>
+            {basemapLayers.map(({ layer, basemap }) => (
+              <BasemapTileLayer key={layer.id} basemap={basemap} opacity={layer.opacity} />
             ))}
+
+            {mapData.layers
+              .filter(layer => layer.type === 'image' && layer.visible && layer.image)
+              .map(layer => (
+                <ImageOverlayLayer key={layer.id} layer={layer} />
+              ))}
+            {aligningLayer && (
+              <ImageCornerHandles
+                corners={aligningLayer.image!.corners}
+                onChange={corners => handleImageCorners(aligningLayer.id, corners)}
+              />
+            )}
+
+            {mapData.layers
+              .filter(layer => layer.type === 'vector' && layer.visible && layer.data)
+              .map(layer => (
+                <GeoJSON
+                  // Remount when marker sizes, popup settings or the shown dates change, since all are set when features are added
+                  key={`${layer.id}-${layer.style?.mode ?? 'plain'}-${JSON.stringify(layer.popup ?? null)}-${layer.time ? `${mapData.timeWindow?.start}-${mapData.timeWindow?.end}` : ''}`}
+                  data={getTimeFilteredData(layer, mapData.timeWindow)}
+                  style={feature => getVectorFeatureStyle(layer, feature)}
+                  pointToLayer={(feature, latlng) => {
+                    const style = getVectorFeatureStyle(layer, feature);
+                    return L.circleMarker(latlng, { ...style, radius: style.radius ?? 6 });
+                  }}
+                  onEachFeature={(feature, featureLayer) => {
+                    const popupHtml = getFeaturePopupHtml(feature.properties, layer.popup);
+                    if (popupHtml) featureLayer.bindPopup(popupHtml);
+                    featureLayer.on('click', () => handleSelectFeature(layer.id, layer.data.features.indexOf(feature)));
+                  }}
+                />
+              ))}
+
+            {searchResult && (
+              <CircleMarker
+                key={searchResult.id}
+                center={[searchResult.latitude, searchResult.longitude]}
+                radius={8}
+                interactive={false}
+                pathOptions={{ color: '#ffffff', weight: 3, fillColor: '#dc2626', fillOpacity: 1 }}
+              >
+                <Tooltip permanent direction="top" offset={[0, -8]}>{searchResult.label}</Tooltip>
+              </CircleMarker>
+            )}
+
+            {selectedFeatureData && (
+              <GeoJSON
+                key={`selected-${selectedFeature!.layerId}-${selectedFeature!.index}`}
+                data={selectedFeatureData}
+                interactive={false}
+                style={() => ({ color: '#facc15', weight: 5, opacity: 1, fillOpacity: 0 })}
+                pointToLayer={(_feature, latlng) =>
+                  L.circleMarker(latlng, { radius: 12, color: '#facc15', weight: 4, fillOpacity: 0, interactive: false })
+                }
+              />
+            )}
+
+            <FeatureGroup ref={featureGroupRef}>
+              {!readOnly && (
+                <EditControl
+                  position="bottomleft"
+                  onCreated={stableDrawEvents.onCreated}
+                  onEdited={stableDrawEvents.onEdited}
+                  onDeleted={stableDrawEvents.onDeleted}
+                  draw={{
+                    polyline: false,
+                    polygon: false,
+                    rectangle: false,
+                    circle: false,
+                    marker: false,
+                    circlemarker: false,
+                  }}
+                />
+              )}
+              {mapData.annotations.filter(a => !isLocked(a)).map(renderAnnotation)}
+            </FeatureGroup>
+            {mapData.annotations.filter(isLocked).map(renderAnnotation)}
+
+            {measurement?.type === 'line' && (
+              <Polyline positions={measurement.coordinates} pathOptions={MEASURE_SHAPE_OPTIONS} />
+            )}
+            {measurement?.type === 'polygon' && (
+              <Polygon positions={measurement.coordinates} pathOptions={MEASURE_SHAPE_OPTIONS} />
+            )}
+          </MapContainer>
+
+          {/* Map Controls */}
+          <div className="absolute top-4 left-4 z-10 flex flex-col gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleZoomIn}
+              className="bg-white hover:bg-gray-50"
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleZoomOut}
+              className="bg-white hover:bg-gray-50"
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleZoomToExtent}
+              className="bg-white hover:bg-gray-50"
+            >
+              <Home className="h-4 w-4" />
+            </Button>
           </div>
-        </div>
 
-        {/* Action Buttons */}
-        {!readOnly && (
+          {/* Tools */}
+          {!readOnly && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10">
+              <div className="flex gap-1 bg-white rounded-lg p-1 shadow-md">
+                {tools.map(tool => (
+                  <Button
+                    key={tool.id}
+                    type="button"
+                    variant={selectedTool === tool.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleToolSelect(tool.id)}
+                    title={tool.name}
+                  >
+                    <tool.icon className="h-4 w-4" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Action Buttons */}
           <div className="absolute top-4 right-4 z-10 flex gap-2">
-            <Button onClick={handleSave} className="bg-green-600 hover:bg-green-700">
-              <Save className="h-4 w-4 mr-2" />
-              Save
-            </Button>
-            <Button onClick={handleExport} variant="outline" className="bg-white">
-              <Download className="h-4 w-4 mr-2" />
-              Export
+            {onSave && !readOnly && (
+              <Button type="button" onClick={handleSave} className="bg-green-600 hover:bg-green-700">
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            )}
+            <Button type="button" variant="outline" className="bg-white" onClick={() => setIsComparing(true)}>
+              <Columns2 className="h-4 w-4 mr-2" />
+              Compare
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" className="bg-white" disabled={isExporting}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('geojson')}>GeoJSON (.geojson)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('kml')}>KML (.kml)</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => handleExport('png')}>Image snapshot (.png)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('pdf')}>PDF snapshot (.pdf)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {hasTimeLayers && (
+          <TimeSlider layers={mapData.layers} timeWindow={mapData.timeWindow} onChange={handleTimeWindow} />
+        )}
+
+        {tableLayer && (
+          <AttributeTable
+            key={tableLayer.id}
+            layer={tableLayer}
+            selectedIndex={selectedFeature?.layerId === tableLayer.id ? selectedFeature.index : null}
+            onSelect={(index) => handleSelectFeature(tableLayer.id, index, true)}
+            onClose={() => setTableLayerId(null)}
+            onPopupChange={readOnly ? undefined : (popup) => handleLayerPopup(tableLayer.id, popup)}
+          />
+        )}
+
+        {isComparing && (
+          <div className="absolute inset-0 z-20">
+            <MapCompare
+              sources={[{ id: 'current', label: readOnly ? title : 'My map', data: mapData }, ...compareSources]}
+              onClose={() => setIsComparing(false)}
+            />
           </div>
         )}
       </div>
 
       {/* Layers Panel */}
       <div className="w-80 bg-white border-l border-gray-200 overflow-y-auto">
+        <div className="border-b border-gray-200 p-4">
+          <MapSearchBox onSelect={handleSearchSelect} onClear={() => setSearchResult(null)} />
+        </div>
         <Card className="border-0 rounded-none">
           <CardHeader>
             <CardTitle>Map Layers</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {mapData.layers.map(layer => (
+            {basemaps.length > 1 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-500">Basemap</Label>
+                <Select value={basemapLayers[0]?.basemap.key ?? ''} onValueChange={handleBasemapChange}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="No basemap" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {basemaps.map(basemap => (
+                      <SelectItem key={basemap.key} value={basemap.key}>{basemap.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {listedLayers.map(layer => (
               <div key={layer.id} className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label htmlFor={`layer-${layer.id}`} className="text-sm font-medium">
                     {layer.name}
                   </Label>
-                  <Checkbox
-                    id={`layer-${layer.id}`}
-                    checked={layer.visible}
-                    onCheckedChange={(checked) => 
-                      handleLayerToggle(layer.id, checked as boolean)
-                    }
-                  />
+                  <div className="flex items-center gap-2">
+                    {layer.data && (
+                      <Button
+                        type="button"
+                        variant={tableLayerId === layer.id ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setTableLayerId(tableLayerId === layer.id ? null : layer.id)}
+                        className="h-6 w-6 p-0"
+                        title="Attribute table"
+                      >
+                        <Table2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {layer.data && !readOnly && (
+                      <Button
+                        type="button"
+                        variant={stylingLayerId === layer.id ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setStylingLayerId(stylingLayerId === layer.id ? null : layer.id)}
+                        className="h-6 w-6 p-0"
+                        title="Style by attribute"
+                      >
+                        <Palette className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {layer.data && !readOnly && (
+                      <Button
+                        type="button"
+                        variant={timeLayerId === layer.id ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setTimeLayerId(timeLayerId === layer.id ? null : layer.id)}
+                        className="h-6 w-6 p-0"
+                        title="Time settings"
+                      >
+                        <Clock className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {layer.image && !readOnly && (
+                      <Button
+                        type="button"
+                        variant={aligningLayerId === layer.id ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setAligningLayerId(aligningLayerId === layer.id ? null : layer.id)}
+                        className="h-6 w-6 p-0"
+                        title="Align image corners"
+                      >
+                        <Move className="h-3 w-3" />
+                      </Button>
+                    )}
+                    {(layer.source || layer.analysis || layer.image) && !readOnly && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveLayer(layer.id)}
+                        className="h-6 w-6 p-0"
+                        title="Remove layer"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Checkbox
+                      id={`layer-${layer.id}`}
+                      checked={layer.visible}
+                      onCheckedChange={(checked) =>
+                        handleLayerToggle(layer.id, checked as boolean)
+                      }
+                    />
+                  </div>
                 </div>
+                {layer.source && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: layer.color }} />
+                    {layer.data?.features?.length ?? 0} features · {layer.source.format.toUpperCase()}
+                  </div>
+                )}
+                {layer.analysis && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: layer.color }} />
+                    {layer.data?.features?.length ?? 0} features · {ANALYSIS_OPERATION_LABELS[layer.analysis as AnalysisOperation] ?? 'Analysis'} result
+                  </div>
+                )}
+                {layer.image && (
+                  <div className="text-xs text-gray-500">
+                    {aligningLayerId === layer.id && !readOnly
+                      ? 'Drag the corner points to line the image up with the map; drag the square to move it.'
+                      : `Image overlay · ${layer.image.originalName}`}
+                  </div>
+                )}
+                {layer.time && timeLayerId !== layer.id && (
+                  <div className="flex items-center gap-1 text-xs text-gray-500">
+                    <Clock className="h-3 w-3" />
+                    Time-enabled by {layer.time.field}
+                  </div>
+                )}
+                {timeLayerId === layer.id && !readOnly && (
+                  <LayerTimePanel layer={layer} onChange={(time) => handleLayerTime(layer.id, time)} />
+                )}
+                {stylingLayerId === layer.id && !readOnly && (
+                  <LayerStylePanel layer={layer} onChange={(style) => handleLayerStyle(layer.id, style)} />
+                )}
+                {layer.style && layer.visible && <LayerLegend style={layer.style} />}
                 {layer.visible && (
                   <div className="space-y-1">
                     <Label className="text-xs text-gray-500">
@@ -264,7 +1025,7 @@ export function MapEditor({ initialData, onSave, onExport, readOnly = false }: M
                     </Label>
                     <Slider
                       value={[layer.opacity * 100]}
-                      onValueChange={([value]) => 
+                      onValueChange={([value]) =>
                         handleLayerOpacity(layer.id, value)
                       }
                       max={100}
@@ -275,27 +1036,254 @@ export function MapEditor({ initialData, onSave, onExport, readOnly = false }: M
                 )}
               </div>
             ))}
+
+            {!readOnly && (
+              <>
+                <input
+                  ref={layerFileInputRef}
+                  type="file"
+                  accept={MAP_LAYER_FILE_ACCEPT}
+                  onChange={handleLayerFileSelected}
+                  className="hidden"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={isImporting}
+                  onClick={() => layerFileInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {isImporting ? 'Importing...' : 'Import Layer'}
+                </Button>
+                <p className="text-xs text-gray-500">
+                  GeoJSON, KML, KMZ, zipped shapefile, or CSV with latitude/longitude columns.
+                </p>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setIsPickingImage(true)}
+                >
+                  <ImagePlus className="h-4 w-4 mr-2" />
+                  Add Image Overlay
+                </Button>
+                <LibraryImagePicker
+                  open={isPickingImage}
+                  onOpenChange={setIsPickingImage}
+                  onSelect={handleAddImageOverlay}
+                />
+              </>
+            )}
           </CardContent>
         </Card>
 
-        {markers.length > 0 && (
+        {measurement && (
+          <Card className="border-0 rounded-none border-t">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Ruler className="h-4 w-4" />
+                  Measurement
+                </CardTitle>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setMeasurement(null)}
+                  className="h-6 w-6 p-0"
+                  title="Clear measurement"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {measurement.lines.map(line => (
+                <div key={line} className="text-sm">{line}</div>
+              ))}
+              {!readOnly && (
+                <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleSaveMeasurement}>
+                  Save as annotation
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {mapData.annotations.length > 0 && (
           <Card className="border-0 rounded-none border-t">
             <CardHeader>
               <CardTitle>Annotations</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
-              {markers.map(marker => (
-                <div key={marker.id} className="p-2 bg-gray-50 rounded text-sm">
-                  <div className="font-medium">{marker.name}</div>
-                  <div className="text-gray-500 text-xs">
-                    {marker.position[0].toFixed(4)}, {marker.position[1].toFixed(4)}
+              {mapData.annotations.map(annotation => (
+                <div
+                  key={annotation.id}
+                  onClick={() => setSelectedAnnotationId(annotation.id)}
+                  className={`flex items-start justify-between p-2 rounded text-sm cursor-pointer ${
+                    annotation.id === selectedAnnotationId ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium">
+                      {annotation.properties.text}
+                      {annotation.properties.prompt && (
+                        <span className="ml-2 text-xs font-normal text-amber-700">Prompt</span>
+                      )}
+                    </div>
+                    <div className="text-gray-500 text-xs">
+                      {ANNOTATION_TYPE_LABELS[annotation.type]}
+                      {(annotation.type === 'point' || annotation.type === 'text') &&
+                        ` · ${annotation.coordinates[0].toFixed(4)}, ${annotation.coordinates[1].toFixed(4)}`}
+                    </div>
                   </div>
+                  {!isLocked(annotation) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemoveAnnotation(annotation.id);
+                      }}
+                      className="h-6 w-6 p-0"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
                 </div>
               ))}
             </CardContent>
           </Card>
         )}
+
+        {selectedAnnotation && !isLocked(selectedAnnotation) && (
+          <Card className="border-0 rounded-none border-t">
+            <CardHeader>
+              <CardTitle>Properties</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {isShape && (
+                <div className="rounded bg-gray-50 p-2 text-xs text-gray-600">
+                  {formatMeasurement(measureGeometry(annotationToGeometry(selectedAnnotation))).map(line => (
+                    <div key={line}>{line}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label htmlFor="annotation-text" className="text-xs text-gray-500">
+                  {selectedAnnotation.type === 'text' ? 'Label text' : 'Name'}
+                </Label>
+                <Input
+                  id="annotation-text"
+                  value={selectedAnnotation.properties.text || ''}
+                  onChange={(e) => updateAnnotationProperties(selectedAnnotation.id, { text: e.target.value })}
+                />
+              </div>
+
+              {selectedAnnotation.type === 'text' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="annotation-color" className="text-xs text-gray-500">Colour</Label>
+                    <Input
+                      id="annotation-color"
+                      type="color"
+                      value={selectedAnnotation.properties.color || '#1e293b'}
+                      onChange={(e) => updateAnnotationProperties(selectedAnnotation.id, { color: e.target.value })}
+                      className="h-9 p-1"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-500">
+                      Font size: {selectedAnnotation.properties.fontSize ?? 14}px
+                    </Label>
+                    <Slider
+                      value={[selectedAnnotation.properties.fontSize ?? 14]}
+                      onValueChange={([value]) => updateAnnotationProperties(selectedAnnotation.id, { fontSize: value })}
+                      min={10}
+                      max={36}
+                      step={1}
+                    />
+                  </div>
+                </>
+              )}
+
+              {isShape && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="annotation-stroke" className="text-xs text-gray-500">Stroke colour</Label>
+                    <Input
+                      id="annotation-stroke"
+                      type="color"
+                      value={getAnnotationPathOptions(selectedAnnotation).color}
+                      onChange={(e) => updateAnnotationProperties(selectedAnnotation.id, { strokeColor: e.target.value })}
+                      className="h-9 p-1"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-500">
+                      Stroke width: {selectedAnnotation.properties.strokeWidth ?? 3}px
+                    </Label>
+                    <Slider
+                      value={[selectedAnnotation.properties.strokeWidth ?? 3]}
+                      onValueChange={([value]) => updateAnnotationProperties(selectedAnnotation.id, { strokeWidth: value })}
+                      min={1}
+                      max={10}
+                      step={1}
+                    />
+                  </div>
+                </>
+              )}
+
+              {hasFill && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="annotation-fill" className="text-xs text-gray-500">Fill colour</Label>
+                    <Input
+                      id="annotation-fill"
+                      type="color"
+                      value={getAnnotationPathOptions(selectedAnnotation).fillColor}
+                      onChange={(e) => updateAnnotationProperties(selectedAnnotation.id, { fillColor: e.target.value })}
+                      className="h-9 p-1"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-500">
+                      Fill opacity: {Math.round((selectedAnnotation.properties.fillOpacity ?? 0.2) * 100)}%
+                    </Label>
+                    <Slider
+                      value={[(selectedAnnotation.properties.fillOpacity ?? 0.2) * 100]}
+                      onValueChange={([value]) => updateAnnotationProperties(selectedAnnotation.id, { fillOpacity: value / 100 })}
+                      max={100}
+                      step={10}
+                    />
+                  </div>
+                </>
+              )}
+
+              {selectedAnnotation.type !== 'point' && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-gray-500">
+                    Opacity: {Math.round((selectedAnnotation.properties.opacity ?? 1) * 100)}%
+                  </Label>
+                  <Slider
+                    value={[(selectedAnnotation.properties.opacity ?? 1) * 100]}
+                    onValueChange={([value]) => updateAnnotationProperties(selectedAnnotation.id, { opacity: value / 100 })}
+                    max={100}
+                    step={10}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {!readOnly && <MapAnalysisPanel mapData={mapData} onSaveResult={handleSaveAnalysisResult} />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import { MapContainer, Circle, CircleMarker, Polygon, useMap, useMapEvents } from 'react-leaflet';
+import { Button } from '@/components/ui/button';
+import { Pentagon, RotateCcw } from 'lucide-react';
+import { MapDataLayers } from '@/components/map-data-layers';
+import { MapData, MapQuestionGeometry } from '@/lib/types';
+import L from 'leaflet';
+import 'leaflet-draw';
+
+interface MapQuestionMapProps {
+  baseMap: MapData;
+  // What can be placed: a single point by clicking, or a region drawn vertex by vertex
+  mode: 'point' | 'polygon';
+  value?: MapQuestionGeometry | null;
+  // Omitted when the map is only for review
+  onChange?: (value: MapQuestionGeometry | null) => void;
+  // Drawn around a point value, for teachers setting a point answer
+  toleranceMeters?: number;
+  // Drawn for comparison when reviewing a student's answer
+  answer?: MapQuestionGeometry;
+  answerToleranceMeters?: number;
+  className?: string;
+}
+
+const RESPONSE_COLOR = '#2563eb';
+const ANSWER_COLOR = '#16a34a';
+
+function PointPlacer({ onPlace }: { onPlace: (coordinates: [number, number]) => void }) {
+  useMapEvents({
+    click: (e) => onPlace([e.latlng.lat, e.latlng.lng]),
+  });
+  return null;
+}
+
+// Runs leaflet-draw's polygon tool while drawing, reporting the finished ring
+function RegionDrawer({ onDrawn, onStop }: { onDrawn: (coordinates: [number, number][]) => void; onStop: () => void }) {
+  const map = useMap();
+  // The draw handler lives for the whole drawing session, so it reports through the latest callbacks
+  const callbacks = useRef({ onDrawn, onStop });
+  callbacks.current = { onDrawn, onStop };
+
+  useEffect(() => {
+    const handler = new L.Draw.Polygon(map as L.DrawMap, {
+      shapeOptions: { color: RESPONSE_COLOR },
+      allowIntersection: false,
+    });
+    const handleCreated = (e: L.LeafletEvent) => {
+      const layer = (e as L.DrawEvents.Created).layer as L.Polygon;
+      const ring = layer.getLatLngs()[0] as L.LatLng[];
+      callbacks.current.onDrawn(ring.map(latlng => [latlng.lat, latlng.lng] as [number, number]));
+    };
+    const handleStop = () => callbacks.current.onStop();
+    map.on(L.Draw.Event.CREATED, handleCreated);
+    map.on(L.Draw.Event.DRAWSTOP, handleStop);
+    handler.enable();
+    return () => {
+      map.off(L.Draw.Event.CREATED, handleCreated);
+      map.off(L.Draw.Event.DRAWSTOP, handleStop);
+      handler.disable();
+    };
+  }, [map]);
+
+  return null;
+}
+
+function renderGeometry(geometry: MapQuestionGeometry, color: string, toleranceMeters?: number, dashed = false) {
+  const pathOptions: L.PathOptions = { color, fillColor: color, fillOpacity: 0.2, dashArray: dashed ? '6 4' : undefined };
+  if (geometry.type === 'polygon') {
+    return <Polygon positions={geometry.coordinates} pathOptions={pathOptions} />;
+  }
+  return (
+    <>
+      {!!toleranceMeters && <Circle center={geometry.coordinates} radius={toleranceMeters} pathOptions={pathOptions} />}
+      <CircleMarker center={geometry.coordinates} radius={7} pathOptions={{ ...pathOptions, dashArray: undefined, fillOpacity: 0.8 }} />
+    </>
+  );
+}
+
+// Small map for setting, answering or reviewing one map question
+export function MapQuestionMap({
+  baseMap,
+  mode,
+  value,
+  onChange,
+  toleranceMeters,
+  answer,
+  answerToleranceMeters,
+  className = 'h-[300px]',
+}: MapQuestionMapProps) {
+  const [isDrawing, setIsDrawing] = useState(false);
+  const canEdit = !!onChange;
+
+  return (
+    <div className={`relative overflow-hidden rounded-lg border border-gray-200 ${className}`}>
+      <MapContainer center={baseMap.center} zoom={baseMap.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+        <MapDataLayers data={baseMap} />
+        {answer && renderGeometry(answer, ANSWER_COLOR, answerToleranceMeters, true)}
+        {value && renderGeometry(value, RESPONSE_COLOR, toleranceMeters)}
+        {canEdit && mode === 'point' && (
+          <PointPlacer onPlace={coordinates => onChange({ type: 'point', coordinates })} />
+        )}
+        {canEdit && mode === 'polygon' && isDrawing && (
+          <RegionDrawer
+            onDrawn={coordinates => onChange({ type: 'polygon', coordinates })}
+            onStop={() => setIsDrawing(false)}
+          />
+        )}
+      </MapContainer>
+
+      {canEdit && (
+        <div className="absolute top-2 right-2 z-10 flex gap-2">
+          {mode === 'polygon' && !isDrawing && (
+            <Button type="button" size="sm" variant="secondary" className="shadow" onClick={() => setIsDrawing(true)}>
+              <Pentagon className="h-4 w-4 mr-2" />
+              {value ? 'Redraw Region' : 'Draw Region'}
+            </Button>
+          )}
+          {value && (
+            <Button type="button" size="sm" variant="secondary" className="shadow" onClick={() => onChange(null)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+      {canEdit && (
+        <div className="absolute bottom-2 left-2 z-10 rounded bg-white/90 px-2 py-1 text-xs text-gray-600 shadow">
+          {mode === 'point'
+            ? 'Click the map to place the point.'
+            : isDrawing
+              ? 'Click to add corners; click the first corner to finish.'
+              : 'Use Draw Region to outline an area.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPinned, Plus, Save, Trash2 } from 'lucide-react';
+import { DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { MapQuestionMap } from '@/components/map-question-map';
+import { MapData, MapQuestion } from '@/lib/types';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface MapQuestionsBuilderProps {
+  assignmentId: number;
+  starterMap?: MapData | null;
+  mapQuestions?: MapQuestion[] | null;
+}
+
+const DEFAULT_TOLERANCE_METERS = 500;
+
+// Lets a teacher set click-the-location and draw-the-region questions that are scored automatically
+export function MapQuestionsBuilder({ assignmentId, starterMap, mapQuestions }: MapQuestionsBuilderProps) {
+  const { toast } = useToast();
+  const baseMap = starterMap || DEFAULT_MAP_DATA;
+  const [questions, setQuestions] = useState<MapQuestion[]>(mapQuestions ?? []);
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const saveQuestionsMutation = useMutation({
+    mutationFn: async (next: MapQuestion[]) => {
+      const response = await apiRequest('PUT', `/api/assignments/${assignmentId}`, {
+        mapQuestions: next,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      setHasChanges(false);
+      toast({
+        title: 'Success',
+        description: 'Map questions saved.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save map questions',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateQuestion = (id: string, changes: Partial<MapQuestion>) => {
+    setQuestions(current => current.map(question => (question.id === id ? { ...question, ...changes } : question)));
+    setHasChanges(true);
+  };
+
+  const handleAddQuestion = () => {
+    setQuestions(current => [
+      ...current,
+      { id: `question-${Date.now()}`, prompt: '', responseType: 'point' },
+    ]);
+    setHasChanges(true);
+  };
+
+  const handleRemoveQuestion = (id: string) => {
+    setQuestions(current => current.filter(question => question.id !== id));
+    setHasChanges(true);
+  };
+
+  const handleSave = () => {
+    const incomplete = questions.findIndex(question => !question.prompt.trim() || !question.answer);
+    if (incomplete >= 0) {
+      toast({
+        title: 'Question incomplete',
+        description: `Question ${incomplete + 1} needs a prompt and an answer drawn on the map.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveQuestionsMutation.mutate(questions);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MapPinned className="h-5 w-5" />
+            Map Questions
+          </CardTitle>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleSave}
+            disabled={saveQuestionsMutation.isPending || !hasChanges}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saveQuestionsMutation.isPending ? 'Saving...' : 'Save Questions'}
+          </Button>
+        </div>
+        <p className="text-sm text-slate-600">
+          Students answer by placing a point or drawing a region. Points score full marks inside the answer
+          region; drawn regions score by how closely they overlap it. Scores are filled into the rubric when grading.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map((question, index) => (
+          <div key={question.id} className="space-y-3 rounded-lg border border-gray-200 p-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Map question {index + 1}</h4>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => handleRemoveQuestion(question.id)}
+                title="Remove question"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor={`map-question-prompt-${question.id}`}>Question</Label>
+              <Input
+                id={`map-question-prompt-${question.id}`}
+                value={question.prompt}
+                onChange={(e) => updateQuestion(question.id, { prompt: e.target.value })}
+                placeholder="e.g. Click on the capital city"
+              />
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-3">
+              <div className="space-y-1">
+                <Label>Students</Label>
+                <Select
+                  value={question.responseType}
+                  onValueChange={value => updateQuestion(question.id, { responseType: value as MapQuestion['responseType'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="point">Place a point</SelectItem>
+                    <SelectItem value="polygon">Draw a region</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Answer</Label>
+                <Select
+                  value={question.toleranceMeters !== undefined ? 'point' : 'polygon'}
+                  onValueChange={value =>
+                    updateQuestion(question.id, {
+                      answer: undefined,
+                      toleranceMeters: value === 'point' ? DEFAULT_TOLERANCE_METERS : undefined,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="polygon">Region</SelectItem>
+                    <SelectItem value="point">Point with tolerance</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {question.toleranceMeters !== undefined && (
+                <div className="space-y-1">
+                  <Label htmlFor={`map-question-tolerance-${question.id}`}>Tolerance (metres)</Label>
+                  <Input
+                    id={`map-question-tolerance-${question.id}`}
+                    type="number"
+                    min={1}
+                    value={question.toleranceMeters}
+                    onChange={(e) => updateQuestion(question.id, { toleranceMeters: Math.max(1, Number(e.target.value)) })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <MapQuestionMap
+              baseMap={baseMap}
+              mode={question.toleranceMeters !== undefined ? 'point' : 'polygon'}
+              value={question.answer}
+              onChange={answer => updateQuestion(question.id, { answer: answer ?? undefined })}
+              toleranceMeters={question.toleranceMeters}
+            />
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" onClick={handleAddQuestion}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Map Question
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
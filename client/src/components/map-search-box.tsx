@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Search, X } from 'lucide-react';
+import { GeocodeResult, GeocodeResultKind } from '@/lib/types';
+import { apiRequest } from '@/lib/queryClient';
+
+interface MapSearchBoxProps {
+  onSelect: (result: GeocodeResult) => void;
+  onClear?: () => void;
+}
+
+const KIND_LABELS: Record<GeocodeResultKind, string> = {
+  place: 'City or town',
+  county: 'County',
+  zip: 'ZIP code',
+  school: 'School',
+};
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+// Place search backed by the server's gazetteer, so it works without an external geocoding service
+export function MapSearchBox({ onSelect, onClear }: MapSearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<GeocodeResult[]>({
+    queryKey: ['/api/geocode', debouncedQuery],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/geocode?q=${encodeURIComponent(debouncedQuery)}`);
+      return response.json();
+    },
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  const handleSelect = (result: GeocodeResult) => {
+    setQuery(result.label);
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  const handleClear = () => {
+    setQuery('');
+    setDebouncedQuery('');
+    setIsOpen(false);
+    onClear?.();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      // Keep Enter from submitting a surrounding assignment form
+      e.preventDefault();
+      if (results[activeIndex]) handleSelect(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find a city, county, ZIP or school"
+        className="pl-8 pr-8"
+        aria-label="Search for a place"
+      />
+      {query && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="absolute right-1 top-1/2 h-6 w-6 -translate-y-1/2 p-0"
+          onClick={handleClear}
+          title="Clear search"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+
+      {showResults && (
+        <div className="absolute left-0 right-0 top-full z-30 mt-1 max-h-72 overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg">
+          {results.length === 0 ? (
+            <div className="px-3 py-2 text-sm text-gray-500">
+              {isFetching ? 'Searching...' : 'No places found.'}
+            </div>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.id}
+                type="button"
+                className={`block w-full px-3 py-2 text-left ${index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                // Select before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(result);
+                }}
+              >
+                <div className="text-sm font-medium">{result.label}</div>
+                <div className="text-xs text-gray-500">{KIND_LABELS[result.kind]}</div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, IdCard, Printer, Trash2 } from 'lucide-react';
+import { loginPictures } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { parseApiError } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { LoginCard, PictureLoginSettings } from '@/lib/types';
+
+interface PictureLoginDialogProps {
+  classId: number;
+  classTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function LoginCardView({ card, classTitle }: { card: LoginCard; classTitle: string }) {
+  return (
+    <div className="break-inside-avoid rounded-xl border-2 border-slate-300 p-4 flex items-center gap-4">
+      <img src={card.qrCode} alt={`Sign-in badge for ${card.firstName}`} className="h-32 w-32" />
+      <div className="space-y-2">
+        <p className="text-xl font-bold text-slate-900">{card.firstName} {card.lastName}</p>
+        <p className="text-xs text-slate-500">{classTitle}</p>
+        <div className="flex gap-2">
+          {card.pictures.map((pictureId, index) => {
+            const picture = loginPictures.find(p => p.id === pictureId);
+            return (
+              <div key={index} className="flex flex-col items-center">
+                <span className="text-4xl">{picture?.emoji}</span>
+                <span className="text-[10px] text-slate-500">{picture?.label}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Teachers turn on picture sign-in for a class and print each student's login card
+export function PictureLoginDialog({ classId, classTitle, open, onOpenChange }: PictureLoginDialogProps) {
+  const { toast } = useToast();
+  // Cards just issued; the server can't show their pictures or badges again
+  const [cards, setCards] = useState<LoginCard[] | null>(null);
+  const settingsKey = ['/api/classes', classId, 'picture-login'];
+
+  const { data: settings, isLoading } = useQuery<PictureLoginSettings>({
+    queryKey: settingsKey,
+    enabled: open,
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest('PUT', `/api/classes/${classId}/picture-login`, { enabled });
+      return response.json() as Promise<PictureLoginSettings>;
+    },
+    onSuccess: (result) => queryClient.setQueryData(settingsKey, result),
+    onError: (error) => showError(error, 'Failed to update picture sign-in'),
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async (studentIds?: number[]) => {
+      const response = await apiRequest('POST', `/api/classes/${classId}/picture-login/cards`, { studentIds });
+      return response.json() as Promise<{ cards: LoginCard[] }>;
+    },
+    onSuccess: (result) => {
+      setCards(result.cards);
+      queryClient.invalidateQueries({ queryKey: settingsKey });
+    },
+    onError: (error) => showError(error, 'Failed to create login cards'),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (studentId: number) => {
+      await apiRequest('DELETE', `/api/classes/${classId}/picture-login/cards/${studentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: settingsKey });
+      toast({ title: 'Login card removed', description: 'Its pictures and badge no longer work.' });
+    },
+    onError: (error) => showError(error, 'Failed to remove login card'),
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCards(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handlePrint = () => {
+    document.body.classList.add('printing-login-cards');
+    window.addEventListener('afterprint', () => document.body.classList.remove('printing-login-cards'), { once: true });
+    window.print();
+  };
+
+  const classLink = settings?.code ? `${window.location.origin}/picture-login/${settings.code}` : '';
+
+  const renderBody = () => {
+    if (isLoading || !settings) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (cards) {
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">
+            Print these now: the pictures and badges can't be shown again. Any card printed before for these
+            students no longer works.
+          </p>
+          <div className="grid grid-cols-1 gap-3 max-h-[50vh] overflow-y-auto">
+            {cards.map(card => <LoginCardView key={card.studentId} card={card} classTitle={classTitle} />)}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="picture-login-enabled"
+            checked={settings.enabled}
+            disabled={toggleMutation.isPending}
+            onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+          />
+          <Label htmlFor="picture-login-enabled">Students can sign in with pictures or a badge</Label>
+        </div>
+
+        {settings.enabled && (
+          <>
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-slate-600">Class sign-in link</p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs font-mono bg-slate-100 rounded px-2 py-2 break-all">{classLink}</code>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(classLink);
+                    toast({ title: 'Copied!', description: 'Class sign-in link copied to clipboard' });
+                  }}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-slate-500">
+                Open it on classroom devices, or type the code {settings.code} under "Young learners" on the login
+                page. Students tap their name, then their pictures, or scan their badge with the device's camera.
+              </p>
+            </div>
+
+            {settings.students.length === 0 ? (
+              <p className="py-4 text-center text-sm text-slate-500">No students are enrolled in this class yet.</p>
+            ) : (
+              <div className="max-h-[40vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Login card</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {settings.students.map(student => (
+                      <TableRow key={student.studentId}>
+                        <TableCell className="font-medium">{student.firstName} {student.lastName}</TableCell>
+                        <TableCell className="text-sm text-slate-500">
+                          {student.cardCreatedAt ? `Made ${new Date(student.cardCreatedAt).toLocaleDateString()}` : 'None'}
+                        </TableCell>
+                        <TableCell className="text-right space-x-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={issueMutation.isPending}
+                            onClick={() => issueMutation.mutate([student.studentId])}
+                          >
+                            <IdCard className="h-3 w-3 mr-1" />
+                            {student.hasCard ? 'New Card' : 'Make Card'}
+                          </Button>
+                          {student.hasCard && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600"
+                              disabled={revokeMutation.isPending && revokeMutation.variables === student.studentId}
+                              onClick={() => revokeMutation.mutate(student.studentId)}
+                              aria-label={`Remove ${student.firstName}'s login card`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderFooter = () => {
+    if (cards) {
+      return (
+        <>
+          <Button variant="outline" onClick={() => setCards(null)}>Done</Button>
+          <Button className="edugis-btn-primary" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </>
+      );
+    }
+    if (!settings?.enabled || settings.students.length === 0) return null;
+    return (
+      <Button className="edugis-btn-primary" disabled={issueMutation.isPending} onClick={() => issueMutation.mutate(undefined)}>
+        <Printer className="h-4 w-4 mr-2" />
+        {issueMutation.isPending ? 'Making Cards...' : 'New Cards for Everyone'}
+      </Button>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Picture Sign-In</DialogTitle>
+          <DialogDescription>
+            For students who can't type a password yet: each gets a card with three pictures to tap and a QR badge.
+          </DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+        <DialogFooter>{renderFooter()}</DialogFooter>
+      </DialogContent>
+      {cards && createPortal(
+        <div className="login-cards-print p-4">
+          <div className="grid grid-cols-2 gap-4">
+            {cards.map(card => <LoginCardView key={card.studentId} card={card} classTitle={classTitle} />)}
+          </div>
+        </div>,
+        document.body,
+      )}
+    </Dialog>
+  );
+}
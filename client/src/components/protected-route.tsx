@@ -4,7 +4,7 @@ import { auth } from '@/lib/auth';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'teacher' | 'student';
+  requiredRole?: 'admin' | 'teacher' | 'student';
 }
 
 export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
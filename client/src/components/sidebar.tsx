@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Book, LayoutDashboard, Users, FileText, Map, FolderOpen, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Brain } from 'lucide-react';
+import { Book, LayoutDashboard, Users, FileText, Map, FolderOpen, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Brain, Layers, Globe, Database, KeyRound, Lock, ShieldCheck, Building2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Link, useLocation } from 'wouter';
 import { auth } from '@/lib/auth';
@@ -11,6 +11,7 @@ export function Sidebar() {
   const [mappingDropdownOpen, setMappingDropdownOpen] = useState(false);
   const user = auth.getUser();
   const isTeacher = user?.role === 'teacher';
+  const isAdmin = user?.role === 'admin';
 
   const mappingSubItems = [
     { name: 'National Geographic MapMaker', href: '/mapping/natgeo-mapmaker' },
@@ -25,6 +26,7 @@ export function Sidebar() {
     { name: 'Classes', href: '/classes', icon: Book },
     { name: 'Students', href: '/students', icon: Users },
     { name: 'Activity Library', href: '/library', icon: FolderOpen },
+    { name: 'Datasets', href: '/datasets', icon: Database },
     //{ name: 'Templates', href: '/templates', icon: FileText },
     { name: 'Map Gallery', href: '/mapping', icon: Map, hasDropdown: true, subItems: mappingSubItems },
   ];
@@ -35,7 +37,17 @@ export function Sidebar() {
     { name: 'Map Gallery', href: '/mapping', icon: Map, hasDropdown: true, subItems: mappingSubItems },
   ];
 
-  const navItems = isTeacher ? teacherNavItems : studentNavItems;
+  const adminNavItems: typeof teacherNavItems = [
+    { name: 'Basemaps', href: '/admin/basemaps', icon: Layers },
+    { name: 'ArcGIS Groups', href: '/admin/arcgis-groups', icon: Globe },
+    { name: 'Schools', href: '/admin/schools', icon: Building2 },
+    { name: 'Single Sign-On', href: '/admin/sso-providers', icon: KeyRound },
+    { name: 'Security', href: '/admin/security', icon: ShieldCheck },
+    { name: 'Account Lockouts', href: '/admin/lockouts', icon: Lock },
+    { name: 'Datasets', href: '/datasets', icon: Database },
+  ];
+
+  const navItems = isAdmin ? adminNavItems : isTeacher ? teacherNavItems : studentNavItems;
 
   return (
     <aside className={cn(
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { MapEditor, DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { Map as MapIcon, RotateCcw, Save } from 'lucide-react';
+import { MapData } from '@/lib/types';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useBasemaps } from '@/hooks/use-basemaps';
+
+interface StarterMapBuilderProps {
+  assignmentId: number;
+  assignmentTitle: string;
+  starterMap?: MapData | null;
+  allowedBasemaps?: string[] | null;
+}
+
+// Lets a teacher set the view, basemap, layers and prompt markers every student's map starts from
+export function StarterMapBuilder({ assignmentId, assignmentTitle, starterMap, allowedBasemaps }: StarterMapBuilderProps) {
+  const { toast } = useToast();
+  const basemaps = useBasemaps();
+  // null while every basemap is allowed, so basemaps added to the registry later are offered too
+  const [allowed, setAllowed] = useState<string[] | null>(allowedBasemaps?.length ? allowedBasemaps : null);
+  const [initialMap, setInitialMap] = useState<MapData>(starterMap || DEFAULT_MAP_DATA);
+  const [draft, setDraft] = useState<MapData>(initialMap);
+  const [hasChanges, setHasChanges] = useState(false);
+  // Remounts the editor after a reset so it picks up the new initial data
+  const [editorKey, setEditorKey] = useState(0);
+
+  const saveStarterMapMutation = useMutation({
+    mutationFn: async (map: MapData | null) => {
+      const response = await apiRequest('PUT', `/api/assignments/${assignmentId}`, {
+        starterMap: map,
+        allowedBasemaps: allowed,
+      });
+      return response.json();
+    },
+    onSuccess: (_, map) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      setHasChanges(false);
+      toast({
+        title: 'Success',
+        description: map ? 'Starter map saved. New submissions will open with this map.' : 'Starter map removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save starter map',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleChange = (data: MapData) => {
+    setDraft(data);
+    setHasChanges(true);
+  };
+
+  const handleBasemapAllowed = (key: string, isAllowed: boolean) => {
+    const current = allowed ?? basemaps.map(basemap => basemap.key);
+    const next = isAllowed ? [...current, key] : current.filter(k => k !== key);
+    if (next.length === 0) return;
+    setAllowed(basemaps.every(basemap => next.includes(basemap.key)) ? null : next);
+    setHasChanges(true);
+  };
+
+  const handleReset = () => {
+    setInitialMap(DEFAULT_MAP_DATA);
+    setDraft(DEFAULT_MAP_DATA);
+    setEditorKey(key => key + 1);
+    saveStarterMapMutation.mutate(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MapIcon className="h-5 w-5" />
+            Starter Map
+          </CardTitle>
+          <div className="flex gap-2">
+            {starterMap && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={saveStarterMapMutation.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => saveStarterMapMutation.mutate(draft)}
+              disabled={saveStarterMapMutation.isPending || (!hasChanges && !!starterMap)}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveStarterMapMutation.isPending ? 'Saving...' : 'Save Starter Map'}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-600">
+          {starterMap
+            ? 'Students open this map when they start the activity.'
+            : 'Students currently start from the default map. Set the view, basemap and layers, and add prompt markers for students to respond to.'}
+          {' '}Changes only apply to submissions started after saving.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <MapEditor
+          key={editorKey}
+          initialData={initialMap}
+          onChange={handleChange}
+          authoring
+          title={`${assignmentTitle} - Starter Map`}
+          allowedBasemaps={allowed}
+          className="h-[500px]"
+        />
+        {basemaps.length > 1 && (
+          <div className="mt-4 space-y-2">
+            <Label className="text-sm font-medium">Basemaps students can choose</Label>
+            <div className="flex flex-wrap gap-4">
+              {basemaps.map(basemap => (
+                <div key={basemap.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`allowed-basemap-${basemap.key}`}
+                    checked={!allowed || allowed.includes(basemap.key)}
+                    onCheckedChange={(checked) => handleBasemapAllowed(basemap.key, checked as boolean)}
+                  />
+                  <Label htmlFor={`allowed-basemap-${basemap.key}`} className="text-sm font-normal">
+                    {basemap.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { MapContainer } from 'react-leaflet';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, BookOpen, Crosshair, Eye, Plus, Save, Trash2 } from 'lucide-react';
+import { DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { MapDataLayers } from '@/components/map-data-layers';
+import { StoryMapPlayer } from '@/components/story-map-player';
+import { MapData, StoryMap, StorySlide } from '@/lib/types';
+import { ANNOTATION_TYPE_LABELS } from '@/lib/map-utils';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import L from 'leaflet';
+
+interface StoryMapBuilderProps {
+  assignmentId: number;
+  // Slides are authored on the starter map so students see the same layers and markers
+  starterMap?: MapData | null;
+  storyMap?: StoryMap | null;
+}
+
+function createSlide(baseMap: MapData, view: { center: [number, number]; zoom: number }): StorySlide {
+  return {
+    id: `slide-${Date.now()}`,
+    title: '',
+    body: '',
+    center: view.center,
+    zoom: view.zoom,
+    visibleLayerIds: baseMap.layers.filter(layer => layer.visible).map(layer => layer.id),
+    highlightedAnnotationIds: [],
+  };
+}
+
+// Lets a teacher build an ordered tour of map views with narrative text and a question on each slide
+export function StoryMapBuilder({ assignmentId, starterMap, storyMap }: StoryMapBuilderProps) {
+  const { toast } = useToast();
+  const baseMap = starterMap || DEFAULT_MAP_DATA;
+  const [slides, setSlides] = useState<StorySlide[]>(storyMap?.slides ?? []);
+  const [selectedId, setSelectedId] = useState<string | null>(storyMap?.slides[0]?.id ?? null);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [previewResponses, setPreviewResponses] = useState<Record<string, string>>({});
+  const [map, setMap] = useState<L.Map | null>(null);
+
+  const selectedIndex = slides.findIndex(slide => slide.id === selectedId);
+  const selectedSlide = selectedIndex >= 0 ? slides[selectedIndex] : null;
+
+  // Jump the preview map to the slide being edited
+  useEffect(() => {
+    if (map && selectedSlide) map.setView(selectedSlide.center, selectedSlide.zoom);
+  }, [map, selectedId]);
+
+  const saveStoryMapMutation = useMutation({
+    mutationFn: async (story: StoryMap | null) => {
+      const response = await apiRequest('PUT', `/api/assignments/${assignmentId}`, {
+        storyMap: story,
+      });
+      return response.json();
+    },
+    onSuccess: (_, story) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      setHasChanges(false);
+      toast({
+        title: 'Success',
+        description: story ? 'Story map saved.' : 'Story map removed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save story map',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateSlides = (next: StorySlide[]) => {
+    setSlides(next);
+    setHasChanges(true);
+  };
+
+  const updateSelectedSlide = (changes: Partial<StorySlide>) => {
+    updateSlides(slides.map(slide => (slide.id === selectedId ? { ...slide, ...changes } : slide)));
+  };
+
+  const getCurrentView = () => {
+    if (!map) return { center: baseMap.center, zoom: baseMap.zoom };
+    const center = map.getCenter();
+    return { center: [center.lat, center.lng] as [number, number], zoom: map.getZoom() };
+  };
+
+  const handleAddSlide = () => {
+    const slide = createSlide(baseMap, getCurrentView());
+    // New slides go after the one being edited
+    const next = [...slides];
+    next.splice(selectedIndex + 1, 0, slide);
+    updateSlides(next);
+    setSelectedId(slide.id);
+  };
+
+  const handleRemoveSlide = (slideId: string) => {
+    const index = slides.findIndex(slide => slide.id === slideId);
+    const next = slides.filter(slide => slide.id !== slideId);
+    updateSlides(next);
+    if (slideId === selectedId) setSelectedId(next[Math.min(index, next.length - 1)]?.id ?? null);
+  };
+
+  const handleMoveSlide = (index: number, offset: number) => {
+    const next = [...slides];
+    const [slide] = next.splice(index, 1);
+    next.splice(index + offset, 0, slide);
+    updateSlides(next);
+  };
+
+  const toggleId = (ids: string[], id: string, included: boolean) =>
+    included ? [...ids, id] : ids.filter(existing => existing !== id);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Story Map
+          </CardTitle>
+          <div className="flex gap-2">
+            {slides.length > 0 && (
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsPreviewing(true)}>
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => saveStoryMapMutation.mutate(slides.length > 0 ? { slides } : null)}
+              disabled={saveStoryMapMutation.isPending || !hasChanges}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveStoryMapMutation.isPending ? 'Saving...' : 'Save Story Map'}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-600">
+          Guide students through the {starterMap ? 'starter' : 'default'} map one view at a time. Each slide can
+          show different layers, highlight markers and ask a question students answer in their submission.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 lg:grid-cols-[220px_1fr]">
+          <div className="space-y-2">
+            {slides.map((slide, index) => (
+              <div
+                key={slide.id}
+                className={`flex items-center gap-1 rounded border p-2 text-sm ${
+                  slide.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <button type="button" className="flex-1 truncate text-left" onClick={() => setSelectedId(slide.id)}>
+                  <span className="mr-1 text-gray-500">{index + 1}.</span>
+                  {slide.title || 'Untitled slide'}
+                </button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleMoveSlide(index, -1)}
+                  disabled={index === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleMoveSlide(index, 1)}
+                  disabled={index === slides.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-red-600"
+                  onClick={() => handleRemoveSlide(slide.id)}
+                  title="Remove slide"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" className="w-full" onClick={handleAddSlide}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Slide
+            </Button>
+            {slides.length === 0 && (
+              <p className="text-xs text-gray-500">Pan and zoom the map to the first view, then add a slide.</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="relative h-[350px] overflow-hidden rounded-lg border border-gray-200">
+              <MapContainer ref={setMap} center={baseMap.center} zoom={baseMap.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+                <MapDataLayers
+                  data={baseMap}
+                  visibleLayerIds={selectedSlide?.visibleLayerIds}
+                  highlightedAnnotationIds={selectedSlide?.highlightedAnnotationIds}
+                />
+              </MapContainer>
+              {selectedSlide && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  className="absolute top-2 right-2 z-10 shadow"
+                  onClick={() => updateSelectedSlide(getCurrentView())}
+                >
+                  <Crosshair className="h-4 w-4 mr-2" />
+                  Use Current View
+                </Button>
+              )}
+            </div>
+
+            {selectedSlide && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="story-slide-title">Title</Label>
+                    <Input
+                      id="story-slide-title"
+                      value={selectedSlide.title}
+                      onChange={(e) => updateSelectedSlide({ title: e.target.value })}
+                      placeholder="e.g. Where the river meets the sea"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="story-slide-body">Text</Label>
+                    <Textarea
+                      id="story-slide-body"
+                      value={selectedSlide.body}
+                      onChange={(e) => updateSelectedSlide({ body: e.target.value })}
+                      rows={6}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Use **bold**, *italic*, [link text](https://...) and lines starting with "- " for lists.
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="story-slide-question">Question (optional)</Label>
+                    <Input
+                      id="story-slide-question"
+                      value={selectedSlide.question ?? ''}
+                      onChange={(e) => updateSelectedSlide({ question: e.target.value || undefined })}
+                      placeholder="What do you notice about...?"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label>Visible layers</Label>
+                    {baseMap.layers.map(layer => (
+                      <label key={layer.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={selectedSlide.visibleLayerIds.includes(layer.id)}
+                          onCheckedChange={checked =>
+                            updateSelectedSlide({
+                              visibleLayerIds: toggleId(selectedSlide.visibleLayerIds, layer.id, checked as boolean),
+                            })
+                          }
+                        />
+                        {layer.name}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Highlighted markers and shapes</Label>
+                    {baseMap.annotations.length === 0 ? (
+                      <p className="text-xs text-gray-500">Add prompt markers to the starter map to highlight them here.</p>
+                    ) : (
+                      baseMap.annotations.map(annotation => (
+                        <label key={annotation.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={selectedSlide.highlightedAnnotationIds.includes(annotation.id)}
+                            onCheckedChange={checked =>
+                              updateSelectedSlide({
+                                highlightedAnnotationIds: toggleId(
+                                  selectedSlide.highlightedAnnotationIds,
+                                  annotation.id,
+                                  checked as boolean
+                                ),
+                              })
+                            }
+                          />
+                          {annotation.properties.text || ANNOTATION_TYPE_LABELS[annotation.type]}
+                        </label>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={isPreviewing} onOpenChange={setIsPreviewing}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Story Map Preview</DialogTitle>
+          </DialogHeader>
+          {isPreviewing && (
+            <StoryMapPlayer
+              story={{ slides }}
+              baseMap={baseMap}
+              responses={previewResponses}
+              onResponseChange={(slideId, response) =>
+                setPreviewResponses(current => ({ ...current, [slideId]: response }))
+              }
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { MapContainer, useMap } from 'react-leaflet';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ChevronLeft, ChevronRight, HelpCircle } from 'lucide-react';
+import { MapDataLayers } from '@/components/map-data-layers';
+import { StoryText } from '@/components/story-text';
+import { MapData, StoryMap, StorySlide } from '@/lib/types';
+
+interface StoryMapPlayerProps {
+  story: StoryMap;
+  // The map the slides were authored on: the assignment's starter map, or the default map
+  baseMap: MapData;
+  // Answers to slide questions, keyed by slide id
+  responses?: Record<string, string>;
+  onResponseChange?: (slideId: string, response: string) => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+function FlyToSlide({ slide }: { slide: StorySlide }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.flyTo(slide.center, slide.zoom, { duration: 1 });
+  }, [map, slide.id, slide.center[0], slide.center[1], slide.zoom]);
+
+  return null;
+}
+
+// Steps a student through a teacher's guided tour, moving the map and collecting an answer per slide
+export function StoryMapPlayer({
+  story,
+  baseMap,
+  responses = {},
+  onResponseChange,
+  readOnly = false,
+  className = 'h-[500px]',
+}: StoryMapPlayerProps) {
+  const [index, setIndex] = useState(0);
+  const slides = story.slides;
+  const slide = slides[Math.min(index, slides.length - 1)];
+
+  if (!slide) return null;
+
+  const answered = slides.filter(s => s.question && responses[s.id]?.trim()).length;
+  const questionCount = slides.filter(s => s.question).length;
+
+  return (
+    <div className={`flex flex-col overflow-hidden rounded-lg border border-gray-200 md:flex-row ${className}`}>
+      <div className="relative min-h-[250px] flex-1">
+        <MapContainer center={slide.center} zoom={slide.zoom} style={{ height: '100%', width: '100%' }} className="z-0">
+          <FlyToSlide slide={slide} />
+          <MapDataLayers
+            key={slide.id}
+            data={baseMap}
+            visibleLayerIds={slide.visibleLayerIds}
+            highlightedAnnotationIds={slide.highlightedAnnotationIds}
+          />
+        </MapContainer>
+      </div>
+
+      <div className="flex w-full flex-col border-t border-gray-200 bg-white md:w-96 md:border-l md:border-t-0">
+        <div className="flex-1 space-y-3 overflow-y-auto p-4">
+          <div className="text-xs font-medium uppercase tracking-wide text-gray-500">
+            Slide {index + 1} of {slides.length}
+          </div>
+          <h3 className="text-lg font-semibold">{slide.title || 'Untitled slide'}</h3>
+          <StoryText text={slide.body} />
+
+          {slide.question && (
+            <div className="space-y-2 rounded-lg bg-blue-50 p-3">
+              <Label htmlFor={`story-response-${slide.id}`} className="flex items-start gap-2 text-sm font-medium">
+                <HelpCircle className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                {slide.question}
+              </Label>
+              {readOnly ? (
+                <p className="whitespace-pre-wrap text-sm text-gray-700">
+                  {responses[slide.id]?.trim() || <span className="italic text-gray-500">No answer</span>}
+                </p>
+              ) : (
+                <Textarea
+                  id={`story-response-${slide.id}`}
+                  value={responses[slide.id] ?? ''}
+                  onChange={(e) => onResponseChange?.(slide.id, e.target.value)}
+                  placeholder="Type your answer..."
+                  rows={4}
+                  className="bg-white"
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 border-t border-gray-200 p-3">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setIndex(i => i - 1)}
+            disabled={index === 0}
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          {questionCount > 0 && (
+            <span className="text-xs text-gray-500">
+              {answered} of {questionCount} answered
+            </span>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => setIndex(i => i + 1)}
+            disabled={index >= slides.length - 1}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Each slide question with the student's answer, for teachers reviewing a submission
+export function StoryResponseList({ story, responses }: { story: StoryMap; responses: Record<string, string> }) {
+  const questions = story.slides
+    .map((slide, index) => ({ slide, index }))
+    .filter(({ slide }) => slide.question);
+
+  return (
+    <div className="space-y-3">
+      {questions.map(({ slide, index }) => (
+        <div key={slide.id} className="bg-slate-50 rounded-lg p-4 text-sm">
+          <div className="text-xs text-slate-500 mb-1">
+            Slide {index + 1}{slide.title ? `: ${slide.title}` : ''}
+          </div>
+          <p className="font-medium text-slate-700 mb-2">{slide.question}</p>
+          <p className="whitespace-pre-wrap text-slate-700">
+            {responses[slide.id]?.trim() || <span className="italic text-slate-500">No answer</span>}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Fragment, ReactNode } from 'react';
+
+// **bold**, *italic* and [text](https://...) links; anything else is plain text
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+    const key = nodes.length;
+    if (match[1] !== undefined) {
+      nodes.push(<strong key={key}>{match[1]}</strong>);
+    } else if (match[2] !== undefined) {
+      nodes.push(<em key={key}>{match[2]}</em>);
+    } else {
+      nodes.push(
+        <a key={key} href={match[4]} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+          {match[3]}
+        </a>
+      );
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+// Renders slide text without HTML, so teacher-entered content can't inject markup
+export function StoryText({ text, className = '' }: { text: string; className?: string }) {
+  const blocks = text.split(/\n\s*\n/).map(block => block.split('\n')).filter(lines => lines.some(line => line.trim()));
+
+  return (
+    <div className={`space-y-2 text-sm text-gray-700 ${className}`}>
+      {blocks.map((lines, blockIndex) =>
+        lines.every(line => !line.trim() || line.trim().startsWith('- ')) ? (
+          <ul key={blockIndex} className="list-disc space-y-1 pl-5">
+            {lines.filter(line => line.trim()).map((line, lineIndex) => (
+              <li key={lineIndex}>{renderInline(line.trim().slice(2))}</li>
+            ))}
+          </ul>
+        ) : (
+          <p key={blockIndex}>
+            {lines.map((line, lineIndex) => (
+              <Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </Fragment>
+            ))}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
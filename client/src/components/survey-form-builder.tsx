@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Plus, Save, Trash2 } from 'lucide-react';
+import { SurveyField, SurveyFieldType, SurveyForm } from '@/lib/types';
+import { SURVEY_FIELD_TYPE_LABELS } from '@/lib/field-survey';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface SurveyFormBuilderProps {
+  assignmentId: number;
+  surveyForm?: SurveyForm | null;
+}
+
+// Choice options are edited as one comma-separated line
+function parseOptions(text: string): string[] {
+  return text.split(',').map(option => option.trim()).filter(Boolean);
+}
+
+// Lets a teacher turn an assignment into a field survey by defining the observation form
+export function SurveyFormBuilder({ assignmentId, surveyForm }: SurveyFormBuilderProps) {
+  const { toast } = useToast();
+  const [fields, setFields] = useState<SurveyField[]>(surveyForm?.fields ?? []);
+  // Raw option text per field, so typing a trailing comma isn't swallowed
+  const [optionText, setOptionText] = useState<Record<string, string>>(() =>
+    Object.fromEntries((surveyForm?.fields ?? []).map(field => [field.id, (field.options ?? []).join(', ')]))
+  );
+  const [hasChanges, setHasChanges] = useState(false);
+
+  const saveFormMutation = useMutation({
+    mutationFn: async (next: SurveyForm | null) => {
+      const response = await apiRequest('PUT', `/api/assignments/${assignmentId}`, {
+        surveyForm: next,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, next) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      setHasChanges(false);
+      toast({
+        title: 'Success',
+        description: next ? 'Survey form saved.' : 'Field survey turned off.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save survey form',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateField = (id: string, changes: Partial<SurveyField>) => {
+    setFields(current => current.map(field => (field.id === id ? { ...field, ...changes } : field)));
+    setHasChanges(true);
+  };
+
+  const handleOptionsChange = (id: string, text: string) => {
+    setOptionText(current => ({ ...current, [id]: text }));
+    updateField(id, { options: parseOptions(text) });
+  };
+
+  const handleAddField = () => {
+    setFields(current => [...current, { id: `field-${Date.now()}`, label: '', type: 'text' }]);
+    setHasChanges(true);
+  };
+
+  const handleRemoveField = (id: string) => {
+    setFields(current => current.filter(field => field.id !== id));
+    setHasChanges(true);
+  };
+
+  const handleSave = () => {
+    const labels = fields.map(field => field.label.trim());
+    const problem =
+      fields.length === 0 ? 'Add at least one field.'
+      : labels.some(label => !label) ? `Field ${labels.findIndex(label => !label) + 1} needs a label.`
+      : new Set(labels).size !== labels.length ? 'Each field needs a different label.'
+      : fields.some(field => field.type === 'choice' && !field.options?.length) ? 'Choice fields need at least one option.'
+      : null;
+    if (problem) {
+      toast({
+        title: 'Survey form incomplete',
+        description: problem,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    saveFormMutation.mutate({
+      fields: fields.map(field => ({
+        ...field,
+        label: field.label.trim(),
+        options: field.type === 'choice' ? field.options : undefined,
+      })),
+    });
+  };
+
+  const handleTurnOff = () => {
+    setFields([]);
+    saveFormMutation.mutate(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Field Survey
+          </CardTitle>
+          <div className="flex gap-2">
+            {surveyForm && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleTurnOff}
+                disabled={saveFormMutation.isPending}
+              >
+                Turn Off
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleSave}
+              disabled={saveFormMutation.isPending || !hasChanges}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveFormMutation.isPending ? 'Saving...' : 'Save Form'}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-600">
+          Students record observations outside using this form. Each record is tagged with the device's location
+          and added to a map the whole class can see.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.map((field, index) => (
+          <div key={field.id} className="space-y-3 rounded-lg border border-gray-200 p-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Field {index + 1}</h4>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-red-600"
+                onClick={() => handleRemoveField(field.id)}
+                title="Remove field"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-[1fr_160px]">
+              <div className="space-y-1">
+                <Label htmlFor={`survey-field-label-${field.id}`}>Label</Label>
+                <Input
+                  id={`survey-field-label-${field.id}`}
+                  value={field.label}
+                  onChange={(e) => updateField(field.id, { label: e.target.value })}
+                  placeholder="e.g. Species observed"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select
+                  value={field.type}
+                  onValueChange={value => updateField(field.id, { type: value as SurveyFieldType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SURVEY_FIELD_TYPE_LABELS) as SurveyFieldType[]).map(type => (
+                      <SelectItem key={type} value={type}>{SURVEY_FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {field.type === 'choice' && (
+              <div className="space-y-1">
+                <Label htmlFor={`survey-field-options-${field.id}`}>Options</Label>
+                <Input
+                  id={`survey-field-options-${field.id}`}
+                  value={optionText[field.id] ?? ''}
+                  onChange={(e) => handleOptionsChange(field.id, e.target.value)}
+                  placeholder="Separate options with commas, e.g. Sunny, Cloudy, Rain"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`survey-field-required-${field.id}`}
+                checked={!!field.required}
+                onCheckedChange={(checked) => updateField(field.id, { required: checked as boolean })}
+              />
+              <Label htmlFor={`survey-field-required-${field.id}`} className="text-sm font-normal">
+                Required
+              </Label>
+            </div>
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" onClick={handleAddField}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
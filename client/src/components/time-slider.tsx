@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Clock, Pause, Play, RotateCcw } from 'lucide-react';
+import { LayerData, TimeStep, TimeWindow } from '@/lib/types';
+import {
+  addSteps,
+  countSteps,
+  floorToStep,
+  formatTime,
+  getDateFields,
+  getFullTimeWindow,
+  getTimeExtent,
+} from '@/lib/map-time';
+
+interface TimeSliderProps {
+  layers: LayerData[];
+  timeWindow: TimeWindow | undefined;
+  onChange: (timeWindow: TimeWindow) => void;
+}
+
+const STEP_LABELS: Record<TimeStep, string> = {
+  day: 'Days',
+  month: 'Months',
+  year: 'Years',
+};
+
+// Delay between playback steps
+const PLAYBACK_INTERVAL_MS = 800;
+
+// Time-enabled layer settings, shown under the layer in the Layers card
+export function LayerTimePanel({ layer, onChange }: { layer: LayerData; onChange: (time: LayerData['time']) => void }) {
+  const fields = getDateFields(layer.data);
+
+  if (fields.length === 0) {
+    return <p className="text-xs text-gray-500">This layer has no date attributes to animate.</p>;
+  }
+
+  return (
+    <div className="space-y-1 rounded-md border border-gray-200 p-2">
+      <Label className="text-xs text-gray-500">Date attribute</Label>
+      <Select
+        value={layer.time?.field ?? 'none'}
+        onValueChange={value => onChange(value === 'none' ? undefined : { field: value })}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Not time-enabled</SelectItem>
+          {fields.map(field => (
+            <SelectItem key={field} value={field}>{field}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Range slider over the dates of the visible time-enabled layers. Play moves the
+ * window forward one step at a time, keeping its width, until it reaches the end.
+ */
+export function TimeSlider({ layers, timeWindow, onChange }: TimeSliderProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const extent = getTimeExtent(layers);
+  const step = timeWindow?.step ?? 'year';
+
+  const origin = extent ? floorToStep(extent.start, step) : 0;
+  const lastIndex = extent ? countSteps(origin, extent.end, step) : 0;
+  const clampIndex = (index: number) => Math.min(Math.max(index, 0), lastIndex);
+  const startIndex = timeWindow ? clampIndex(countSteps(origin, Date.parse(timeWindow.start), step)) : 0;
+  const endIndex = timeWindow ? clampIndex(countSteps(origin, Date.parse(timeWindow.end), step)) : lastIndex;
+
+  const toWindow = (from: number, to: number, windowStep: TimeStep = step): TimeWindow => ({
+    start: new Date(addSteps(origin, windowStep, from)).toISOString(),
+    end: new Date(addSteps(origin, windowStep, to + 1) - 1).toISOString(),
+    step: windowStep,
+  });
+
+  // The playback interval outlives renders, so it steps from the latest window
+  const advance = useRef(() => {});
+  advance.current = () => {
+    if (endIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    onChange(toWindow(startIndex + 1, endIndex + 1));
+  };
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = window.setInterval(() => advance.current(), PLAYBACK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [isPlaying]);
+
+  if (!extent) return null;
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the full range or the end starts over from the first step
+    if (startIndex === 0 && endIndex === lastIndex) {
+      onChange(toWindow(0, 0));
+    } else if (endIndex >= lastIndex) {
+      onChange(toWindow(0, endIndex - startIndex));
+    }
+    setIsPlaying(true);
+  };
+
+  const handleStepChange = (value: TimeStep) => {
+    setIsPlaying(false);
+    const start = timeWindow ? Date.parse(timeWindow.start) : extent.start;
+    const end = timeWindow ? Date.parse(timeWindow.end) : extent.end;
+    onChange({
+      start: new Date(floorToStep(start, value)).toISOString(),
+      end: new Date(addSteps(floorToStep(end, value), value, 1) - 1).toISOString(),
+      step: value,
+    });
+  };
+
+  const label =
+    startIndex === endIndex
+      ? formatTime(addSteps(origin, step, startIndex), step)
+      : `${formatTime(addSteps(origin, step, startIndex), step)} – ${formatTime(addSteps(origin, step, endIndex), step)}`;
+
+  return (
+    <div className="flex items-center gap-3 border-t border-gray-200 bg-white px-3 py-2">
+      <Clock className="h-4 w-4 shrink-0 text-gray-500" />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={handlePlay}
+        disabled={lastIndex === 0}
+        title={isPlaying ? 'Pause' : 'Play'}
+      >
+        {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+      <div className="w-44 shrink-0 text-sm font-medium">{label}</div>
+      <Slider
+        value={[startIndex, endIndex]}
+        onValueChange={([from, to]) => {
+          setIsPlaying(false);
+          onChange(toWindow(from, to));
+        }}
+        min={0}
+        max={lastIndex}
+        step={1}
+        minStepsBetweenThumbs={0}
+        disabled={lastIndex === 0}
+        className="flex-1"
+      />
+      <Select value={step} onValueChange={value => handleStepChange(value as TimeStep)}>
+        <SelectTrigger className="h-8 w-28">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(STEP_LABELS) as TimeStep[]).map(value => (
+            <SelectItem key={value} value={value}>{STEP_LABELS[value]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => {
+          setIsPlaying(false);
+          onChange(getFullTimeWindow(extent, step));
+        }}
+        title="Show all dates"
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
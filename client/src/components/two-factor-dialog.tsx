@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { parseApiError, TwoFactorEnrolment } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { TwoFactorStatus } from '@/lib/types';
+import { RecoveryCodeList, TwoFactorCodeInput, TwoFactorQrCode } from '@/components/two-factor';
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Actions on an enabled setup that need a current code from the app
+type ConfirmAction = 'regenerate' | 'disable';
+
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { toast } = useToast();
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [code, setCode] = useState('');
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/two-factor'],
+    enabled: open,
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    setCode('');
+    toast({
+      title: 'Error',
+      description: parseApiError(error).message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setEnrolment(null);
+      setRecoveryCodes(null);
+      setConfirmAction(null);
+      setCode('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/two-factor/setup');
+      return response.json() as Promise<TwoFactorEnrolment>;
+    },
+    onSuccess: setEnrolment,
+    onError: (error) => showError(error, 'Failed to start two-factor setup'),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest('POST', '/api/auth/two-factor/enable', { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setEnrolment(null);
+      setCode('');
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/two-factor'] });
+    },
+    onError: (error) => showError(error, 'Failed to turn on two-factor authentication'),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async ({ action, value }: { action: ConfirmAction; value: string }) => {
+      const url = action === 'regenerate' ? '/api/auth/two-factor/recovery-codes' : '/api/auth/two-factor/disable';
+      const response = await apiRequest('POST', url, { code: value });
+      return response.json() as Promise<{ recoveryCodes?: string[] }>;
+    },
+    onSuccess: (result, { action }) => {
+      setConfirmAction(null);
+      setCode('');
+      if (result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      }
+      if (action === 'disable') {
+        toast({ title: 'Two-factor authentication turned off' });
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/two-factor'] });
+    },
+    onError: (error) => showError(error, 'Failed to update two-factor authentication'),
+  });
+
+  const submitCode = (value: string) => {
+    if (enrolment) {
+      enableMutation.mutate(value);
+    } else if (confirmAction) {
+      confirmMutation.mutate({ action: confirmAction, value });
+    }
+  };
+
+  const isSubmitting = enableMutation.isPending || confirmMutation.isPending;
+
+  const renderBody = () => {
+    if (isLoading || !status) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      );
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodeList codes={recoveryCodes} />;
+    }
+
+    if (enrolment || confirmAction) {
+      return (
+        <div className="space-y-4">
+          {enrolment && <TwoFactorQrCode enrolment={enrolment} />}
+          <p className="text-sm text-slate-600 text-center">
+            {enrolment
+              ? 'Scan the QR code with your authenticator app, then enter the 6-digit code it shows.'
+              : 'Enter the 6-digit code from your authenticator app to confirm.'}
+          </p>
+          <TwoFactorCodeInput value={code} onChange={setCode} onComplete={submitCode} disabled={isSubmitting} />
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {status.enabled ? (
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+          ) : (
+            <ShieldOff className="h-5 w-5 text-slate-400" />
+          )}
+          {status.enabled ? 'On' : 'Off'}
+          {status.required && <Badge variant="secondary">Required by your school</Badge>}
+        </div>
+        <p className="text-sm text-slate-600">
+          {status.enabled
+            ? `Signing in asks for a code from your authenticator app. You have ${status.recoveryCodesRemaining} unused recovery codes.`
+            : 'Add a code from an authenticator app on your phone to your password, so a stolen password alone can\'t open your account.'}
+        </p>
+      </div>
+    );
+  };
+
+  const renderFooter = () => {
+    if (!status) return null;
+    if (recoveryCodes) {
+      return <Button onClick={() => setRecoveryCodes(null)}>Done</Button>;
+    }
+    if (enrolment || confirmAction) {
+      return (
+        <>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEnrolment(null);
+              setConfirmAction(null);
+              setCode('');
+            }}
+          >
+            Cancel
+          </Button>
+          <Button onClick={() => submitCode(code)} disabled={isSubmitting || code.length < 6}>
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </Button>
+        </>
+      );
+    }
+    if (!status.enabled) {
+      return (
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending ? 'Starting...' : 'Set Up'}
+        </Button>
+      );
+    }
+    return (
+      <>
+        {!status.required && (
+          <Button variant="outline" className="text-red-600" onClick={() => setConfirmAction('disable')}>
+            Turn Off
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => setConfirmAction('regenerate')}>
+          New Recovery Codes
+        </Button>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Protects the student work and messages your account can see.
+          </DialogDescription>
+        </DialogHeader>
+        {renderBody()}
+        <DialogFooter>{renderFooter()}</DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
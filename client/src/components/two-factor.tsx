@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+import { Copy, Download, ShieldCheck } from 'lucide-react';
+import { auth, TwoFactorChallenge, TwoFactorEnrolment, User } from '@/lib/auth';
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// The six digits shown in the authenticator app
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+      autoComplete="one-time-code"
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// The QR code to scan, with the secret for apps that can't scan
+export function TwoFactorQrCode({ enrolment }: { enrolment: TwoFactorEnrolment }) {
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <img src={enrolment.qrCode} alt="QR code for your authenticator app" className="h-44 w-44 rounded border" />
+      <p className="text-xs text-slate-500 text-center">
+        Can't scan it? Enter this key in the app instead:
+      </p>
+      <code className="text-xs font-mono bg-slate-100 rounded px-2 py-1 break-all text-center">
+        {enrolment.secret.replace(/(.{4})/g, '$1 ').trim()}
+      </code>
+    </div>
+  );
+}
+
+// Shown once, right after the codes are created; the server only keeps their hashes
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false);
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`CivicScape recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'civicscape-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-slate-600">
+        Each code signs you in once if you lose your phone. Keep them somewhere safe; they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-slate-50 p-3 font-mono text-sm text-center">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  onSignedIn: (user: User) => void;
+  onCancel: () => void;
+}
+
+// Second sign-in step for teachers and admins, including enrolment when an admin has made it mandatory
+export function TwoFactorLoginStep({ challenge, onSignedIn, onCancel }: TwoFactorLoginStepProps) {
+  const [enrolment, setEnrolment] = useState<TwoFactorEnrolment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [signedIn, setSignedIn] = useState<{ user: User; recoveryCodes: string[] } | null>(null);
+
+  useEffect(() => {
+    if (!challenge.setupRequired) return;
+    auth
+      .startTwoFactorSetup(challenge.challengeToken)
+      .then(setEnrolment)
+      .catch(() => setError('This sign-in has expired. Please sign in again.'));
+  }, [challenge]);
+
+  const submit = async (factor: { code?: string; recoveryCode?: string }) => {
+    setIsLoading(true);
+    setError('');
+    const result = await auth.completeTwoFactorLogin(challenge.challengeToken, factor);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setError(result.message);
+      setCode('');
+    } else if (result.recoveryCodes) {
+      setSignedIn({ user: result.user, recoveryCodes: result.recoveryCodes });
+    } else {
+      onSignedIn(result.user);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(useRecoveryCode ? { recoveryCode } : { code });
+  };
+
+  if (signedIn) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-green-700 font-medium">
+          <ShieldCheck className="h-5 w-5" />
+          Two-factor authentication is on
+        </div>
+        <RecoveryCodeList codes={signedIn.recoveryCodes} />
+        <Button className="w-full edugis-btn-primary" onClick={() => onSignedIn(signedIn.user)}>
+          I've saved my codes, continue
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {challenge.setupRequired ? (
+        <>
+          <p className="text-sm text-slate-600">
+            Your school requires two-factor authentication. Scan this code with an authenticator app such as
+            Google Authenticator or Microsoft Authenticator, then enter the 6-digit code it shows.
+          </p>
+          {enrolment && <TwoFactorQrCode enrolment={enrolment} />}
+        </>
+      ) : (
+        <p className="text-sm text-slate-600">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      )}
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            value={recoveryCode}
+            onChange={(e) => setRecoveryCode(e.target.value)}
+            placeholder="XXXX-XXXX"
+            autoComplete="off"
+            autoFocus
+            required
+          />
+        </div>
+      ) : (
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => submit({ code: value })}
+          disabled={isLoading || (challenge.setupRequired && !enrolment)}
+        />
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+          {error}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full edugis-btn-primary"
+        disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+      >
+        {isLoading ? 'Verifying...' : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" className="text-slate-500 hover:underline" onClick={onCancel}>
+          Back to login
+        </button>
+        {!challenge.setupRequired && (
+          <button
+            type="button"
+            className="text-purple-600 hover:text-purple-800 hover:underline"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setError('');
+            }}
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
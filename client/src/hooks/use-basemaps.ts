@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { Basemap } from '@/lib/types';
+
+// The basemap registry, optionally narrowed to the basemaps an assignment allows
+export function useBasemaps(allowedKeys?: string[] | null): Basemap[] {
+  const { data: basemaps = [] } = useQuery<Basemap[]>({
+    queryKey: ['/api/basemaps'],
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+
+  if (!allowedKeys?.length) return basemaps;
+  const allowed = basemaps.filter(basemap => allowedKeys.includes(basemap.key));
+  // A restriction that matches nothing (e.g. every allowed basemap was removed) shouldn't leave the map blank
+  return allowed.length > 0 ? allowed : basemaps;
+}
@@ -24,6 +24,61 @@ export interface RegisterData {
   role: 'admin' | 'teacher' | 'student';
 }
 
+// A password sign-in that still needs a code from the user's authenticator app
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  // The account must set up two-factor authentication before signing in
+  setupRequired: boolean;
+}
+
+// What an authenticator app needs; qrCode is a data: URL
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// apiRequest throws "<status>: <body>"; the JSON body carries the server's explanation
+export function parseApiError(error: unknown): { status: number | null; message: string | null } {
+  const match = error instanceof Error ? /^(\d{3}): ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return { status: null, message: null };
+  try {
+    return { status: Number(match[1]), message: JSON.parse(match[2]).message ?? null };
+  } catch {
+    return { status: Number(match[1]), message: null };
+  }
+}
+
+// Set after a picture or badge sign-in, so a shared classroom tablet goes back to the class page on sign-out
+const CLASS_LOGIN_KEY = 'class_login_code';
+
+function storeSignIn(result: { token: string; user: User }) {
+  localStorage.setItem('auth_token', result.token);
+  localStorage.setItem('user', JSON.stringify(result.user));
+  localStorage.removeItem(CLASS_LOGIN_KEY);
+}
+
+function signedOutPage(): string {
+  const classCode = localStorage.getItem(CLASS_LOGIN_KEY);
+  return classCode ? `/picture-login/${encodeURIComponent(classCode)}` : '/login';
+}
+
+async function classSignIn(
+  url: string,
+  classCode: string,
+  data: Record<string, unknown>,
+): Promise<{ success: true; user: User } | { success: false; message: string }> {
+  try {
+    const response = await apiRequest('POST', url, { classCode, ...data });
+    const result = await response.json();
+    storeSignIn(result);
+    localStorage.setItem(CLASS_LOGIN_KEY, classCode);
+    return { success: true, user: result.user };
+  } catch (error) {
+    return { success: false, message: parseApiError(error).message || 'Network error occurred' };
+  }
+}
+
 export const auth = {
   login: async (data: LoginData) => {
     try {
@@ -31,17 +86,65 @@ export const auth = {
       const result = await response.json();
       
       if (result.token) {
-        localStorage.setItem('auth_token', result.token);
-        localStorage.setItem('user', JSON.stringify(result.user));
+        storeSignIn(result);
         return { success: true, ...result };
+      } else if (result.twoFactorRequired) {
+        const twoFactor: TwoFactorChallenge = {
+          challengeToken: result.challengeToken,
+          setupRequired: result.setupRequired,
+        };
+        return { success: false, twoFactor };
       } else {
         return { success: false, message: result.message || 'Invalid credentials' };
       }
     } catch (error) {
+      // Throttled and locked-out sign-ins explain why
+      const { status, message } = parseApiError(error);
+      if ((status === 423 || status === 429) && message) {
+        return { success: false, blocked: true, message };
+      }
       return { success: false, message: 'Network error occurred' };
     }
   },
 
+  // For a sign-in that has to enrol in two-factor first
+  startTwoFactorSetup: async (challengeToken: string): Promise<TwoFactorEnrolment> => {
+    const response = await apiRequest('POST', '/api/auth/login/two-factor/setup', { challengeToken });
+    return await response.json();
+  },
+
+  // Second sign-in step; recoveryCodes is set when the user has just enrolled
+  completeTwoFactorLogin: async (
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string },
+  ): Promise<{ success: true; user: User; recoveryCodes?: string[] } | { success: false; message: string }> => {
+    try {
+      const response = await apiRequest('POST', '/api/auth/login/two-factor', { challengeToken, ...factor });
+      const result = await response.json();
+      storeSignIn(result);
+      return { success: true, user: result.user, recoveryCodes: result.recoveryCodes };
+    } catch (error) {
+      return { success: false, message: parseApiError(error).message || 'Network error occurred' };
+    }
+  },
+
+  // A young student's picture sequence, tapped on their class sign-in page
+  pictureLogin: (classCode: string, studentId: number, pictures: string[]) =>
+    classSignIn('/api/auth/login/picture', classCode, { studentId, pictures }),
+
+  // The secret from a scanned login badge
+  badgeLogin: (classCode: string, badgeToken: string) =>
+    classSignIn('/api/auth/login/badge', classCode, { badgeToken }),
+
+  // Finishes a single sign-on: the server redirects back with a session token for this browser
+  completeSsoLogin: async (token: string) => {
+    localStorage.setItem('auth_token', token);
+    const response = await apiRequest('GET', '/api/auth/me');
+    const result = await response.json();
+    localStorage.setItem('user', JSON.stringify(result.user));
+    return result.user as User;
+  },
+
   register: async (data: RegisterData) => {
     const response = await apiRequest('POST', '/api/auth/register', data);
     return await response.json();
@@ -55,10 +158,18 @@ export const auth = {
     } finally {
       localStorage.removeItem('auth_token');
       localStorage.removeItem('user');
-      window.location.href = '/login';
+      window.location.href = signedOutPage();
     }
   },
 
+  // Signs out every device, this one included
+  logoutAllDevices: async () => {
+    await apiRequest('POST', '/api/auth/logout-all');
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('user');
+    window.location.href = signedOutPage();
+  },
+
   getUser: (): User | null => {
     const userStr = localStorage.getItem('user');
     return userStr ? JSON.parse(userStr) : null;
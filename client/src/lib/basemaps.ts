@@ -0,0 +1,42 @@
+import { Basemap, LayerData } from './types';
+
+export interface BasemapLayer {
+  layer: LayerData;
+  basemap: Basemap;
+}
+
+/**
+ * Pairs a map's basemap tile layers with their registry entries, keeping those that are shown.
+ * Maps whose basemaps are all unavailable (removed by an admin, or not allowed for the
+ * assignment) fall back to the default basemap rather than showing no background at all.
+ */
+export function resolveBasemapLayers(
+  layers: LayerData[],
+  basemaps: Basemap[],
+  isShown: (layer: LayerData) => boolean = layer => layer.visible,
+): BasemapLayer[] {
+  const known = layers
+    .filter(layer => layer.type === 'tile')
+    .flatMap(layer => {
+      const basemap = basemaps.find(b => b.key === layer.id);
+      return basemap ? [{ layer, basemap }] : [];
+    });
+  if (known.length > 0) return known.filter(({ layer }) => isShown(layer));
+
+  const fallback = getDefaultBasemap(basemaps);
+  return fallback ? [{ layer: createBasemapLayer(fallback), basemap: fallback }] : [];
+}
+
+export function getDefaultBasemap(basemaps: Basemap[]): Basemap | undefined {
+  return basemaps.find(basemap => basemap.isDefault) ?? basemaps[0];
+}
+
+export function createBasemapLayer(basemap: Basemap): LayerData {
+  return { id: basemap.key, name: basemap.name, type: 'tile', visible: true, opacity: 1 };
+}
+
+// Plain-text credit for exported snapshots
+export function getBasemapCredit(basemap: Basemap): string {
+  const text = new DOMParser().parseFromString(basemap.attribution, 'text/html').body.textContent ?? '';
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,118 @@
+import type { FeatureCollection, Point } from 'geojson';
+import { LayerData, SurveyFieldType, SurveyForm, SurveyRecord } from '@/lib/types';
+
+export const SURVEY_FIELD_TYPE_LABELS: Record<SurveyFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  choice: 'Choice',
+  photo: 'Photo',
+};
+
+export const SURVEY_LAYER_ID = 'survey-records';
+
+export interface DeviceLocation {
+  latitude: number;
+  longitude: number;
+  // Metres
+  accuracy: number;
+}
+
+// Readable reasons for the browser's geolocation error codes
+const GEOLOCATION_ERRORS: Record<number, string> = {
+  1: 'Location access was denied. Allow this site to use your location in the browser settings.',
+  2: 'Your location could not be found. Try again outside or near a window.',
+  3: 'Finding your location took too long. Try again.',
+};
+
+export function getDeviceLocation(): Promise<DeviceLocation> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('This browser cannot share its location.'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      error => reject(new Error(GEOLOCATION_ERRORS[error.code] ?? 'Your location could not be found.')),
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+    );
+  });
+}
+
+// Uploads a photo taken for a survey field and returns its URL
+export async function uploadSurveyPhoto(file: File): Promise<string> {
+  const formData = new FormData();
+  formData.append('files', file);
+
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to upload photo');
+  }
+
+  const result = await response.json();
+  return result.files[0].url;
+}
+
+// The class's observations as a read-only point layer, with each field as an attribute named by its label
+export function surveyRecordsToLayer(form: SurveyForm, records: SurveyRecord[]): LayerData {
+  const data: FeatureCollection<Point> = {
+    type: 'FeatureCollection',
+    features: records.map(record => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [record.longitude, record.latitude] },
+      properties: {
+        Student: record.studentName,
+        Recorded: new Date(record.createdAt).toLocaleString(),
+        ...Object.fromEntries(form.fields.map(field => [field.label, record.values[field.id] ?? null])),
+      },
+    })),
+  };
+
+  return {
+    id: SURVEY_LAYER_ID,
+    name: 'Class observations',
+    type: 'vector',
+    visible: true,
+    opacity: 0.9,
+    color: '#e6550d',
+    data,
+    popup: {
+      fields: ['Recorded', ...form.fields.filter(field => field.type !== 'photo').map(field => field.label)],
+      titleField: 'Student',
+    },
+  };
+}
+
+export async function downloadSurveyRecords(assignmentId: number, format: 'csv' | 'geojson'): Promise<void> {
+  const response = await fetch(`/api/assignments/${assignmentId}/survey-records?format=${format}`, {
+    headers: {
+      'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+    },
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to export observations');
+  }
+
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `survey.${format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
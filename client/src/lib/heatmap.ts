@@ -0,0 +1,117 @@
+import L from 'leaflet';
+
+// Colour stops from sparse to dense, also used for the legend
+export const HEATMAP_GRADIENT: [number, string][] = [
+  [0.2, '#2563eb'],
+  [0.4, '#06b6d4'],
+  [0.6, '#84cc16'],
+  [0.8, '#facc15'],
+  [1, '#dc2626'],
+];
+
+interface HeatmapOptions {
+  // Radius of each point's influence, in screen pixels
+  radius?: number;
+  opacity?: number;
+}
+
+const DEFAULT_RADIUS = 25;
+
+// 256-entry RGBA lookup from density (alpha) to colour
+function createPalette(): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  HEATMAP_GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+}
+
+/**
+ * Point density layer drawn on a canvas covering the view. Each point adds a soft
+ * greyscale spot; overlapping spots add up and the summed density is then coloured
+ * through HEATMAP_GRADIENT.
+ */
+export class HeatmapLayer extends L.Layer {
+  private canvas: HTMLCanvasElement | null = null;
+  private palette: Uint8ClampedArray | null = null;
+
+  constructor(
+    private points: [number, number][],
+    private heatmapOptions: HeatmapOptions = {},
+  ) {
+    super();
+  }
+
+  onAdd(map: L.Map): this {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.position = 'absolute';
+    canvas.style.pointerEvents = 'none';
+    canvas.style.opacity = String(this.heatmapOptions.opacity ?? 0.8);
+    map.getPanes().overlayPane.appendChild(canvas);
+    this.canvas = canvas;
+    this.palette = createPalette();
+
+    map.on('moveend zoomend viewreset resize', this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('moveend zoomend viewreset resize', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    return this;
+  }
+
+  setPoints(points: [number, number][]): this {
+    this.points = points;
+    this.redraw();
+    return this;
+  }
+
+  private redraw() {
+    const map = this._map;
+    const canvas = this.canvas;
+    if (!map || !canvas || !this.palette) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx || this.points.length === 0) return;
+
+    const radius = this.heatmapOptions.radius ?? DEFAULT_RADIUS;
+    // Denser classes need each point to count for less, or everything saturates to red
+    const intensity = Math.max(0.15, Math.min(0.6, 3 / Math.sqrt(this.points.length)));
+
+    this.points.forEach(point => {
+      const { x, y } = map.latLngToContainerPoint(point);
+      if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) return;
+      const spot = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      spot.addColorStop(0, `rgba(0, 0, 0, ${intensity})`);
+      spot.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = spot;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    });
+
+    const image = ctx.getImageData(0, 0, size.x, size.y);
+    const pixels = image.data;
+    for (let i = 3; i < pixels.length; i += 4) {
+      const alpha = pixels[i];
+      if (!alpha) continue;
+      const offset = alpha * 4;
+      pixels[i - 3] = this.palette[offset];
+      pixels[i - 2] = this.palette[offset + 1];
+      pixels[i - 1] = this.palette[offset + 2];
+      // Keep the faint edges translucent
+      pixels[i] = Math.min(255, alpha * 2);
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+}
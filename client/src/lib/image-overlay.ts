@@ -0,0 +1,133 @@
+import L from 'leaflet';
+import { ImageCorners } from './types';
+
+// Between basemap tiles (200) and vector overlays (400)
+export const IMAGE_OVERLAY_PANE = 'image-overlays';
+const IMAGE_OVERLAY_PANE_Z_INDEX = '350';
+
+// Share of the map view a newly placed image covers before it's aligned
+const INITIAL_VIEW_FRACTION = 0.6;
+
+type Point = { x: number; y: number };
+
+/**
+ * Affine transform [a, b, c, d, e, f] (as used by CSS matrix() and canvas setTransform)
+ * taking image pixels to the points where the image's top-left, top-right and
+ * bottom-left corners should appear.
+ */
+export function getImageTransform(
+  width: number,
+  height: number,
+  topLeft: Point,
+  topRight: Point,
+  bottomLeft: Point,
+): [number, number, number, number, number, number] {
+  return [
+    (topRight.x - topLeft.x) / width,
+    (topRight.y - topLeft.y) / width,
+    (bottomLeft.x - topLeft.x) / height,
+    (bottomLeft.y - topLeft.y) / height,
+    topLeft.x,
+    topLeft.y,
+  ];
+}
+
+// The fourth corner, completing the parallelogram in projected space
+export function getBottomRightCorner(map: L.Map, corners: ImageCorners): [number, number] {
+  const [topLeft, topRight, bottomLeft] = corners.map(corner => map.project(corner));
+  const latlng = map.unproject(topRight.add(bottomLeft).subtract(topLeft));
+  return [latlng.lat, latlng.lng];
+}
+
+// Centres an image of the given size in the current view, keeping its aspect ratio
+export function getInitialImageCorners(map: L.Map, width: number, height: number): ImageCorners {
+  const size = map.getSize();
+  const scale = Math.min((size.x * INITIAL_VIEW_FRACTION) / width, (size.y * INITIAL_VIEW_FRACTION) / height);
+  const left = (size.x - width * scale) / 2;
+  const top = (size.y - height * scale) / 2;
+  const toLatLng = (x: number, y: number): [number, number] => {
+    const latlng = map.containerPointToLatLng([x, y]);
+    return [latlng.lat, latlng.lng];
+  };
+  return [toLatLng(left, top), toLatLng(left + width * scale, top), toLatLng(left, top + height * scale)];
+}
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be loaded.'));
+    image.src = url;
+  });
+}
+
+/**
+ * Image layer positioned by three corner points, so scanned maps can be rotated, scaled
+ * and skewed into place. Leaflet's own ImageOverlay only supports north-up bounds.
+ */
+export class AffineImageOverlay extends L.Layer {
+  private image: HTMLImageElement | null = null;
+
+  constructor(
+    private url: string,
+    private corners: ImageCorners,
+    private overlayOptions: { opacity?: number; pane?: string } = {},
+  ) {
+    super();
+  }
+
+  onAdd(map: L.Map): this {
+    const paneName = this.overlayOptions.pane ?? IMAGE_OVERLAY_PANE;
+    let pane = map.getPane(paneName);
+    if (!pane) {
+      pane = map.createPane(paneName);
+      pane.style.zIndex = IMAGE_OVERLAY_PANE_Z_INDEX;
+    }
+
+    const image = L.DomUtil.create('img', 'leaflet-image-layer leaflet-zoom-hide') as HTMLImageElement;
+    image.style.position = 'absolute';
+    image.style.left = '0';
+    image.style.top = '0';
+    image.style.transformOrigin = '0 0';
+    image.style.pointerEvents = 'none';
+    image.style.maxWidth = 'none';
+    image.onload = () => this.update();
+    image.src = this.url;
+    pane.appendChild(image);
+    this.image = image;
+
+    this.setOpacity(this.overlayOptions.opacity ?? 1);
+    map.on('zoomend viewreset', this.update, this);
+    this.update();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('zoomend viewreset', this.update, this);
+    this.image?.remove();
+    this.image = null;
+    return this;
+  }
+
+  setCorners(corners: ImageCorners): this {
+    this.corners = corners;
+    this.update();
+    return this;
+  }
+
+  setOpacity(opacity: number): this {
+    this.overlayOptions.opacity = opacity;
+    if (this.image) this.image.style.opacity = String(opacity);
+    return this;
+  }
+
+  private update() {
+    const map = this._map;
+    const image = this.image;
+    if (!map || !image || !image.naturalWidth) return;
+
+    const [topLeft, topRight, bottomLeft] = this.corners.map(corner => map.latLngToLayerPoint(corner));
+    const matrix = getImageTransform(image.naturalWidth, image.naturalHeight, topLeft, topRight, bottomLeft);
+    image.style.transform = `matrix(${matrix.join(',')})`;
+  }
+}
@@ -0,0 +1,237 @@
+import * as turf from '@turf/turf';
+import type { Feature, FeatureCollection, Geometry, LineString, MultiLineString, MultiPolygon, Point, Polygon } from 'geojson';
+import { MapData } from './types';
+import { ANNOTATION_TYPE_LABELS, annotationToGeometry } from './map-utils';
+
+export type AnalysisOperation = 'buffer' | 'centroid' | 'point-in-polygon' | 'intersect' | 'union';
+
+export const ANALYSIS_OPERATION_LABELS: Record<AnalysisOperation, string> = {
+  buffer: 'Buffer',
+  centroid: 'Centroid',
+  'point-in-polygon': 'Points in polygons',
+  intersect: 'Intersect',
+  union: 'Union',
+};
+
+// A set of features an analysis can run on: one annotation, all annotations, or a vector layer
+export interface AnalysisSource {
+  id: string;
+  label: string;
+  collection: FeatureCollection;
+}
+
+export interface AnalysisResult {
+  operation: AnalysisOperation;
+  title: string;
+  summary: string[];
+  collection: FeatureCollection;
+}
+
+export interface Measurement {
+  length?: number; // kilometres
+  area?: number; // square metres
+  perimeter?: number; // kilometres
+}
+
+export function getAnalysisSources(mapData: MapData): AnalysisSource[] {
+  const annotationFeatures: Feature[] = mapData.annotations
+    .filter(annotation => annotation.type !== 'text')
+    .map(annotation => ({
+      type: 'Feature',
+      geometry: annotationToGeometry(annotation),
+      properties: { name: annotation.properties.text || ANNOTATION_TYPE_LABELS[annotation.type] },
+    }));
+
+  const sources: AnalysisSource[] = [];
+  if (annotationFeatures.length > 1) {
+    sources.push({ id: 'annotations', label: 'All my annotations', collection: turf.featureCollection(annotationFeatures) });
+  }
+  annotationFeatures.forEach((feature, index) => {
+    sources.push({
+      id: `annotation-${index}`,
+      label: feature.properties!.name,
+      collection: turf.featureCollection([feature]),
+    });
+  });
+  mapData.layers
+    .filter(layer => layer.type === 'vector' && layer.data?.features?.length)
+    .forEach(layer => {
+      sources.push({ id: `layer-${layer.id}`, label: `Layer: ${layer.name}`, collection: layer.data });
+    });
+
+  return sources;
+}
+
+function isPolygonal(feature: Feature): feature is Feature<Polygon | MultiPolygon> {
+  return feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+}
+
+function polygonsOf(collection: FeatureCollection): Feature<Polygon | MultiPolygon>[] {
+  return collection.features.filter(isPolygonal);
+}
+
+function pointsOf(collection: FeatureCollection): Feature<Point>[] {
+  return turf.flatten(collection as FeatureCollection<Geometry>).features.filter(
+    (feature): feature is Feature<Point> => feature.geometry?.type === 'Point'
+  );
+}
+
+// A multipolygon's outline comes back as one feature per polygon, so sum their lengths
+function perimeterOf(feature: Feature<Polygon | MultiPolygon>): number {
+  const outline: Feature<LineString | MultiLineString> | FeatureCollection<LineString | MultiLineString> =
+    turf.polygonToLine(feature);
+  const lines = outline.type === 'FeatureCollection' ? outline.features : [outline];
+  return lines.reduce((total, line) => total + turf.length(line, { units: 'kilometers' }), 0);
+}
+
+export function measureGeometry(geometry: Geometry): Measurement {
+  const feature = turf.feature(geometry);
+  switch (geometry.type) {
+    case 'LineString':
+    case 'MultiLineString':
+      return { length: turf.length(feature, { units: 'kilometers' }) };
+    case 'Polygon':
+    case 'MultiPolygon':
+      return {
+        area: turf.area(feature),
+        perimeter: perimeterOf(feature as Feature<Polygon | MultiPolygon>),
+      };
+    default:
+      return {};
+  }
+}
+
+export function formatDistance(kilometres: number): string {
+  return kilometres < 1 ? `${Math.round(kilometres * 1000)} m` : `${kilometres.toFixed(2)} km`;
+}
+
+export function formatArea(squareMetres: number): string {
+  if (squareMetres < 10000) return `${Math.round(squareMetres)} m²`;
+  if (squareMetres < 1000000) return `${(squareMetres / 10000).toFixed(2)} ha`;
+  return `${(squareMetres / 1000000).toFixed(2)} km²`;
+}
+
+export function formatMeasurement(measurement: Measurement): string[] {
+  const lines: string[] = [];
+  if (measurement.length !== undefined) lines.push(`Length: ${formatDistance(measurement.length)}`);
+  if (measurement.area !== undefined) lines.push(`Area: ${formatArea(measurement.area)}`);
+  if (measurement.perimeter !== undefined) lines.push(`Perimeter: ${formatDistance(measurement.perimeter)}`);
+  return lines;
+}
+
+// Merges all polygons in a collection into one feature, or null if there are none
+function dissolve(collection: FeatureCollection): Feature<Polygon | MultiPolygon> | null {
+  const polygons = polygonsOf(collection);
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return polygons[0];
+  return turf.union(turf.featureCollection(polygons));
+}
+
+function buffer(source: AnalysisSource, meters: number): AnalysisResult {
+  const buffered = turf.buffer(source.collection, meters, { units: 'meters' }) as FeatureCollection | undefined;
+  const collection = buffered ?? turf.featureCollection([]);
+  const merged = dissolve(collection);
+  const area = merged ? turf.area(merged) : 0;
+
+  return {
+    operation: 'buffer',
+    title: `${formatDistance(meters / 1000)} buffer of ${source.label}`,
+    summary: [`Buffer distance: ${formatDistance(meters / 1000)}`, `Area covered: ${formatArea(area)}`],
+    collection: merged ? turf.featureCollection([merged]) : collection,
+  };
+}
+
+function centroid(source: AnalysisSource): AnalysisResult {
+  const features = source.collection.features
+    .filter(feature => feature.geometry)
+    .map(feature => turf.centroid(feature, { properties: { name: `Centroid of ${feature.properties?.name ?? source.label}` } }));
+  const summary = features.map(feature => {
+    const [lng, lat] = feature.geometry.coordinates;
+    return `${feature.properties?.name}: ${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+  });
+
+  return {
+    operation: 'centroid',
+    title: `Centroids of ${source.label}`,
+    summary,
+    collection: turf.featureCollection(features),
+  };
+}
+
+function pointInPolygon(polygonSource: AnalysisSource, pointSource: AnalysisSource): AnalysisResult {
+  const points = pointsOf(pointSource.collection);
+  // Overlapping polygons can share points, so the total counts each point once
+  const pointsInside = new Set<number>();
+  const polygons = polygonsOf(polygonSource.collection).map((polygon, index) => {
+    let count = 0;
+    points.forEach((point, pointIndex) => {
+      if (turf.booleanPointInPolygon(point, polygon)) {
+        count++;
+        pointsInside.add(pointIndex);
+      }
+    });
+    return turf.feature(polygon.geometry, {
+      ...polygon.properties,
+      name: polygon.properties?.name ?? `Polygon ${index + 1}`,
+      pointCount: count,
+    });
+  });
+  const total = pointsInside.size;
+
+  return {
+    operation: 'point-in-polygon',
+    title: `${pointSource.label} in ${polygonSource.label}`,
+    summary: [
+      ...polygons.map(polygon => `${polygon.properties.name}: ${polygon.properties.pointCount} point(s)`),
+      `Total: ${total} of ${points.length} point(s) inside`,
+    ],
+    collection: turf.featureCollection(polygons),
+  };
+}
+
+function overlay(operation: 'intersect' | 'union', first: AnalysisSource, second: AnalysisSource): AnalysisResult {
+  const a = dissolve(first.collection);
+  const b = dissolve(second.collection);
+  const label = operation === 'intersect' ? 'Intersection' : 'Union';
+  if (!a || !b) {
+    return {
+      operation,
+      title: `${label} of ${first.label} and ${second.label}`,
+      summary: ['Both inputs need at least one polygon, rectangle or circle.'],
+      collection: turf.featureCollection([]),
+    };
+  }
+
+  const pair = turf.featureCollection([a, b]);
+  const result = operation === 'intersect' ? turf.intersect(pair) : turf.union(pair);
+
+  return {
+    operation,
+    title: `${label} of ${first.label} and ${second.label}`,
+    summary: result
+      ? [`Area: ${formatArea(turf.area(result))}`]
+      : ['The shapes do not overlap.'],
+    collection: turf.featureCollection(result ? [result] : []),
+  };
+}
+
+export function runAnalysis(
+  operation: AnalysisOperation,
+  first: AnalysisSource,
+  second: AnalysisSource | undefined,
+  bufferMeters: number,
+): AnalysisResult {
+  switch (operation) {
+    case 'buffer':
+      return buffer(first, bufferMeters);
+    case 'centroid':
+      return centroid(first);
+    case 'point-in-polygon':
+      if (!second) throw new Error('Choose the points to count.');
+      return pointInPolygon(first, second);
+    case 'intersect':
+    case 'union':
+      if (!second) throw new Error('Choose a second layer.');
+      return overlay(operation, first, second);
+  }
+}
@@ -0,0 +1,585 @@
+import L from 'leaflet';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { Annotation, Basemap, LayerData, MapData } from './types';
+import {
+  ANNOTATION_TYPE_LABELS,
+  DEFAULT_ANNOTATION_COLOR,
+  annotationToGeometry,
+  escapeHtml,
+  getAnnotationPathOptions,
+  getVectorLayerStyle,
+  toLngLat,
+} from './map-utils';
+import { FeatureStyle, getVectorFeatureStyle } from './map-styling';
+import { getImageTransform } from './image-overlay';
+import { getTimeFilteredData } from './map-time';
+import { getBasemapCredit, resolveBasemapLayers } from './basemaps';
+
+export type MapExportFormat = 'geojson' | 'kml' | 'png' | 'pdf';
+
+const TILE_SIZE = 256;
+const TITLE_HEIGHT = 48;
+
+/**
+ * Converts the map's annotations and visible imported layers into one FeatureCollection.
+ * Styles are written as simplestyle-spec properties, which ArcGIS Online and geojson.io read.
+ */
+export function mapDataToGeoJSON(mapData: MapData): FeatureCollection {
+  const features: Feature[] = mapData.annotations.map(annotation => {
+    const style = getAnnotationPathOptions(annotation);
+    const { properties } = annotation;
+    const isPoint = annotation.type === 'point' || annotation.type === 'text';
+
+    return {
+      type: 'Feature',
+      geometry: annotationToGeometry(annotation),
+      properties: {
+        name: properties.text || ANNOTATION_TYPE_LABELS[annotation.type],
+        annotationType: annotation.type,
+        ...(annotation.type === 'circle' ? { radius: properties.radius } : {}),
+        ...(annotation.type === 'text' ? { fontSize: properties.fontSize ?? 14 } : {}),
+        ...(isPoint
+          ? { 'marker-color': properties.color || DEFAULT_ANNOTATION_COLOR }
+          : {
+              stroke: style.color,
+              'stroke-width': style.weight,
+              'stroke-opacity': style.opacity,
+              ...(annotation.type !== 'line' ? { fill: style.fillColor, 'fill-opacity': style.fillOpacity } : {}),
+            }),
+      },
+    };
+  });
+
+  mapData.layers
+    .filter(layer => layer.type === 'vector' && layer.visible && layer.data?.features)
+    .forEach(layer => {
+      layer.data.features.forEach((feature: Feature) => {
+        const style = getVectorFeatureStyle(layer, feature);
+        features.push({
+          ...feature,
+          properties: {
+            ...feature.properties,
+            layer: layer.name,
+            stroke: style.color,
+            fill: style.fillColor,
+            'marker-color': style.color,
+          },
+        });
+      });
+    });
+
+  return { type: 'FeatureCollection', features };
+}
+
+// KML colours are aabbggrr
+function toKmlColor(hex: string | undefined, opacity = 1): string {
+  const value = (hex || DEFAULT_ANNOTATION_COLOR).replace('#', '');
+  const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+  const alpha = Math.round(Math.max(0, Math.min(1, opacity)) * 255)
+    .toString(16)
+    .padStart(2, '0');
+  return `${alpha}${b}${g}${r}`;
+}
+
+function kmlCoordinates(positions: Position[]): string {
+  return positions.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+}
+
+function geometryToKml(geometry: Geometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon': {
+      const [outer, ...holes] = geometry.coordinates;
+      return (
+        `<Polygon><outerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>` +
+        holes
+          .map(hole => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`)
+          .join('') +
+        '</Polygon>'
+      );
+    }
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map(c => geometryToKml({ type: 'Point', coordinates: c })).join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map(c => geometryToKml({ type: 'LineString', coordinates: c })).join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(c => geometryToKml({ type: 'Polygon', coordinates: c })).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(geometryToKml).join('')}</MultiGeometry>`;
+  }
+}
+
+function featureStyleToKml(properties: Record<string, any>): string {
+  return (
+    '<Style>' +
+    `<IconStyle><color>${toKmlColor(properties['marker-color'] || properties.stroke)}</color></IconStyle>` +
+    `<LineStyle><color>${toKmlColor(properties.stroke, properties['stroke-opacity'] ?? 1)}</color><width>${properties['stroke-width'] ?? 2}</width></LineStyle>` +
+    `<PolyStyle><color>${toKmlColor(properties.fill || properties.stroke, properties['fill-opacity'] ?? 0.4)}</color></PolyStyle>` +
+    '</Style>'
+  );
+}
+
+const KML_STYLE_PROPERTIES = ['stroke', 'stroke-width', 'stroke-opacity', 'fill', 'fill-opacity', 'marker-color'];
+
+export function geoJSONToKml(collection: FeatureCollection, title: string): string {
+  const placemarks = collection.features
+    .filter(feature => feature.geometry)
+    .map(feature => {
+      const properties = feature.properties || {};
+      const data = Object.entries(properties)
+        .filter(([key, value]) => !KML_STYLE_PROPERTIES.includes(key) && value !== null && value !== undefined)
+        .map(([key, value]) => `<Data name="${escapeHtml(key)}"><value>${escapeHtml(String(value))}</value></Data>`)
+        .join('');
+
+      return (
+        '<Placemark>' +
+        `<name>${escapeHtml(String(properties.name ?? ''))}</name>` +
+        featureStyleToKml(properties) +
+        (data ? `<ExtendedData>${data}</ExtendedData>` : '') +
+        geometryToKml(feature.geometry) +
+        '</Placemark>'
+      );
+    })
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+<name>${escapeHtml(title)}</name>
+${placemarks}
+</Document>
+</kml>
+`;
+}
+
+interface LegendItem {
+  label: string;
+  color: string;
+  shape: 'point' | 'line' | 'area' | 'text';
+}
+
+const MAX_LEGEND_ITEMS = 10;
+
+function getLegendItems(mapData: MapData): LegendItem[] {
+  const items: LegendItem[] = mapData.layers
+    .filter(layer => layer.type === 'vector' && layer.visible && layer.data)
+    .flatMap((layer): LegendItem[] =>
+      layer.style
+        ? layer.style.legend.map(entry => ({
+            label: `${layer.style!.property}: ${entry.label}`,
+            color: entry.color,
+            shape: entry.radius !== undefined ? 'point' : 'area',
+          }))
+        : [{ label: layer.name, color: getVectorLayerStyle(layer).color as string, shape: 'area' }]
+    );
+
+  mapData.annotations.forEach(annotation => {
+    const shape =
+      annotation.type === 'point' || annotation.type === 'text'
+        ? annotation.type
+        : annotation.type === 'line'
+          ? 'line'
+          : 'area';
+    items.push({
+      label: annotation.properties.text || ANNOTATION_TYPE_LABELS[annotation.type],
+      color:
+        shape === 'point' || shape === 'text'
+          ? annotation.properties.color || DEFAULT_ANNOTATION_COLOR
+          : (getAnnotationPathOptions(annotation).color as string),
+      shape,
+    });
+  });
+
+  return items;
+}
+
+function loadTile(url: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+async function drawTiles(ctx: CanvasRenderingContext2D, map: L.Map, basemap: Basemap, opacity: number) {
+  const zoom = map.getZoom();
+  const pixelBounds = map.getPixelBounds();
+  const min = pixelBounds.min!;
+  const max = pixelBounds.max!;
+  const tileCount = 2 ** zoom;
+  const tiles: Promise<void>[] = [];
+
+  for (let x = Math.floor(min.x / TILE_SIZE); x <= Math.floor(max.x / TILE_SIZE); x++) {
+    for (let y = Math.floor(min.y / TILE_SIZE); y <= Math.floor(max.y / TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue;
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+      const url = basemap.urlTemplate
+        .replace('{s}', basemap.subdomains?.[0] ?? 'a')
+        .replace('{z}', String(zoom))
+        .replace('{x}', String(wrappedX))
+        .replace('{y}', String(y));
+
+      tiles.push(
+        loadTile(url).then(image => {
+          if (!image) return;
+          ctx.globalAlpha = opacity;
+          ctx.drawImage(image, x * TILE_SIZE - min.x, y * TILE_SIZE - min.y + TITLE_HEIGHT);
+          ctx.globalAlpha = 1;
+        })
+      );
+    }
+  }
+
+  await Promise.all(tiles);
+}
+
+async function drawImageOverlay(ctx: CanvasRenderingContext2D, map: L.Map, layer: LayerData) {
+  const image = await loadTile(layer.image!.url);
+  if (!image) return;
+
+  const [topLeft, topRight, bottomLeft] = layer.image!.corners.map(corner => {
+    const point = map.latLngToContainerPoint(corner);
+    return { x: point.x, y: point.y + TITLE_HEIGHT };
+  });
+  ctx.save();
+  ctx.globalAlpha = layer.opacity;
+  ctx.setTransform(...getImageTransform(image.naturalWidth, image.naturalHeight, topLeft, topRight, bottomLeft));
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+}
+
+function toCanvasPoint(map: L.Map, [lng, lat]: Position): [number, number] {
+  const point = map.latLngToContainerPoint([lat, lng]);
+  return [point.x, point.y + TITLE_HEIGHT];
+}
+
+function metersToPixels(map: L.Map, lat: number, meters: number): number {
+  const metersPerPixel = (40075016.686 * Math.cos((lat * Math.PI) / 180)) / 2 ** (map.getZoom() + 8);
+  return meters / metersPerPixel;
+}
+
+function applyPathStyle(ctx: CanvasRenderingContext2D, style: L.PathOptions, filled: boolean) {
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  if (filled) {
+    ctx.globalAlpha = style.fillOpacity ?? 0.2;
+    ctx.fillStyle = style.fillColor || style.color || DEFAULT_ANNOTATION_COLOR;
+    ctx.fill('evenodd');
+  }
+  ctx.globalAlpha = style.opacity ?? 1;
+  ctx.strokeStyle = style.color || DEFAULT_ANNOTATION_COLOR;
+  ctx.lineWidth = style.weight ?? 3;
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+}
+
+function drawMarker(ctx: CanvasRenderingContext2D, [x, y]: [number, number], color: string, radius = 7) {
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+}
+
+function traceLine(ctx: CanvasRenderingContext2D, map: L.Map, positions: Position[], close: boolean) {
+  positions.forEach((position, index) => {
+    const [x, y] = toCanvasPoint(map, position);
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  if (close) ctx.closePath();
+}
+
+function drawGeometry(ctx: CanvasRenderingContext2D, map: L.Map, geometry: Geometry, style: FeatureStyle) {
+  switch (geometry.type) {
+    case 'Point':
+      drawMarker(ctx, toCanvasPoint(map, geometry.coordinates), style.color || DEFAULT_ANNOTATION_COLOR, style.radius ?? 5);
+      break;
+    case 'MultiPoint':
+      geometry.coordinates.forEach(position =>
+        drawMarker(ctx, toCanvasPoint(map, position), style.color || DEFAULT_ANNOTATION_COLOR, style.radius ?? 5)
+      );
+      break;
+    case 'LineString':
+    case 'MultiLineString': {
+      const lines = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.coordinates;
+      ctx.beginPath();
+      lines.forEach(line => traceLine(ctx, map, line, false));
+      applyPathStyle(ctx, style, false);
+      break;
+    }
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      ctx.beginPath();
+      polygons.forEach(rings => rings.forEach(ring => traceLine(ctx, map, ring, true)));
+      applyPathStyle(ctx, style, true);
+      break;
+    }
+    case 'GeometryCollection':
+      geometry.geometries.forEach(child => drawGeometry(ctx, map, child, style));
+      break;
+  }
+}
+
+function drawAnnotation(ctx: CanvasRenderingContext2D, map: L.Map, annotation: Annotation) {
+  const { properties } = annotation;
+
+  switch (annotation.type) {
+    case 'point':
+      drawMarker(ctx, toCanvasPoint(map, toLngLat(annotation.coordinates)), properties.color || DEFAULT_ANNOTATION_COLOR);
+      break;
+    case 'text': {
+      const [x, y] = toCanvasPoint(map, toLngLat(annotation.coordinates));
+      ctx.font = `600 ${properties.fontSize ?? 14}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.globalAlpha = properties.opacity ?? 1;
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = '#ffffff';
+      ctx.strokeText(properties.text || '', x, y);
+      ctx.fillStyle = properties.color || '#1e293b';
+      ctx.fillText(properties.text || '', x, y);
+      ctx.globalAlpha = 1;
+      break;
+    }
+    case 'circle': {
+      const [lat, lng] = annotation.coordinates;
+      const [x, y] = toCanvasPoint(map, [lng, lat]);
+      ctx.beginPath();
+      ctx.arc(x, y, metersToPixels(map, lat, properties.radius ?? 100), 0, Math.PI * 2);
+      applyPathStyle(ctx, getAnnotationPathOptions(annotation), true);
+      break;
+    }
+    default:
+      drawGeometry(ctx, map, annotationToGeometry(annotation), getAnnotationPathOptions(annotation));
+  }
+}
+
+function drawLegend(ctx: CanvasRenderingContext2D, items: LegendItem[], canvasWidth: number, canvasHeight: number) {
+  if (items.length === 0) return;
+
+  const shown = items.slice(0, MAX_LEGEND_ITEMS);
+  const hidden = items.length - shown.length;
+  const rowHeight = 20;
+  const width = 200;
+  const height = 32 + shown.length * rowHeight + (hidden > 0 ? rowHeight : 0);
+  const left = canvasWidth - width - 12;
+  const top = canvasHeight - height - 12;
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.fillRect(left, top, width, height);
+  ctx.strokeStyle = '#d1d5db';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(left, top, width, height);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = '600 13px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('Legend', left + 10, top + 16);
+
+  ctx.font = '12px sans-serif';
+  shown.forEach((item, index) => {
+    const y = top + 36 + index * rowHeight;
+    const swatchX = left + 10;
+
+    ctx.fillStyle = item.color;
+    ctx.strokeStyle = item.color;
+    if (item.shape === 'point') {
+      ctx.beginPath();
+      ctx.arc(swatchX + 7, y, 5, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (item.shape === 'line') {
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(swatchX, y);
+      ctx.lineTo(swatchX + 14, y);
+      ctx.stroke();
+    } else if (item.shape === 'text') {
+      ctx.font = '600 12px sans-serif';
+      ctx.fillText('T', swatchX + 3, y);
+      ctx.font = '12px sans-serif';
+    } else {
+      ctx.globalAlpha = 0.5;
+      ctx.fillRect(swatchX, y - 6, 14, 12);
+      ctx.globalAlpha = 1;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(swatchX, y - 6, 14, 12);
+    }
+
+    ctx.fillStyle = '#374151';
+    const label = item.label.length > 26 ? `${item.label.slice(0, 25)}…` : item.label;
+    ctx.fillText(label, swatchX + 22, y);
+  });
+
+  if (hidden > 0) {
+    ctx.fillStyle = '#6b7280';
+    ctx.fillText(`+ ${hidden} more`, left + 32, top + 36 + shown.length * rowHeight);
+  }
+}
+
+/**
+ * Draws the current map view (basemap tiles, image overlays, layers and annotations) onto a canvas
+ * with a title bar and legend. Tiles that can't be loaded cross-origin are left blank.
+ */
+export async function renderMapSnapshot(map: L.Map, mapData: MapData, title: string, basemaps: Basemap[]): Promise<HTMLCanvasElement> {
+  const size = map.getSize();
+  const canvas = document.createElement('canvas');
+  canvas.width = size.x;
+  canvas.height = size.y + TITLE_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#f3f4f6';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const credits: string[] = [];
+  for (const { layer, basemap } of resolveBasemapLayers(mapData.layers, basemaps)) {
+    await drawTiles(ctx, map, basemap, layer.opacity);
+    credits.push(getBasemapCredit(basemap));
+  }
+
+  for (const layer of mapData.layers) {
+    if (layer.type === 'image' && layer.visible && layer.image) {
+      await drawImageOverlay(ctx, map, layer);
+    }
+  }
+
+  mapData.layers
+    .filter(layer => layer.type === 'vector' && layer.visible && layer.data?.features)
+    .forEach(layer => {
+      // Snapshots show what's on screen, so time-enabled layers keep only the chosen dates
+      getTimeFilteredData(layer, mapData.timeWindow).features.forEach((feature: Feature) => {
+        if (feature.geometry) drawGeometry(ctx, map, feature.geometry, getVectorFeatureStyle(layer, feature));
+      });
+    });
+
+  mapData.annotations.forEach(annotation => drawAnnotation(ctx, map, annotation));
+
+  // Title bar
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, TITLE_HEIGHT);
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(0, TITLE_HEIGHT - 1, canvas.width, 1);
+  ctx.fillStyle = '#111827';
+  ctx.font = '600 20px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(title, 16, TITLE_HEIGHT / 2);
+
+  drawLegend(ctx, getLegendItems(mapData), canvas.width, canvas.height);
+
+  if (credits.length > 0) {
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.strokeText(credits.join(' | '), 8, canvas.height - 6);
+    ctx.fillStyle = '#374151';
+    ctx.fillText(credits.join(' | '), 8, canvas.height - 6);
+  }
+
+  return canvas;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render map image'))), type, quality);
+  });
+}
+
+// Wraps a JPEG in a single-page PDF sized to the image (at 96 dpi)
+async function canvasToPdf(canvas: HTMLCanvasElement): Promise<Blob> {
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  const pageWidth = (canvas.width * 0.75).toFixed(2);
+  const pageHeight = (canvas.height * 0.75).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => offsets.push(length);
+
+  write('%PDF-1.4\n');
+  startObject();
+  write('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject();
+  write('2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  startObject();
+  write(
+    `3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n'
+  );
+  startObject();
+  write(
+    `4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  startObject();
+  write(`5 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+function toFilename(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'map';
+}
+
+export async function exportMap(format: MapExportFormat, map: L.Map, mapData: MapData, title: string, basemaps: Basemap[]) {
+  const filename = toFilename(title);
+
+  switch (format) {
+    case 'geojson': {
+      const json = JSON.stringify(mapDataToGeoJSON(mapData), null, 2);
+      downloadBlob(new Blob([json], { type: 'application/geo+json' }), `${filename}.geojson`);
+      break;
+    }
+    case 'kml': {
+      const kml = geoJSONToKml(mapDataToGeoJSON(mapData), title);
+      downloadBlob(new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }), `${filename}.kml`);
+      break;
+    }
+    case 'png': {
+      const canvas = await renderMapSnapshot(map, mapData, title, basemaps);
+      downloadBlob(await canvasToBlob(canvas, 'image/png'), `${filename}.png`);
+      break;
+    }
+    case 'pdf': {
+      const canvas = await renderMapSnapshot(map, mapData, title, basemaps);
+      downloadBlob(await canvasToPdf(canvas), `${filename}.pdf`);
+      break;
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import L from 'leaflet';
+import type { Feature, FeatureCollection } from 'geojson';
+import { ClassificationMethod, LayerData, LayerStyle, LegendClass } from './types';
+import { getVectorLayerStyle } from './map-utils';
+
+export const CLASSIFICATION_METHOD_LABELS: Record<ClassificationMethod, string> = {
+  'equal-interval': 'Equal interval',
+  quantile: 'Quantile',
+  'natural-breaks': 'Natural breaks (Jenks)',
+};
+
+// Sequential ColorBrewer ramps (plus viridis), interpolated to the number of classes
+export const COLOR_RAMPS: Record<string, { label: string; colors: string[] }> = {
+  blues: { label: 'Blues', colors: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'] },
+  reds: { label: 'Reds', colors: ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15'] },
+  greens: { label: 'Greens', colors: ['#edf8e9', '#bae4b3', '#74c476', '#31a354', '#006d2c'] },
+  purples: { label: 'Purples', colors: ['#f2f0f7', '#cbc9e2', '#9e9ac8', '#756bb1', '#54278f'] },
+  'yellow-red': { label: 'Yellow-Orange-Red', colors: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'] },
+  viridis: { label: 'Viridis', colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+};
+
+export const MIN_CLASSES = 3;
+export const MAX_CLASSES = 7;
+export const NO_DATA_COLOR = '#d1d5db';
+
+// Path style for one feature; radius only applies to point markers
+export type FeatureStyle = L.PathOptions & { radius?: number };
+
+const MIN_SYMBOL_RADIUS = 4;
+const MAX_SYMBOL_RADIUS = 16;
+// Jenks is O(n² × classes); larger layers are classified on an evenly spaced sample
+const MAX_JENKS_VALUES = 1000;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+export function getNumericProperties(collection: FeatureCollection | undefined): string[] {
+  const names = new Set<string>();
+  collection?.features.forEach(feature => {
+    Object.entries(feature.properties || {}).forEach(([key, value]) => {
+      if (toNumber(value) !== null) names.add(key);
+    });
+  });
+  return Array.from(names).sort();
+}
+
+export function hasPointFeatures(collection: FeatureCollection | undefined): boolean {
+  return !!collection?.features.some(
+    feature => feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint'
+  );
+}
+
+function equalIntervalBreaks(sorted: number[], classes: number): number[] {
+  const min = sorted[0];
+  const step = (sorted[sorted.length - 1] - min) / classes;
+  return Array.from({ length: classes + 1 }, (_, i) => (i === classes ? sorted[sorted.length - 1] : min + step * i));
+}
+
+function quantileBreaks(sorted: number[], classes: number): number[] {
+  const breaks = [sorted[0]];
+  for (let i = 1; i < classes; i++) {
+    breaks.push(sorted[Math.max(0, Math.ceil((i * sorted.length) / classes) - 1)]);
+  }
+  breaks.push(sorted[sorted.length - 1]);
+  return breaks;
+}
+
+// Fisher-Jenks optimal classification, minimising the variance within each class
+function naturalBreaks(values: number[], classes: number): number[] {
+  const sorted =
+    values.length > MAX_JENKS_VALUES
+      ? Array.from({ length: MAX_JENKS_VALUES }, (_, i) =>
+          values[Math.round((i * (values.length - 1)) / (MAX_JENKS_VALUES - 1))]
+        )
+      : values;
+  const n = sorted.length;
+  if (n <= classes) return sorted;
+
+  const lowerLimits = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(0));
+  const variances = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(Infinity));
+  for (let j = 1; j <= classes; j++) {
+    lowerLimits[1][j] = 1;
+    variances[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lower = l - m + 1;
+      const value = sorted[lower - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lower > 1) {
+        for (let j = 2; j <= classes; j++) {
+          if (variances[l][j] >= variance + variances[lower - 1][j - 1]) {
+            lowerLimits[l][j] = lower;
+            variances[l][j] = variance + variances[lower - 1][j - 1];
+          }
+        }
+      }
+    }
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks = new Array<number>(classes + 1);
+  breaks[0] = sorted[0];
+  breaks[classes] = sorted[n - 1];
+  let k = n;
+  for (let j = classes; j >= 2; j--) {
+    const lower = lowerLimits[k][j];
+    breaks[j - 1] = sorted[lower - 2];
+    k = lower - 1;
+  }
+  return breaks;
+}
+
+export function classify(values: number[], method: ClassificationMethod, classes: number): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+
+  const breaks =
+    method === 'quantile'
+      ? quantileBreaks(sorted, classes)
+      : method === 'natural-breaks'
+        ? naturalBreaks(sorted, classes)
+        : equalIntervalBreaks(sorted, classes);
+
+  // Repeated values can produce empty classes; drop them rather than show duplicate legend rows
+  return breaks.filter((value, index) => index === 0 || value > breaks[index - 1]);
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToHex(rgb: number[]): string {
+  return `#${rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function getRampColors(ramp: string, count: number): string[] {
+  const anchors = (COLOR_RAMPS[ramp] || COLOR_RAMPS.blues).colors.map(hexToRgb);
+  if (count === 1) return [rgbToHex(anchors[anchors.length - 1])];
+
+  return Array.from({ length: count }, (_, i) => {
+    const position = (i / (count - 1)) * (anchors.length - 1);
+    const index = Math.min(Math.floor(position), anchors.length - 2);
+    const t = position - index;
+    return rgbToHex(anchors[index].map((channel, c) => channel + (anchors[index + 1][c] - channel) * t));
+  });
+}
+
+function formatBreak(value: number): string {
+  if (Math.abs(value) >= 1000) return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  return String(Number(value.toFixed(2)));
+}
+
+/**
+ * Classifies a layer's features on a numeric property and builds the style, including
+ * the legend classes the map and exports are drawn from.
+ */
+export function buildLayerStyle(
+  collection: FeatureCollection,
+  options: Omit<LayerStyle, 'legend'>,
+): LayerStyle {
+  const values = collection.features
+    .map(feature => toNumber(feature.properties?.[options.property]))
+    .filter((value): value is number => value !== null);
+  const breaks = classify(values, options.method, options.classes);
+
+  let legend: LegendClass[];
+  if (breaks.length === 0) {
+    legend = [];
+  } else if (breaks.length === 1) {
+    // Every feature has the same value
+    legend = [{ min: breaks[0], max: breaks[0], color: getRampColors(options.ramp, 1)[0], label: formatBreak(breaks[0]) }];
+  } else {
+    const colors = getRampColors(options.ramp, breaks.length - 1);
+    legend = colors.map((color, i) => ({
+      min: breaks[i],
+      max: breaks[i + 1],
+      color,
+      label: `${formatBreak(breaks[i])} – ${formatBreak(breaks[i + 1])}`,
+    }));
+  }
+
+  if (options.mode === 'graduated') {
+    legend = legend.map((entry, i) => ({
+      ...entry,
+      radius:
+        legend.length === 1
+          ? MAX_SYMBOL_RADIUS
+          : MIN_SYMBOL_RADIUS + ((MAX_SYMBOL_RADIUS - MIN_SYMBOL_RADIUS) * i) / (legend.length - 1),
+    }));
+  }
+
+  return { ...options, legend };
+}
+
+export function getLegendClass(style: LayerStyle, value: unknown): LegendClass | null {
+  const number = toNumber(value);
+  if (number === null) return null;
+  return style.legend.find(entry => number <= entry.max) || style.legend[style.legend.length - 1] || null;
+}
+
+/**
+ * Style for one feature of a vector layer. With attribute styling, features are coloured
+ * (and graduated point markers sized) by their class; features without a value are grey.
+ */
+export function getVectorFeatureStyle(layer: LayerData, feature: Feature | undefined): FeatureStyle {
+  const base = getVectorLayerStyle(layer);
+  if (!layer.style || !feature) return base;
+
+  const legendClass = getLegendClass(layer.style, feature.properties?.[layer.style.property]);
+  const color = legendClass?.color ?? NO_DATA_COLOR;
+  const isArea = feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon';
+
+  return {
+    ...base,
+    // Polygon outlines stay neutral so neighbouring classes remain distinguishable
+    color: isArea ? '#4b5563' : color,
+    weight: isArea ? 1 : base.weight,
+    fillColor: color,
+    fillOpacity: layer.opacity * 0.8,
+    ...(legendClass?.radius !== undefined ? { radius: legendClass.radius } : {}),
+  };
+}
@@ -0,0 +1,112 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import { LayerData, TimeStep, TimeWindow } from './types';
+import { getFeatureFields } from './map-utils';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Reads a feature attribute as a UTC timestamp. Accepts bare years (1905 or "1905"),
+ * ISO and other Date-parsable strings, and millisecond timestamps.
+ */
+export function parseFeatureTime(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    return Number.isInteger(value) && Math.abs(value) < 10000 ? Date.UTC(value, 0, 1) : value;
+  }
+  const text = String(value).trim();
+  if (/^-?\d{1,4}$/.test(text)) return Date.UTC(Number(text), 0, 1);
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Attributes that hold a date for most of the features that set them
+export function getDateFields(collection: FeatureCollection | undefined): string[] {
+  if (!collection) return [];
+  return getFeatureFields(collection).filter(field => {
+    let dated = 0;
+    let total = 0;
+    collection.features.forEach(feature => {
+      const value = feature.properties?.[field];
+      if (value === null || value === undefined || value === '') return;
+      total++;
+      if (parseFeatureTime(value) !== null) dated++;
+    });
+    return total > 0 && dated / total >= 0.8;
+  });
+}
+
+// Earliest and latest feature dates across the visible time-enabled layers
+export function getTimeExtent(layers: LayerData[]): { start: number; end: number } | null {
+  let start = Infinity;
+  let end = -Infinity;
+  layers.forEach(layer => {
+    if (!layer.visible || !layer.time || !layer.data?.features) return;
+    (layer.data as FeatureCollection).features.forEach(feature => {
+      const time = parseFeatureTime(feature.properties?.[layer.time!.field]);
+      if (time === null) return;
+      start = Math.min(start, time);
+      end = Math.max(end, time);
+    });
+  });
+  return start <= end ? { start, end } : null;
+}
+
+// Start of the day, month or year containing the timestamp
+export function floorToStep(time: number, step: TimeStep): number {
+  const date = new Date(time);
+  if (step === 'year') return Date.UTC(date.getUTCFullYear(), 0, 1);
+  if (step === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function addSteps(time: number, step: TimeStep, count: number): number {
+  const date = new Date(time);
+  if (step === 'year') return Date.UTC(date.getUTCFullYear() + count, date.getUTCMonth(), date.getUTCDate());
+  if (step === 'month') return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, date.getUTCDate());
+  return time + count * 24 * 60 * 60 * 1000;
+}
+
+// Number of whole steps from `from` to `to`
+export function countSteps(from: number, to: number, step: TimeStep): number {
+  const a = new Date(from);
+  const b = new Date(to);
+  if (step === 'year') return b.getUTCFullYear() - a.getUTCFullYear();
+  if (step === 'month') return (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+  return Math.round((floorToStep(to, 'day') - floorToStep(from, 'day')) / (24 * 60 * 60 * 1000));
+}
+
+export function formatTime(time: number, step: TimeStep): string {
+  const date = new Date(time);
+  const year = date.getUTCFullYear();
+  if (step === 'year') return String(year);
+  if (step === 'month') return `${MONTHS[date.getUTCMonth()]} ${year}`;
+  return `${date.getUTCDate()} ${MONTHS[date.getUTCMonth()]} ${year}`;
+}
+
+// Window covering the whole of the given extent
+export function getFullTimeWindow(extent: { start: number; end: number }, step: TimeStep = 'year'): TimeWindow {
+  return {
+    start: new Date(floorToStep(extent.start, step)).toISOString(),
+    end: new Date(addSteps(floorToStep(extent.end, step), step, 1) - 1).toISOString(),
+    step,
+  };
+}
+
+/**
+ * A time-enabled layer's features that fall inside the window. Features without a
+ * readable date stay visible, so partly dated layers don't lose their context.
+ */
+export function getTimeFilteredData(layer: LayerData, timeWindow: TimeWindow | undefined): any {
+  if (!layer.time || !timeWindow || !layer.data?.features) return layer.data;
+  const start = Date.parse(timeWindow.start);
+  const end = Date.parse(timeWindow.end);
+  const field = layer.time.field;
+  return {
+    ...layer.data,
+    features: (layer.data as FeatureCollection).features.filter((feature: Feature) => {
+      const time = parseFeatureTime(feature.properties?.[field]);
+      return time === null || (time >= start && time <= end);
+    }),
+  };
+}
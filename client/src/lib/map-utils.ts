@@ -0,0 +1,232 @@
+import L from 'leaflet';
+import type { FeatureCollection, Geometry, Position } from 'geojson';
+import { Annotation, AnnotationType, LayerData } from './types';
+
+export const DEFAULT_ANNOTATION_COLOR = '#3388ff';
+
+// Leaflet path styling for line and shape annotations
+export function getAnnotationPathOptions(annotation: Annotation): L.PathOptions {
+  const { properties } = annotation;
+  const color = properties.strokeColor || properties.color || DEFAULT_ANNOTATION_COLOR;
+  return {
+    color,
+    weight: properties.strokeWidth ?? 3,
+    opacity: properties.opacity ?? 1,
+    fillColor: properties.fillColor || color,
+    fillOpacity: properties.fillOpacity ?? 0.2,
+  };
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Saved maps come from students, so styling is checked before it reaches the page
+function toHexColor(value: unknown, fallback: string): string {
+  return typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback;
+}
+
+function toFiniteNumber(value: unknown, fallback: number, min: number, max: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+export function createTextLabelIcon(annotation: Annotation): L.DivIcon {
+  const { properties } = annotation;
+  const span = document.createElement('span');
+  span.style.color = toHexColor(properties.color, '#1e293b');
+  span.style.fontSize = `${toFiniteNumber(properties.fontSize, 14, 6, 96)}px`;
+  span.style.opacity = String(toFiniteNumber(properties.opacity, 1, 0, 1));
+  span.textContent = typeof properties.text === 'string' ? properties.text : '';
+  return L.divIcon({
+    className: 'map-text-label',
+    html: span,
+    iconSize: undefined,
+  });
+}
+
+// Maps leaflet-draw layer types onto annotation types
+export function getAnnotationTypeForDrawLayer(layerType: string): AnnotationType | null {
+  switch (layerType) {
+    case 'polyline':
+      return 'line';
+    case 'polygon':
+      return 'polygon';
+    case 'rectangle':
+      return 'rectangle';
+    case 'circle':
+      return 'circle';
+    case 'marker':
+      return 'point';
+    default:
+      return null;
+  }
+}
+
+function toLatLngPair(latlng: L.LatLng): [number, number] {
+  return [latlng.lat, latlng.lng];
+}
+
+// Reads the geometry of a drawn or edited Leaflet layer into annotation coordinates
+export function getLayerGeometry(type: AnnotationType, layer: L.Layer): { coordinates: any; radius?: number } {
+  switch (type) {
+    case 'circle': {
+      const circle = layer as L.Circle;
+      return { coordinates: toLatLngPair(circle.getLatLng()), radius: circle.getRadius() };
+    }
+    case 'rectangle': {
+      const bounds = (layer as L.Rectangle).getBounds();
+      return { coordinates: [toLatLngPair(bounds.getSouthWest()), toLatLngPair(bounds.getNorthEast())] };
+    }
+    case 'polygon': {
+      const rings = (layer as L.Polygon).getLatLngs() as L.LatLng[][];
+      return { coordinates: rings[0].map(toLatLngPair) };
+    }
+    case 'line':
+      return { coordinates: ((layer as L.Polyline).getLatLngs() as L.LatLng[]).map(toLatLngPair) };
+    default:
+      return { coordinates: toLatLngPair((layer as L.Marker).getLatLng()) };
+  }
+}
+
+export const ANNOTATION_TYPE_LABELS: Record<AnnotationType, string> = {
+  point: 'Point',
+  line: 'Line',
+  polygon: 'Polygon',
+  rectangle: 'Rectangle',
+  circle: 'Circle',
+  text: 'Label',
+};
+
+// Colours assigned to imported layers in turn
+export const LAYER_COLORS = ['#e6550d', '#31a354', '#756bb1', '#3182bd', '#de2d26', '#636363'];
+
+export const MAP_LAYER_FILE_ACCEPT = '.geojson,.json,.kml,.kmz,.csv,.zip';
+
+// Leaflet styling for a vector layer's GeoJSON features
+export function getVectorLayerStyle(layer: LayerData): L.PathOptions {
+  const color = layer.color || DEFAULT_ANNOTATION_COLOR;
+  return {
+    color,
+    weight: 2,
+    opacity: layer.opacity,
+    fillColor: color,
+    fillOpacity: layer.opacity * 0.4,
+  };
+}
+
+export function getFeaturePopupHtml(properties: Record<string, any> | null, popup?: LayerData['popup']): string | null {
+  const entries = Object.entries(properties || {}).filter(
+    ([key, value]) => value !== null && value !== '' && (!popup || popup.fields.includes(key))
+  );
+  const title = popup?.titleField ? properties?.[popup.titleField] : null;
+  if (entries.length === 0 && (title === null || title === undefined)) return null;
+
+  const heading =
+    title !== null && title !== undefined
+      ? `<div style="font-weight: 600; margin-bottom: 4px">${escapeHtml(String(title))}</div>`
+      : '';
+  const rows = entries
+    .map(([key, value]) =>
+      `<tr><th style="text-align: left; padding-right: 8px">${escapeHtml(key)}</th><td>${escapeHtml(String(value))}</td></tr>`
+    )
+    .join('');
+  return `${heading}<table>${rows}</table>`;
+}
+
+// Union of the attribute names used by a layer's features, in first-seen order
+export function getFeatureFields(collection: FeatureCollection | undefined): string[] {
+  const fields = new Set<string>();
+  collection?.features.forEach(feature => {
+    Object.keys(feature.properties || {}).forEach(key => fields.add(key));
+  });
+  return Array.from(fields);
+}
+
+export interface ImportedMapLayer {
+  file: { originalName: string; filename: string; url: string };
+  layer: { name: string; format: string; featureCount: number; data: any; geojsonUrl?: string; warnings: string[] };
+}
+
+// Uploads a GeoJSON, KML/KMZ, CSV or zipped shapefile; the server validates it and returns GeoJSON
+export async function importMapLayerFile(file: File): Promise<ImportedMapLayer> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/uploads/map-layer', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${localStorage.getItem('auth_token')}`
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to import map layer');
+  }
+
+  return response.json();
+}
+
+// Annotations store [lat, lng]; GeoJSON positions are [lng, lat]
+export function toLngLat([lat, lng]: [number, number]): Position {
+  return [lng, lat];
+}
+
+function closeRing(ring: Position[]): Position[] {
+  const [first] = ring;
+  const last = ring[ring.length - 1];
+  return first && (first[0] !== last[0] || first[1] !== last[1]) ? [...ring, first] : ring;
+}
+
+// Approximates a circle as a polygon, since GeoJSON and KML have no circle geometry
+function circleToRing([lat, lng]: [number, number], radius: number, steps = 64): Position[] {
+  const angularDistance = radius / 6378137;
+  const lat1 = (lat * Math.PI) / 180;
+  const lng1 = (lng * Math.PI) / 180;
+  const ring: Position[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angularDistance) + Math.cos(lat1) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(lat1),
+        Math.cos(angularDistance) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([(lng2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+
+  return ring;
+}
+
+export function annotationToGeometry(annotation: Annotation): Geometry {
+  const { coordinates } = annotation;
+  switch (annotation.type) {
+    case 'line':
+      return { type: 'LineString', coordinates: coordinates.map(toLngLat) };
+    case 'polygon':
+      return { type: 'Polygon', coordinates: [closeRing(coordinates.map(toLngLat))] };
+    case 'rectangle': {
+      const [[south, west], [north, east]] = coordinates;
+      return {
+        type: 'Polygon',
+        coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]],
+      };
+    }
+    case 'circle':
+      return { type: 'Polygon', coordinates: [circleToRing(coordinates, annotation.properties.radius ?? 100)] };
+    default:
+      return { type: 'Point', coordinates: toLngLat(coordinates) };
+  }
+}
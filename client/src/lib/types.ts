@@ -32,6 +32,13 @@ export interface Assignment {
   isActive: boolean;
   isGraded?: boolean;
   attachments?: string[];
+  starterMap?: MapData | null;
+  storyMap?: StoryMap | null;
+  mapQuestions?: MapQuestion[] | null;
+  // Keys of the basemaps students may choose from; every basemap when unset
+  allowedBasemaps?: string[] | null;
+  // Set for field survey assignments
+  surveyForm?: SurveyForm | null;
   createdAt: string;
 }
 
@@ -40,7 +47,11 @@ export interface Submission {
   assignmentId: number;
   studentId: number;
   writtenResponse?: string;
-  mapData?: any;
+  mapData?: MapData | null;
+  // Story map answers keyed by slide id
+  storyResponses?: Record<string, string> | null;
+  // Map question answers keyed by question id
+  mapAnswers?: Record<string, MapQuestionGeometry> | null;
   attachments?: string[];
   status: 'draft' | 'submitted' | 'graded';
   submittedAt?: string;
@@ -58,11 +69,93 @@ export interface Grade {
   gradedBy: number;
 }
 
+export interface StorySlide {
+  id: string;
+  title: string;
+  // Narrative text; supports **bold**, *italic*, [links](https://...) and "- " bullet lists
+  body: string;
+  center: [number, number];
+  zoom: number;
+  visibleLayerIds: string[];
+  highlightedAnnotationIds: string[];
+  question?: string;
+}
+
+// Guided tour through the assignment's starter map
+export interface StoryMap {
+  slides: StorySlide[];
+}
+
+export type MapQuestionGeometry =
+  | { type: 'point'; coordinates: [number, number] }
+  | { type: 'polygon'; coordinates: [number, number][] };
+
+// Auto-graded question answered on a map; answer and toleranceMeters are withheld from students
+export interface MapQuestion {
+  id: string;
+  prompt: string;
+  responseType: 'point' | 'polygon';
+  answer?: MapQuestionGeometry;
+  toleranceMeters?: number;
+}
+
+// Server-computed score for one map question, shown while grading
+export interface MapQuestionScore {
+  questionId: string;
+  criterion: string;
+  prompt: string;
+  fraction: number;
+  rubricScore: number;
+  explanation: string;
+}
+
+export type SurveyFieldType = 'text' | 'number' | 'choice' | 'photo';
+
+export interface SurveyField {
+  id: string;
+  label: string;
+  type: SurveyFieldType;
+  required?: boolean;
+  // Choices offered for choice fields
+  options?: string[];
+}
+
+// Form a student fills in for each field survey observation
+export interface SurveyForm {
+  fields: SurveyField[];
+}
+
+// One geotagged observation; values are keyed by field id, photo fields hold the photo's URL
+export interface SurveyRecord {
+  id: number;
+  assignmentId: number;
+  studentId: number;
+  studentName: string;
+  latitude: number;
+  longitude: number;
+  // Location uncertainty in metres
+  accuracy: number | null;
+  values: Record<string, string | number | null>;
+  createdAt: string;
+}
+
 export interface MapData {
   zoom: number;
   center: [number, number];
   layers: LayerData[];
   annotations: Annotation[];
+  // Date range shown for time-enabled layers; every feature is shown when unset
+  timeWindow?: TimeWindow;
+}
+
+export type TimeStep = 'day' | 'month' | 'year';
+
+export interface TimeWindow {
+  // ISO timestamps, inclusive
+  start: string;
+  end: string;
+  // Granularity of the slider and of each playback step
+  step: TimeStep;
 }
 
 export interface LayerData {
@@ -71,18 +164,241 @@ export interface LayerData {
   type: string;
   visible: boolean;
   opacity: number;
+  // GeoJSON FeatureCollection for vector layers
   data?: any;
+  color?: string;
+  // Set for layers imported from an uploaded file
+  source?: {
+    originalName: string;
+    url: string;
+    format: string;
+  };
+  // Set for layers saved from a spatial analysis result (e.g. 'buffer', 'intersect')
+  analysis?: string;
+  // Attribute-based styling; features fall back to `color` when unset
+  style?: LayerStyle;
+  // Attributes shown in feature popups; every attribute is shown when unset
+  popup?: {
+    fields: string[];
+    titleField?: string;
+  };
+  // Set for image layers: a Library image placed on the map
+  image?: ImageOverlaySource;
+  // Set for time-enabled vector layers: the attribute holding each feature's date
+  time?: {
+    field: string;
+  };
 }
 
+// [lat, lng] of an image's top-left, top-right and bottom-left corners; the bottom-right follows from these
+export type ImageCorners = [[number, number], [number, number], [number, number]];
+
+export interface ImageOverlaySource {
+  fileId: number;
+  originalName: string;
+  url: string;
+  corners: ImageCorners;
+}
+
+export type ClassificationMethod = 'equal-interval' | 'quantile' | 'natural-breaks';
+
+export interface LegendClass {
+  min: number;
+  max: number;
+  color: string;
+  // Marker radius in pixels for graduated symbols
+  radius?: number;
+  label: string;
+}
+
+export interface LayerStyle {
+  // Choropleth colours features by class; graduated symbols also size point markers by class
+  mode: 'choropleth' | 'graduated';
+  property: string;
+  method: ClassificationMethod;
+  classes: number;
+  ramp: string;
+  // Generated from the classification and saved so the legend matches what students saw
+  legend: LegendClass[];
+}
+
+export type AnnotationType = 'point' | 'line' | 'polygon' | 'rectangle' | 'circle' | 'text';
+
 export interface Annotation {
   id: string;
-  type: 'point' | 'line' | 'polygon' | 'text';
+  type: AnnotationType;
+  // [lat, lng] for point, text and circle centre; [lat, lng][] for line and polygon;
+  // [southWest, northEast] corners for rectangle
   coordinates: any;
   properties: {
     color?: string;
     fillColor?: string;
     strokeColor?: string;
+    strokeWidth?: number;
     opacity?: number;
+    fillOpacity?: number;
+    radius?: number; // circle radius in metres
+    fontSize?: number;
     text?: string;
+    // Marker placed by the teacher on the assignment's starter map; students can't edit it
+    prompt?: boolean;
   };
 }
+
+export type GeocodeResultKind = 'place' | 'county' | 'zip' | 'school';
+
+// A match from the map search box's gazetteer lookup
+export interface GeocodeResult {
+  id: number;
+  kind: GeocodeResultKind;
+  name: string;
+  state: string | null;
+  label: string;
+  latitude: number;
+  longitude: number;
+  // Zoom that shows the whole place
+  zoom: number;
+}
+
+// A tile service from the admin-managed basemap registry; tile layers in MapData use its key as their id
+export interface Basemap {
+  id: number;
+  key: string;
+  name: string;
+  urlTemplate: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains: string | null;
+  isDefault: boolean;
+}
+
+// ArcGIS Online group whose web maps are offered in the assignment map picker
+export interface ArcgisGroup {
+  id: number;
+  groupId: string;
+  name: string;
+  // Only this school is offered the group's maps; null offers them to every school
+  schoolId: number | null;
+  isEnabled: boolean;
+  lastRefreshedAt: string | null;
+  // Why the last refresh failed; the previously cached maps are still offered
+  lastError: string | null;
+}
+
+// A school or district that signs in with SSO
+export interface School {
+  id: number;
+  name: string;
+}
+
+// OpenID Connect provider as managed on the admin SSO page; the client secret is never sent back
+export interface SsoProvider {
+  id: number;
+  // The provider only signs in this school's accounts
+  schoolId: number;
+  name: string;
+  slug: string;
+  issuerUrl: string;
+  clientId: string;
+  hasClientSecret: boolean;
+  scopes: string;
+  // Empty to accept any domain
+  emailDomains: string[];
+  provisionStudents: boolean;
+  isEnabled: boolean;
+}
+
+// A device the current user is signed in on
+export interface ActiveSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  // The session of this browser
+  current: boolean;
+}
+
+// Two-factor authentication of the signed-in teacher or admin
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins have made two-factor mandatory, so it can't be turned off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// A class's picture and QR badge sign-in, as the teacher manages it
+export interface PictureLoginSettings {
+  enabled: boolean;
+  // In the class sign-in link, /picture-login/<code>
+  code: string | null;
+  students: {
+    studentId: number;
+    firstName: string;
+    lastName: string;
+    hasCard: boolean;
+    cardCreatedAt: string | null;
+  }[];
+}
+
+// A newly issued login card; its pictures and badge can't be shown again later
+export interface LoginCard {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  pictures: string[];
+  badgeUrl: string;
+  // data: URL of the badge's QR code
+  qrCode: string;
+}
+
+// What a class sign-in page shows before anyone has signed in
+export interface ClassRoster {
+  classTitle: string;
+  students: { id: number; name: string }[];
+}
+
+// Entry in the audit log of accounts locked after failed sign-ins
+export interface AccountLockout {
+  id: number;
+  userId: number;
+  username: string;
+  userName: string;
+  role: 'admin' | 'teacher' | 'student';
+  // Where the last failed attempt came from
+  ipAddress: string | null;
+  failedAttempts: number;
+  lockedAt: string;
+  lockedUntil: string;
+  unlockedAt: string | null;
+  unlockedByName: string | null;
+}
+
+// Entry in the geospatial dataset catalog
+export interface Dataset {
+  id: number;
+  // ArcGIS Online item id
+  itemId: string;
+  title: string;
+  itemUrl: string | null;
+  // Already has a CivicScape map
+  isVisualized: boolean;
+  creator: string | null;
+  source: string | null;
+  dateIssued: string | null;
+  sourceUrl: string | null;
+  datesOfData: string | null;
+  spatialCoverage: string | null;
+  geometry: string | null;
+  geographicUnit: string | null;
+  format: string | null;
+  importedAt: string;
+}
+
+// As managed on the admin basemaps page, including settings map viewers don't get
+export interface AdminBasemap extends Basemap {
+  apiKey: string | null;
+  isEnabled: boolean;
+  sortOrder: number;
+}
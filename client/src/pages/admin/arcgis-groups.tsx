@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Globe, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { ArcgisGroup, School } from '@/lib/types';
+
+// Select value for groups shared by every school
+const ALL_SCHOOLS = 'none';
+
+export default function AdminArcgisGroups() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [schoolId, setSchoolId] = useState(ALL_SCHOOLS);
+  // Which school's groups are listed; 'any' lists every group
+  const [schoolFilter, setSchoolFilter] = useState('any');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: groups = [], isLoading } = useQuery<ArcgisGroup[]>({
+    queryKey: ['/api/admin/arcgis-groups', schoolFilter],
+    queryFn: async () => {
+      const query = schoolFilter === 'any' ? '' : `?schoolId=${schoolFilter}`;
+      const response = await apiRequest('GET', `/api/admin/arcgis-groups${query}`);
+      return response.json();
+    },
+  });
+
+  const { data: schools = [] } = useQuery<School[]>({
+    queryKey: ['/api/admin/schools'],
+  });
+
+  const schoolName = (id: number | null) =>
+    id === null ? 'All schools' : schools.find(school => school.id === id)?.name ?? 'Unknown school';
+
+  const invalidateGroups = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/arcgis-groups'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/arcgis/maps'] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { name: string; groupId: string; schoolId: number | null }) => {
+      const response = await apiRequest('POST', '/api/admin/arcgis-groups', data);
+      return response.json();
+    },
+    onSuccess: (group: ArcgisGroup) => {
+      invalidateGroups();
+      setIsDialogOpen(false);
+      setName('');
+      setGroupId('');
+      setSchoolId(ALL_SCHOOLS);
+      toast({
+        title: group.lastError ? 'Group added, but not loaded' : 'Group added',
+        description: group.lastError ?? 'Its web maps are now offered when creating activities.',
+        variant: group.lastError ? 'destructive' : 'default',
+      });
+    },
+    onError: (error) => showError(error, 'Failed to add group'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: number; isEnabled: boolean }) => {
+      const response = await apiRequest('PUT', `/api/admin/arcgis-groups/${id}`, { isEnabled });
+      return response.json();
+    },
+    onSuccess: invalidateGroups,
+    onError: (error) => showError(error, 'Failed to update group'),
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/arcgis-groups/${id}/refresh`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateGroups();
+      toast({
+        title: 'Group refreshed',
+        description: 'The cached web maps are up to date.',
+      });
+    },
+    onError: (error) => {
+      // The failure is recorded on the group, so show it in the table too
+      invalidateGroups();
+      showError(error, 'Failed to refresh group');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/arcgis-groups/${id}`);
+      return response.json();
+    },
+    onSuccess: invalidateGroups,
+    onError: (error) => showError(error, 'Failed to delete group'),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name: name.trim(),
+      groupId: groupId.trim(),
+      schoolId: schoolId === ALL_SCHOOLS ? null : Number(schoolId),
+    });
+  };
+
+  const handleDelete = (group: ArcgisGroup) => {
+    if (window.confirm(`Remove the "${group.name}" group? Its web maps will no longer be offered.`)) {
+      deleteMutation.mutate(group.id);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">ArcGIS Groups</h1>
+          <p className="text-sm text-slate-600">
+            Public ArcGIS Online groups whose web maps teachers can attach to activities. Maps are cached and
+            refreshed regularly, so they stay available when ArcGIS Online can't be reached.
+          </p>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Group
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" />
+            Groups
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <Select value={schoolFilter} onValueChange={setSchoolFilter}>
+              <SelectTrigger aria-label="Show groups for">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Every group</SelectItem>
+                <SelectItem value={ALL_SCHOOLS}>Shared by all schools</SelectItem>
+                {schools.map(school => (
+                  <SelectItem key={school.id} value={String(school.id)}>Offered to {school.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">No groups yet. Add one to offer its web maps.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>School</TableHead>
+                  <TableHead>Group id</TableHead>
+                  <TableHead>Cache</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(group => (
+                  <TableRow key={group.id}>
+                    <TableCell className="font-medium">{group.name}</TableCell>
+                    <TableCell className="text-sm">{schoolName(group.schoolId)}</TableCell>
+                    <TableCell className="font-mono text-xs">{group.groupId}</TableCell>
+                    <TableCell className="text-sm">
+                      {group.lastRefreshedAt
+                        ? `Refreshed ${new Date(group.lastRefreshedAt).toLocaleString()}`
+                        : 'Not loaded yet'}
+                      {group.lastError && (
+                        <div className="mt-1">
+                          <Badge variant="destructive" title={group.lastError}>Last refresh failed</Badge>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={group.isEnabled}
+                        onCheckedChange={(checked) => updateMutation.mutate({ id: group.id, isEnabled: checked })}
+                        aria-label={`Enable ${group.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={refreshMutation.isPending && refreshMutation.variables === group.id}
+                          onClick={() => refreshMutation.mutate(group.id)}
+                          title="Refresh now"
+                        >
+                          <RefreshCw className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-red-600"
+                          onClick={() => handleDelete(group)}
+                          title="Remove group"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add ArcGIS Group</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="arcgis-group-name">Name</Label>
+              <Input
+                id="arcgis-group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. District social studies maps"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="arcgis-group-id">Group id</Label>
+              <Input
+                id="arcgis-group-id"
+                value={groupId}
+                onChange={(e) => setGroupId(e.target.value)}
+                placeholder="18314398dbda4b39a10071f5e022d42d"
+                required
+              />
+              <p className="text-xs text-gray-500">
+                The 32-character id at the end of the group page's address on ArcGIS Online.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>School</Label>
+              <Select value={schoolId} onValueChange={setSchoolId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SCHOOLS}>All schools</SelectItem>
+                  {schools.map(school => (
+                    <SelectItem key={school.id} value={String(school.id)}>{school.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Only this school's teachers and students are offered the group's web maps.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? 'Adding...' : 'Add Group'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
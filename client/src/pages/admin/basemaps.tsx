@@ -0,0 +1,379 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Layers, Plus, Star, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AdminBasemap } from '@/lib/types';
+
+interface BasemapForm {
+  key: string;
+  name: string;
+  urlTemplate: string;
+  attribution: string;
+  maxZoom: string;
+  subdomains: string;
+  apiKey: string;
+  isDefault: boolean;
+  isEnabled: boolean;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: BasemapForm = {
+  key: '',
+  name: '',
+  urlTemplate: '',
+  attribution: '',
+  maxZoom: '19',
+  subdomains: '',
+  apiKey: '',
+  isDefault: false,
+  isEnabled: true,
+  sortOrder: '0',
+};
+
+function toForm(basemap: AdminBasemap): BasemapForm {
+  return {
+    key: basemap.key,
+    name: basemap.name,
+    urlTemplate: basemap.urlTemplate,
+    attribution: basemap.attribution,
+    maxZoom: String(basemap.maxZoom),
+    subdomains: basemap.subdomains ?? '',
+    apiKey: basemap.apiKey ?? '',
+    isDefault: basemap.isDefault,
+    isEnabled: basemap.isEnabled,
+    sortOrder: String(basemap.sortOrder),
+  };
+}
+
+function toPayload(form: BasemapForm) {
+  return {
+    key: form.key.trim(),
+    name: form.name.trim(),
+    urlTemplate: form.urlTemplate.trim(),
+    attribution: form.attribution.trim(),
+    maxZoom: parseInt(form.maxZoom) || 19,
+    subdomains: form.subdomains.trim() || null,
+    apiKey: form.apiKey.trim() || null,
+    isDefault: form.isDefault,
+    isEnabled: form.isEnabled,
+    sortOrder: parseInt(form.sortOrder) || 0,
+  };
+}
+
+export default function AdminBasemaps() {
+  const [editing, setEditing] = useState<AdminBasemap | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<BasemapForm>(EMPTY_FORM);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: basemaps = [], isLoading } = useQuery<AdminBasemap[]>({
+    queryKey: ['/api/admin/basemaps'],
+  });
+
+  const invalidateBasemaps = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/basemaps'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/basemaps'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Partial<ReturnType<typeof toPayload>> }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/admin/basemaps/${id}`, data)
+        : await apiRequest('POST', '/api/admin/basemaps', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBasemaps();
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save basemap',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/basemaps/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBasemaps();
+      toast({
+        title: 'Basemap deleted',
+        description: 'Maps that used it will fall back to the default basemap.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete basemap',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (basemap: AdminBasemap) => {
+    setEditing(basemap);
+    setForm(toForm(basemap));
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({ id: editing?.id, data: toPayload(form) });
+  };
+
+  const handleDelete = (basemap: AdminBasemap) => {
+    if (window.confirm(`Delete the "${basemap.name}" basemap?`)) {
+      deleteMutation.mutate(basemap.id);
+    }
+  };
+
+  const updateForm = <K extends keyof BasemapForm>(field: K, value: BasemapForm[K]) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Basemaps</h1>
+          <p className="text-sm text-slate-600">
+            Tile services offered in the map editor. Teachers can limit each assignment to some of these.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Basemap
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Basemap Registry
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : basemaps.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">No basemaps yet. Add one to make maps available.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Tile URL</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {basemaps.map(basemap => (
+                  <TableRow key={basemap.id}>
+                    <TableCell className="font-medium">
+                      {basemap.name}
+                      {basemap.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{basemap.key}</TableCell>
+                    <TableCell className="max-w-xs truncate font-mono text-xs" title={basemap.urlTemplate}>
+                      {basemap.urlTemplate}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={basemap.isEnabled}
+                        disabled={basemap.isDefault}
+                        onCheckedChange={(checked) => saveMutation.mutate({ id: basemap.id, data: { isEnabled: checked } })}
+                        aria-label={`Enable ${basemap.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={basemap.isDefault || !basemap.isEnabled}
+                          onClick={() => saveMutation.mutate({ id: basemap.id, data: { isDefault: true } })}
+                          title="Make default"
+                        >
+                          <Star className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => openEdit(basemap)}
+                          title="Edit basemap"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-red-600"
+                          disabled={basemap.isDefault}
+                          onClick={() => handleDelete(basemap)}
+                          title="Delete basemap"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Basemap' : 'Add Basemap'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="basemap-name">Name</Label>
+                <Input
+                  id="basemap-name"
+                  value={form.name}
+                  onChange={(e) => updateForm('name', e.target.value)}
+                  placeholder="Topographic"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="basemap-key">Key</Label>
+                <Input
+                  id="basemap-key"
+                  value={form.key}
+                  onChange={(e) => updateForm('key', e.target.value)}
+                  placeholder="topo"
+                  disabled={!!editing}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="basemap-url">Tile URL template</Label>
+              <Input
+                id="basemap-url"
+                value={form.urlTemplate}
+                onChange={(e) => updateForm('urlTemplate', e.target.value)}
+                placeholder="https://{s}.tile.example.com/{z}/{x}/{y}.png?key={apiKey}"
+                required
+              />
+              <p className="text-xs text-gray-500">
+                Use {'{z}'}, {'{x}'} and {'{y}'} for the tile, {'{s}'} for subdomains and {'{apiKey}'} for the API key.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="basemap-attribution">Attribution</Label>
+              <Input
+                id="basemap-attribution"
+                value={form.attribution}
+                onChange={(e) => updateForm('attribution', e.target.value)}
+                placeholder="&copy; Example contributors"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="basemap-max-zoom">Max zoom</Label>
+                <Input
+                  id="basemap-max-zoom"
+                  type="number"
+                  min={1}
+                  max={24}
+                  value={form.maxZoom}
+                  onChange={(e) => updateForm('maxZoom', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="basemap-subdomains">Subdomains</Label>
+                <Input
+                  id="basemap-subdomains"
+                  value={form.subdomains}
+                  onChange={(e) => updateForm('subdomains', e.target.value)}
+                  placeholder="abc"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="basemap-sort-order">Sort order</Label>
+                <Input
+                  id="basemap-sort-order"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => updateForm('sortOrder', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="basemap-api-key">API key</Label>
+              <Input
+                id="basemap-api-key"
+                value={form.apiKey}
+                onChange={(e) => updateForm('apiKey', e.target.value)}
+                placeholder="Only needed if the URL contains {apiKey}"
+              />
+            </div>
+            <div className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="basemap-enabled"
+                  checked={form.isEnabled}
+                  onCheckedChange={(checked) => updateForm('isEnabled', checked)}
+                />
+                <Label htmlFor="basemap-enabled">Enabled</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="basemap-default"
+                  checked={form.isDefault}
+                  onCheckedChange={(checked) => updateForm('isDefault', checked)}
+                />
+                <Label htmlFor="basemap-default">Default for new maps</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, LockOpen } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AccountLockout } from '@/lib/types';
+
+function lockoutStatus(lockout: AccountLockout): { label: string; isActive: boolean } {
+  if (lockout.unlockedAt) {
+    return {
+      label: `Unlocked ${new Date(lockout.unlockedAt).toLocaleString()}${lockout.unlockedByName ? ` by ${lockout.unlockedByName}` : ''}`,
+      isActive: false,
+    };
+  }
+  if (new Date(lockout.lockedUntil).getTime() > Date.now()) {
+    return { label: `Locked until ${new Date(lockout.lockedUntil).toLocaleTimeString()}`, isActive: true };
+  }
+  return { label: 'Expired', isActive: false };
+}
+
+export default function AdminLockouts() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: lockouts = [], isLoading } = useQuery<AccountLockout[]>({
+    queryKey: ['/api/admin/lockouts'],
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('POST', `/api/users/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/lockouts'] });
+      toast({
+        title: 'Account unlocked',
+        description: 'The user can sign in again.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to unlock account',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">Account Lockouts</h1>
+        <p className="text-sm text-slate-600">
+          Accounts locked after too many failed sign-ins. Teachers can also unlock their own students.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            Lockout History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : lockouts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">No account has been locked.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Locked</TableHead>
+                  <TableHead>Failed attempts</TableHead>
+                  <TableHead>IP address</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map(lockout => {
+                  const status = lockoutStatus(lockout);
+                  return (
+                    <TableRow key={lockout.id}>
+                      <TableCell className="font-medium">
+                        {lockout.userName}
+                        <span className="ml-2 text-xs text-slate-500">{lockout.username}</span>
+                        <Badge variant="secondary" className="ml-2 capitalize">{lockout.role}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(lockout.lockedAt).toLocaleString()}</TableCell>
+                      <TableCell>{lockout.failedAttempts}</TableCell>
+                      <TableCell className="font-mono text-xs">{lockout.ipAddress ?? '—'}</TableCell>
+                      <TableCell className={status.isActive ? 'text-sm text-red-600' : 'text-sm text-slate-500'}>
+                        {status.label}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {status.isActive && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={unlockMutation.isPending && unlockMutation.variables === lockout.userId}
+                            onClick={() => unlockMutation.mutate(lockout.userId)}
+                          >
+                            <LockOpen className="h-3 w-3 mr-1" />
+                            Unlock
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,13 +4,15 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import React, { useState } from "react";
 import { ArrowRightIcon } from "lucide-react";
-import { auth } from "@/lib/auth";
+import { auth, TwoFactorChallenge } from "@/lib/auth";
+import { TwoFactorLoginStep } from "@/components/two-factor";
 import { useLocation } from "wouter";
 
 const AdminLogin = () => {
   const [, setLocation] = useLocation();
   const [isLoading, setIsLoading] = useState(false);
   const [loginError, setLoginError] = useState<string>("");
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
 
   const handleLogin = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -25,6 +27,8 @@ const AdminLogin = () => {
       const result = await auth.login({ username, password });
       if (result.success) {
         setLocation("/admin/dashboard");
+      } else if (result.twoFactor) {
+        setTwoFactor(result.twoFactor);
       } else {
         setLoginError(result.message);
       }
@@ -60,46 +64,54 @@ const AdminLogin = () => {
           <div className="border-b border-gray-300" />
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                name="username"
-                placeholder="Enter your username"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                name="password"
-                type="password"
-                placeholder="Enter your password"
-                required
-              />
-            </div>
-            {loginError && (
-              <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3 mb-4">
-                {loginError}
+          {twoFactor ? (
+            <TwoFactorLoginStep
+              challenge={twoFactor}
+              onSignedIn={() => setLocation("/admin/dashboard")}
+              onCancel={() => setTwoFactor(null)}
+            />
+          ) : (
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  name="username"
+                  placeholder="Enter your username"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  required
+                />
+              </div>
+              {loginError && (
+                <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+                  {loginError}
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <Button
+                  className="bg-orange-500 text-white rounded-full normal-case font-bold hover:bg-orange-600"
+                  disabled={isLoading}
+                >
+                  {isLoading ? "Signing in..." : "Sign in"}{" "}
+                  <ArrowRightIcon className="w-4 h-4" />
+                </Button>
+                <a href="/admin/forgot-password">
+                  <p className="text-sm underline underline-offset-4">
+                    Forgot password?
+                  </p>
+                </a>
               </div>
-            )}
-            <div className="flex justify-between items-center">
-              <Button
-                className="bg-orange-500 text-white rounded-full normal-case font-bold hover:bg-orange-600"
-                disabled={isLoading}
-              >
-                {isLoading ? "Signing in..." : "Sign in"}{" "}
-                <ArrowRightIcon className="w-4 h-4" />
-              </Button>
-              <a href="/admin/forgot-password">
-                <p className="text-sm underline underline-offset-4">
-                  Forgot password?
-                </p>
-              </a>
-            </div>
-          </form>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
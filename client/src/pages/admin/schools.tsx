@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Building2, Plus, UserMinus, UserPlus } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { User } from '@/lib/auth';
+import { School } from '@/lib/types';
+
+export default function AdminSchools() {
+  const [selectedSchoolId, setSelectedSchoolId] = useState('');
+  const [newSchoolName, setNewSchoolName] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: schools = [], isLoading } = useQuery<School[]>({
+    queryKey: ['/api/admin/schools'],
+  });
+
+  const membersKey = ['/api/admin/schools', selectedSchoolId, 'members'];
+  const { data: members = [], isLoading: isLoadingMembers } = useQuery<User[]>({
+    queryKey: membersKey,
+    enabled: !!selectedSchoolId,
+  });
+
+  const selectedSchool = schools.find(school => String(school.id) === selectedSchoolId);
+
+  const createSchoolMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/admin/schools', { name });
+      return response.json() as Promise<School>;
+    },
+    onSuccess: (school) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/schools'] });
+      setSelectedSchoolId(String(school.id));
+      setNewSchoolName('');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add school',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (username: string) => {
+      const response = await apiRequest('POST', `/api/admin/schools/${selectedSchoolId}/members`, { username });
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/schools'] });
+      setMemberName('');
+      toast({
+        title: 'Member added',
+        description: `${user.firstName} ${user.lastName} can now sign in with ${selectedSchool?.name ?? 'this school'}'s single sign-on.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add school member',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/schools/${selectedSchoolId}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/schools'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to remove school member',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (memberName.trim()) {
+      addMemberMutation.mutate(memberName.trim());
+    }
+  };
+
+  const handleRemoveMember = (member: User) => {
+    if (window.confirm(`Remove ${member.firstName} ${member.lastName} from ${selectedSchool?.name}? They will no longer be able to sign in with its single sign-on.`)) {
+      removeMemberMutation.mutate(member.id);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">Schools</h1>
+        <p className="text-sm text-slate-600">
+          A school's single sign-on providers only sign in its members. Accounts with no school join one when they
+          first sign in from an email domain its provider allows.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            School Members
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2 min-w-[16rem]">
+                <Label>School</Label>
+                <Select value={selectedSchoolId} onValueChange={setSelectedSchoolId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={schools.length === 0 ? 'No schools yet' : 'Choose a school'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schools.map(school => (
+                      <SelectItem key={school.id} value={String(school.id)}>{school.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="new-school">New school</Label>
+                  <Input
+                    id="new-school"
+                    value={newSchoolName}
+                    onChange={(e) => setNewSchoolName(e.target.value)}
+                    placeholder="Lincoln High School"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!newSchoolName.trim() || createSchoolMutation.isPending}
+                  onClick={() => createSchoolMutation.mutate(newSchoolName.trim())}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add School
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {selectedSchool && (
+            <>
+              <form onSubmit={handleAddMember} className="flex items-end gap-2">
+                <div className="space-y-2 flex-1 max-w-sm">
+                  <Label htmlFor="member-name">Add a member</Label>
+                  <Input
+                    id="member-name"
+                    value={memberName}
+                    onChange={(e) => setMemberName(e.target.value)}
+                    placeholder="Username or email"
+                  />
+                </div>
+                <Button type="submit" disabled={!memberName.trim() || addMemberMutation.isPending}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </form>
+
+              {isLoadingMembers ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : members.length === 0 ? (
+                <p className="py-6 text-center text-sm text-slate-500">{selectedSchool.name} has no members yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Username</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map(member => (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.firstName} {member.lastName}</TableCell>
+                        <TableCell>{member.username}</TableCell>
+                        <TableCell>{member.email || '—'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{member.role}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={removeMemberMutation.isPending}
+                          >
+                            <UserMinus className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
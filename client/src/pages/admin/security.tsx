@@ -0,0 +1,83 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+interface SecuritySettings {
+  requireTwoFactor: boolean;
+}
+
+export default function AdminSecurity() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<SecuritySettings>({
+    queryKey: ['/api/admin/security'],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: SecuritySettings) => {
+      const response = await apiRequest('PUT', '/api/admin/security', data);
+      return response.json();
+    },
+    onSuccess: (result: SecuritySettings) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/security'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/two-factor'] });
+      toast({
+        title: 'Success',
+        description: result.requireTwoFactor
+          ? 'Teachers and admins without two-factor authentication will set it up at their next sign-in.'
+          : 'Two-factor authentication is now optional.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update security settings',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">Security</h1>
+        <p className="text-sm text-slate-600">Sign-in requirements for everyone who can see student work.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            Teachers and admins can turn on two-factor authentication from their account menu. Making it
+            mandatory asks everyone who hasn't to set it up the next time they sign in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !settings ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <Switch
+                id="require-two-factor"
+                checked={settings.requireTwoFactor}
+                disabled={updateMutation.isPending}
+                onCheckedChange={(checked) => updateMutation.mutate({ requireTwoFactor: checked })}
+              />
+              <Label htmlFor="require-two-factor">Require two-factor authentication for teachers and admins</Label>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
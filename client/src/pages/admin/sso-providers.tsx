@@ -0,0 +1,479 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, KeyRound, Plug, Plus, Trash2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { School, SsoProvider } from '@/lib/types';
+
+interface SsoProviderForm {
+  schoolId: string;
+  name: string;
+  slug: string;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  emailDomains: string;
+  provisionStudents: boolean;
+  isEnabled: boolean;
+}
+
+const EMPTY_FORM: SsoProviderForm = {
+  schoolId: '',
+  name: '',
+  slug: '',
+  issuerUrl: '',
+  clientId: '',
+  clientSecret: '',
+  scopes: 'openid email profile',
+  emailDomains: '',
+  provisionStudents: true,
+  isEnabled: true,
+};
+
+function toForm(provider: SsoProvider): SsoProviderForm {
+  return {
+    schoolId: String(provider.schoolId),
+    name: provider.name,
+    slug: provider.slug,
+    issuerUrl: provider.issuerUrl,
+    clientId: provider.clientId,
+    // The server never sends the secret back; leaving this blank keeps it
+    clientSecret: '',
+    scopes: provider.scopes,
+    emailDomains: provider.emailDomains.join(', '),
+    provisionStudents: provider.provisionStudents,
+    isEnabled: provider.isEnabled,
+  };
+}
+
+function toPayload(form: SsoProviderForm) {
+  return {
+    schoolId: Number(form.schoolId),
+    name: form.name.trim(),
+    slug: form.slug.trim(),
+    issuerUrl: form.issuerUrl.trim(),
+    clientId: form.clientId.trim(),
+    clientSecret: form.clientSecret.trim() || undefined,
+    scopes: form.scopes.trim(),
+    emailDomains: form.emailDomains.split(/[\s,]+/).map(domain => domain.trim()).filter(Boolean),
+    provisionStudents: form.provisionStudents,
+    isEnabled: form.isEnabled,
+  };
+}
+
+type SsoProviderPayload = Partial<Omit<ReturnType<typeof toPayload>, 'clientSecret'>> & { clientSecret?: string | null };
+
+export default function AdminSsoProviders() {
+  const [editing, setEditing] = useState<SsoProvider | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<SsoProviderForm>(EMPTY_FORM);
+  const [newSchoolName, setNewSchoolName] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const redirectUri = `${window.location.origin}/api/auth/sso/callback`;
+
+  const { data: providers = [], isLoading } = useQuery<SsoProvider[]>({
+    queryKey: ['/api/admin/sso-providers'],
+  });
+
+  const { data: schools = [] } = useQuery<School[]>({
+    queryKey: ['/api/admin/schools'],
+  });
+
+  const invalidateProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/sso-providers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/auth/sso/providers'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: SsoProviderPayload }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/admin/sso-providers/${id}`, data)
+        : await apiRequest('POST', '/api/admin/sso-providers', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProviders();
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save SSO provider',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const createSchoolMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/admin/schools', { name });
+      return response.json() as Promise<School>;
+    },
+    onSuccess: (school) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/schools'] });
+      setForm(current => ({ ...current, schoolId: String(school.id) }));
+      setNewSchoolName('');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to add school',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/sso-providers/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateProviders();
+      toast({
+        title: 'Provider deleted',
+        description: 'Accounts that signed in with it are kept, but can no longer use it to sign in.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete SSO provider',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/sso-providers/${id}/test`);
+      return response.json() as Promise<{ issuer: string; redirectUri: string }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Provider reachable',
+        description: `Found ${result.issuer}. Register ${result.redirectUri} as the redirect URI.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to reach SSO provider',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setNewSchoolName('');
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (provider: SsoProvider) => {
+    setEditing(provider);
+    setForm(toForm(provider));
+    setNewSchoolName('');
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.schoolId) {
+      toast({ title: 'Error', description: 'Choose the school this provider signs in.', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate({ id: editing?.id, data: toPayload(form) });
+  };
+
+  const handleDelete = (provider: SsoProvider) => {
+    if (window.confirm(`Delete the "${provider.name}" provider? Its users will no longer be able to sign in with it.`)) {
+      deleteMutation.mutate(provider.id);
+    }
+  };
+
+  const handleRemoveSecret = () => {
+    if (editing && window.confirm('Remove the client secret? The provider must then allow public clients.')) {
+      saveMutation.mutate({ id: editing.id, data: { clientSecret: null } });
+    }
+  };
+
+  const updateForm = <K extends keyof SsoProviderForm>(field: K, value: SsoProviderForm[K]) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-800">Single Sign-On</h1>
+          <p className="text-sm text-slate-600">
+            OpenID Connect providers (Google Workspace, Microsoft Entra ID, Clever and others) offered on the login page.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Provider
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Identity Providers
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-slate-600">
+            Register <span className="font-mono text-xs bg-slate-100 px-1 py-0.5 rounded">{redirectUri}</span> as
+            the redirect URI with each provider.
+          </p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : providers.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">No providers yet. Users sign in with a password.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>School</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Issuer</TableHead>
+                  <TableHead>Email domains</TableHead>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {providers.map(provider => (
+                  <TableRow key={provider.id}>
+                    <TableCell className="font-medium">
+                      {provider.name}
+                      {provider.provisionStudents && <Badge variant="secondary" className="ml-2">Creates students</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">{schools.find(school => school.id === provider.schoolId)?.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{provider.slug}</TableCell>
+                    <TableCell className="max-w-xs truncate font-mono text-xs" title={provider.issuerUrl}>
+                      {provider.issuerUrl}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {provider.emailDomains.length > 0 ? provider.emailDomains.join(', ') : 'Any'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={provider.isEnabled}
+                        onCheckedChange={(checked) => saveMutation.mutate({ id: provider.id, data: { isEnabled: checked } })}
+                        aria-label={`Enable ${provider.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          disabled={testMutation.isPending}
+                          onClick={() => testMutation.mutate(provider.id)}
+                          title="Test connection"
+                        >
+                          <Plug className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => openEdit(provider)}
+                          title="Edit provider"
+                        >
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-red-600"
+                          onClick={() => handleDelete(provider)}
+                          title="Delete provider"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Provider' : 'Add Provider'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sso-school">School</Label>
+              <Select value={form.schoolId} onValueChange={(value) => updateForm('schoolId', value)}>
+                <SelectTrigger id="sso-school">
+                  <SelectValue placeholder="Choose a school" />
+                </SelectTrigger>
+                <SelectContent>
+                  {schools.map(school => (
+                    <SelectItem key={school.id} value={String(school.id)}>{school.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Input
+                  value={newSchoolName}
+                  onChange={(e) => setNewSchoolName(e.target.value)}
+                  placeholder="New school name"
+                  aria-label="New school name"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!newSchoolName.trim() || createSchoolMutation.isPending}
+                  onClick={() => createSchoolMutation.mutate(newSchoolName.trim())}
+                >
+                  Add School
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Only this school's accounts can sign in with the provider. Accounts not yet in a school join it on
+                their first sign-in.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-name">Button label</Label>
+                <Input
+                  id="sso-name"
+                  value={form.name}
+                  onChange={(e) => updateForm('name', e.target.value)}
+                  placeholder="Lincoln School Google"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-slug">Slug</Label>
+                <Input
+                  id="sso-slug"
+                  value={form.slug}
+                  onChange={(e) => updateForm('slug', e.target.value)}
+                  placeholder="lincoln-google"
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-issuer">Issuer URL</Label>
+              <Input
+                id="sso-issuer"
+                value={form.issuerUrl}
+                onChange={(e) => updateForm('issuerUrl', e.target.value)}
+                placeholder="https://accounts.google.com"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-client-id">Client ID</Label>
+              <Input
+                id="sso-client-id"
+                value={form.clientId}
+                onChange={(e) => updateForm('clientId', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sso-client-secret">Client secret</Label>
+              <Input
+                id="sso-client-secret"
+                type="password"
+                autoComplete="new-password"
+                value={form.clientSecret}
+                onChange={(e) => updateForm('clientSecret', e.target.value)}
+                placeholder={editing?.hasClientSecret ? 'Saved; leave blank to keep it' : 'Leave blank for a public client'}
+              />
+              {editing?.hasClientSecret && (
+                <button
+                  type="button"
+                  className="text-xs text-red-600 hover:underline"
+                  onClick={handleRemoveSecret}
+                >
+                  Remove saved secret
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sso-scopes">Scopes</Label>
+                <Input
+                  id="sso-scopes"
+                  value={form.scopes}
+                  onChange={(e) => updateForm('scopes', e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sso-domains">Email domains</Label>
+                <Input
+                  id="sso-domains"
+                  value={form.emailDomains}
+                  onChange={(e) => updateForm('emailDomains', e.target.value)}
+                  placeholder="lincoln.k12.us"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Only addresses in the listed domains can sign in; separate several with commas. Leave blank to allow any.
+            </p>
+            <div className="flex gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-enabled"
+                  checked={form.isEnabled}
+                  onCheckedChange={(checked) => updateForm('isEnabled', checked)}
+                />
+                <Label htmlFor="sso-enabled">Enabled</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sso-provision"
+                  checked={form.provisionStudents}
+                  onCheckedChange={(checked) => updateForm('provisionStudents', checked)}
+                />
+                <Label htmlFor="sso-provision">Create student accounts for new users</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
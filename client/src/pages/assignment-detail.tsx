@@ -20,6 +20,12 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from '
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Check, ChevronsUpDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { StarterMapBuilder } from '@/components/starter-map-builder';
+import { StoryMapBuilder } from '@/components/story-map-builder';
+import { MapQuestionsBuilder } from '@/components/map-questions-builder';
+import { ClassSubmissionsMap } from '@/components/class-submissions-map';
+import { SurveyFormBuilder } from '@/components/survey-form-builder';
+import { FieldSurveyPanel } from '@/components/field-survey-panel';
 
 // Searchable Map Select Component
 function SearchableMapSelect({ 
@@ -143,6 +149,7 @@ const editAssignmentSchema = z.object({
     title: z.string(),
     description: z.string().optional(),
     thumbnailUrl: z.string().optional(),
+    url: z.string().optional(),
   })).optional(),
 });
 
@@ -159,7 +166,7 @@ export default function AssignmentDetail() {
   const [rubricDialogOpen, setRubricDialogOpen] = useState(false);
   const [reflectionQuestions, setReflectionQuestions] = useState<string[]>([]);
   const [uploadedFiles, setUploadedFiles] = useState<Array<{ originalName: string; fileName: string }>>([]);
-  const [selectedMaps, setSelectedMaps] = useState<Array<{ id: string; title: string; thumbnailUrl?: string }>>([]);
+  const [selectedMaps, setSelectedMaps] = useState<Array<{ id: string; title: string; thumbnailUrl?: string; url?: string }>>([]);
 
   const { data: assignment, isLoading } = useQuery<any>({
     queryKey: ['/api/assignments', assignmentId],
@@ -182,38 +189,11 @@ export default function AssignmentDetail() {
     enabled: !!assignmentId && isTeacher,
   });
 
-  const ARCGIS_GROUP_ID = '18314398dbda4b39a10071f5e022d42d';
-
-  // Fetch ArcGIS maps from group
+  // Web maps from the admin-configured ArcGIS Online groups, served from the server's cache
   const { data: arcgisMaps = [], isLoading: mapsLoading } = useQuery<any[]>({
-    queryKey: ['arcgis-maps', ARCGIS_GROUP_ID],
-    queryFn: async () => {
-      
-      const url = `https://www.arcgis.com/sharing/rest/content/groups/${ARCGIS_GROUP_ID}?f=json`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.log('Failed to fetch ArcGIS maps');
-        throw new Error('Failed to fetch ArcGIS maps');
-      }
-      
-      const data = await response.json();
-      
-      // Filter for web maps only
-      const maps = (data.items || [])
-        .filter((item: any) => item.type === 'Web Map')
-        .map((item: any) => ({
-          id: item.id,
-          title: item.title,
-          description: item.snippet || item.description || '',
-          thumbnailUrl: item.thumbnail 
-            ? `https://www.arcgis.com/sharing/rest/content/items/${item.id}/info/${item.thumbnail}`
-            : undefined,
-        }));
-      
-      return maps;
-    },
+    queryKey: ['/api/arcgis/maps'],
     enabled: editDialogOpen,
+    staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
   const editAssignmentForm = useForm<EditAssignmentData>({
@@ -805,7 +785,7 @@ export default function AssignmentDetail() {
                     {assignment.selectedMaps.map((map: any) => (
                       <a
                         key={map.id}
-                        href={`https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
+                        href={map.url ?? `https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="block p-4 bg-slate-50 rounded-lg border border-slate-200 hover:border-blue-400 hover:bg-blue-50 transition-all group"
@@ -1069,7 +1049,48 @@ export default function AssignmentDetail() {
             </CardContent>
           </Card>
 
+          {isTeacher && (assignment.type === 'gis' || assignment.type === 'mixed') && (
+            <StarterMapBuilder
+              assignmentId={assignment.id}
+              assignmentTitle={assignment.title}
+              starterMap={assignment.starterMap}
+              allowedBasemaps={assignment.allowedBasemaps}
+            />
+          )}
+
+          {isTeacher && (assignment.type === 'gis' || assignment.type === 'mixed') && (
+            <StoryMapBuilder
+              assignmentId={assignment.id}
+              starterMap={assignment.starterMap}
+              storyMap={assignment.storyMap}
+            />
+          )}
+
+          {isTeacher && (assignment.type === 'gis' || assignment.type === 'mixed') && (
+            <MapQuestionsBuilder
+              assignmentId={assignment.id}
+              starterMap={assignment.starterMap}
+              mapQuestions={assignment.mapQuestions}
+            />
+          )}
+
+          {isTeacher && (assignment.type === 'gis' || assignment.type === 'mixed') && (
+            <ClassSubmissionsMap starterMap={assignment.starterMap} submissions={submissions} />
+          )}
 
+          {isTeacher && (assignment.type === 'gis' || assignment.type === 'mixed') && (
+            <SurveyFormBuilder assignmentId={assignment.id} surveyForm={assignment.surveyForm} />
+          )}
+
+          {isTeacher && assignment.surveyForm && (
+            <FieldSurveyPanel
+              assignmentId={assignment.id}
+              title={assignment.title}
+              surveyForm={assignment.surveyForm}
+              starterMap={assignment.starterMap}
+              allowedBasemaps={assignment.allowedBasemaps}
+            />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -8,28 +8,40 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
-import { X, Save, Send, Upload, File, Trash2, Eye, Download, FileText, Image, Map as MapIcon, ExternalLink } from 'lucide-react';import { useForm } from 'react-hook-form';
+import { X, Save, Send, Upload, File, Trash2, Eye, Download, FileText, Image, Map as MapIcon, ExternalLink, BookOpen, MapPinned } from 'lucide-react';import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { auth } from '@/lib/auth';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Assignment, Submission } from '@/lib/types';
+import { Assignment, Submission, MapData, Annotation, MapQuestionGeometry } from '@/lib/types';
+import { MapEditor, DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { StoryMapPlayer } from '@/components/story-map-player';
+import { MapQuestionMap } from '@/components/map-question-map';
+import { FieldSurveyPanel } from '@/components/field-survey-panel';
 
 const submissionSchema = z.object({
   writtenResponse: z.string().optional(),
   attachments: z.array(z.any()).optional(),
+  mapData: z.any().optional(),
+  storyResponses: z.record(z.string()).optional(),
+  mapAnswers: z.record(z.any()).optional(),
   status: z.enum(['draft', 'submitted']),
 }).refine((data) => {
   // For submitted assignments, require at least one form of content
   if (data.status === 'submitted') {
     const hasWrittenResponse = data.writtenResponse && data.writtenResponse.trim().length > 0;
     const hasAttachments = data.attachments && Array.isArray(data.attachments) && data.attachments.length > 0;
-    return hasWrittenResponse || hasAttachments;
+    const hasMapAnnotations = data.mapData && Array.isArray(data.mapData.annotations) &&
+      data.mapData.annotations.some((annotation: Annotation) => !annotation.properties?.prompt);
+    const hasStoryResponses = data.storyResponses &&
+      Object.values(data.storyResponses).some(response => response.trim().length > 0);
+    const hasMapAnswers = data.mapAnswers && Object.keys(data.mapAnswers).length > 0;
+    return hasWrittenResponse || hasAttachments || hasMapAnnotations || hasStoryResponses || hasMapAnswers;
   }
   return true;
 }, {
-  message: "Please provide a written response or file attachment before submitting.",
+  message: "Please provide a written response, file attachment, map annotations, story answers or map question answers before submitting.",
 });
 
 type SubmissionFormData = z.infer<typeof submissionSchema>;
@@ -43,13 +55,16 @@ export default function AssignmentSubmission() {
   const { toast } = useToast();
   const [attachments, setAttachments] = useState<Array<{id: string, name: string, size: number, type: string, data: string}>>([]);
   const [previewFile, setPreviewFile] = useState<{name: string, type: string, data: string} | null>(null);
+  const [mapData, setMapData] = useState<MapData | null>(null);
+  const [storyResponses, setStoryResponses] = useState<Record<string, string>>({});
+  const [mapAnswers, setMapAnswers] = useState<Record<string, MapQuestionGeometry>>({});
 
   const { data: assignment, isLoading: assignmentLoading } = useQuery<Assignment>({
     queryKey: ['/api/assignments', assignmentId],
     enabled: !!assignmentId,
   });
 
-  const { data: existingSubmission } = useQuery<Submission>({
+  const { data: existingSubmission, isLoading: submissionLoading } = useQuery<Submission>({
     queryKey: ['/api/assignments', assignmentId, 'submissions'],
     enabled: !!assignmentId && !!user,
     select: (data: any) => Array.isArray(data) ? data[0] : data,
@@ -69,6 +84,9 @@ export default function AssignmentSubmission() {
       form.reset({
         writtenResponse: existingSubmission.writtenResponse || '',
         attachments: [],
+        mapData: existingSubmission.mapData ?? undefined,
+        storyResponses: existingSubmission.storyResponses ?? undefined,
+        mapAnswers: existingSubmission.mapAnswers ?? undefined,
         status: existingSubmission.status as 'draft' | 'submitted',
       });
       if (existingSubmission.attachments && Array.isArray(existingSubmission.attachments)) {
@@ -82,6 +100,15 @@ export default function AssignmentSubmission() {
         }));
         setAttachments(attachmentObjects);
       }
+      if (existingSubmission.mapData) {
+        setMapData(existingSubmission.mapData);
+      }
+      if (existingSubmission.storyResponses) {
+        setStoryResponses(existingSubmission.storyResponses);
+      }
+      if (existingSubmission.mapAnswers) {
+        setMapAnswers(existingSubmission.mapAnswers);
+      }
     }
   }, [existingSubmission, form]);
 
@@ -91,6 +118,9 @@ export default function AssignmentSubmission() {
         writtenResponse: data.writtenResponse || '',
         status: data.status,
         attachments: attachments.map(att => att.data), // Keep attachment data as URLs/base64
+        mapData: data.mapData ?? null,
+        storyResponses: data.storyResponses ?? null,
+        mapAnswers: data.mapAnswers ?? null,
       };
 
       const response = await apiRequest('POST', `/api/assignments/${assignmentId}/submissions`, submissionData);
@@ -129,10 +159,36 @@ export default function AssignmentSubmission() {
     submitMutation.mutate({
       ...formData,
       attachments: attachments,
+      mapData,
+      storyResponses,
+      mapAnswers,
       status: 'draft',
     });
   };
 
+  const handleMapChange = (data: MapData) => {
+    setMapData(data);
+    // Keep the form in sync so map-only submissions pass validation
+    form.setValue('mapData', data);
+  };
+
+  const handleStoryResponseChange = (slideId: string, response: string) => {
+    const next = { ...storyResponses, [slideId]: response };
+    setStoryResponses(next);
+    form.setValue('storyResponses', next);
+  };
+
+  const handleMapAnswerChange = (questionId: string, answer: MapQuestionGeometry | null) => {
+    const next = { ...mapAnswers };
+    if (answer) {
+      next[questionId] = answer;
+    } else {
+      delete next[questionId];
+    }
+    setMapAnswers(next);
+    form.setValue('mapAnswers', next);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files) return;
@@ -199,6 +255,9 @@ export default function AssignmentSubmission() {
     const submissionData = {
       ...data,
       attachments: attachments,
+      mapData,
+      storyResponses,
+      mapAnswers,
       status: 'submitted' as const,
     };
 
@@ -233,6 +292,7 @@ export default function AssignmentSubmission() {
 
   const isOverdue = assignment.dueDate && new Date(assignment.dueDate).getFullYear() > 1990 && new Date() > new Date(assignment.dueDate);
   const isSubmitted = existingSubmission?.status === 'submitted';
+  const hasMapWork = assignment.type === 'gis' || assignment.type === 'mixed';
 
   return (
     <div className="max-w-4xl mx-auto p-6 purplebox mt-5 mb-10">
@@ -288,7 +348,7 @@ export default function AssignmentSubmission() {
                   {assignment.selectedMaps.map((map: any) => (
                     <a
                       key={map.id}
-                      href={`https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
+                      href={map.url ?? `https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="block p-4 bg-slate-50 rounded-lg border border-slate-200 hover:border-blue-400 hover:bg-blue-50 transition-all group"
@@ -552,6 +612,19 @@ export default function AssignmentSubmission() {
         </Card>
       </div>
 
+      {/* Field Survey Section: observations are saved as they're recorded, separately from the submission */}
+      {assignment.surveyForm && (
+        <div className="mb-6">
+          <FieldSurveyPanel
+            assignmentId={assignment.id}
+            title={assignment.title}
+            surveyForm={assignment.surveyForm}
+            starterMap={assignment.starterMap}
+            allowedBasemaps={assignment.allowedBasemaps}
+          />
+        </div>
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
           {/* Written Response Section */}
@@ -580,6 +653,95 @@ export default function AssignmentSubmission() {
             </CardContent>
           </Card>
 
+          {/* Story Map Section */}
+          {assignment.storyMap && assignment.storyMap.slides.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  Story Map
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StoryMapPlayer
+                  story={assignment.storyMap}
+                  baseMap={assignment.starterMap ?? DEFAULT_MAP_DATA}
+                  responses={storyResponses}
+                  onResponseChange={handleStoryResponseChange}
+                  readOnly={isSubmitted}
+                />
+                <p className="text-sm text-slate-500 mt-2">
+                  Step through the slides with Previous and Next. Your answers are saved with your draft and submission.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Map Questions Section */}
+          {assignment.mapQuestions && assignment.mapQuestions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <MapPinned className="h-5 w-5" />
+                  Map Questions
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {assignment.mapQuestions.map((question, index) => (
+                  <div key={question.id} className="space-y-2">
+                    <p className="font-medium text-slate-900">
+                      {index + 1}. {question.prompt}
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      {question.responseType === 'point'
+                        ? 'Click the map to place your answer.'
+                        : 'Draw a region on the map to show your answer.'}
+                    </p>
+                    <MapQuestionMap
+                      baseMap={assignment.starterMap ?? DEFAULT_MAP_DATA}
+                      mode={question.responseType}
+                      value={mapAnswers[question.id]}
+                      onChange={isSubmitted ? undefined : answer => handleMapAnswerChange(question.id, answer)}
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Map Section */}
+          {hasMapWork && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <MapIcon className="h-5 w-5" />
+                  Your Map
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {submissionLoading ? (
+                  <div className="h-[500px] bg-slate-200 rounded animate-pulse"></div>
+                ) : (
+                  <div className="border rounded-lg overflow-hidden">
+                    <MapEditor
+                      key={existingSubmission?.id ?? 'new'}
+                      initialData={existingSubmission?.mapData ?? assignment.starterMap ?? undefined}
+                      onChange={handleMapChange}
+                      readOnly={isSubmitted}
+                      compareSources={assignment.starterMap ? [{ id: 'starter', label: 'Starter map', data: assignment.starterMap }] : []}
+                      allowedBasemaps={assignment.allowedBasemaps}
+                      title={assignment.title}
+                      className="h-[500px]"
+                    />
+                  </div>
+                )}
+                <p className="text-sm text-slate-500 mt-2">
+                  Use the drawing tools to add points, lines, shapes and labels. Select an annotation to change its colour and style. Use Compare to view two maps or sets of layers side by side. Your map is saved with your draft and submission.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* File Upload Section */}
           <Card>
             <CardHeader>
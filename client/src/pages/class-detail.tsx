@@ -18,8 +18,9 @@ import { auth } from '@/lib/auth';
 import { apiRequest } from '@/lib/queryClient';
 import { insertAssignmentSchema, updateAssignmentSchema, insertClassSchema, insertUnitSchema, type Assignment, type Class, type Unit, type SampleAssignment } from '@shared/schema';
 import { FileViewer } from '@/components/file-viewer';
+import { PictureLoginDialog } from '@/components/picture-login-dialog';
 import { Link } from 'wouter';
-import { Book, Plus, Edit2, Trash2, Clock, FileText, Map as MapIcon, Users, Calendar, ArrowLeft, UserPlus, Eye, EyeOff, Power, PowerOff, Settings, FolderPlus, Folder, FolderOpen, Upload, X, Download, ExternalLink, MessageSquare, HelpCircle, MessageCircle, Send, Minus } from 'lucide-react';
+import { Book, Images, Plus, Edit2, Trash2, Clock, FileText, Map as MapIcon, Users, Calendar, ArrowLeft, UserPlus, Eye, EyeOff, Power, PowerOff, Settings, FolderPlus, Folder, FolderOpen, Upload, X, Download, ExternalLink, MessageSquare, HelpCircle, MessageCircle, Send, Minus } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Check, ChevronsUpDown } from 'lucide-react';
@@ -144,6 +145,7 @@ export default function ClassDetail() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingAssignment, setEditingAssignment] = useState<any>(null);
   const [enrollDialogOpen, setEnrollDialogOpen] = useState(false);
+  const [pictureLoginDialogOpen, setPictureLoginDialogOpen] = useState(false);
   const [editClassDialogOpen, setEditClassDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [activateDialogOpen, setActivateDialogOpen] = useState(false);
@@ -210,42 +212,11 @@ export default function ClassDetail() {
     staleTime: 2 * 60 * 1000, // 2 minutes
   });
 
-  const ARCGIS_GROUP_ID = '18314398dbda4b39a10071f5e022d42d';
-
-  // Fetch ArcGIS maps from group
+  // Web maps from the admin-configured ArcGIS Online groups, served from the server's cache
   const { data: arcgisMaps = [], isLoading: mapsLoading } = useQuery<any[]>({
-    queryKey: ['arcgis-maps', ARCGIS_GROUP_ID],
-    queryFn: async () => {
-      
-      const url = `https://www.arcgis.com/sharing/rest/content/groups/${ARCGIS_GROUP_ID}?f=json`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch ArcGIS maps');
-      }
-      
-      const data = await response.json();
-      
-      // Check if there's an error in the response
-      if (data.error) {
-        throw new Error(data.error.message || 'ArcGIS API error');
-      }
-      
-      // Filter for web maps only
-      const maps = (data.items || [])
-        .filter((item: any) => item.type === 'Web Map')
-        .map((item: any) => ({
-          id: item.id,
-          title: item.title,
-          description: item.snippet || item.description || '',
-          thumbnailUrl: item.thumbnail 
-            ? `https://www.arcgis.com/sharing/rest/content/items/${item.id}/info/${item.thumbnail}`
-            : undefined,
-        }));
-      
-      return maps;
-    },
+    queryKey: ['/api/arcgis/maps'],
     enabled: createDialogOpen || editDialogOpen,
+    staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
   const createAssignmentForm = useForm({
@@ -1208,6 +1179,18 @@ export default function ClassDetail() {
                     </Button>
                   </div>
                   <p className="text-xs text-slate-500 mt-1">Students can use this code to join your class</p>
+                  {/* Picture sign-in is only offered to kindergarten to grade 2 classes */}
+                  {['K', '1', '2'].includes((module as Class).grade_level) && (
+                    <Button
+                      className="edugis-btn-secondary mt-2"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPictureLoginDialogOpen(true)}
+                    >
+                      <Images className="h-4 w-4 mr-2" />
+                      Picture Sign-In
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
@@ -1579,6 +1562,16 @@ export default function ClassDetail() {
         </CardContent>
       </Card>
 
+      {/* Picture Sign-In Dialog */}
+      {isTeacher && module && (
+        <PictureLoginDialog
+          classId={Number(classId)}
+          classTitle={(module as Class).title}
+          open={pictureLoginDialogOpen}
+          onOpenChange={setPictureLoginDialogOpen}
+        />
+      )}
+
       {/* Manage Students Dialog */}
       <Dialog open={enrollDialogOpen} onOpenChange={setEnrollDialogOpen}>
         <DialogContent className="max-w-2xl">
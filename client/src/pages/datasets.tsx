@@ -0,0 +1,344 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Database, ExternalLink, Plus, RefreshCw, Search } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { auth } from '@/lib/auth';
+import { useToast } from '@/hooks/use-toast';
+import { Assignment, Class, Dataset } from '@/lib/types';
+
+type FilterKey = 'source' | 'geometry' | 'geographicUnit' | 'format' | 'spatialCoverage';
+
+const FILTERS: { key: FilterKey; label: string }[] = [
+  { key: 'spatialCoverage', label: 'Coverage' },
+  { key: 'geographicUnit', label: 'Geographic Units' },
+  { key: 'geometry', label: 'Geometry' },
+  { key: 'source', label: 'Sources' },
+  { key: 'format', label: 'Formats' },
+];
+
+const NO_FILTERS: Record<FilterKey, string> = {
+  source: 'all',
+  geometry: 'all',
+  geographicUnit: 'all',
+  format: 'all',
+  spatialCoverage: 'all',
+};
+
+type SelectedMap = { id: string; title: string; description?: string; thumbnailUrl?: string; url?: string };
+
+// Shown under the dataset's title wherever the activity lists its maps
+function describeDataset(dataset: Dataset): string {
+  const detail = [dataset.geometry, dataset.geographicUnit && `by ${dataset.geographicUnit}`].filter(Boolean).join(' ');
+  return [dataset.source ?? dataset.creator, detail, dataset.datesOfData].filter(Boolean).join(' · ');
+}
+
+export default function Datasets() {
+  const user = auth.getUser();
+  const isTeacher = user?.role === 'teacher';
+  const isAdmin = user?.role === 'admin';
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState(NO_FILTERS);
+  const [datasetToAttach, setDatasetToAttach] = useState<Dataset | null>(null);
+  const [assignmentId, setAssignmentId] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: datasets = [], isLoading } = useQuery<Dataset[]>({
+    queryKey: ['/api/datasets'],
+  });
+
+  const { data: assignments = [] } = useQuery<(Assignment & { selectedMaps?: SelectedMap[] | null })[]>({
+    queryKey: ['/api/assignments'],
+    enabled: isTeacher,
+  });
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes'],
+    enabled: isTeacher,
+  });
+
+  const filterOptions = useMemo(
+    () =>
+      Object.fromEntries(
+        FILTERS.map(({ key }) => [
+          key,
+          Array.from(new Set(datasets.map(dataset => dataset[key]).filter((value): value is string => !!value))).sort(),
+        ])
+      ) as Record<FilterKey, string[]>,
+    [datasets]
+  );
+
+  const filteredDatasets = datasets.filter(dataset => {
+    const term = searchTerm.trim().toLowerCase();
+    const matchesSearch =
+      term === '' ||
+      [dataset.title, dataset.creator, dataset.source, dataset.itemId].some(value => value?.toLowerCase().includes(term));
+    const matchesFilters = FILTERS.every(({ key }) => filters[key] === 'all' || dataset[key] === filters[key]);
+    return matchesSearch && matchesFilters;
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: async ({ assignment, dataset }: { assignment: (typeof assignments)[number]; dataset: Dataset }) => {
+      const map: SelectedMap = {
+        id: dataset.itemId,
+        title: dataset.title,
+        description: describeDataset(dataset),
+        ...(dataset.itemUrl ? { url: dataset.itemUrl } : {}),
+      };
+      const response = await apiRequest('PUT', `/api/assignments/${assignment.id}`, {
+        selectedMaps: [...(assignment.selectedMaps ?? []), map],
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { assignment, dataset }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignments'] });
+      closeAttachDialog();
+      toast({
+        title: 'Success',
+        description: `"${dataset.title}" was added to "${assignment.title}".`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add dataset',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/datasets/import');
+      return response.json();
+    },
+    onSuccess: (result: { imported: number; removed: number; skipped: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/datasets'] });
+      toast({
+        title: 'Catalog imported',
+        description:
+          `${result.imported} datasets imported` +
+          (result.removed ? `, ${result.removed} removed` : '') +
+          (result.skipped ? `, ${result.skipped} rows skipped` : '') +
+          '.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import datasets',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const selectedAssignment = assignments.find(assignment => assignment.id === parseInt(assignmentId));
+  const isAlreadyAttached = !!(datasetToAttach && selectedAssignment?.selectedMaps?.some(map => map.id === datasetToAttach.itemId));
+  const classNames = new Map(classes.map(c => [c.id, c.title]));
+
+  const closeAttachDialog = () => {
+    setDatasetToAttach(null);
+    setAssignmentId('');
+  };
+
+  const handleAttach = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!datasetToAttach || !selectedAssignment) return;
+    attachMutation.mutate({ assignment: selectedAssignment, dataset: datasetToAttach });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-6">
+          <div className="h-8 bg-slate-200 rounded w-64"></div>
+          <div className="h-96 bg-slate-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Datasets</h1>
+          <p className="text-slate-600 mt-1">Geospatial datasets published on ArcGIS Online, ready to add to your activities</p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => importMutation.mutate()} disabled={importMutation.isPending}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? 'Importing...' : 'Re-import Catalog'}
+          </Button>
+        )}
+      </div>
+
+      {/* Search and Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 h-4 w-4" />
+              <Input
+                placeholder="Search datasets..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {FILTERS.map(({ key, label }) => (
+                <select
+                  key={key}
+                  value={filters[key]}
+                  onChange={(e) => setFilters(current => ({ ...current, [key]: e.target.value }))}
+                  className="px-3 py-2 border rounded-md text-sm"
+                  aria-label={label}
+                >
+                  <option value="all">All {label}</option>
+                  {filterOptions[key].map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {filteredDatasets.length === 0 ? (
+            <div className="py-12 text-center">
+              <Database className="h-12 w-12 text-slate-400 mx-auto mb-4" />
+              <p className="text-slate-600">
+                {datasets.length === 0 ? 'The dataset catalog is empty.' : 'No datasets match your search.'}
+              </p>
+              {datasets.length > 0 && (
+                <Button variant="link" onClick={() => { setSearchTerm(''); setFilters(NO_FILTERS); }}>
+                  Clear filters
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dataset</TableHead>
+                  <TableHead>Coverage</TableHead>
+                  <TableHead>Geometry</TableHead>
+                  <TableHead>Dates of data</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredDatasets.map(dataset => (
+                  <TableRow key={dataset.id}>
+                    <TableCell>
+                      <div className="font-medium">{dataset.title}</div>
+                      <div className="text-xs text-slate-500">
+                        {[dataset.creator, dataset.source].filter(Boolean).join(' · ')}
+                        {dataset.dateIssued && ` · Issued ${dataset.dateIssued}`}
+                      </div>
+                      {dataset.isVisualized && <Badge variant="secondary" className="mt-1">On CivicScape</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">{dataset.spatialCoverage}</TableCell>
+                    <TableCell className="text-sm">
+                      {dataset.geometry}
+                      {dataset.geographicUnit && <div className="text-xs text-slate-500">by {dataset.geographicUnit}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{dataset.datesOfData}</TableCell>
+                    <TableCell className="text-sm">{dataset.format}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {dataset.itemUrl && (
+                          <Button variant="ghost" size="sm" asChild title="Open on ArcGIS Online">
+                            <a href={dataset.itemUrl} target="_blank" rel="noopener noreferrer">
+                              <ExternalLink className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        )}
+                        {dataset.sourceUrl && (
+                          <Button variant="ghost" size="sm" asChild title="Original source">
+                            <a href={dataset.sourceUrl} target="_blank" rel="noopener noreferrer">
+                              Source
+                            </a>
+                          </Button>
+                        )}
+                        {isTeacher && (
+                          <Button variant="outline" size="sm" onClick={() => setDatasetToAttach(dataset)}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add to Activity
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!datasetToAttach}
+        onOpenChange={(open) => !open && closeAttachDialog()}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add to Activity</DialogTitle>
+            <DialogDescription>
+              Students will find "{datasetToAttach?.title}" with the activity's maps.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAttach} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="dataset-assignment">Activity</Label>
+              <select
+                id="dataset-assignment"
+                value={assignmentId}
+                onChange={(e) => setAssignmentId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md text-sm"
+                required
+              >
+                <option value="">Choose an activity...</option>
+                {assignments.map(assignment => (
+                  <option key={assignment.id} value={assignment.id}>
+                    {classNames.has(assignment.classId)
+                      ? `${classNames.get(assignment.classId)}: ${assignment.title}`
+                      : assignment.title}
+                  </option>
+                ))}
+              </select>
+              {assignments.length === 0 && (
+                <p className="text-xs text-gray-500">Create an activity in one of your classes first.</p>
+              )}
+              {isAlreadyAttached && (
+                <p className="text-xs text-red-600">This dataset is already part of that activity.</p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeAttachDialog}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!selectedAssignment || isAlreadyAttached || attachMutation.isPending}>
+                {attachMutation.isPending ? 'Adding...' : 'Add Dataset'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
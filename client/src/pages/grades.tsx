@@ -209,7 +209,9 @@ export default function Grades() {
                     <Label className="text-sm font-medium">Map Submission:</Label>
                     <div className="flex items-center gap-2 text-sm text-gray-600 mt-1">
                       <Map className="h-4 w-4" />
-                      Interactive map data included
+                      {submission.mapData.annotations?.length
+                        ? `${submission.mapData.annotations.length} map annotation${submission.mapData.annotations.length === 1 ? '' : 's'}`
+                        : 'Map with no annotations'}
                     </div>
                   </div>
                 )}
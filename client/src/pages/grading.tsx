@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams, useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
@@ -17,6 +17,11 @@ import { z } from 'zod';
 import { auth } from '@/lib/auth';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { MapEditor } from '@/components/map-editor';
+import { StoryResponseList } from '@/components/story-map-player';
+import { MapQuestionMap } from '@/components/map-question-map';
+import { DEFAULT_MAP_DATA } from '@/components/map-editor';
+import { MapQuestion, MapQuestionScore } from '@/lib/types';
 
 const gradeSchema = z.object({
   feedback: z.string().optional(),
@@ -99,6 +104,20 @@ export default function Grading() {
     enabled: !!submission?.assignmentId,
   }) as { data: any };
 
+  // Classmates' maps for this assignment, offered in the map comparison view
+  const { data: assignmentSubmissions = [] } = useQuery({
+    queryKey: [`/api/assignments/${submission?.assignmentId}/submissions`],
+    enabled: !!submission?.assignmentId && !!submission?.mapData,
+  }) as { data: any[] };
+
+  const compareSources = assignmentSubmissions
+    .filter((other: any) => other.id !== submission?.id && other.mapData)
+    .map((other: any) => ({
+      id: String(other.id),
+      label: other.student ? `${other.student.firstName} ${other.student.lastName}` : `Submission ${other.id}`,
+      data: other.mapData,
+    }));
+
   const { data: comments = [] } = useQuery({
     queryKey: [`/api/submissions/${submissionId}/comments`],
     enabled: !!submissionId,
@@ -123,8 +142,17 @@ export default function Grading() {
     enabled: !!submissionId,
   }) as { data: any };
 
-  // Get rubric criteria from assignment, with fallbacks
-  const rubricCriteria = assignment?.rubricCriteria || ['Content Quality', 'Organization', 'Critical Thinking'];
+  // Automatic scores for the assignment's map questions
+  const { data: mapScores = [] } = useQuery<MapQuestionScore[]>({
+    queryKey: [`/api/submissions/${submissionId}/map-scores`],
+    enabled: !!submissionId && !!assignment?.mapQuestions?.length,
+  });
+
+  // Get rubric criteria from assignment, with fallbacks; each map question adds its own criterion
+  const rubricCriteria: string[] = [
+    ...(assignment?.rubricCriteria || ['Content Quality', 'Organization', 'Critical Thinking']),
+    ...mapScores.map(score => score.criterion),
+  ];
   
   // Create default rubric object based on criteria
   const defaultRubric = rubricCriteria.reduce((acc, criterion) => {
@@ -140,6 +168,15 @@ export default function Grading() {
     },
   });
 
+  // Pre-fill map question criteria with their auto-scores unless the teacher has already graded them
+  useEffect(() => {
+    mapScores.forEach(score => {
+      if (existingGrade?.rubric?.[score.criterion] === undefined) {
+        form.setValue(`rubric.${score.criterion}`, score.rubricScore);
+      }
+    });
+  }, [mapScores, existingGrade, form]);
+
   const gradeMutation = useMutation({
     mutationFn: async (data: GradeFormData) => {
       const response = await apiRequest('POST', `/api/submissions/${submissionId}/grades`, data);
@@ -265,7 +302,64 @@ export default function Grading() {
                   </div>
                 )}
 
+                {assignment?.storyMap && submission.storyResponses && (
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-700 mb-3">Story Map Answers</h4>
+                    <StoryResponseList story={assignment.storyMap} responses={submission.storyResponses} />
+                  </div>
+                )}
+
+                {assignment?.mapQuestions?.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-700 mb-3">Map Questions</h4>
+                    <div className="space-y-4">
+                      {assignment.mapQuestions.map((question: MapQuestion, index: number) => {
+                        const score = mapScores.find(s => s.questionId === question.id);
+                        return (
+                          <div key={question.id} className="space-y-2">
+                            <div className="flex items-start justify-between gap-4">
+                              <p className="text-sm font-medium text-slate-700">
+                                {index + 1}. {question.prompt}
+                              </p>
+                              {score && (
+                                <Badge variant="outline" className="shrink-0">
+                                  Auto-score {score.rubricScore}/5
+                                </Badge>
+                              )}
+                            </div>
+                            {score && <p className="text-xs text-slate-500">{score.explanation}</p>}
+                            <MapQuestionMap
+                              baseMap={assignment.starterMap ?? DEFAULT_MAP_DATA}
+                              mode={question.responseType}
+                              value={submission.mapAnswers?.[question.id]}
+                              answer={question.answer}
+                              answerToleranceMeters={question.toleranceMeters}
+                              className="h-[250px]"
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-2">
+                      The student's answer is shown in blue and the answer region in green.
+                    </p>
+                  </div>
+                )}
 
+                {submission.mapData && (
+                  <div>
+                    <h4 className="text-sm font-medium text-slate-700 mb-3">Map Submission</h4>
+                    <div className="border rounded-lg overflow-hidden">
+                      <MapEditor
+                        initialData={submission.mapData}
+                        readOnly
+                        compareSources={compareSources}
+                        title={`${submission.assignment?.title ?? 'Map'} - ${submission.student?.firstName ?? ''} ${submission.student?.lastName ?? ''}`.trim()}
+                        className="h-[450px]"
+                      />
+                    </div>
+                  </div>
+                )}
 
                 {submission.attachments && submission.attachments.length > 0 && (
                   <div>
@@ -395,7 +489,7 @@ export default function Grading() {
                             <FormField
                               key={criterion}
                               control={form.control}
-                              name={`rubric.${criterion}` as any}
+                              name={`rubric.${criterion}`}
                               render={({ field }) => (
                                 <FormItem>
                                   <div className="flex items-center justify-between">
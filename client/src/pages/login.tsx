@@ -1,20 +1,31 @@
 import { useState } from 'react';
 import { useLocation, Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Eye, EyeOff } from 'lucide-react';
-import { auth } from '@/lib/auth';
+import { Eye, EyeOff, KeyRound } from 'lucide-react';
+import { auth, TwoFactorChallenge } from '@/lib/auth';
+import { TwoFactorLoginStep } from '@/components/two-factor';
 import { useToast } from '@/hooks/use-toast';
 
 export default function Login() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
-  const [loginError, setLoginError] = useState<string>('');
+  // A failed single sign-on comes back here with the reason in the query string
+  // Set once the password is accepted for an account that also needs a two-factor code
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
+  const [loginError, setLoginError] = useState<string>(
+    () => new URLSearchParams(window.location.search).get('sso_error') ?? ''
+  );
+
+  const { data: ssoProviders = [] } = useQuery<{ slug: string; name: string }[]>({
+    queryKey: ['/api/auth/sso/providers'],
+  });
 
   // password visibility state
   const [showLoginPassword, setShowLoginPassword] = useState(false);
@@ -34,6 +45,10 @@ export default function Login() {
 
       if (result.success) {
         setLocation('/dashboard');
+      } else if (result.twoFactor) {
+        setTwoFactor(result.twoFactor);
+      } else if (result.blocked) {
+        setLoginError(result.message);
       } else {
         setLoginError('Invalid username or password. Please try again.');
       }
@@ -148,76 +163,116 @@ export default function Login() {
 
           {/* LOGIN */}
           <TabsContent value="login">
-            <Card>
-              <CardHeader>
-                <CardTitle className="card_title">Login</CardTitle>
-                <CardDescription className="card_description">
-                  Enter your credentials to access your account
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <form onSubmit={handleLogin} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="login-username">Username</Label>
-                    <Input
-                      id="login-username"
-                      name="username"
-                      type="text"
-                      placeholder="Enter your username"
-                      required
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="login-password">Password</Label>
-                    <div className="relative">
+            {twoFactor ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="card_title">Two-Factor Authentication</CardTitle>
+                  <CardDescription className="card_description">
+                    One more step to keep your students' information safe
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TwoFactorLoginStep
+                    challenge={twoFactor}
+                    onSignedIn={() => setLocation('/dashboard')}
+                    onCancel={() => setTwoFactor(null)}
+                  />
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="card_title">Login</CardTitle>
+                  <CardDescription className="card_description">
+                    Enter your credentials to access your account
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleLogin} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="login-username">Username</Label>
                       <Input
-                        id="login-password"
-                        name="password"
-                        type={showLoginPassword ? 'text' : 'password'}
-                        placeholder="Enter your password"
+                        id="login-username"
+                        name="username"
+                        type="text"
+                        placeholder="Enter your username"
                         required
-                        autoComplete="current-password"
                       />
-                      <button
-                        type="button"
-                        onClick={() =>
-                          setShowLoginPassword((prev) => !prev)
-                        }
-                        className="absolute inset-y-0 right-0 flex items-center pr-3 text-slate-500"
-                        aria-label={
-                          showLoginPassword ? 'Hide password' : 'Show password'
-                        }
-                      >
-                        {showLoginPassword ? (
-                          <EyeOff className="h-4 w-4" aria-hidden="true" />
-                        ) : (
-                          <Eye className="h-4 w-4" aria-hidden="true" />
-                        )}
-                      </button>
                     </div>
-                  </div>
 
-                  <div className="text-right">
-                    <Link href="/forgot-password" className="text-sm text-purple-600 hover:text-purple-800 hover:underline">
-                      Forgot Password?
-                    </Link>
-                  </div>
-                  {loginError && (
-                    <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3 mb-4">
-                      {loginError}
+                    <div className="space-y-2">
+                      <Label htmlFor="login-password">Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="login-password"
+                          name="password"
+                          type={showLoginPassword ? 'text' : 'password'}
+                          placeholder="Enter your password"
+                          required
+                          autoComplete="current-password"
+                        />
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setShowLoginPassword((prev) => !prev)
+                          }
+                          className="absolute inset-y-0 right-0 flex items-center pr-3 text-slate-500"
+                          aria-label={
+                            showLoginPassword ? 'Hide password' : 'Show password'
+                          }
+                        >
+                          {showLoginPassword ? (
+                            <EyeOff className="h-4 w-4" aria-hidden="true" />
+                          ) : (
+                            <Eye className="h-4 w-4" aria-hidden="true" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="text-right">
+                      <Link href="/forgot-password" className="text-sm text-purple-600 hover:text-purple-800 hover:underline">
+                        Forgot Password?
+                      </Link>
+                    </div>
+                    {loginError && (
+                      <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+                        {loginError}
+                      </div>
+                    )}
+                    <Button
+                      type="submit"
+                      className="w-full edugis-btn-primary"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? 'Logging in...' : 'Login'}
+                    </Button>
+                  </form>
+                  {ssoProviders.length > 0 && (
+                    <div className="mt-6 space-y-3">
+                      <div className="flex items-center gap-3 text-xs uppercase text-slate-400">
+                        <div className="h-px flex-1 bg-slate-200" />
+                        or
+                        <div className="h-px flex-1 bg-slate-200" />
+                      </div>
+                      {ssoProviders.map(provider => (
+                        <Button key={provider.slug} variant="outline" className="w-full" asChild>
+                          <a href={`/api/auth/sso/${encodeURIComponent(provider.slug)}/start`}>
+                            <KeyRound className="h-4 w-4 mr-2" />
+                            Sign in with {provider.name}
+                          </a>
+                        </Button>
+                      ))}
                     </div>
                   )}
-                  <Button
-                    type="submit"
-                    className="w-full edugis-btn-primary"
-                    disabled={isLoading}
-                  >
-                    {isLoading ? 'Logging in...' : 'Login'}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                  <div className="mt-6 text-center">
+                    <Link href="/picture-login" className="text-sm text-purple-600 hover:text-purple-800 hover:underline">
+                      Young learners: sign in with pictures
+                    </Link>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* REGISTER */}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Delete, Loader2, QrCode } from 'lucide-react';
+import { loginPictures } from '@shared/schema';
+import { auth } from '@/lib/auth';
+import { ClassRoster } from '@/lib/types';
+
+const PICTURE_COUNT = 3;
+
+// Lets the teacher open a class sign-in page by typing its code once on a classroom tablet
+function ClassCodeForm() {
+  const [, setLocation] = useLocation();
+  const [code, setCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLocation(`/picture-login/${encodeURIComponent(code.trim().toUpperCase())}`);
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Class Sign-In</CardTitle>
+        <CardDescription>
+          Enter the code from your class page to open its picture sign-in. Bookmark the page so students can find
+          it again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="class-code">Class code</Label>
+            <Input
+              id="class-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="e.g. K7Q2M4XP"
+              className="font-mono uppercase"
+              autoComplete="off"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full edugis-btn-primary">
+            Open
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface PictureStepProps {
+  classCode: string;
+  student: { id: number; name: string };
+  onBack: () => void;
+  onSignedIn: () => void;
+}
+
+function PictureStep({ classCode, student, onBack, onSignedIn }: PictureStepProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handlePick = async (pictureId: string) => {
+    if (isLoading || selected.length >= PICTURE_COUNT) return;
+    const next = [...selected, pictureId];
+    setSelected(next);
+    setError('');
+    if (next.length < PICTURE_COUNT) return;
+
+    setIsLoading(true);
+    const result = await auth.pictureLogin(classCode, student.id, next);
+    setIsLoading(false);
+    if (result.success) {
+      onSignedIn();
+    } else {
+      setError(result.message);
+      setSelected([]);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="lg" onClick={onBack} aria-label="Back to names">
+          <ArrowLeft className="h-6 w-6" />
+        </Button>
+        <p className="text-2xl font-bold text-slate-800">Hi {student.name}!</p>
+        <Button
+          variant="ghost"
+          size="lg"
+          onClick={() => setSelected(selected.slice(0, -1))}
+          disabled={isLoading || selected.length === 0}
+          aria-label="Undo last picture"
+        >
+          <Delete className="h-6 w-6" />
+        </Button>
+      </div>
+
+      <div className="flex justify-center gap-4" aria-live="polite">
+        {Array.from({ length: PICTURE_COUNT }, (_, index) => {
+          const picture = loginPictures.find(p => p.id === selected[index]);
+          return (
+            <div
+              key={index}
+              className="h-20 w-20 rounded-2xl border-4 border-dashed border-purple-200 bg-white flex items-center justify-center text-5xl"
+            >
+              {picture ? <span role="img" aria-label={picture.label}>{picture.emoji}</span> : null}
+            </div>
+          );
+        })}
+      </div>
+
+      {error ? (
+        <p className="text-center text-lg font-medium text-red-600">{error}</p>
+      ) : (
+        <p className="text-center text-lg text-slate-600">
+          {isLoading ? 'Checking...' : 'Tap your pictures in order.'}
+        </p>
+      )}
+
+      <div className="grid grid-cols-4 gap-3">
+        {loginPictures.map(picture => (
+          <button
+            key={picture.id}
+            type="button"
+            onClick={() => handlePick(picture.id)}
+            disabled={isLoading}
+            className="aspect-square rounded-2xl bg-slate-100 hover:bg-purple-100 active:scale-95 transition text-5xl flex items-center justify-center disabled:opacity-50"
+            aria-label={picture.label}
+          >
+            {picture.emoji}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Class sign-in for young students: pick your name, then tap your pictures or scan your badge
+export default function PictureLogin() {
+  const { code } = useParams<{ code?: string }>();
+  const [, setLocation] = useLocation();
+  const [student, setStudent] = useState<{ id: number; name: string } | null>(null);
+  const [badgeState, setBadgeState] = useState<'idle' | 'signing-in' | 'failed'>('idle');
+  const [badgeError, setBadgeError] = useState('');
+
+  const { data: roster, isLoading, isError } = useQuery<ClassRoster>({
+    queryKey: ['/api/auth/class-login', code],
+    enabled: !!code,
+    retry: false,
+  });
+
+  // A scanned badge opens this page with its secret in the URL fragment
+  useEffect(() => {
+    const badgeToken = new URLSearchParams(window.location.hash.slice(1)).get('badge');
+    if (!code || !badgeToken) return;
+    // Keep the badge secret out of the browser history
+    window.history.replaceState(null, '', window.location.pathname);
+
+    setBadgeState('signing-in');
+    auth.badgeLogin(code, badgeToken).then(result => {
+      if (result.success) {
+        setLocation('/dashboard');
+      } else {
+        setBadgeState('failed');
+        setBadgeError(result.message);
+      }
+    });
+  }, [code]);
+
+  if (!code) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <ClassCodeForm />
+      </div>
+    );
+  }
+
+  const renderBody = () => {
+    if (badgeState === 'signing-in' || isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-12 w-12 text-purple-600 animate-spin" />
+        </div>
+      );
+    }
+    if (isError || !roster) {
+      return (
+        <p className="py-8 text-center text-slate-600">
+          This class sign-in link is not available. Ask your teacher.
+        </p>
+      );
+    }
+    if (student) {
+      return (
+        <PictureStep
+          classCode={code}
+          student={student}
+          onBack={() => setStudent(null)}
+          onSignedIn={() => setLocation('/dashboard')}
+        />
+      );
+    }
+    return (
+      <div className="space-y-4">
+        {badgeState === 'failed' && (
+          <div className="text-center text-red-600 bg-red-50 border border-red-200 rounded-md p-3">
+            {badgeError}
+          </div>
+        )}
+        {roster.students.length === 0 ? (
+          <p className="py-8 text-center text-slate-600">Your teacher hasn't made login cards for this class yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {roster.students.map(s => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => {
+                  setStudent(s);
+                  setBadgeState('idle');
+                }}
+                className="flex flex-col items-center gap-2 rounded-2xl bg-slate-100 hover:bg-purple-100 active:scale-95 transition p-4"
+              >
+                <span className="h-14 w-14 rounded-full bg-purple-600 text-white text-2xl font-bold flex items-center justify-center">
+                  {s.name.charAt(0)}
+                </span>
+                <span className="text-lg font-medium text-slate-800">{s.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <p className="flex items-center justify-center gap-2 text-sm text-slate-500">
+          <QrCode className="h-4 w-4" />
+          Have a badge? Scan it with this tablet's camera.
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-3xl">{roster?.classTitle ?? 'Class Sign-In'}</CardTitle>
+          {roster && !student && <CardDescription className="text-lg">Find your name!</CardDescription>}
+        </CardHeader>
+        <CardContent>{renderBody()}</CardContent>
+      </Card>
+    </div>
+  );
+}
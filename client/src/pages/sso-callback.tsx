@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, XCircle } from 'lucide-react';
+import { auth, TwoFactorChallenge } from '@/lib/auth';
+import { TwoFactorLoginStep } from '@/components/two-factor';
+
+// Where the server sends the browser after a single sign-on, with the session token in the URL fragment
+export default function SsoCallback() {
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState('');
+  // Teachers and admins with two-factor authentication still need to enter a code
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const token = params.get('token');
+    const challengeToken = params.get('challenge');
+    // Keep the token out of the browser history
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (challengeToken) {
+      setTwoFactor({ challengeToken, setupRequired: params.get('setup') === '1' });
+      return;
+    }
+    if (!token) {
+      setLocation('/login');
+      return;
+    }
+
+    auth
+      .completeSsoLogin(token)
+      .then(() => setLocation('/dashboard'))
+      .catch(() => {
+        localStorage.removeItem('auth_token');
+        setError('Your sign-in could not be completed. Please try again.');
+      });
+  }, []);
+
+  if (twoFactor) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Two-Factor Authentication</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorLoginStep
+              challenge={twoFactor}
+              onSignedIn={() => setLocation('/dashboard')}
+              onCancel={() => setLocation('/login')}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          {error ? (
+            <XCircle className="h-12 w-12 text-red-500 mx-auto mb-2" />
+          ) : (
+            <Loader2 className="h-12 w-12 text-purple-600 mx-auto mb-2 animate-spin" />
+          )}
+          <CardTitle>{error ? 'Sign-in failed' : 'Signing you in...'}</CardTitle>
+          {error && <CardDescription>{error}</CardDescription>}
+        </CardHeader>
+        {error && (
+          <CardContent className="text-center">
+            <Link href="/login" className="text-sm text-purple-600 hover:text-purple-800 hover:underline">
+              Back to login
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
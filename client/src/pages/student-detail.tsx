@@ -3,10 +3,10 @@ import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, UserPlus, BookOpen, FileText, Calendar } from 'lucide-react';
+import { ArrowLeft, UserPlus, BookOpen, FileText, Calendar, Lock, LockOpen } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
-import { auth } from '@/lib/auth';
+import { auth, User } from '@/lib/auth';
 
 export default function StudentDetail() {
   const { studentId } = useParams();
@@ -14,7 +14,8 @@ export default function StudentDetail() {
   const { toast } = useToast();
   const currentUser = auth.getUser();
 
-  const { data: student, isLoading } = useQuery({
+  // lockedUntil is set while the student is locked out after too many failed sign-ins
+  const { data: student, isLoading } = useQuery<User & { lockedUntil: string | null }>({
     queryKey: ['/api/students', studentId],
   });
 
@@ -70,6 +71,20 @@ export default function StudentDetail() {
     },
   });
 
+  const unlockMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/users/${studentId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Account unlocked', description: 'The student can sign in again.' });
+      queryClient.invalidateQueries({ queryKey: ['/api/students', studentId] });
+    },
+    onError: () => {
+      toast({ title: 'Failed to unlock account', variant: 'destructive' });
+    },
+  });
+
   if (isLoading) {
     return <div className="p-6">Loading...</div>;
   }
@@ -130,6 +145,24 @@ export default function StudentDetail() {
         </div>
       </div>
 
+      {student.lockedUntil && (
+        <div className="flex items-center justify-between gap-4 mb-6 p-4 rounded-lg border border-amber-200 bg-amber-50">
+          <div className="flex items-center gap-2 text-sm text-amber-800">
+            <Lock className="h-4 w-4 flex-shrink-0" />
+            Locked out after too many failed sign-ins until {new Date(student.lockedUntil).toLocaleTimeString()}.
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => unlockMutation.mutate()}
+            disabled={unlockMutation.isPending}
+          >
+            <LockOpen className="h-4 w-4 mr-2" />
+            {unlockMutation.isPending ? 'Unlocking...' : 'Unlock Account'}
+          </Button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -4,12 +4,14 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, FileText, Map as MapIcon, Download, Star, Edit3, MessageSquare, Clock, ExternalLink } from 'lucide-react';
+import { ArrowLeft, FileText, Map as MapIcon, Download, Star, Edit3, MessageSquare, Clock, ExternalLink, BookOpen } from 'lucide-react';
 import { auth } from '@/lib/auth';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { MapEditor } from '@/components/map-editor';
+import { StoryResponseList } from '@/components/story-map-player';
 
 export default function SubmissionDetail() {
   const { submissionId } = useParams();
@@ -197,7 +199,7 @@ export default function SubmissionDetail() {
                       {submission.assignment.selectedMaps.map((map: any) => (
                         <a
                           key={map.id}
-                          href={`https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
+                          href={map.url ?? `https://www.arcgis.com/apps/mapviewer/index.html?webmap=${map.id}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="block p-3 bg-slate-50 rounded-lg border border-slate-200 hover:border-blue-400 hover:bg-blue-50 transition-all group"
@@ -302,19 +304,33 @@ export default function SubmissionDetail() {
             </Card>
           )}
 
+          {/* Story Map Answers */}
+          {submission.assignment?.storyMap && submission.storyResponses && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  Story Map Answers
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StoryResponseList story={submission.assignment.storyMap} responses={submission.storyResponses} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Map Data */}
           {submission.mapData && (
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  <Map className="h-5 w-5" />
+                  <MapIcon className="h-5 w-5" />
                   Map Submission
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="flex items-center gap-2 text-slate-600">
-                  <Map className="h-4 w-4" />
-                  <span>Interactive map data included in submission</span>
+                <div className="border rounded-lg overflow-hidden">
+                  <MapEditor initialData={submission.mapData} readOnly title={submission.assignment?.title} className="h-[450px]" />
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,5 @@
+-- Adds starter_map column to assignments table
+-- Holds the teacher-authored map (view, basemap, layers and prompt markers) that new submissions open with
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS starter_map jsonb;
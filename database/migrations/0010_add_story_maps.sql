@@ -0,0 +1,8 @@
+-- Adds story maps: an ordered set of guided-tour slides on assignments,
+-- and the student's per-slide answers on submissions
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS story_map jsonb;
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS story_responses jsonb;
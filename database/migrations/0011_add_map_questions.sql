@@ -0,0 +1,8 @@
+-- Adds auto-graded map questions: teacher answer regions on assignments,
+-- and the student's placed points or drawn regions on submissions
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS map_questions jsonb;
+
+ALTER TABLE submissions
+  ADD COLUMN IF NOT EXISTS map_answers jsonb;
@@ -0,0 +1,22 @@
+-- Adds the offline gazetteer used by the map search box.
+-- Load it with: npm run db:gazetteer -- <place|county|zip|school> <file>
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS "gazetteer_places" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"source_id" text NOT NULL,
+	"name" text NOT NULL,
+	"state" text,
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"land_area" double precision,
+	CONSTRAINT "gazetteer_places_kind_source_id_unique" UNIQUE ("kind", "source_id")
+);
+
+-- Prefix matches ("spring" -> "Springfield")
+CREATE INDEX IF NOT EXISTS "idx_gazetteer_places_name_prefix" ON "gazetteer_places" (lower("name") text_pattern_ops);
+
+-- Substring and misspelling matches
+CREATE INDEX IF NOT EXISTS "idx_gazetteer_places_name_trgm" ON "gazetteer_places" USING gin (lower("name") gin_trgm_ops);
@@ -0,0 +1,29 @@
+-- Adds the admin-managed basemap registry, seeded with the two basemaps that were
+-- previously built into the map editor (their keys match the tile layer ids in saved maps),
+-- and lets assignments restrict which basemaps students may choose
+
+CREATE TABLE IF NOT EXISTS "basemaps" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL UNIQUE,
+	"name" text NOT NULL,
+	"url_template" text NOT NULL,
+	"attribution" text NOT NULL,
+	"max_zoom" integer DEFAULT 19 NOT NULL,
+	"subdomains" text,
+	"api_key" text,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+INSERT INTO "basemaps" ("key", "name", "url_template", "attribution", "max_zoom", "is_default", "sort_order")
+VALUES
+	('streets', 'Street Map', 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+	 '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors', 19, true, 0),
+	('satellite', 'Satellite', 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+	 '&copy; <a href="https://www.esri.com/">Esri</a>', 19, false, 1)
+ON CONFLICT ("key") DO NOTHING;
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS allowed_basemaps jsonb;
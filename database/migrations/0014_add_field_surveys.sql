@@ -0,0 +1,18 @@
+-- Adds field survey assignments: the teacher's form on assignments,
+-- and the geotagged observations students record for them
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS survey_form jsonb;
+
+CREATE TABLE IF NOT EXISTS "survey_records" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"assignment_id" integer NOT NULL REFERENCES "assignments"("id"),
+	"student_id" integer NOT NULL REFERENCES "users"("id"),
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"accuracy" double precision,
+	"values" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "survey_records_assignment_id_idx" ON "survey_records" ("assignment_id");
@@ -0,0 +1,32 @@
+-- Moves ArcGIS Online lookups to the server: the groups whose web maps are offered
+-- (seeded with the group that was previously hard-coded in the client) and a cached
+-- copy of their items and thumbnails for when ArcGIS Online is unreachable
+
+CREATE TABLE IF NOT EXISTS "arcgis_groups" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" text NOT NULL UNIQUE,
+	"name" text NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"last_refreshed_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "arcgis_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"group_id" integer NOT NULL REFERENCES "arcgis_groups"("id") ON DELETE CASCADE,
+	"item_id" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"thumbnail_name" text,
+	"thumbnail" bytea,
+	"thumbnail_type" text,
+	"cached_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "arcgis_items_group_id_item_id_unique" UNIQUE ("group_id", "item_id")
+);
+
+CREATE INDEX IF NOT EXISTS "arcgis_items_item_id_idx" ON "arcgis_items" ("item_id");
+
+INSERT INTO "arcgis_groups" ("group_id", "name")
+VALUES ('18314398dbda4b39a10071f5e022d42d', 'CivicScape web maps')
+ON CONFLICT ("group_id") DO NOTHING;
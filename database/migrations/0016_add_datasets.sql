@@ -0,0 +1,21 @@
+-- Structured copy of the geospatial dataset catalog in data/airtable_data.csv, which was
+-- previously only available to the AI assistant. Rows are loaded by the server on first
+-- start and by the admin re-import endpoint
+
+CREATE TABLE IF NOT EXISTS "datasets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"item_id" text NOT NULL UNIQUE,
+	"title" text NOT NULL,
+	"item_url" text,
+	"is_visualized" boolean DEFAULT false NOT NULL,
+	"creator" text,
+	"source" text,
+	"date_issued" text,
+	"source_url" text,
+	"dates_of_data" text,
+	"spatial_coverage" text,
+	"geometry" text,
+	"geographic_unit" text,
+	"format" text,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+-- Moves sign-in sessions from server memory to Postgres, so restarts and deploys no longer
+-- sign everyone out. Sessions expire after a period of inactivity and at a fixed maximum age
+
+CREATE TABLE IF NOT EXISTS "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_hash" text NOT NULL UNIQUE,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"user_agent" text,
+	"ip_address" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"absolute_expires_at" timestamp NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "sessions_user_id_idx" ON "sessions" ("user_id");
+CREATE INDEX IF NOT EXISTS "sessions_expires_at_idx" ON "sessions" ("expires_at");
@@ -0,0 +1,38 @@
+-- OpenID Connect single sign-on: the identity providers schools sign in with, the
+-- provider identities linked to CivicScape accounts, and sign-ins waiting for the
+-- provider to redirect back
+
+CREATE TABLE IF NOT EXISTS "sso_providers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL UNIQUE,
+	"issuer_url" text NOT NULL,
+	"client_id" text NOT NULL,
+	"client_secret" text,
+	"scopes" text DEFAULT 'openid email profile' NOT NULL,
+	"email_domains" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"provision_students" boolean DEFAULT true NOT NULL,
+	"is_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "sso_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider_id" integer NOT NULL REFERENCES "sso_providers"("id") ON DELETE CASCADE,
+	"subject" text NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_login_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sso_identities_provider_id_subject_unique" UNIQUE ("provider_id", "subject")
+);
+
+CREATE INDEX IF NOT EXISTS "sso_identities_user_id_idx" ON "sso_identities" ("user_id");
+
+CREATE TABLE IF NOT EXISTS "sso_login_states" (
+	"state" text PRIMARY KEY NOT NULL,
+	"provider_id" integer NOT NULL REFERENCES "sso_providers"("id") ON DELETE CASCADE,
+	"nonce" text NOT NULL,
+	"code_verifier" text NOT NULL,
+	"redirect_uri" text NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
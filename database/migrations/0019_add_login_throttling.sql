@@ -0,0 +1,25 @@
+-- Login throttling: recent failed sign-ins and password reset requests per username
+-- and IP address, and accounts locked after too many failures (kept as an audit trail)
+
+CREATE TABLE IF NOT EXISTS "login_throttles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"scope" text NOT NULL,
+	"key" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"blocked_until" timestamp,
+	CONSTRAINT "login_throttles_scope_key_unique" UNIQUE ("scope", "key")
+);
+
+CREATE TABLE IF NOT EXISTS "account_lockouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"ip_address" text,
+	"failed_attempts" integer NOT NULL,
+	"locked_at" timestamp DEFAULT now() NOT NULL,
+	"locked_until" timestamp NOT NULL,
+	"unlocked_at" timestamp,
+	"unlocked_by" integer REFERENCES "users"("id") ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS "account_lockouts_user_id_idx" ON "account_lockouts" ("user_id");
@@ -0,0 +1,35 @@
+-- TOTP two-factor authentication for teacher and admin accounts: authenticator secrets,
+-- recovery codes, sign-ins waiting for a code, and the site settings table that holds
+-- the admin switch making two-factor authentication mandatory
+
+CREATE TABLE IF NOT EXISTS "two_factor_credentials" (
+	"user_id" integer PRIMARY KEY NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"secret" text NOT NULL,
+	"enabled_at" timestamp,
+	"last_used_step" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "two_factor_recovery_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"code_hash" text NOT NULL,
+	"used_at" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "two_factor_recovery_codes_user_id_idx" ON "two_factor_recovery_codes" ("user_id");
+
+CREATE TABLE IF NOT EXISTS "two_factor_challenges" (
+	"token_hash" text PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"purpose" text NOT NULL,
+	"ip_address" text,
+	"expires_at" timestamp NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "app_settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" integer REFERENCES "users"("id") ON DELETE SET NULL
+);
@@ -0,0 +1,20 @@
+-- Picture-password and QR badge sign-in for young students: the classes that allow it,
+-- and each student's printed login card for a class
+
+CREATE TABLE IF NOT EXISTS "picture_login_classes" (
+	"class_id" integer PRIMARY KEY NOT NULL REFERENCES "classes"("id") ON DELETE CASCADE,
+	"code" text NOT NULL UNIQUE,
+	"enabled_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "picture_login_cards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"class_id" integer NOT NULL REFERENCES "classes"("id") ON DELETE CASCADE,
+	"student_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"pictures_hash" text NOT NULL,
+	"badge_token_hash" text NOT NULL UNIQUE,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" integer REFERENCES "users"("id") ON DELETE SET NULL,
+	CONSTRAINT "picture_login_cards_class_id_student_id_unique" UNIQUE ("class_id", "student_id")
+);
@@ -0,0 +1,25 @@
+-- Scopes single sign-on to schools: each provider belongs to a school and only signs in
+-- accounts from that school, so one school's provider can't sign in another school's users
+
+CREATE TABLE IF NOT EXISTS "schools" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL UNIQUE,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "school_id" integer REFERENCES "schools"("id") ON DELETE SET NULL;
+ALTER TABLE "sso_providers" ADD COLUMN IF NOT EXISTS "school_id" integer REFERENCES "schools"("id");
+
+-- Existing providers each get a school named after them
+INSERT INTO "schools" ("name") SELECT DISTINCT "name" FROM "sso_providers" ON CONFLICT ("name") DO NOTHING;
+UPDATE "sso_providers" SET "school_id" = "schools"."id" FROM "schools" WHERE "schools"."name" = "sso_providers"."name";
+
+-- Accounts that already signed in through a provider belong to its school
+UPDATE "users" SET "school_id" = "sso_providers"."school_id"
+FROM "sso_identities"
+JOIN "sso_providers" ON "sso_providers"."id" = "sso_identities"."provider_id"
+WHERE "sso_identities"."user_id" = "users"."id" AND "users"."school_id" IS NULL;
+
+ALTER TABLE "sso_providers" ALTER COLUMN "school_id" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "users_school_id_idx" ON "users" ("school_id");
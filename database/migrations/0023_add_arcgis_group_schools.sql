@@ -0,0 +1,6 @@
+-- Scopes ArcGIS groups to schools: a group assigned to a school only offers its web maps
+-- to that school's teachers and students. Existing groups stay shared by every school.
+
+ALTER TABLE "arcgis_groups" ADD COLUMN IF NOT EXISTS "school_id" integer REFERENCES "schools"("id") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "arcgis_groups_school_id_idx" ON "arcgis_groups" ("school_id");
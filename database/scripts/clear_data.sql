@@ -8,11 +8,22 @@ BEGIN;
 SET session_replication_role = 'replica';
 
 -- Truncate all tables (removes data, resets sequences)
+TRUNCATE TABLE picture_login_cards RESTART IDENTITY;
+TRUNCATE TABLE picture_login_classes;
+TRUNCATE TABLE two_factor_challenges;
+TRUNCATE TABLE two_factor_recovery_codes RESTART IDENTITY;
+TRUNCATE TABLE two_factor_credentials;
+TRUNCATE TABLE account_lockouts RESTART IDENTITY;
+TRUNCATE TABLE login_throttles RESTART IDENTITY;
+TRUNCATE TABLE sso_login_states;
+TRUNCATE TABLE sso_identities RESTART IDENTITY;
+TRUNCATE TABLE sessions RESTART IDENTITY;
 TRUNCATE TABLE ai_chat_messages RESTART IDENTITY;
 TRUNCATE TABLE password_reset_tokens RESTART IDENTITY;
 TRUNCATE TABLE class_teachers RESTART IDENTITY;
 TRUNCATE TABLE grades RESTART IDENTITY;
 TRUNCATE TABLE comments RESTART IDENTITY;
+TRUNCATE TABLE survey_records RESTART IDENTITY;
 TRUNCATE TABLE submissions RESTART IDENTITY;
 TRUNCATE TABLE notifications RESTART IDENTITY;
 TRUNCATE TABLE messages RESTART IDENTITY;
@@ -8,6 +8,24 @@ BEGIN;
 SET session_replication_role = 'replica';
 
 -- Drop all tables in reverse dependency order
+DROP TABLE IF EXISTS picture_login_cards CASCADE;
+DROP TABLE IF EXISTS picture_login_classes CASCADE;
+DROP TABLE IF EXISTS app_settings CASCADE;
+DROP TABLE IF EXISTS two_factor_challenges CASCADE;
+DROP TABLE IF EXISTS two_factor_recovery_codes CASCADE;
+DROP TABLE IF EXISTS two_factor_credentials CASCADE;
+DROP TABLE IF EXISTS account_lockouts CASCADE;
+DROP TABLE IF EXISTS login_throttles CASCADE;
+DROP TABLE IF EXISTS sso_login_states CASCADE;
+DROP TABLE IF EXISTS sso_identities CASCADE;
+DROP TABLE IF EXISTS sso_providers CASCADE;
+DROP TABLE IF EXISTS sessions CASCADE;
+DROP TABLE IF EXISTS datasets CASCADE;
+DROP TABLE IF EXISTS arcgis_items CASCADE;
+DROP TABLE IF EXISTS arcgis_groups CASCADE;
+DROP TABLE IF EXISTS survey_records CASCADE;
+DROP TABLE IF EXISTS gazetteer_places CASCADE;
+DROP TABLE IF EXISTS basemaps CASCADE;
 DROP TABLE IF EXISTS ai_chat_messages CASCADE;
 DROP TABLE IF EXISTS password_reset_tokens CASCADE;
 DROP TABLE IF EXISTS class_teachers CASCADE;
@@ -24,6 +42,7 @@ DROP TABLE IF EXISTS units CASCADE;
 DROP TABLE IF EXISTS sample_assignments CASCADE;
 DROP TABLE IF EXISTS classes CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS schools CASCADE;
 
 -- Re-enable foreign key checks
 SET session_replication_role = 'origin';
@@ -0,0 +1,188 @@
+/**
+ * Server-side access to ArcGIS Online group content. Each configured group's web maps and
+ * thumbnails are cached in Postgres and refreshed in the background, so the map picker is
+ * served from the cache and keeps working while ArcGIS Online is unreachable. A group assigned
+ * to a school is only offered to that school's accounts; the rest are offered to everyone.
+ *
+ * ARCGIS_PORTAL_URL points the refresh at another portal, or at a local stub for testing;
+ * ARCGIS_REFRESH_MINUTES sets how often the cache is refreshed (default 60).
+ */
+import type { ArcgisGroup, InsertArcgisItem } from '@shared/schema';
+import { storage } from './storage';
+import { log } from './vite';
+
+const PORTAL_URL = (process.env.ARCGIS_PORTAL_URL || 'https://www.arcgis.com').replace(/\/+$/, '');
+const REFRESH_INTERVAL_MS = (Number(process.env.ARCGIS_REFRESH_MINUTES) || 60) * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+// Group content is returned a page at a time
+const PAGE_SIZE = 100;
+// Thumbnails are small previews; anything larger is left out of the cache
+const MAX_THUMBNAIL_BYTES = 1024 * 1024;
+// Thumbnails are served publicly from our origin, so only raster images are kept; SVG could carry script
+export const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export class ArcgisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArcgisError";
+    Object.setPrototypeOf(this, ArcgisError.prototype);
+  }
+}
+
+// A web map as offered in the assignment map picker
+export interface ArcgisMap {
+  id: string;
+  title: string;
+  description: string;
+  thumbnailUrl?: string;
+}
+
+interface ArcgisGroupItem {
+  id: string;
+  type: string;
+  title: string;
+  snippet?: string | null;
+  description?: string | null;
+  thumbnail?: string | null;
+}
+
+async function fetchFromPortal(path: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${PORTAL_URL}${path}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new ArcgisError(`ArcGIS Online is unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!response.ok) {
+    throw new ArcgisError(`ArcGIS Online responded with ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+async function fetchGroupItems(groupId: string): Promise<ArcgisGroupItem[]> {
+  const items: ArcgisGroupItem[] = [];
+  let start = 1;
+
+  while (start > 0) {
+    const response = await fetchFromPortal(
+      `/sharing/rest/content/groups/${encodeURIComponent(groupId)}?f=json&start=${start}&num=${PAGE_SIZE}`
+    );
+    const data = await response.json();
+    // ArcGIS reports errors (e.g. an unknown or private group) with a 200 status
+    if (data.error) {
+      throw new ArcgisError(data.error.message || 'ArcGIS Online returned an error');
+    }
+    items.push(...(data.items ?? []));
+    // nextStart is -1 (or absent) after the last page
+    start = typeof data.nextStart === 'number' && data.nextStart > start ? data.nextStart : -1;
+  }
+
+  return items;
+}
+
+async function fetchThumbnail(item: ArcgisGroupItem): Promise<{ data: Buffer; type: string } | null> {
+  try {
+    // The name comes from the portal (e.g. thumbnail/ago_downloaded.png) and must stay under the item's info path
+    const segments = (item.thumbnail ?? '').split('/');
+    if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) return null;
+    const thumbnailPath = segments.map(encodeURIComponent).join('/');
+    const response = await fetchFromPortal(
+      `/sharing/rest/content/items/${encodeURIComponent(item.id)}/info/${thumbnailPath}`
+    );
+    const data = Buffer.from(await response.arrayBuffer());
+    const type = (response.headers.get('content-type') ?? 'image/png').split(';')[0].trim().toLowerCase();
+    if (!THUMBNAIL_TYPES.includes(type) || data.length > MAX_THUMBNAIL_BYTES) return null;
+    return { data, type };
+  } catch {
+    // A missing thumbnail shouldn't stop the item list from being cached
+    return null;
+  }
+}
+
+// Concurrent refreshes of the same group share one request
+const refreshesInProgress = new Map<number, Promise<void>>();
+
+/**
+ * Replaces a group's cached web maps with the current ones from ArcGIS Online. Thumbnails are
+ * only downloaded when new or changed. On failure the cached copy is kept and the error recorded.
+ */
+export function refreshArcgisGroup(group: ArcgisGroup): Promise<void> {
+  const inProgress = refreshesInProgress.get(group.id);
+  if (inProgress) return inProgress;
+
+  const refresh = (async () => {
+    try {
+      const items = (await fetchGroupItems(group.groupId)).filter(item => item.type === 'Web Map');
+      const cached = new Map((await storage.getArcgisItemsByGroup(group.id)).map(item => [item.itemId, item]));
+
+      const rows: InsertArcgisItem[] = [];
+      for (const item of items) {
+        const previous = cached.get(item.id);
+        const thumbnail = !item.thumbnail
+          ? null
+          : previous?.thumbnailName === item.thumbnail && previous.thumbnail
+            ? { data: previous.thumbnail, type: previous.thumbnailType ?? 'image/png' }
+            : await fetchThumbnail(item);
+        rows.push({
+          groupId: group.id,
+          itemId: item.id,
+          title: item.title,
+          description: item.snippet || item.description || null,
+          thumbnailName: thumbnail ? item.thumbnail : null,
+          thumbnail: thumbnail?.data ?? null,
+          thumbnailType: thumbnail?.type ?? null,
+        });
+      }
+
+      await storage.replaceArcgisItems(group.id, rows);
+      await storage.updateArcgisGroup(group.id, { lastRefreshedAt: new Date(), lastError: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`ArcGIS refresh of group ${group.groupId} failed: ${message}`);
+      await storage.updateArcgisGroup(group.id, { lastError: message });
+      throw error;
+    } finally {
+      refreshesInProgress.delete(group.id);
+    }
+  })();
+
+  refreshesInProgress.set(group.id, refresh);
+  return refresh;
+}
+
+export async function refreshAllArcgisGroups(): Promise<void> {
+  const groups = await storage.getArcgisGroups();
+  // One unreachable group shouldn't hold back the others
+  await Promise.allSettled(groups.map(refreshArcgisGroup));
+}
+
+/**
+ * Web maps from the enabled groups offered to a school (null for accounts without one), from
+ * the cache. Groups that have never been cached (e.g. just added) are fetched first; if that
+ * fails, whatever is cached is still returned.
+ */
+export async function getArcgisMaps(schoolId: number | null): Promise<ArcgisMap[]> {
+  const groups = await storage.getArcgisGroups(false, schoolId);
+  const uncached = groups.filter(group => !group.lastRefreshedAt);
+  const results = await Promise.allSettled(uncached.map(refreshArcgisGroup));
+
+  const items = await storage.getCachedArcgisMaps(schoolId);
+  if (items.length === 0 && results.some(result => result.status === 'rejected')) {
+    throw new ArcgisError('ArcGIS Online is unreachable and no maps have been cached yet.');
+  }
+
+  return items.map(item => ({
+    id: item.itemId,
+    title: item.title,
+    description: item.description ?? '',
+    thumbnailUrl: item.hasThumbnail ? `/api/arcgis/items/${item.itemId}/thumbnail` : undefined,
+  }));
+}
+
+export function startArcgisRefreshJob(): void {
+  const run = () => {
+    refreshAllArcgisGroups().catch(error => log(`ArcGIS refresh failed: ${error instanceof Error ? error.message : error}`));
+  };
+  run();
+  setInterval(run, REFRESH_INTERVAL_MS).unref();
+}
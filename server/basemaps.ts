@@ -0,0 +1,27 @@
+import type { Basemap } from '@shared/schema';
+
+// What map viewers need to load a basemap's tiles
+export interface PublicBasemap {
+  id: number;
+  key: string;
+  name: string;
+  urlTemplate: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains: string | null;
+  isDefault: boolean;
+}
+
+// Fills in the {apiKey} placeholder; the key has to reach the browser to request tiles anyway
+export function toPublicBasemap(basemap: Basemap): PublicBasemap {
+  return {
+    id: basemap.id,
+    key: basemap.key,
+    name: basemap.name,
+    urlTemplate: basemap.urlTemplate.replace(/\{apiKey\}/g, encodeURIComponent(basemap.apiKey ?? '')),
+    attribution: basemap.attribution,
+    maxZoom: basemap.maxZoom,
+    subdomains: basemap.subdomains,
+    isDefault: basemap.isDefault,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * The CivicScape dataset catalog, kept in data/airtable_data.csv (an export of the Airtable
+ * base the datasets are curated in). The file is loaded into the datasets table on first
+ * start and again whenever an admin re-imports it after replacing the file.
+ */
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { InsertDataset } from '@shared/schema';
+import { parseCsvRows } from './geo-import';
+import { storage } from './storage';
+import { log } from './vite';
+
+const CATALOG_PATH = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../data/airtable_data.csv');
+
+export class DatasetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetImportError";
+    Object.setPrototypeOf(this, DatasetImportError.prototype);
+  }
+}
+
+export interface DatasetImportResult {
+  imported: number;
+  removed: number;
+  skipped: number;
+}
+
+// Airtable export headers, lower-cased
+const COLUMNS = {
+  title: 'title',
+  itemUrl: 'item url',
+  itemId: 'item id',
+  isVisualized: 'visualized in civicscape?',
+  creator: 'creator',
+  source: 'source',
+  dateIssued: 'date issued',
+  sourceUrl: 'identifier (source url)',
+  datesOfData: 'dates of data',
+  spatialCoverage: 'spatial coverage',
+  geometry: 'geometry',
+  geographicUnit: 'geographic unit',
+  format: 'original format',
+} as const;
+
+const ITEM_ID = /^[0-9a-f]{32}$/i;
+
+// Cells pasted into Airtable carry stray tabs, line breaks and the odd trailing backtick
+function cleanValue(value: string | undefined): string | null {
+  const cleaned = (value ?? '').replace(/\s+/g, ' ').replace(/`+$/, '').trim();
+  return cleaned || null;
+}
+
+/**
+ * Reads the Airtable CSV export into dataset rows. Rows without an item id of their own take
+ * it from the item URL; rows with neither, or without a title, are skipped.
+ */
+export function parseDatasetCsv(text: string): { datasets: InsertDataset[]; skipped: number } {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) {
+    throw new DatasetImportError('The dataset catalog needs a header row and at least one data row.');
+  }
+
+  const headers = rows[0].map(header => header.trim().toLowerCase());
+  const indexOf = (column: keyof typeof COLUMNS) => headers.indexOf(COLUMNS[column]);
+  if (indexOf('title') === -1 || (indexOf('itemId') === -1 && indexOf('itemUrl') === -1)) {
+    throw new DatasetImportError('The dataset catalog must have "Title" and "Item ID" or "Item URL" columns.');
+  }
+
+  // Keyed by item id: a repeated id keeps its last row
+  const datasets = new Map<string, InsertDataset>();
+  let skipped = 0;
+
+  rows.slice(1).forEach(row => {
+    const value = (column: keyof typeof COLUMNS) => {
+      const index = indexOf(column);
+      return index === -1 ? null : cleanValue(row[index]);
+    };
+    // parseCsvRows returns the blank line at the end of the file as a single empty cell
+    if (row.every(cell => !cell.trim())) return;
+
+    const itemUrl = value('itemUrl');
+    let itemId = value('itemId');
+    if (!itemId && itemUrl) {
+      try {
+        itemId = new URL(itemUrl).searchParams.get('id');
+      } catch {
+        itemId = null;
+      }
+    }
+    const title = value('title');
+    if (!title || !itemId || !ITEM_ID.test(itemId)) {
+      skipped++;
+      return;
+    }
+
+    datasets.set(itemId.toLowerCase(), {
+      itemId: itemId.toLowerCase(),
+      title,
+      itemUrl,
+      isVisualized: value('isVisualized')?.toLowerCase() === 'checked',
+      creator: value('creator'),
+      source: value('source'),
+      dateIssued: value('dateIssued'),
+      sourceUrl: value('sourceUrl'),
+      datesOfData: value('datesOfData'),
+      spatialCoverage: value('spatialCoverage'),
+      geometry: value('geometry'),
+      geographicUnit: value('geographicUnit'),
+      format: value('format'),
+    });
+  });
+
+  return { datasets: Array.from(datasets.values()), skipped };
+}
+
+/**
+ * Loads the catalog file into the datasets table. Existing rows are updated in place (so their
+ * ids stay the same) and datasets no longer in the file are removed.
+ */
+export async function importDatasets(): Promise<DatasetImportResult> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(CATALOG_PATH, 'utf-8');
+  } catch (error) {
+    throw new DatasetImportError(`The dataset catalog could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const { datasets, skipped } = parseDatasetCsv(text);
+  if (datasets.length === 0) {
+    // Almost certainly a broken export; don't empty the catalog because of it
+    throw new DatasetImportError('The dataset catalog has no rows with a title and item id.');
+  }
+
+  const removed = await storage.replaceDatasets(datasets);
+  return { imported: datasets.length, removed, skipped };
+}
+
+// Fills the catalog on first start; later changes to the file are picked up by an admin re-import
+export async function seedDatasets(): Promise<void> {
+  try {
+    if (await storage.countDatasets() > 0) return;
+    const { imported, skipped } = await importDatasets();
+    log(`Imported ${imported} datasets into the catalog${skipped ? ` (${skipped} rows skipped)` : ''}`);
+  } catch (error) {
+    log(`Dataset catalog import failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
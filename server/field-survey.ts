@@ -0,0 +1,116 @@
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import type { SurveyField, SurveyForm, SurveyRecordWithStudent, SurveyValues } from '@shared/schema';
+
+export type SurveyExportFormat = 'csv' | 'geojson';
+
+export class SurveyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SurveyValidationError";
+    Object.setPrototypeOf(this, SurveyValidationError.prototype);
+  }
+}
+
+/**
+ * Checks a student's answers against the survey form. Returns the answers keyed by field id,
+ * with numbers parsed, blanks as null and anything not on the form dropped.
+ */
+export function validateSurveyValues(form: SurveyForm, values: Record<string, unknown>): SurveyValues {
+  const cleaned: SurveyValues = {};
+
+  form.fields.forEach(field => {
+    const raw = values[field.id];
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === undefined || value === null || value === '') {
+      if (field.required) {
+        throw new SurveyValidationError(`"${field.label}" is required.`);
+      }
+      cleaned[field.id] = null;
+      return;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(number)) {
+          throw new SurveyValidationError(`"${field.label}" must be a number.`);
+        }
+        cleaned[field.id] = number;
+        break;
+      }
+      case 'choice':
+        if (!field.options?.includes(String(value))) {
+          throw new SurveyValidationError(`"${field.label}" must be one of the listed options.`);
+        }
+        cleaned[field.id] = String(value);
+        break;
+      case 'photo':
+        // Photos are uploaded first; the record keeps the uploaded file's URL
+        if (typeof value !== 'string' || !value.startsWith('/api/uploads/')) {
+          throw new SurveyValidationError(`"${field.label}" must be an uploaded photo.`);
+        }
+        cleaned[field.id] = value;
+        break;
+      default:
+        cleaned[field.id] = String(value);
+    }
+  });
+
+  return cleaned;
+}
+
+// Column name for each field: its label, numbered when two fields share a label
+function getFieldColumns(form: SurveyForm): { field: SurveyField; name: string }[] {
+  const reserved = new Set(['id', 'student', 'recorded_at', 'latitude', 'longitude', 'accuracy_m']);
+  return form.fields.map(field => {
+    let name = field.label;
+    for (let n = 2; reserved.has(name); n++) name = `${field.label} (${n})`;
+    reserved.add(name);
+    return { field, name };
+  });
+}
+
+function getExportValue(field: SurveyField, value: string | number | null | undefined, baseUrl: string) {
+  if (value === null || value === undefined) return null;
+  // Photo links should still work once the file has left the app
+  return field.type === 'photo' ? `${baseUrl}${value}` : value;
+}
+
+export function surveyRecordsToGeoJSON(form: SurveyForm, records: SurveyRecordWithStudent[], baseUrl: string): FeatureCollection<Point> {
+  const columns = getFieldColumns(form);
+  return {
+    type: 'FeatureCollection',
+    features: records.map((record): Feature<Point> => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [record.longitude, record.latitude] },
+      properties: {
+        id: record.id,
+        student: record.studentName,
+        recorded_at: new Date(record.createdAt).toISOString(),
+        accuracy_m: record.accuracy,
+        ...Object.fromEntries(columns.map(({ field, name }) => [name, getExportValue(field, record.values[field.id], baseUrl)])),
+      },
+    })),
+  };
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function surveyRecordsToCsv(form: SurveyForm, records: SurveyRecordWithStudent[], baseUrl: string): string {
+  const columns = getFieldColumns(form);
+  const header = ['id', 'student', 'recorded_at', 'latitude', 'longitude', 'accuracy_m', ...columns.map(column => column.name)];
+  const rows = records.map(record => [
+    record.id,
+    record.studentName,
+    new Date(record.createdAt).toISOString(),
+    record.latitude,
+    record.longitude,
+    record.accuracy,
+    ...columns.map(({ field }) => getExportValue(field, record.values[field.id], baseUrl)),
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGazetteerFile } from './gazetteer';
+
+test('Gazetteer rows with a blank latitude or longitude are skipped, not placed at (0, 0)', () => {
+  const file = [
+    'USPS\tGEOID\tNAME\tALAND\tINTPTLAT\tINTPTLONG',
+    'IL\t1772000\tSpringfield city\t\t39.7990\t-89.6440',
+    'IL\t1700001\tBlank lat town\t1000\t\t-89.0000',
+    'IL\t1700002\tBlank lon village\t1000\t40.0000\t  ',
+  ].join('\n');
+  const { places, skipped } = parseGazetteerFile(file, 'place');
+
+  assert.equal(skipped, 2);
+  assert.equal(places.length, 1);
+  assert.equal(places[0].name, 'Springfield');
+  assert.equal(places[0].latitude, 39.799);
+  assert.equal(places[0].longitude, -89.644);
+  assert.equal(places[0].landArea, null);
+});
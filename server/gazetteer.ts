@@ -0,0 +1,149 @@
+import type { GazetteerPlace, InsertGazetteerPlace } from '@shared/schema';
+import { parseCsvRows } from './geo-import';
+
+export type GazetteerKind = InsertGazetteerPlace['kind'];
+
+export const GAZETTEER_KINDS: GazetteerKind[] = ['place', 'county', 'zip', 'school'];
+
+export class GazetteerImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GazetteerImportError";
+    Object.setPrototypeOf(this, GazetteerImportError.prototype);
+  }
+}
+
+export interface GeocodeResult {
+  id: number;
+  kind: GazetteerKind;
+  name: string;
+  state: string | null;
+  // e.g. "Springfield, IL"
+  label: string;
+  latitude: number;
+  longitude: number;
+  // Leaflet zoom that shows the whole place
+  zoom: number;
+}
+
+// Column names accepted for each value: Census Gazetteer headers first, then common CSV spellings
+const NAME_COLUMNS = ['name', 'place', 'school', 'school_name', 'sch_name'];
+const ID_COLUMNS = ['geoid', 'id', 'ncessch'];
+const STATE_COLUMNS = ['usps', 'state', 'stabr', 'st'];
+const LATITUDE_COLUMNS = ['intptlat', 'lat', 'latitude', 'y'];
+const LONGITUDE_COLUMNS = ['intptlong', 'lon', 'lng', 'long', 'longitude', 'x'];
+const LAND_AREA_COLUMNS = ['aland'];
+
+// Legal/statistical area descriptions the Census appends to place names ("Springfield city")
+const PLACE_NAME_SUFFIX = / (city and borough|consolidated government \(balance\)|metro(politan)? government \(balance\)|unified government \(balance\)|urban county|city|town|village|borough|municipality|CDP|comunidad|zona urbana)$/;
+
+// Used when a result has no land area to size it by
+const DEFAULT_ZOOM: Record<GazetteerKind, number> = {
+  place: 12,
+  county: 9,
+  zip: 13,
+  school: 16,
+};
+
+const MIN_ZOOM = 4;
+const MAX_ZOOM = 16;
+
+function findColumn(headers: string[], candidates: string[]): number {
+  return headers.findIndex(header => candidates.includes(header));
+}
+
+/**
+ * Reads a Census Gazetteer file (tab-delimited, e.g. 2023_Gaz_place_national.txt) or a CSV
+ * with name and latitude/longitude columns into gazetteer rows of the given kind.
+ */
+export function parseGazetteerFile(text: string, kind: GazetteerKind): { places: InsertGazetteerPlace[]; skipped: number } {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n/));
+  const rows = parseCsvRows(content, firstLine.includes('\t') ? '\t' : ',');
+  if (rows.length < 2) {
+    throw new GazetteerImportError('The gazetteer file needs a header row and at least one data row.');
+  }
+
+  // Census files pad the last header with spaces
+  const headers = rows[0].map(header => header.trim().toLowerCase());
+  const nameIndex = findColumn(headers, NAME_COLUMNS);
+  const idIndex = findColumn(headers, ID_COLUMNS);
+  const stateIndex = findColumn(headers, STATE_COLUMNS);
+  const latIndex = findColumn(headers, LATITUDE_COLUMNS);
+  const lonIndex = findColumn(headers, LONGITUDE_COLUMNS);
+  const areaIndex = findColumn(headers, LAND_AREA_COLUMNS);
+
+  if (latIndex === -1 || lonIndex === -1) {
+    throw new GazetteerImportError('The gazetteer file must have latitude and longitude columns (e.g. INTPTLAT and INTPTLONG).');
+  }
+  // ZIP code (ZCTA) files only have the GEOID, which is the ZIP code itself
+  if (nameIndex === -1 && !(kind === 'zip' && idIndex !== -1)) {
+    throw new GazetteerImportError('The gazetteer file must have a name column (e.g. NAME).');
+  }
+
+  // Keyed by source id: a repeated id keeps its last row, as a re-import would
+  const places = new Map<string, InsertGazetteerPlace>();
+  let skipped = 0;
+
+  rows.slice(1).forEach(row => {
+    const value = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim());
+    // Number('') is 0, so a blank cell must not be read as a coordinate or area of zero
+    const numberValue = (index: number) => (value(index) === '' ? NaN : Number(value(index)));
+    const latitude = numberValue(latIndex);
+    const longitude = numberValue(lonIndex);
+    let name = value(nameIndex === -1 ? idIndex : nameIndex);
+    if (!name || !Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      skipped++;
+      return;
+    }
+    if (kind === 'place') name = name.replace(PLACE_NAME_SUFFIX, '');
+
+    const state = value(stateIndex).toUpperCase() || null;
+    const landArea = numberValue(areaIndex);
+    const sourceId = value(idIndex) || `${name}|${state ?? ''}|${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+    places.set(sourceId, {
+      kind,
+      sourceId,
+      name,
+      state,
+      latitude,
+      longitude,
+      landArea: Number.isFinite(landArea) && landArea > 0 ? landArea : null,
+    });
+  });
+
+  return { places: Array.from(places.values()), skipped };
+}
+
+/**
+ * Splits a search like "Springfield, IL" or "Springfield IL" into the name and an optional
+ * two-letter state, so "IL" narrows the results instead of having to match the name.
+ */
+export function parseGeocodeQuery(query: string): { name: string; state: string | null } {
+  const trimmed = query.trim().replace(/\s+/g, ' ');
+  const match = trimmed.match(/^(.+?)(?:,\s*|\s+)([A-Za-z]{2})$/);
+  if (match && (trimmed.includes(',') || match[2] === match[2].toUpperCase())) {
+    return { name: match[1].trim(), state: match[2].toUpperCase() };
+  }
+  return { name: trimmed.replace(/,$/, ''), state: null };
+}
+
+// Zoom at which a roughly square area of the given size fills an ~800px wide map
+function getZoomForArea(landArea: number, latitude: number): number {
+  const widthKm = 2 * Math.sqrt(landArea / 1e6);
+  const zoom = Math.log2((125000 * Math.cos((latitude * Math.PI) / 180)) / widthKm);
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom)));
+}
+
+export function toGeocodeResult(place: GazetteerPlace): GeocodeResult {
+  return {
+    id: place.id,
+    kind: place.kind,
+    name: place.name,
+    state: place.state,
+    label: place.state ? `${place.name}, ${place.state}` : place.name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    zoom: place.landArea ? getZoomForArea(place.landArea, place.latitude) : DEFAULT_ZOOM[place.kind],
+  };
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'zlib';
+import { convertGeoFile, GeoImportError } from './geo-import';
+
+// A single-entry deflated zip whose central directory claims the given uncompressed size
+function zipWithEntry(name: string, content: Buffer, claimedSize: number): Buffer {
+  const nameBytes = Buffer.from(name);
+  const data = deflateRawSync(content);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(claimedSize, 22);
+  local.writeUInt16LE(nameBytes.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(claimedSize, 24);
+  central.writeUInt16LE(nameBytes.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + nameBytes.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + nameBytes.length, 12);
+  end.writeUInt32LE(centralOffset, 16);
+
+  return Buffer.concat([local, nameBytes, data, central, nameBytes, end]);
+}
+
+test('CSV rows with a blank latitude or longitude are skipped, not placed at (0, 0)', () => {
+  const csv = 'name,lat,lon\nLibrary,40.7,-74.0\nBlank lat,,-73.9\nBlank lon,40.8,  \n';
+  const result = convertGeoFile(Buffer.from(csv), 'places.csv');
+
+  assert.equal(result.data.features.length, 1);
+  assert.deepEqual(result.data.features[0].geometry, { type: 'Point', coordinates: [-74, 40.7] });
+  assert.deepEqual(result.warnings, ['2 rows skipped because of missing or invalid coordinates.']);
+});
+
+test('KMZ entries that inflate past their declared size are rejected as import errors', () => {
+  const kml = Buffer.alloc(1024 * 1024, ' ');
+  const kmz = zipWithEntry('doc.kml', kml, 100);
+
+  assert.throws(() => convertGeoFile(kmz, 'bomb.kmz'), GeoImportError);
+});
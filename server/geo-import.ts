@@ -0,0 +1,502 @@
+import path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { readZipEntries } from './zip';
+import { convertShapefileZip } from './shapefile';
+
+export type GeoFileFormat = 'geojson' | 'kml' | 'kmz' | 'csv' | 'shapefile';
+
+export interface GeoImportResult {
+  format: GeoFileFormat;
+  data: FeatureCollection;
+  warnings: string[];
+}
+
+export class GeoImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeoImportError";
+    Object.setPrototypeOf(this, GeoImportError.prototype);
+  }
+}
+
+const GEO_FILE_EXTENSIONS: Record<string, GeoFileFormat> = {
+  '.geojson': 'geojson',
+  '.json': 'geojson',
+  '.kml': 'kml',
+  '.kmz': 'kmz',
+  '.csv': 'csv',
+  '.zip': 'shapefile',
+};
+
+const MAX_FEATURES = 10000;
+// Layers with more vertices than this are simplified so saved maps stay a manageable size
+const MAX_VERTICES = 20000;
+
+const LATITUDE_COLUMNS = ['lat', 'latitude', 'y'];
+const LONGITUDE_COLUMNS = ['lon', 'lng', 'long', 'longitude', 'x'];
+
+const GEOMETRY_TYPES = ['Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'];
+
+export function getGeoFileFormat(filename: string): GeoFileFormat | null {
+  return GEO_FILE_EXTENSIONS[path.extname(filename).toLowerCase()] || null;
+}
+
+// Converts an uploaded GeoJSON, KML/KMZ, CSV or zipped shapefile into a validated FeatureCollection
+export function convertGeoFile(buffer: Buffer, filename: string): GeoImportResult {
+  const format = getGeoFileFormat(filename);
+  const warnings: string[] = [];
+  let data: FeatureCollection;
+
+  switch (format) {
+    case 'geojson':
+      data = parseGeoJson(buffer.toString('utf-8'));
+      break;
+    case 'kml':
+      data = parseKml(buffer.toString('utf-8'));
+      break;
+    case 'kmz':
+      data = parseKml(extractKmlFromKmz(buffer));
+      break;
+    case 'csv':
+      data = parseCsv(buffer.toString('utf-8'), warnings);
+      break;
+    case 'shapefile':
+      data = parseShapefile(buffer);
+      break;
+    default:
+      throw new GeoImportError('Unsupported map layer format. Please upload a GeoJSON, KML, KMZ, CSV or zipped shapefile.');
+  }
+
+  if (data.features.length === 0) {
+    throw new GeoImportError('The file does not contain any map features.');
+  }
+  if (data.features.length > MAX_FEATURES) {
+    throw new GeoImportError(`The file contains ${data.features.length} features; the limit is ${MAX_FEATURES}.`);
+  }
+
+  const vertexCount = countVertices(data);
+  if (vertexCount > MAX_VERTICES) {
+    data = simplifyFeatureCollection(data, vertexCount);
+    warnings.push(`Geometries were simplified from ${vertexCount} to ${countVertices(data)} vertices.`);
+  }
+
+  return { format, data, warnings };
+}
+
+function parseShapefile(buffer: Buffer): FeatureCollection {
+  let data: FeatureCollection;
+  try {
+    data = convertShapefileZip(buffer);
+  } catch (error) {
+    throw new GeoImportError(error instanceof Error ? error.message : 'The shapefile could not be read.');
+  }
+  data.features.forEach((feature, index) => validateGeometry(feature.geometry, index));
+  return data;
+}
+
+function countVertices(data: FeatureCollection): number {
+  const count = (coordinates: any): number =>
+    typeof coordinates[0] === 'number' ? 1 : coordinates.reduce((sum: number, child: any) => sum + count(child), 0);
+  const countGeometry = (geometry: Geometry): number =>
+    geometry.type === 'GeometryCollection'
+      ? geometry.geometries.reduce((sum, child) => sum + countGeometry(child), 0)
+      : count(geometry.coordinates);
+
+  return data.features.reduce((sum, feature) => sum + (feature.geometry ? countGeometry(feature.geometry) : 0), 0);
+}
+
+// Douglas-Peucker simplification of a single line or ring
+function simplifyLine(points: Position[], tolerance: number, minPoints: number): Position[] {
+  if (points.length <= minPoints) return points;
+
+  const keep = new Array(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    const [x1, y1] = points[start];
+    const [x2, y2] = points[end];
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const [x, y] = points[i];
+      let t = lengthSquared === 0 ? 0 : ((x - x1) * dx + (y - y1) * dy) / lengthSquared;
+      t = Math.max(0, Math.min(1, t));
+      const distance = Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  const simplified = points.filter((_, i) => keep[i]);
+  // Rings that collapse below a valid polygon are left as they were
+  return simplified.length >= minPoints ? simplified : points;
+}
+
+function simplifyGeometry(geometry: Geometry, tolerance: number): Geometry {
+  switch (geometry.type) {
+    case 'LineString':
+      return { ...geometry, coordinates: simplifyLine(geometry.coordinates, tolerance, 2) };
+    case 'MultiLineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(line => simplifyLine(line, tolerance, 2)) };
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(ring => simplifyLine(ring, tolerance, 4)) };
+    case 'MultiPolygon':
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map(polygon => polygon.map(ring => simplifyLine(ring, tolerance, 4))),
+      };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(child => simplifyGeometry(child, tolerance)) };
+    default:
+      return geometry;
+  }
+}
+
+// Raises the tolerance (in degrees) until the layer fits under MAX_VERTICES
+function simplifyFeatureCollection(data: FeatureCollection, vertexCount: number): FeatureCollection {
+  let tolerance = 0.00001;
+  let simplified = data;
+
+  while (vertexCount > MAX_VERTICES && tolerance < 0.1) {
+    const currentTolerance = tolerance;
+    simplified = {
+      ...data,
+      features: data.features.map(feature => ({
+        ...feature,
+        geometry: feature.geometry && simplifyGeometry(feature.geometry, currentTolerance),
+      })),
+    };
+    vertexCount = countVertices(simplified);
+    tolerance *= 2;
+  }
+
+  return simplified;
+}
+
+function parseGeoJson(text: string): FeatureCollection {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GeoImportError('The file is not valid JSON.');
+  }
+
+  let features: any[];
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    features = json.features;
+  } else if (json?.type === 'Feature') {
+    features = [json];
+  } else if (GEOMETRY_TYPES.includes(json?.type)) {
+    features = [{ type: 'Feature', geometry: json, properties: {} }];
+  } else {
+    throw new GeoImportError('The file is not a GeoJSON Feature, FeatureCollection or geometry.');
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: features.map((feature, index) => {
+      if (feature?.type !== 'Feature') {
+        throw new GeoImportError(`Feature ${index + 1} is not a GeoJSON Feature.`);
+      }
+      validateGeometry(feature.geometry, index);
+      return {
+        type: 'Feature',
+        geometry: feature.geometry,
+        properties: feature.properties && typeof feature.properties === 'object' ? feature.properties : {},
+      };
+    }),
+  };
+}
+
+function validatePosition(position: any, index: number) {
+  if (
+    !Array.isArray(position) ||
+    position.length < 2 ||
+    !Number.isFinite(position[0]) ||
+    !Number.isFinite(position[1])
+  ) {
+    throw new GeoImportError(`Feature ${index + 1} has invalid coordinates.`);
+  }
+  if (Math.abs(position[0]) > 180 || Math.abs(position[1]) > 90) {
+    throw new GeoImportError(
+      `Feature ${index + 1} has coordinates outside longitude/latitude range. Files must use WGS84 (EPSG:4326).`
+    );
+  }
+}
+
+function validateGeometry(geometry: any, index: number) {
+  if (!geometry || !GEOMETRY_TYPES.includes(geometry.type)) {
+    throw new GeoImportError(`Feature ${index + 1} has a missing or unknown geometry.`);
+  }
+
+  const depth: Record<string, number> = {
+    Point: 0,
+    MultiPoint: 1,
+    LineString: 1,
+    MultiLineString: 2,
+    Polygon: 2,
+    MultiPolygon: 3,
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    if (!Array.isArray(geometry.geometries)) {
+      throw new GeoImportError(`Feature ${index + 1} has an invalid geometry collection.`);
+    }
+    geometry.geometries.forEach((child: any) => validateGeometry(child, index));
+    return;
+  }
+
+  const visit = (coordinates: any, level: number) => {
+    if (level === 0) {
+      validatePosition(coordinates, index);
+      return;
+    }
+    if (!Array.isArray(coordinates)) {
+      throw new GeoImportError(`Feature ${index + 1} has invalid coordinates.`);
+    }
+    coordinates.forEach(child => visit(child, level - 1));
+  };
+  visit(geometry.coordinates, depth[geometry.type]);
+}
+
+function extractKmlFromKmz(buffer: Buffer): string {
+  let entries;
+  try {
+    entries = readZipEntries(buffer);
+  } catch (error) {
+    throw new GeoImportError(error instanceof Error ? error.message : 'The KMZ file could not be read.');
+  }
+
+  // KMZ files normally hold doc.kml at the root, but any .kml entry is accepted
+  const kmlEntry =
+    entries.find(entry => entry.name.toLowerCase() === 'doc.kml') ||
+    entries.find(entry => entry.name.toLowerCase().endsWith('.kml'));
+  if (!kmlEntry) {
+    throw new GeoImportError('The KMZ file does not contain a KML document.');
+  }
+  try {
+    return kmlEntry.read().toString('utf-8');
+  } catch (error) {
+    throw new GeoImportError(error instanceof Error ? error.message : 'The KMZ file could not be read.');
+  }
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return String(value['#text'] ?? '');
+  return String(value);
+}
+
+function parseKmlCoordinates(value: any): Position[] {
+  return textOf(value)
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => {
+      const [lon, lat] = tuple.split(',').map(Number);
+      return [lon, lat];
+    });
+}
+
+function parseKmlGeometries(node: any): Geometry[] {
+  const geometries: Geometry[] = [];
+
+  for (const point of asArray(node.Point)) {
+    const [position] = parseKmlCoordinates(point.coordinates);
+    if (position) geometries.push({ type: 'Point', coordinates: position });
+  }
+  for (const line of asArray(node.LineString)) {
+    geometries.push({ type: 'LineString', coordinates: parseKmlCoordinates(line.coordinates) });
+  }
+  for (const polygon of asArray(node.Polygon)) {
+    const outer = parseKmlCoordinates(polygon.outerBoundaryIs?.LinearRing?.coordinates);
+    const inner = asArray(polygon.innerBoundaryIs).map((boundary: any) =>
+      parseKmlCoordinates(boundary.LinearRing?.coordinates)
+    );
+    geometries.push({ type: 'Polygon', coordinates: [outer, ...inner] });
+  }
+  for (const multi of asArray(node.MultiGeometry)) {
+    geometries.push(...parseKmlGeometries(multi));
+  }
+
+  return geometries;
+}
+
+function parseKmlProperties(placemark: any): Record<string, any> {
+  const properties: Record<string, any> = {};
+  if (placemark.name !== undefined) properties.name = textOf(placemark.name);
+  if (placemark.description !== undefined) properties.description = textOf(placemark.description);
+
+  const extended = placemark.ExtendedData;
+  if (extended) {
+    for (const data of asArray(extended.Data)) {
+      if (data['@_name']) properties[data['@_name']] = textOf(data.value);
+    }
+    for (const schemaData of asArray(extended.SchemaData)) {
+      for (const simple of asArray(schemaData.SimpleData)) {
+        if (simple['@_name']) properties[simple['@_name']] = textOf(simple);
+      }
+    }
+  }
+
+  return properties;
+}
+
+// Placemarks can be nested in any number of Documents and Folders
+function collectPlacemarks(node: any, placemarks: any[]) {
+  if (!node || typeof node !== 'object') return;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'Placemark') {
+      placemarks.push(...asArray(value));
+    } else if (typeof value === 'object') {
+      asArray(value).forEach(child => collectPlacemarks(child, placemarks));
+    }
+  }
+}
+
+function parseKml(text: string): FeatureCollection {
+  let document: any;
+  try {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      removeNSPrefix: true,
+      parseTagValue: false,
+    });
+    document = parser.parse(text);
+  } catch {
+    throw new GeoImportError('The file is not valid KML.');
+  }
+
+  if (!document?.kml) {
+    throw new GeoImportError('The file is not a KML document.');
+  }
+
+  const placemarks: any[] = [];
+  collectPlacemarks(document.kml, placemarks);
+
+  const features: Feature[] = [];
+  placemarks.forEach(placemark => {
+    const geometries = parseKmlGeometries(placemark);
+    if (geometries.length === 0) return;
+
+    const geometry: Geometry =
+      geometries.length === 1 ? geometries[0] : { type: 'GeometryCollection', geometries };
+    validateGeometry(geometry, features.length);
+    features.push({ type: 'Feature', geometry, properties: parseKmlProperties(placemark) });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
+
+// Splits CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+export function parseCsvRows(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+function parseCsvValue(value: string): string | number {
+  const trimmed = value.trim();
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+}
+
+// Number('') is 0, so a blank cell would put the row at (0, 0); NaN marks it invalid instead
+function parseCoordinate(value: string | undefined): number {
+  const trimmed = (value ?? '').trim();
+  return trimmed === '' ? NaN : Number(trimmed);
+}
+
+function parseCsv(text: string, warnings: string[]): FeatureCollection {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) {
+    throw new GeoImportError('The CSV file needs a header row and at least one data row.');
+  }
+
+  const headers = rows[0].map(header => header.trim());
+  const normalized = headers.map(header => header.toLowerCase());
+  const latIndex = normalized.findIndex(header => LATITUDE_COLUMNS.includes(header));
+  const lonIndex = normalized.findIndex(header => LONGITUDE_COLUMNS.includes(header));
+  if (latIndex === -1 || lonIndex === -1) {
+    throw new GeoImportError('The CSV file must have latitude and longitude columns (e.g. "lat" and "lon").');
+  }
+
+  const features: Feature[] = [];
+  let skipped = 0;
+
+  rows.slice(1).forEach(row => {
+    const lat = parseCoordinate(row[latIndex]);
+    const lon = parseCoordinate(row[lonIndex]);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      skipped++;
+      return;
+    }
+
+    const properties: Record<string, any> = {};
+    headers.forEach((header, index) => {
+      if (index !== latIndex && index !== lonIndex && header) {
+        properties[header] = parseCsvValue(row[index] ?? '');
+      }
+    });
+    features.push({ type: 'Feature', geometry: { type: 'Point', coordinates: [lon, lat] }, properties });
+  });
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} row${skipped === 1 ? '' : 's'} skipped because of missing or invalid coordinates.`);
+  }
+
+  return { type: 'FeatureCollection', features };
+}
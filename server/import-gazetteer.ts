@@ -0,0 +1,35 @@
+/**
+ * Loads a gazetteer file into the table behind the map search box. Accepts the Census
+ * Gazetteer files (places, counties, ZCTAs: https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html)
+ * or any CSV with name and latitude/longitude columns, e.g. a list of local schools.
+ *
+ * Usage: npm run db:gazetteer -- <place|county|zip|school> <file>
+ * Re-running with an updated file replaces matching rows.
+ */
+import fs from 'fs/promises';
+import { pool } from './db';
+import { storage } from './storage';
+import { GAZETTEER_KINDS, GazetteerImportError, GazetteerKind, parseGazetteerFile } from './gazetteer';
+
+async function main() {
+  const [kind, file] = process.argv.slice(2);
+  if (!GAZETTEER_KINDS.includes(kind as GazetteerKind) || !file) {
+    throw new GazetteerImportError(`Usage: npm run db:gazetteer -- <${GAZETTEER_KINDS.join('|')}> <file>`);
+  }
+
+  const text = await fs.readFile(file, 'utf8');
+  const { places, skipped } = parseGazetteerFile(text, kind as GazetteerKind);
+  const count = await storage.upsertGazetteerPlaces(places);
+
+  console.log(`Imported ${count} ${kind} entries from ${file}.`);
+  if (skipped > 0) {
+    console.log(`${skipped} row${skipped === 1 ? '' : 's'} skipped because of a missing name or invalid coordinates.`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(error instanceof GazetteerImportError ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
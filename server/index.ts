@@ -4,6 +4,10 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startArcgisRefreshJob } from "./arcgis";
+import { seedDatasets } from "./datasets";
+import { getTrustProxySetting, startLoginThrottleCleanupJob } from "./login-throttle";
+import { startSessionCleanupJob } from "./sessions";
 import OpenAI from 'openai';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -20,6 +24,8 @@ const data = fs.readFileSync(
 const systemPrompt = promptTemplate.replace('<<DATA>>', data);
 
 const app = express();
+// req.ip must be the client's address, not the proxy's, for sign-in throttling to tell clients apart
+app.set('trust proxy', getTrustProxySetting());
 
 // Check for the OpenAI API key from .env
 if (!process.env.OPENAI_API_KEY) {
@@ -181,6 +187,10 @@ app.post('/api/ai/copilot', async (req, res, next) => {
     //reusePort: true, // commented out for debugging on macOS
   }, () => {
     log(`serving on port ${port}`);
+    startArcgisRefreshJob();
+    seedDatasets();
+    startSessionCleanupJob();
+    startLoginThrottleCleanupJob();
   });
 
   // set the server timeout (ms) to 5 minutes
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import type { LoginThrottle } from '@shared/schema';
+
+// The pool connects lazily, so storage can be imported without a database
+process.env.DATABASE_URL ||= 'postgres://localhost/unused';
+const { storage } = await import('./storage');
+const { LoginThrottledError, checkLoginAllowed, getTrustProxySetting, recordFailedLogin } = await import('./login-throttle');
+
+const throttles = new Map<string, LoginThrottle>();
+storage.getLoginThrottle = async (scope, key) => throttles.get(`${scope}|${key}`);
+storage.recordLoginThrottleAttempt = async (scope, key) => {
+  const existing = throttles.get(`${scope}|${key}`);
+  const throttle = {
+    id: existing?.id ?? throttles.size + 1,
+    scope,
+    key,
+    attempts: (existing?.attempts ?? 0) + 1,
+    lastAttemptAt: new Date(),
+    blockedUntil: existing?.blockedUntil ?? null,
+  };
+  throttles.set(`${scope}|${key}`, throttle);
+  return throttle;
+};
+storage.setLoginThrottleBlock = async (id, blockedUntil) => {
+  throttles.forEach(throttle => {
+    if (throttle.id === id) throttle.blockedUntil = blockedUntil;
+  });
+};
+
+// A sign-in route that always fails the password check; each attempt uses a new username,
+// so only the per-IP throttle comes into play
+async function withLoginServer(trustProxy: string | undefined, run: (attempt: (clientIp: string) => Promise<number>) => Promise<void>) {
+  throttles.clear();
+  const app = express();
+  app.set('trust proxy', getTrustProxySetting(trustProxy));
+  let attempts = 0;
+  app.post('/login', async (req, res) => {
+    const username = `user${attempts++}`;
+    try {
+      await checkLoginAllowed(username, req.ip, undefined);
+      await recordFailedLogin(username, req.ip, undefined);
+      res.status(401).end();
+    } catch (error) {
+      res.status(error instanceof LoginThrottledError ? 429 : 500).end();
+    }
+  });
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const attempt = async (clientIp: string) => {
+    const response = await fetch(`http://127.0.0.1:${port}/login`, {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': clientIp },
+    });
+    return response.status;
+  };
+  try {
+    await run(attempt);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+test('TRUST_PROXY accepts booleans, hop counts and proxy addresses', () => {
+  assert.equal(getTrustProxySetting(undefined), false);
+  assert.equal(getTrustProxySetting('false'), false);
+  assert.equal(getTrustProxySetting('true'), true);
+  assert.equal(getTrustProxySetting('1'), 1);
+  assert.equal(getTrustProxySetting('loopback, 10.0.0.0/8'), 'loopback, 10.0.0.0/8');
+});
+
+test('Clients behind a trusted proxy are throttled by their own address', async () => {
+  await withLoginServer('loopback', async (attempt) => {
+    // 30 free attempts, then the next one is blocked
+    for (let i = 0; i < 31; i++) {
+      assert.equal(await attempt('203.0.113.5'), 401);
+    }
+    assert.equal(await attempt('203.0.113.5'), 429);
+    assert.equal(await attempt('198.51.100.7'), 401);
+  });
+});
+
+test('Without TRUST_PROXY a forwarded address is ignored, so it cannot dodge the throttle', async () => {
+  await withLoginServer(undefined, async (attempt) => {
+    for (let i = 0; i < 31; i++) {
+      assert.equal(await attempt(`203.0.113.${i}`), 401);
+    }
+    assert.equal(await attempt('198.51.100.7'), 429);
+  });
+});
+
+test('Picture and badge sign-ins have their own per-IP budget', async () => {
+  throttles.clear();
+  // 60 free attempts, then the next one is blocked, while password sign-ins from the address still go through
+  for (let i = 0; i < 61; i++) {
+    await recordFailedLogin(undefined, '203.0.113.9', undefined, 'picture');
+  }
+  await assert.rejects(checkLoginAllowed(undefined, '203.0.113.9', undefined, 'picture'), LoginThrottledError);
+  await checkLoginAllowed('teacher', '203.0.113.9', undefined);
+});
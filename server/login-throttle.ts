@@ -0,0 +1,236 @@
+/**
+ * Throttling for sign-in and password reset requests. Attempts are counted per username and per
+ * IP address; past a few free attempts each one blocks the next for twice as long as the last.
+ * Picture and badge sign-ins are counted per IP address apart from password sign-ins.
+ *
+ * LOGIN_LOCKOUT_ATTEMPTS failed sign-ins in a row (default 10) lock the account for
+ * LOGIN_LOCKOUT_MINUTES (default 30), or until a teacher or admin unlocks it. Lockouts are kept
+ * as an audit trail.
+ *
+ * Attempts are counted against req.ip, so behind a reverse proxy TRUST_PROXY must be set (see
+ * getTrustProxySetting); otherwise every client shares the proxy's address and its throttle.
+ */
+import type { AccountLockout, User } from '@shared/schema';
+import { storage } from './storage';
+import { log } from './vite';
+
+const LOCKOUT_ATTEMPTS = Number(process.env.LOGIN_LOCKOUT_ATTEMPTS) || 10;
+const LOCKOUT_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 30) * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+interface ThrottlePolicy {
+  scope: string;
+  // Attempts allowed before the backoff starts
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // The count starts over after this long without an attempt
+  windowMs: number;
+}
+
+const LOGIN_BY_USERNAME: ThrottlePolicy = {
+  scope: 'login:username',
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+// A whole school often shares one address, so this only catches guessing across many accounts
+const LOGIN_BY_IP: ThrottlePolicy = {
+  scope: 'login:ip',
+  freeAttempts: 30,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+// Picture and badge sign-in, kept apart so a class of young students mis-tapping their pictures
+// doesn't use up the password budget of everyone else at the school's address
+const PICTURE_LOGIN_BY_IP: ThrottlePolicy = {
+  scope: 'login:picture-ip',
+  freeAttempts: 60,
+  baseDelayMs: 1000,
+  maxDelayMs: 15 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+// Every reset request counts, not just failed ones: each sends an email
+const RESET_BY_USERNAME: ThrottlePolicy = {
+  scope: 'reset:username',
+  freeAttempts: 3,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+const RESET_BY_IP: ThrottlePolicy = {
+  scope: 'reset:ip',
+  freeAttempts: 20,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  windowMs: 60 * 60 * 1000,
+};
+
+const POLICIES = [LOGIN_BY_USERNAME, LOGIN_BY_IP, PICTURE_LOGIN_BY_IP, RESET_BY_USERNAME, RESET_BY_IP];
+
+// How the user is signing in; each has its own per-IP budget
+export type LoginMethod = 'password' | 'picture';
+
+const LOGIN_BY_IP_POLICIES: Record<LoginMethod, ThrottlePolicy> = {
+  password: LOGIN_BY_IP,
+  picture: PICTURE_LOGIN_BY_IP,
+};
+
+export class LoginThrottledError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Too many attempts. Please wait ${formatWait(retryAfterSeconds)} and try again.`);
+    this.name = "LoginThrottledError";
+    this.retryAfterSeconds = retryAfterSeconds;
+    Object.setPrototypeOf(this, LoginThrottledError.prototype);
+  }
+}
+
+export class AccountLockedError extends Error {
+  lockedUntil: Date;
+
+  constructor(lockedUntil: Date) {
+    const waitSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+    super(
+      `This account is locked after too many failed sign-ins. Try again in ${formatWait(waitSeconds)}, ` +
+      'or ask your teacher to unlock it.'
+    );
+    this.name = "AccountLockedError";
+    this.lockedUntil = lockedUntil;
+    Object.setPrototypeOf(this, AccountLockedError.prototype);
+  }
+}
+
+/**
+ * Express's "trust proxy" setting from TRUST_PROXY: "true", a number of proxy hops, or
+ * comma-separated addresses and subnets of trusted proxies (e.g. "loopback, 10.0.0.0/8").
+ * Unset or "false" uses the connection's address, which clients can't spoof.
+ */
+export function getTrustProxySetting(value = process.env.TRUST_PROXY): boolean | number | string {
+  const setting = value?.trim() ?? '';
+  if (setting === '' || setting === 'false') return false;
+  if (setting === 'true') return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function normalizeUsername(username: unknown): string {
+  return typeof username === 'string' ? username.trim().toLowerCase() : '';
+}
+
+async function assertNotBlocked(policy: ThrottlePolicy, key: string | undefined): Promise<void> {
+  if (!key) return;
+  const throttle = await storage.getLoginThrottle(policy.scope, key);
+  const waitMs = throttle?.blockedUntil ? throttle.blockedUntil.getTime() - Date.now() : 0;
+  if (waitMs > 0) {
+    throw new LoginThrottledError(Math.ceil(waitMs / 1000));
+  }
+}
+
+// Counts an attempt and blocks the next one if the free attempts are used up; returns the count
+async function recordAttempt(policy: ThrottlePolicy, key: string | undefined): Promise<number> {
+  if (!key) return 0;
+  const throttle = await storage.recordLoginThrottleAttempt(policy.scope, key, new Date(Date.now() - policy.windowMs));
+  const excess = throttle.attempts - policy.freeAttempts;
+  if (excess > 0) {
+    const delayMs = Math.min(policy.baseDelayMs * 2 ** Math.min(excess - 1, 30), policy.maxDelayMs);
+    await storage.setLoginThrottleBlock(throttle.id, new Date(Date.now() + delayMs));
+  }
+  return throttle.attempts;
+}
+
+// Throws AccountLockedError while the account is locked, however the user is signing in
+export async function checkAccountLocked(user: User): Promise<void> {
+  const lockout = await storage.getActiveAccountLockout(user.id);
+  if (lockout) {
+    throw new AccountLockedError(lockout.lockedUntil);
+  }
+}
+
+/**
+ * Throws LoginThrottledError while the username or IP address has to wait, and
+ * AccountLockedError while the account is locked. Call before checking the password.
+ */
+export async function checkLoginAllowed(
+  username: unknown,
+  ip: string | undefined,
+  user: User | undefined,
+  method: LoginMethod = 'password',
+): Promise<void> {
+  await assertNotBlocked(LOGIN_BY_IP_POLICIES[method], ip);
+  await assertNotBlocked(LOGIN_BY_USERNAME, normalizeUsername(username));
+  if (user) {
+    await checkAccountLocked(user);
+  }
+}
+
+// Returns the lockout when this failure locked the account
+export async function recordFailedLogin(
+  username: unknown,
+  ip: string | undefined,
+  user: User | undefined,
+  method: LoginMethod = 'password',
+): Promise<AccountLockout | undefined> {
+  const usernameKey = normalizeUsername(username);
+  await recordAttempt(LOGIN_BY_IP_POLICIES[method], ip);
+  const failures = await recordAttempt(LOGIN_BY_USERNAME, usernameKey);
+  if (!user || failures < LOCKOUT_ATTEMPTS) return undefined;
+
+  const lockout = await storage.createAccountLockout({
+    userId: user.id,
+    ipAddress: ip ?? null,
+    failedAttempts: failures,
+    lockedUntil: new Date(Date.now() + LOCKOUT_MS),
+  });
+  // The lockout takes over from the backoff; once it ends the count starts again
+  await storage.deleteLoginThrottle(LOGIN_BY_USERNAME.scope, usernameKey);
+  log(`[LOGIN] Account ${user.id} locked after ${failures} failed sign-ins`);
+  return lockout;
+}
+
+export async function recordSuccessfulLogin(username: unknown): Promise<void> {
+  await storage.deleteLoginThrottle(LOGIN_BY_USERNAME.scope, normalizeUsername(username));
+}
+
+// Throws LoginThrottledError when the username or IP address has asked for too many reset links
+export async function throttlePasswordResetRequest(username: unknown, ip: string | undefined): Promise<void> {
+  const usernameKey = normalizeUsername(username);
+  await assertNotBlocked(RESET_BY_IP, ip);
+  await assertNotBlocked(RESET_BY_USERNAME, usernameKey);
+  await recordAttempt(RESET_BY_IP, ip);
+  await recordAttempt(RESET_BY_USERNAME, usernameKey);
+}
+
+// Ends the user's lockout and any backoff on their username; returns how many lockouts were ended
+export async function unlockAccount(user: User, unlockedBy: number): Promise<number> {
+  const count = await storage.unlockAccount(user.id, unlockedBy);
+  await storage.deleteLoginThrottle(LOGIN_BY_USERNAME.scope, normalizeUsername(user.username));
+  if (count > 0) {
+    log(`[LOGIN] Account ${user.id} unlocked by user ${unlockedBy}`);
+  }
+  return count;
+}
+
+// Attempts older than every policy's window no longer count; this just keeps the table small
+export function startLoginThrottleCleanupJob(): void {
+  const longestWindowMs = Math.max(...POLICIES.map(policy => policy.windowMs));
+  const run = () => {
+    storage
+      .deleteStaleLoginThrottles(new Date(Date.now() - longestWindowMs))
+      .catch(error => log(`Login throttle cleanup failed: ${error instanceof Error ? error.message : error}`));
+  };
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,114 @@
+import * as turf from '@turf/turf';
+import type { Feature, Polygon, MultiPolygon, Position } from 'geojson';
+import type { MapQuestion, MapQuestionGeometry } from '@shared/schema';
+
+export interface MapQuestionScore {
+  questionId: string;
+  // Rubric criterion the score is entered under
+  criterion: string;
+  prompt: string;
+  // 0-1: whether the point landed in the answer region, or how closely the drawn region matches it
+  fraction: number;
+  // On the 1-5 rubric scale used for grading
+  rubricScore: number;
+  explanation: string;
+}
+
+// Point answers without a tolerance still need a small target to land in
+const DEFAULT_TOLERANCE_METERS = 100;
+const MIN_RUBRIC_SCORE = 1;
+const MAX_RUBRIC_SCORE = 5;
+
+export function getMapQuestionCriterion(index: number): string {
+  return `Map question ${index + 1}`;
+}
+
+function toPosition([lat, lng]: [number, number]): Position {
+  return [lng, lat];
+}
+
+function toPolygon(ring: [number, number][]): Feature<Polygon> {
+  const positions = ring.map(toPosition);
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) positions.push(first);
+  return turf.polygon([positions]);
+}
+
+function getAnswerRegion(question: MapQuestion): Feature<Polygon> {
+  if (question.answer.type === 'polygon') return toPolygon(question.answer.coordinates);
+  const radius = question.toleranceMeters ?? DEFAULT_TOLERANCE_METERS;
+  return turf.circle(toPosition(question.answer.coordinates), radius / 1000, { steps: 64, units: 'kilometers' });
+}
+
+function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+function scoreResponse(question: MapQuestion, response: MapQuestionGeometry): { fraction: number; explanation: string } {
+  const region = getAnswerRegion(question);
+
+  if (response.type === 'point') {
+    const point = turf.point(toPosition(response.coordinates));
+    if (turf.booleanPointInPolygon(point, region)) {
+      return { fraction: 1, explanation: 'Point is inside the answer region.' };
+    }
+    const meters = turf.pointToPolygonDistance(point, region, { units: 'meters' });
+    return { fraction: 0, explanation: `Point is ${Math.round(meters)} m outside the answer region.` };
+  }
+
+  // Drawn regions are scored by overlap: the shared area as a share of both regions combined
+  const drawn = toPolygon(response.coordinates);
+  const overlap = turf.intersect(turf.featureCollection<Polygon | MultiPolygon>([drawn, region]));
+  if (!overlap) return { fraction: 0, explanation: 'Drawn region does not overlap the answer region.' };
+
+  const combined = turf.union(turf.featureCollection<Polygon | MultiPolygon>([drawn, region]));
+  const fraction = combined ? turf.area(overlap) / turf.area(combined) : 0;
+  const covered = turf.area(overlap) / turf.area(region);
+  return {
+    fraction,
+    explanation: `${formatPercent(fraction)} overlap; covers ${formatPercent(covered)} of the answer region.`,
+  };
+}
+
+/**
+ * Scores a submission's map answers against the assignment's answer regions. Unanswered
+ * questions score 0; geometry that can't be compared (e.g. a self-intersecting polygon) too.
+ */
+export function scoreMapQuestions(
+  questions: MapQuestion[],
+  answers: Record<string, MapQuestionGeometry> | null | undefined,
+): MapQuestionScore[] {
+  return questions.map((question, index) => {
+    const response = answers?.[question.id];
+    let result: { fraction: number; explanation: string };
+
+    if (!response) {
+      result = { fraction: 0, explanation: 'Not answered.' };
+    } else {
+      try {
+        result = scoreResponse(question, response);
+      } catch {
+        result = { fraction: 0, explanation: 'The answer could not be compared with the answer region.' };
+      }
+    }
+
+    return {
+      questionId: question.id,
+      criterion: getMapQuestionCriterion(index),
+      prompt: question.prompt,
+      fraction: result.fraction,
+      rubricScore: MIN_RUBRIC_SCORE + Math.round(result.fraction * (MAX_RUBRIC_SCORE - MIN_RUBRIC_SCORE)),
+      explanation: result.explanation,
+    };
+  });
+}
+
+// Students get the questions without the answer regions
+export function hideMapQuestionAnswers<T extends { mapQuestions?: MapQuestion[] | null }>(assignment: T): T {
+  if (!assignment.mapQuestions) return assignment;
+  return {
+    ...assignment,
+    mapQuestions: assignment.mapQuestions.map(({ answer, toleranceMeters, ...question }) => question),
+  };
+}
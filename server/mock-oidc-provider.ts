@@ -0,0 +1,151 @@
+/**
+ * A minimal OpenID Connect provider for trying single sign-on locally. It signs in whoever
+ * is typed into its form, so never expose it outside a development machine.
+ *
+ * Usage: npm run sso:mock-idp
+ * Then add an SSO provider on the admin page with issuer http://localhost:5055 (or
+ * MOCK_IDP_PORT), any client id, and optionally any client secret.
+ */
+import crypto from 'crypto';
+import express from 'express';
+
+const PORT = Number(process.env.MOCK_IDP_PORT) || 5055;
+const ISSUER = `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  claims: Record<string, unknown>;
+  expiresAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${encode(claims)}`;
+  const signature = crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url');
+  return `${input}.${signature}`;
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+});
+
+// Stands in for the provider's login page: the authorization request is carried through as hidden fields
+app.get('/authorize', (req, res) => {
+  const hidden = Object.entries(req.query)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`)
+    .join('');
+  res.send(`<!doctype html>
+<title>Mock identity provider</title>
+<form method="post" style="font-family: sans-serif; max-width: 320px; margin: 40px auto; display: grid; gap: 8px">
+  <h2>Mock identity provider</h2>
+  ${hidden}
+  <label>Email <input name="email" type="email" required style="width: 100%"></label>
+  <label>First name <input name="given_name" style="width: 100%"></label>
+  <label>Last name <input name="family_name" style="width: 100%"></label>
+  <label><input name="email_verified" type="checkbox" checked> Email verified</label>
+  <button>Sign in</button>
+  <button name="deny" value="1">Cancel</button>
+</form>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, deny } = req.body;
+  const redirect = new URL(redirect_uri);
+  if (state) redirect.searchParams.set('state', state);
+
+  if (deny) {
+    redirect.searchParams.set('error', 'access_denied');
+    redirect.searchParams.set('error_description', 'The user cancelled the sign-in');
+    return res.redirect(redirect.toString());
+  }
+  if (code_challenge && code_challenge_method !== 'S256') {
+    return res.status(400).send('Only S256 code challenges are supported');
+  }
+
+  const email = String(req.body.email).trim().toLowerCase();
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    claims: {
+      // Stable per email, as a real provider's subject would be
+      sub: crypto.createHash('sha256').update(email).digest('hex').slice(0, 24),
+      email,
+      email_verified: req.body.email_verified === 'on',
+      given_name: req.body.given_name || undefined,
+      family_name: req.body.family_name || undefined,
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  redirect.searchParams.set('code', code);
+  res.redirect(redirect.toString());
+});
+
+app.post('/token', (req, res) => {
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/)?.[1];
+  const clientId = basic ? decodeURIComponent(Buffer.from(basic, 'base64').toString().split(':')[0]) : req.body.client_id;
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  const error =
+    req.body.grant_type !== 'authorization_code' ? 'unsupported_grant_type'
+    : !pending || pending.expiresAt < Date.now() ? 'invalid_grant'
+    : pending.clientId !== clientId || pending.redirectUri !== req.body.redirect_uri ? 'invalid_grant'
+    : pending.codeChallenge &&
+      crypto.createHash('sha256').update(String(req.body.code_verifier ?? '')).digest('base64url') !== pending.codeChallenge
+      ? 'invalid_grant'
+    : null;
+  if (error || !pending) {
+    return res.status(400).json({ error: error ?? 'invalid_grant' });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  res.json({
+    access_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: 3600,
+    id_token: signIdToken({
+      iss: ISSUER,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: pending.nonce,
+      ...pending.claims,
+    }),
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock identity provider running at ${ISSUER}`);
+});
@@ -0,0 +1,242 @@
+/**
+ * Sign-in for students too young to type a password. A teacher turns it on for a class, which
+ * gives the class a sign-in link listing the students who have a login card. Each card has a
+ * short sequence of pictures to tap and a QR badge that signs the student in when scanned.
+ *
+ * Both are scoped to the class: a card only works through its own class's link, and only while
+ * the student is enrolled in the class and the class is active. Only kindergarten to grade 2
+ * classes can use it; older students sign in with a password.
+ */
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import QRCode from 'qrcode';
+import { loginPictures, type Class, type LoginPictureId, type PictureLoginCard, type User } from '@shared/schema';
+import { storage } from './storage';
+
+// Pictures per card; 12 pictures make 1,728 sequences, so failed attempts are throttled like passwords
+const PICTURE_COUNT = 3;
+const CODE_LENGTH = 8;
+// No 0/O or 1/I, since teachers type the code into classroom tablets
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const BADGE_TOKEN_BYTES = 24;
+const PICTURE_LOGIN_GRADES: Class['grade_level'][] = ['K', '1', '2'];
+
+export class PictureLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PictureLoginError";
+    Object.setPrototypeOf(this, PictureLoginError.prototype);
+  }
+}
+
+export interface PictureLoginStudent {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  hasCard: boolean;
+  cardCreatedAt: Date | null;
+}
+
+// What the teacher sees on the class page
+export interface PictureLoginSettings {
+  enabled: boolean;
+  code: string | null;
+  students: PictureLoginStudent[];
+}
+
+// A printable card; only available when it is issued, since the server keeps hashes
+export interface LoginCard {
+  studentId: number;
+  firstName: string;
+  lastName: string;
+  pictures: LoginPictureId[];
+  // Opening it, e.g. by scanning the QR code with a tablet's camera, signs the student in
+  badgeUrl: string;
+  // data: URL of the badge's QR code
+  qrCode: string;
+}
+
+// The class sign-in page: just enough for a student to find their own name
+export interface ClassRoster {
+  classTitle: string;
+  students: { id: number; name: string }[];
+}
+
+function hashBadgeToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// 256 is a multiple of the alphabet's 32 characters, so every character is equally likely
+function generateClassCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < bytes.length; i++) {
+    code += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+function generatePictures(): LoginPictureId[] {
+  return Array.from({ length: PICTURE_COUNT }, () => loginPictures[crypto.randomInt(loginPictures.length)].id);
+}
+
+function normalizeCode(code: unknown): string {
+  return typeof code === 'string' ? code.trim().toUpperCase() : '';
+}
+
+// "Maya R." keeps full surnames off a page anyone with the link can open
+function rosterName(student: { firstName: string; lastName: string }): string {
+  const initial = student.lastName.trim().charAt(0);
+  return initial ? `${student.firstName} ${initial.toUpperCase()}.` : student.firstName;
+}
+
+// Active early-grades classes; picture sign-in is turned off in effect once either stops being true
+function canUsePictureLogin(classData: Class | undefined): classData is Class {
+  return !!classData?.isActive && PICTURE_LOGIN_GRADES.includes(classData.grade_level);
+}
+
+export function isLoginPictureId(value: unknown): value is LoginPictureId {
+  return loginPictures.some(picture => picture.id === value);
+}
+
+export async function getPictureLoginSettings(classId: number): Promise<PictureLoginSettings> {
+  const [pictureLogin, enrollments, cards] = await Promise.all([
+    storage.getPictureLoginClass(classId),
+    storage.getEnrollmentsByClass(classId),
+    storage.getPictureLoginCards(classId),
+  ]);
+  const students: PictureLoginStudent[] = enrollments.map((enrollment: { student: User }) => {
+    const card = cards.find(c => c.studentId === enrollment.student.id);
+    return {
+      studentId: enrollment.student.id,
+      firstName: enrollment.student.firstName,
+      lastName: enrollment.student.lastName,
+      hasCard: !!card,
+      cardCreatedAt: card?.createdAt ?? null,
+    };
+  });
+  students.sort((a, b) => a.firstName.localeCompare(b.firstName) || a.lastName.localeCompare(b.lastName));
+  return { enabled: !!pictureLogin, code: pictureLogin?.code ?? null, students };
+}
+
+export async function enablePictureLogin(classId: number, enabledBy: number): Promise<void> {
+  if (!canUsePictureLogin(await storage.getClassById(classId))) {
+    throw new PictureLoginError('Picture sign-in is only for active kindergarten to grade 2 classes.');
+  }
+  await storage.createPictureLoginClass(classId, generateClassCode(), enabledBy);
+}
+
+// Also removes every login card issued for the class
+export async function disablePictureLogin(classId: number): Promise<void> {
+  await storage.deletePictureLoginClass(classId);
+}
+
+/**
+ * Issues new cards for the given enrolled students, or for every enrolled student when no ids are
+ * given, in a class with picture sign-in turned on. A student's previous card for the class,
+ * pictures and badge alike, stops working.
+ */
+export async function issueLoginCards(
+  classId: number,
+  studentIds: number[] | undefined,
+  createdBy: number,
+  origin: string,
+): Promise<LoginCard[]> {
+  const pictureLogin = await storage.getPictureLoginClass(classId);
+  if (!pictureLogin) {
+    throw new PictureLoginError('Turn on picture sign-in for this class first.');
+  }
+  if (!canUsePictureLogin(await storage.getClassById(classId))) {
+    throw new PictureLoginError('Picture sign-in is only for active kindergarten to grade 2 classes.');
+  }
+
+  const enrollments: { student: User }[] = await storage.getEnrollmentsByClass(classId);
+  const students = enrollments
+    .map(enrollment => enrollment.student)
+    .filter(student => student.role === 'student' && (!studentIds || studentIds.includes(student.id)));
+  if (studentIds && students.length !== studentIds.length) {
+    throw new PictureLoginError('Login cards can only be made for students enrolled in this class.');
+  }
+
+  const cards: LoginCard[] = [];
+  for (const student of students) {
+    const pictures = generatePictures();
+    const badgeToken = crypto.randomBytes(BADGE_TOKEN_BYTES).toString('base64url');
+    await storage.savePictureLoginCard({
+      classId,
+      studentId: student.id,
+      picturesHash: await bcrypt.hash(pictures.join(','), 10),
+      badgeTokenHash: hashBadgeToken(badgeToken),
+      createdBy,
+    });
+
+    const badgeUrl = `${origin}/picture-login/${pictureLogin.code}#badge=${badgeToken}`;
+    cards.push({
+      studentId: student.id,
+      firstName: student.firstName,
+      lastName: student.lastName,
+      pictures,
+      badgeUrl,
+      qrCode: await QRCode.toDataURL(badgeUrl, { margin: 1, width: 200 }),
+    });
+  }
+  cards.sort((a, b) => a.firstName.localeCompare(b.firstName) || a.lastName.localeCompare(b.lastName));
+  return cards;
+}
+
+export async function revokeLoginCard(classId: number, studentId: number): Promise<void> {
+  await storage.deletePictureLoginCard(classId, studentId);
+}
+
+// The active class a sign-in link belongs to
+async function getLoginClass(code: unknown): Promise<Class | undefined> {
+  const normalized = normalizeCode(code);
+  const pictureLogin = normalized ? await storage.getPictureLoginClassByCode(normalized) : undefined;
+  const classData = pictureLogin ? await storage.getClassById(pictureLogin.classId) : undefined;
+  return canUsePictureLogin(classData) ? classData : undefined;
+}
+
+// Undefined when the link is wrong, picture sign-in was turned off, or the class is inactive
+export async function getClassRoster(code: unknown): Promise<ClassRoster | undefined> {
+  const classData = await getLoginClass(code);
+  if (!classData) return undefined;
+  const students = await storage.getPictureLoginRoster(classData.id);
+  return {
+    classTitle: classData.title,
+    students: students.map(student => ({ id: student.id, name: rosterName(student) })),
+  };
+}
+
+async function getCardStudent(card: PictureLoginCard | undefined): Promise<User | undefined> {
+  if (!card) return undefined;
+  const user = await storage.getUser(card.studentId);
+  if (user?.role !== 'student') return undefined;
+  const enrollments = await storage.getEnrollmentsByStudent(user.id);
+  return enrollments.some(e => e.classId === card.classId) ? user : undefined;
+}
+
+// The student picked from the roster and their card, when they can sign in through this link
+export async function getPictureLoginStudent(
+  code: unknown,
+  studentId: unknown,
+): Promise<{ user: User; card: PictureLoginCard } | undefined> {
+  const classData = await getLoginClass(code);
+  if (!classData || typeof studentId !== 'number') return undefined;
+  const card = await storage.getPictureLoginCard(classData.id, studentId);
+  const user = await getCardStudent(card);
+  return user && card ? { user, card } : undefined;
+}
+
+export async function checkPictures(card: PictureLoginCard, pictures: unknown): Promise<boolean> {
+  if (!Array.isArray(pictures) || pictures.length !== PICTURE_COUNT || !pictures.every(isLoginPictureId)) {
+    return false;
+  }
+  return await bcrypt.compare(pictures.join(','), card.picturesHash);
+}
+
+// The student a scanned badge belongs to
+export async function getBadgeStudent(code: unknown, badgeToken: unknown): Promise<User | undefined> {
+  const classData = await getLoginClass(code);
+  if (!classData || typeof badgeToken !== 'string' || !badgeToken) return undefined;
+  return await getCardStudent(await storage.getPictureLoginCardByBadge(classData.id, hashBadgeToken(badgeToken)));
+}
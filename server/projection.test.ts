@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { createUnprojector } from './projection';
+
+const readPrj = (name: string) => fs.readFileSync(new URL(`./test-fixtures/projections/${name}`, import.meta.url), 'utf-8');
+
+// Projected coordinates of known places, computed with PROJ for each fixture's coordinate system
+const KNOWN_COORDINATES: Record<string, { lonLat: number[]; projected: number[] }[]> = {
+  'utm-zone-15n.prj': [
+    { lonLat: [-93.265, 44.9778], projected: [479105.882, 4980518.42] },
+    { lonLat: [-91.5, 30.45], projected: [644022.421, 3369606.265] },
+  ],
+  'conus-albers.prj': [
+    { lonLat: [-77.0365, 38.8977], projected: [1618600.049, 1925474.643] },
+    { lonLat: [-122.4194, 37.7749], projected: [-2275431.915, 1955935.417] },
+  ],
+  // Lambert conformal conic in US survey feet
+  'texas-central-feet.prj': [
+    { lonLat: [-97.7431, 30.2672], projected: [3114226.215, 10070436.131] },
+    { lonLat: [-101.8313, 31], projected: [1827289.782, 10330588.59] },
+  ],
+  'web-mercator.prj': [
+    { lonLat: [-74.006, 40.7128], projected: [-8238310.236, 4970071.579] },
+    { lonLat: [151.2093, -33.8688], projected: [16832542.279, -4011198.647] },
+  ],
+};
+
+Object.entries(KNOWN_COORDINATES).forEach(([prj, points]) => {
+  test(`${prj} coordinates unproject to their known longitude and latitude`, () => {
+    const unproject = createUnprojector(readPrj(prj));
+    assert.ok(unproject);
+    points.forEach(({ lonLat, projected }) => {
+      const [lon, lat] = unproject(projected);
+      assert.ok(Math.abs(lon - lonLat[0]) < 1e-6, `longitude ${lon} should be ${lonLat[0]}`);
+      assert.ok(Math.abs(lat - lonLat[1]) < 1e-6, `latitude ${lat} should be ${lonLat[1]}`);
+    });
+  });
+});
+
+test('Geographic coordinate systems need no unprojecting', () => {
+  const wkt = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+    'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+  assert.equal(createUnprojector(wkt), null);
+});
+
+test('Unsupported projections are rejected', () => {
+  const wkt = readPrj('utm-zone-15n.prj').replace('Transverse_Mercator', 'Robinson');
+  assert.throws(() => createUnprojector(wkt), /unsupported projection \(robinson\)/);
+});
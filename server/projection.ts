@@ -0,0 +1,240 @@
+import type { Position } from 'geojson';
+
+export type Unproject = (position: Position) => Position;
+
+interface ProjectionParams {
+  name: string;
+  parameters: Record<string, number>;
+  semiMajorAxis: number;
+  flattening: number;
+  unitToMeters: number;
+}
+
+const DEG = Math.PI / 180;
+
+// Reads the parts of an ESRI/OGC WKT projection (.prj) that the inverse projections below need
+function parseWkt(wkt: string): ProjectionParams | null {
+  const projection = wkt.match(/PROJECTION\s*\[\s*"([^"]+)"/i);
+  if (!projection) return null;
+
+  const parameters: Record<string, number> = {};
+  for (const match of Array.from(wkt.matchAll(/PARAMETER\s*\[\s*"([^"]+)"\s*,\s*([-+.\deE]+)/gi))) {
+    parameters[match[1].toLowerCase()] = Number(match[2]);
+  }
+
+  const spheroid = wkt.match(/SPHEROID\s*\[\s*"[^"]*"\s*,\s*([-+.\deE]+)\s*,\s*([-+.\deE]+)/i);
+  const semiMajorAxis = spheroid ? Number(spheroid[1]) : 6378137;
+  const inverseFlattening = spheroid ? Number(spheroid[2]) : 298.257223563;
+
+  // The projected CRS's linear unit is the last UNIT in the string; earlier ones belong to GEOGCS
+  const units = Array.from(wkt.matchAll(/UNIT\s*\[\s*"[^"]*"\s*,\s*([-+.\deE]+)/gi));
+  const unitToMeters = units.length > 0 ? Number(units[units.length - 1][1]) : 1;
+
+  return {
+    name: projection[1].toLowerCase(),
+    parameters,
+    semiMajorAxis,
+    flattening: inverseFlattening === 0 ? 0 : 1 / inverseFlattening,
+    unitToMeters,
+  };
+}
+
+function param(params: ProjectionParams, ...names: string[]): number {
+  for (const name of names) {
+    if (params.parameters[name] !== undefined) return params.parameters[name];
+  }
+  return 0;
+}
+
+// Inverse projections follow Snyder, "Map Projections: A Working Manual" (USGS 1395)
+
+function transverseMercator(params: ProjectionParams): Unproject {
+  const a = params.semiMajorAxis;
+  const es = 2 * params.flattening - params.flattening ** 2;
+  const eps = es / (1 - es);
+  const k0 = param(params, 'scale_factor') || 1;
+  const lon0 = param(params, 'central_meridian', 'longitude_of_center') * DEG;
+  const lat0 = param(params, 'latitude_of_origin', 'latitude_of_center') * DEG;
+  const falseEasting = param(params, 'false_easting');
+  const falseNorthing = param(params, 'false_northing');
+
+  const e0 = 1 - es / 4 - (3 * es ** 2) / 64 - (5 * es ** 3) / 256;
+  const e2 = (3 * es) / 8 + (3 * es ** 2) / 32 + (45 * es ** 3) / 1024;
+  const e4 = (15 * es ** 2) / 256 + (45 * es ** 3) / 1024;
+  const e6 = (35 * es ** 3) / 3072;
+  const meridianDistance = (phi: number) =>
+    a * (e0 * phi - e2 * Math.sin(2 * phi) + e4 * Math.sin(4 * phi) - e6 * Math.sin(6 * phi));
+  const m0 = meridianDistance(lat0);
+  const e1 = (1 - Math.sqrt(1 - es)) / (1 + Math.sqrt(1 - es));
+
+  return ([x, y]) => {
+    const easting = (x - falseEasting) * params.unitToMeters;
+    const northing = (y - falseNorthing) * params.unitToMeters;
+
+    const mu = (m0 + northing / k0) / (a * e0);
+    const phi1 =
+      mu +
+      ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+      ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+      ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+    const sinPhi1 = Math.sin(phi1);
+    const cosPhi1 = Math.cos(phi1);
+    const c1 = eps * cosPhi1 ** 2;
+    const t1 = Math.tan(phi1) ** 2;
+    const n1 = a / Math.sqrt(1 - es * sinPhi1 ** 2);
+    const r1 = (a * (1 - es)) / Math.pow(1 - es * sinPhi1 ** 2, 1.5);
+    const d = easting / (n1 * k0);
+
+    const lat =
+      phi1 -
+      ((n1 * Math.tan(phi1)) / r1) *
+        (d ** 2 / 2 -
+          ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * eps) * d ** 4) / 24 +
+          ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * eps - 3 * c1 ** 2) * d ** 6) / 720);
+    const lon =
+      lon0 +
+      (d -
+        ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+        ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * eps + 24 * t1 ** 2) * d ** 5) / 120) /
+        cosPhi1;
+
+    return [lon / DEG, lat / DEG];
+  };
+}
+
+function lambertConformalConic(params: ProjectionParams): Unproject {
+  const a = params.semiMajorAxis;
+  const e = Math.sqrt(2 * params.flattening - params.flattening ** 2);
+  const lon0 = param(params, 'central_meridian', 'longitude_of_origin') * DEG;
+  const lat0 = param(params, 'latitude_of_origin') * DEG;
+  const falseEasting = param(params, 'false_easting');
+  const falseNorthing = param(params, 'false_northing');
+
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - (e * Math.sin(phi)) ** 2);
+  const t = (phi: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi)), e / 2);
+
+  const hasTwoParallels = params.parameters['standard_parallel_2'] !== undefined;
+  const phi1 = hasTwoParallels ? param(params, 'standard_parallel_1') * DEG : lat0;
+  const phi2 = hasTwoParallels ? param(params, 'standard_parallel_2') * DEG : lat0;
+  const k0 = hasTwoParallels ? 1 : param(params, 'scale_factor') || 1;
+
+  const n =
+    Math.abs(phi1 - phi2) > 1e-10
+      ? (Math.log(m(phi1)) - Math.log(m(phi2))) / (Math.log(t(phi1)) - Math.log(t(phi2)))
+      : Math.sin(phi1);
+  const f = m(phi1) / (n * Math.pow(t(phi1), n));
+  const rho0 = a * k0 * f * Math.pow(t(lat0), n);
+
+  return ([x, y]) => {
+    const easting = (x - falseEasting) * params.unitToMeters;
+    const northing = (y - falseNorthing) * params.unitToMeters;
+    const sign = n < 0 ? -1 : 1;
+
+    const rho = sign * Math.sqrt(easting ** 2 + (rho0 - northing) ** 2);
+    const theta = Math.atan2(sign * easting, sign * (rho0 - northing));
+    const tValue = Math.pow(rho / (a * k0 * f), 1 / n);
+
+    let phi = Math.PI / 2 - 2 * Math.atan(tValue);
+    for (let i = 0; i < 15; i++) {
+      const next =
+        Math.PI / 2 -
+        2 * Math.atan(tValue * Math.pow((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi)), e / 2));
+      if (Math.abs(next - phi) < 1e-12) {
+        phi = next;
+        break;
+      }
+      phi = next;
+    }
+
+    return [(theta / n + lon0) / DEG, phi / DEG];
+  };
+}
+
+function albersEqualArea(params: ProjectionParams): Unproject {
+  const a = params.semiMajorAxis;
+  const es = 2 * params.flattening - params.flattening ** 2;
+  const e = Math.sqrt(es);
+  const lon0 = param(params, 'central_meridian', 'longitude_of_center') * DEG;
+  const lat0 = param(params, 'latitude_of_origin', 'latitude_of_center') * DEG;
+  const phi1 = param(params, 'standard_parallel_1') * DEG;
+  const phi2 = param(params, 'standard_parallel_2') * DEG;
+  const falseEasting = param(params, 'false_easting');
+  const falseNorthing = param(params, 'false_northing');
+
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - es * Math.sin(phi) ** 2);
+  const q = (phi: number) => {
+    const sin = Math.sin(phi);
+    return (1 - es) * (sin / (1 - es * sin ** 2) - (1 / (2 * e)) * Math.log((1 - e * sin) / (1 + e * sin)));
+  };
+
+  const n =
+    Math.abs(phi1 - phi2) > 1e-10 ? (m(phi1) ** 2 - m(phi2) ** 2) / (q(phi2) - q(phi1)) : Math.sin(phi1);
+  const c = m(phi1) ** 2 + n * q(phi1);
+  const rho0 = (a * Math.sqrt(c - n * q(lat0))) / n;
+
+  return ([x, y]) => {
+    const easting = (x - falseEasting) * params.unitToMeters;
+    const northing = (y - falseNorthing) * params.unitToMeters;
+    const sign = n < 0 ? -1 : 1;
+
+    const rho = Math.sqrt(easting ** 2 + (rho0 - northing) ** 2);
+    const theta = Math.atan2(sign * easting, sign * (rho0 - northing));
+    const qValue = (c - (rho ** 2 * n ** 2) / a ** 2) / n;
+
+    let phi = Math.asin(Math.max(-1, Math.min(1, qValue / 2)));
+    for (let i = 0; i < 15; i++) {
+      const sin = Math.sin(phi);
+      const delta =
+        ((1 - es * sin ** 2) ** 2 / (2 * Math.cos(phi))) *
+        (qValue / (1 - es) - sin / (1 - es * sin ** 2) + (1 / (2 * e)) * Math.log((1 - e * sin) / (1 + e * sin)));
+      phi += delta;
+      if (Math.abs(delta) < 1e-12) break;
+    }
+
+    return [(lon0 + theta / n) / DEG, phi / DEG];
+  };
+}
+
+function webMercator(params: ProjectionParams): Unproject {
+  const a = params.semiMajorAxis;
+  const lon0 = param(params, 'central_meridian') * DEG;
+  const falseEasting = param(params, 'false_easting');
+  const falseNorthing = param(params, 'false_northing');
+
+  return ([x, y]) => {
+    const easting = (x - falseEasting) * params.unitToMeters;
+    const northing = (y - falseNorthing) * params.unitToMeters;
+    return [(easting / a + lon0) / DEG, (Math.PI / 2 - 2 * Math.atan(Math.exp(-northing / a))) / DEG];
+  };
+}
+
+/**
+ * Builds a function converting projected coordinates into WGS84 longitude/latitude.
+ * Returns null for geographic coordinate systems, which need no reprojection.
+ * Datum shifts (e.g. NAD27 to WGS84) are not applied.
+ */
+export function createUnprojector(wkt: string): Unproject | null {
+  const trimmed = wkt.trim();
+  if (/^GEOGCS/i.test(trimmed)) return null;
+
+  const params = parseWkt(trimmed);
+  if (!params) {
+    throw new Error('The shapefile projection (.prj) could not be read.');
+  }
+
+  if (params.name.includes('transverse_mercator')) return transverseMercator(params);
+  if (params.name.includes('lambert_conformal_conic')) return lambertConformalConic(params);
+  if (params.name.includes('albers')) return albersEqualArea(params);
+  if (
+    params.name.includes('auxiliary_sphere') ||
+    params.name.includes('pseudo_mercator') ||
+    /Web_Mercator/i.test(trimmed)
+  ) {
+    return webMercator(params);
+  }
+
+  throw new Error(`The shapefile uses an unsupported projection (${params.name}). Please reproject it to WGS84 first.`);
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import path from 'path';
 import fs from 'fs';
@@ -6,7 +6,7 @@ import { storage } from "./storage";
 import { log } from "./vite";
 import { pool } from "./db";
 import bcrypt from "bcrypt";
-import { insertUserSchema, insertClassSchema, insertUnitSchema, insertAssignmentSchema, updateAssignmentSchema, insertSubmissionSchema, insertGradeSchema, insertNotificationSchema, insertCommentSchema, insertMessageSchema, insertClassCommentSchema, insertLibraryFileSchema, insertSampleAssignmentSchema } from "@shared/schema";
+import { insertUserSchema, insertSchoolSchema, insertSsoProviderSchema, insertBasemapSchema, insertArcgisGroupSchema, insertClassSchema, insertUnitSchema, insertAssignmentSchema, updateAssignmentSchema, insertSubmissionSchema, starterMapSchema, mapAnswersSchema, storyResponsesSchema, insertGradeSchema, insertNotificationSchema, insertCommentSchema, insertMessageSchema, insertClassCommentSchema, insertLibraryFileSchema, insertSampleAssignmentSchema, insertSurveyRecordSchema } from "@shared/schema";
 import { db } from "./db";
 import { 
   users, 
@@ -21,12 +21,58 @@ import {
   messages,
   classComments,
   libraryFiles,
-  sampleAssignments
+  sampleAssignments,
+  type SsoProvider
 } from "@shared/schema";
 import { eq, desc, or } from "drizzle-orm";
 import { z } from "zod";
-import { upload, serveFile, uploadAssignmentFiles } from './upload';
+import { upload, mapLayerUpload, serveFile, uploadAssignmentFiles, importMapLayer } from './upload';
 import { ObjectStorageService } from './objectStorage';
+import { hideMapQuestionAnswers, scoreMapQuestions } from './map-scoring';
+import { parseGeocodeQuery, toGeocodeResult } from './gazetteer';
+import { toPublicBasemap } from './basemaps';
+import { ArcgisError, THUMBNAIL_TYPES, getArcgisMaps, refreshArcgisGroup } from './arcgis';
+import { DatasetImportError, importDatasets } from './datasets';
+import { SsoError, completeSsoLogin, discoverProvider, getRedirectUri, startSsoLogin } from './sso';
+import {
+  AccountLockedError,
+  LoginThrottledError,
+  checkAccountLocked,
+  checkLoginAllowed,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  throttlePasswordResetRequest,
+  unlockAccount,
+} from './login-throttle';
+import {
+  TwoFactorError,
+  beginEnrolment,
+  completeEnrolment,
+  createChallenge,
+  deleteChallenge,
+  disableTwoFactor,
+  getChallenge,
+  getSignInRequirement,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  isTwoFactorRole,
+  regenerateRecoveryCodes,
+  setTwoFactorRequired,
+  verifySecondFactor,
+} from './two-factor';
+import {
+  checkPictures,
+  disablePictureLogin,
+  enablePictureLogin,
+  getBadgeStudent,
+  getClassRoster,
+  getPictureLoginSettings,
+  getPictureLoginStudent,
+  issueLoginCards,
+  revokeLoginCard,
+} from './picture-login';
+import { createSession, generateToken, getBearerToken, getSession, toSessionSummary, toSessionUser } from './sessions';
+import { SurveyValidationError, surveyRecordsToCsv, surveyRecordsToGeoJSON, validateSurveyValues } from './field-survey';
 
 declare global {
   namespace Express {
@@ -39,13 +85,12 @@ declare global {
         firstName: string;
         lastName: string;
       };
+      // Id of the session the request was authenticated with
+      sessionId?: number;
     }
   }
 }
 
-// Simple session middleware
-const sessions = new Map<string, any>();
-
 // Simple response cache for frequently requested data
 const responseCache = new Map<string, { data: any, timestamp: number, ttl: number }>();
 
@@ -74,17 +119,19 @@ setInterval(() => {
 
 // Removed mock grade storage - now using database
 
-function generateSessionId(): string {
-  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-}
-
-function requireAuth(req: any, res: any, next: any) {
-  const sessionId = req.headers.authorization?.replace('Bearer ', '');
-  if (!sessionId || !sessions.has(sessionId)) {
-    return res.status(401).json({ message: 'Unauthorized' });
+async function requireAuth(req: any, res: any, next: any) {
+  try {
+    const token = getBearerToken(req);
+    const result = token ? await getSession(token) : undefined;
+    if (!result) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    req.user = toSessionUser(result.user);
+    req.sessionId = result.session.id;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to check session' });
   }
-  req.user = sessions.get(sessionId);
-  next();
 }
 
 function requireRole(role: string) {
@@ -96,6 +143,44 @@ function requireRole(role: string) {
   };
 }
 
+// Teachers and co-teachers of the class and its enrolled students; admins can see every class
+async function canAccessClass(user: NonNullable<Express.Request['user']>, classId: number): Promise<boolean> {
+  if (user.role === 'teacher') {
+    const taughtClasses = await storage.getClassesByTeacher(user.id);
+    return taughtClasses.some(c => c.id === classId);
+  }
+  if (user.role === 'student') {
+    const enrollments = await storage.getEnrollmentsByStudent(user.id);
+    return enrollments.some(e => e.classId === classId);
+  }
+  return user.role === 'admin';
+}
+
+// Admins can manage any account; teachers can manage the students in the classes they teach
+async function canManageUser(user: NonNullable<Express.Request['user']>, target: { id: number; role: string }): Promise<boolean> {
+  if (user.role === 'admin') return true;
+  if (user.role !== 'teacher' || target.role !== 'student') return false;
+  const [taughtClasses, enrollments] = await Promise.all([
+    storage.getClassesByTeacher(user.id),
+    storage.getEnrollmentsByStudent(target.id),
+  ]);
+  return enrollments.some(e => taughtClasses.some(c => c.id === e.classId));
+}
+
+// Answers a sign-in refused by throttling or a lockout; false for any other error
+function sendSignInBlocked(res: Response, error: unknown): boolean {
+  if (error instanceof LoginThrottledError) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+    res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+    return true;
+  }
+  if (error instanceof AccountLockedError) {
+    res.status(423).json({ message: error.message, lockedUntil: error.lockedUntil });
+    return true;
+  }
+  return false;
+}
+
 // Helper function to get file type from mimetype
 function getFileType(mimetype: string): 'document' | 'image' | 'video' | 'pdf' | 'other' {
   if (mimetype.startsWith('image/')) return 'image';
@@ -141,45 +226,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username, password } = req.body;
       const user = await storage.getUserByUsername(username);
+      await checkLoginAllowed(username, req.ip, user);
       
       if (!user || !await bcrypt.compare(password, user.password)) {
+        const lockout = await recordFailedLogin(username, req.ip, user);
+        if (lockout) {
+          throw new AccountLockedError(lockout.lockedUntil);
+        }
         return res.status(401).json({ message: 'Invalid credentials' });
       }
       
-      const sessionId = generateSessionId();
-      const sessionData = {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-      };
-      // Session data set successfully
-      sessions.set(sessionId, sessionData);
+      // The failure count on the username is only cleared once the second step passes too
+      const twoFactor = await getSignInRequirement(user);
+      if (twoFactor !== 'none') {
+        return res.json({
+          twoFactorRequired: true,
+          setupRequired: twoFactor === 'setup',
+          challengeToken: await createChallenge(user, twoFactor, req.ip),
+        });
+      }
+
+      await recordSuccessfulLogin(username);
+      const token = await createSession(user, req);
       
       res.json({ 
         success: true, 
-        token: sessionId,
+        token,
         user: { ...user, password: undefined }
       });
     } catch (error) {
+      if (sendSignInBlocked(res, error)) return;
       res.status(400).json({ message: error instanceof Error ? error.message : 'Login failed' });
     }
   });
 
-  app.post('/api/auth/logout', requireAuth, (req, res) => {
-    const sessionId = req.headers.authorization?.replace('Bearer ', '');
-    if (sessionId) {
-      sessions.delete(sessionId);
+  // Second sign-in step for a user who must enrol first: the QR code for their authenticator app
+  app.post('/api/auth/login/two-factor/setup', async (req, res) => {
+    try {
+      const challenge = await getChallenge(req.body.challengeToken);
+      const user = challenge?.purpose === 'setup' ? await storage.getUser(challenge.userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ message: 'This sign-in has expired. Please sign in again.' });
+      }
+      res.json(await beginEnrolment(user));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to start two-factor setup' });
+    }
+  });
+
+  // Second sign-in step: an authenticator or recovery code, which finishes the sign-in
+  app.post('/api/auth/login/two-factor', async (req, res) => {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+      const challenge = await getChallenge(challengeToken);
+      const user = challenge ? await storage.getUser(challenge.userId) : undefined;
+      if (!challenge || !user) {
+        return res.status(400).json({ message: 'This sign-in has expired. Please sign in again.' });
+      }
+      await checkLoginAllowed(user.username, req.ip, user);
+
+      // Enrolling during sign-in hands out the first recovery codes
+      const recoveryCodes = challenge.purpose === 'setup' ? await completeEnrolment(user, code) : undefined;
+      const verified = challenge.purpose === 'setup' ? !!recoveryCodes : await verifySecondFactor(user, { code, recoveryCode });
+      if (!verified) {
+        const lockout = await recordFailedLogin(user.username, req.ip, user);
+        if (lockout) {
+          await deleteChallenge(challengeToken);
+          throw new AccountLockedError(lockout.lockedUntil);
+        }
+        return res.status(401).json({ message: 'That code is not valid. Please try again.' });
+      }
+
+      await deleteChallenge(challengeToken);
+      await recordSuccessfulLogin(user.username);
+      const token = await createSession(user, req);
+      res.json({
+        success: true,
+        token,
+        user: { ...user, password: undefined },
+        recoveryCodes: recoveryCodes ?? undefined,
+      });
+    } catch (error) {
+      if (sendSignInBlocked(res, error)) return;
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Login failed' });
+    }
+  });
+
+  // Class sign-in page for young students: the names of students with a login card
+  app.get('/api/auth/class-login/:code', async (req, res) => {
+    try {
+      const roster = await getClassRoster(req.params.code);
+      if (!roster) {
+        return res.status(404).json({ message: 'This class sign-in link is not available. Ask your teacher.' });
+      }
+      res.json(roster);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch class' });
+    }
+  });
+
+  // A student picked from the class sign-in page taps their pictures in order
+  app.post('/api/auth/login/picture', async (req, res) => {
+    try {
+      const { classCode, studentId, pictures } = req.body;
+      const student = await getPictureLoginStudent(classCode, studentId);
+      await checkLoginAllowed(student?.user.username, req.ip, student?.user, 'picture');
+
+      if (!student || !await checkPictures(student.card, pictures)) {
+        const lockout = await recordFailedLogin(student?.user.username, req.ip, student?.user, 'picture');
+        if (lockout) {
+          throw new AccountLockedError(lockout.lockedUntil);
+        }
+        return res.status(401).json({ message: 'Those pictures are not right. Try again!' });
+      }
+
+      await recordSuccessfulLogin(student.user.username);
+      const token = await createSession(student.user, req);
+      res.json({ success: true, token, user: { ...student.user, password: undefined } });
+    } catch (error) {
+      if (sendSignInBlocked(res, error)) return;
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Login failed' });
+    }
+  });
+
+  // A QR badge scanned into the class sign-in page
+  app.post('/api/auth/login/badge', async (req, res) => {
+    try {
+      const { classCode, badgeToken } = req.body;
+      await checkLoginAllowed(undefined, req.ip, undefined, 'picture');
+      const user = await getBadgeStudent(classCode, badgeToken);
+      if (!user) {
+        await recordFailedLogin(undefined, req.ip, undefined, 'picture');
+        return res.status(401).json({ message: 'This badge does not work anymore. Ask your teacher for a new one.' });
+      }
+      await checkLoginAllowed(user.username, req.ip, user, 'picture');
+
+      await recordSuccessfulLogin(user.username);
+      const token = await createSession(user, req);
+      res.json({ success: true, token, user: { ...user, password: undefined } });
+    } catch (error) {
+      if (sendSignInBlocked(res, error)) return;
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Login failed' });
+    }
+  });
+
+  app.post('/api/auth/logout', requireAuth, async (req, res) => {
+    try {
+      await storage.deleteSession(req.sessionId!, req.user!.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to log out' });
+    }
+  });
+
+  // Ends every session of the current user, including this one
+  app.post('/api/auth/logout-all', requireAuth, async (req, res) => {
+    try {
+      const count = await storage.deleteSessionsByUser(req.user!.id);
+      res.json({ success: true, count });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to log out' });
     }
-    res.json({ success: true });
   });
 
   app.get('/api/auth/me', requireAuth, (req, res) => {
     res.json({ user: req.user });
   });
 
+  // Two-factor authentication for the signed-in teacher or admin
+  app.get('/api/auth/two-factor', requireAuth, async (req, res) => {
+    try {
+      if (!isTwoFactorRole(req.user!.role)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch two-factor status' });
+    }
+  });
+
+  app.post('/api/auth/two-factor/setup', requireAuth, async (req, res) => {
+    try {
+      if (!isTwoFactorRole(req.user!.role)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      res.json(await beginEnrolment(req.user!));
+    } catch (error) {
+      const status = error instanceof TwoFactorError ? 400 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to start two-factor setup' });
+    }
+  });
+
+  app.post('/api/auth/two-factor/enable', requireAuth, async (req, res) => {
+    try {
+      if (!isTwoFactorRole(req.user!.role)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      const recoveryCodes = await completeEnrolment(req.user!, req.body.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: 'That code is not valid. Check the time on your phone and try again.' });
+      }
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      const status = error instanceof TwoFactorError ? 400 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to turn on two-factor authentication' });
+    }
+  });
+
+  // Replacing recovery codes or turning two-factor off takes a current code, not just a session
+  app.post('/api/auth/two-factor/recovery-codes', requireAuth, async (req, res) => {
+    try {
+      if (!await verifySecondFactor(req.user!, { code: req.body.code })) {
+        return res.status(400).json({ message: 'That code is not valid. Please try again.' });
+      }
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!) });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to create recovery codes' });
+    }
+  });
+
+  app.post('/api/auth/two-factor/disable', requireAuth, async (req, res) => {
+    try {
+      if (!await verifySecondFactor(req.user!, { code: req.body.code })) {
+        return res.status(400).json({ message: 'That code is not valid. Please try again.' });
+      }
+      await disableTwoFactor(req.user!);
+      res.json({ success: true });
+    } catch (error) {
+      const status = error instanceof TwoFactorError ? 400 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to turn off two-factor authentication' });
+    }
+  });
+
+  // Devices the current user is signed in on
+  app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getActiveSessionsByUser(req.user!.id);
+      res.json(sessions.map(session => toSessionSummary(session, req.sessionId)));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch sessions' });
+    }
+  });
+
+  app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.id);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ message: 'Invalid session ID' });
+      }
+
+      const deleted = await storage.deleteSession(sessionId, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Session not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to end session' });
+    }
+  });
+
+  // Single sign-on: the login page offers each enabled provider
+  app.get('/api/auth/sso/providers', async (req, res) => {
+    try {
+      const providers = await storage.getSsoProviders();
+      res.json(providers.map(provider => ({ slug: provider.slug, name: provider.name })));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch sign-in options' });
+    }
+  });
+
+  // Both SSO steps are browser navigations, so failures go back to the login page rather than as JSON
+  const redirectToLoginWithError = (res: any, error: unknown) => {
+    const isExpected = error instanceof SsoError || error instanceof AccountLockedError;
+    const message = isExpected ? error.message : 'Single sign-on failed. Please try again.';
+    if (!isExpected) {
+      log(`[SSO] ${error instanceof Error ? error.message : error}`);
+    }
+    res.redirect(`/login?sso_error=${encodeURIComponent(message)}`);
+  };
+
+  app.get('/api/auth/sso/:slug/start', async (req, res) => {
+    try {
+      const provider = await storage.getSsoProviderBySlug(req.params.slug);
+      if (!provider?.isEnabled) {
+        throw new SsoError('This sign-in option is not available.');
+      }
+      res.redirect(await startSsoLogin(provider, getRedirectUri(req)));
+    } catch (error) {
+      redirectToLoginWithError(res, error);
+    }
+  });
+
+  app.get('/api/auth/sso/callback', async (req, res) => {
+    try {
+      const user = await completeSsoLogin(req.query as Record<string, string | undefined>);
+      // A lockout from failed password sign-ins applies to every way of signing in
+      await checkAccountLocked(user);
+      // In the fragment, so the token isn't sent to the server again or written to access logs
+      const twoFactor = await getSignInRequirement(user);
+      if (twoFactor !== 'none') {
+        const challengeToken = await createChallenge(user, twoFactor, req.ip);
+        return res.redirect(`/sso/callback#challenge=${encodeURIComponent(challengeToken)}&setup=${twoFactor === 'setup' ? 1 : 0}`);
+      }
+      const token = await createSession(user, req);
+      res.redirect(`/sso/callback#token=${encodeURIComponent(token)}`);
+    } catch (error) {
+      redirectToLoginWithError(res, error);
+    }
+  });
+
   // Constant for password reset response (must be identical to prevent account enumeration attacks)
   const PASSWORD_RESET_RESPONSE_MESSAGE = 'If an account with that username exists, a password reset email has been sent.';
 
@@ -191,6 +546,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!username) {
         return res.status(400).json({ message: 'Username is required' });
       }
+
+      await throttlePasswordResetRequest(username, req.ip);
       
       // Find user by username
       const user = await storage.getUserByUsername(username);
@@ -232,7 +589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Generate secure token
-      const token = generateSessionId() + generateSessionId(); // 52 char token
+      const token = generateToken();
       
       // Token expires in 1 hour
       const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
@@ -264,6 +621,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(response);
     } catch (error) {
+      if (sendSignInBlocked(res, error)) return;
       log('[PASSWORD RESET] Error processing request');
       res.status(500).json({ message: 'An error occurred. Please try again.' });
     }
@@ -307,9 +665,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Mark token as used
       await storage.markPasswordResetTokenUsed(token);
+
+      // Whoever knew the old password may still be signed in
+      await storage.deleteSessionsByUser(resetToken.userId);
       
       // Get user info for response
       const user = await storage.getUser(resetToken.userId);
+
+      // Knowing the new password is proof enough to end a lockout
+      if (user) {
+        await unlockAccount(user, user.id);
+      }
       
       log('[PASSWORD RESET] Password successfully reset');
       
@@ -641,7 +1007,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const classId = parseInt(req.params.classId);
       const isStudent = req.user?.role === 'student';
       const assignments = await storage.getAssignmentsByClass(classId, isStudent);
-      res.json(assignments);
+      res.json(isStudent ? assignments.map(hideMapQuestionAnswers) : assignments);
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch assignments' });
     }
@@ -666,7 +1032,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!assignment) {
         return res.status(404).json({ message: 'Assignment not found' });
       }
-      res.json(assignment);
+      res.json(req.user?.role === 'student' ? hideMapQuestionAnswers(assignment) : assignment);
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch assignment' });
     }
@@ -790,6 +1156,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (submissionData.status === 'submitted') {
         submissionData.submittedAt = new Date();
       }
+
+      // Saved maps render on the teacher's grading and class maps, and map answers are scored when
+      // grading, so updates are checked too
+      if (submissionData.mapData != null) {
+        submissionData.mapData = starterMapSchema.parse(submissionData.mapData);
+      }
+      if (submissionData.mapAnswers != null) {
+        submissionData.mapAnswers = mapAnswersSchema.parse(submissionData.mapAnswers);
+      }
+      if (submissionData.storyResponses != null) {
+        submissionData.storyResponses = storyResponsesSchema.parse(submissionData.storyResponses);
+      }
       
       if (existingSubmission) {
         const updatedSubmission = await storage.updateSubmission(existingSubmission.id, submissionData);
@@ -819,6 +1197,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         res.json(updatedSubmission);
       } else {
+        // New submissions start from the teacher's starter map when one is set
+        if (!submissionData.mapData) {
+          const assignment = await storage.getAssignmentById(parseInt(req.params.assignmentId));
+          if (assignment?.starterMap) {
+            submissionData.mapData = assignment.starterMap;
+          }
+        }
+
         const validatedData = insertSubmissionSchema.parse(submissionData);
         const submission = await storage.createSubmission(validatedData);
         
@@ -932,6 +1318,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Auto-scores for the assignment's map questions, shown to the teacher while grading
+  app.get('/api/submissions/:submissionId/map-scores', requireAuth, requireRole('teacher'), async (req, res) => {
+    try {
+      const submission = await storage.getSubmissionById(parseInt(req.params.submissionId));
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const assignment = await storage.getAssignmentById(submission.assignmentId);
+      res.json(scoreMapQuestions(assignment?.mapQuestions ?? [], submission.mapAnswers));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to score map questions' });
+    }
+  });
+
   // Grade routes
   app.post('/api/submissions/:submissionId/grades', requireAuth, requireRole('teacher'), async (req, res) => {
     try {
@@ -943,13 +1344,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Submission not found' });
       }
       
+      // Map questions are scored automatically; the teacher's rubric entries override the auto-scores
+      const assignment = await storage.getAssignmentById(submission.assignmentId);
+      const mapScores = scoreMapQuestions(assignment?.mapQuestions ?? [], submission.mapAnswers);
+      const rubric = mapScores.length > 0
+        ? {
+            ...Object.fromEntries(mapScores.map(score => [score.criterion, score.rubricScore])),
+            ...req.body.rubric,
+          }
+        : req.body.rubric;
+
       // Create grade
       const gradeData = {
         submissionId,
         score: 0, // Default score for system compatibility
         maxScore: 100, // Default max score for system compatibility
         feedback: req.body.feedback,
-        rubric: req.body.rubric,
+        rubric,
         gradedBy: req.user!.id,
       };
       
@@ -997,6 +1408,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ends a lockout after too many failed sign-ins, for a student who can't wait it out
+  app.post('/api/users/:id/unlock', requireAuth, async (req, res) => {
+    try {
+      const target = await storage.getUser(parseInt(req.params.id));
+      if (!target) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      if (!await canManageUser(req.user!, target)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      const count = await unlockAccount(target, req.user!.id);
+      res.json({ success: true, count });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to unlock account' });
+    }
+  });
+
   // Student management routes
   app.get('/api/students', requireAuth, requireRole('teacher'), async (req, res) => {
     try {
@@ -1026,7 +1454,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!student || student.role !== 'student') {
         return res.status(404).json({ message: 'Student not found' });
       }
-      res.json({ ...student, password: undefined });
+      const lockout = await storage.getActiveAccountLockout(student.id);
+      res.json({ ...student, password: undefined, lockedUntil: lockout?.lockedUntil ?? null });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch student' });
     }
@@ -1071,10 +1500,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { insertStudentSchema } = await import('@shared/schema');
       const studentData = insertStudentSchema.parse(req.body);
       const hashedPassword = await bcrypt.hash(studentData.password, 10);
+      const teacher = await storage.getUser(req.user!.id);
       
+      // Students join their teacher's school, so its single sign-on can sign them in
       const student = await storage.createUser({
         ...studentData,
         password: hashedPassword,
+        schoolId: teacher?.schoolId ?? null,
       });
       
       res.json({ ...student, password: undefined });
@@ -1155,6 +1587,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Picture and QR badge sign-in for the class's young students
+  app.get('/api/classes/:classId/picture-login', requireAuth, requireRole('teacher'), async (req, res) => {
+    try {
+      const classId = parseInt(req.params.classId);
+      if (!await canAccessClass(req.user!, classId)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      res.json(await getPictureLoginSettings(classId));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch picture sign-in' });
+    }
+  });
+
+  app.put('/api/classes/:classId/picture-login', requireAuth, requireRole('teacher'), async (req, res) => {
+    try {
+      const classId = parseInt(req.params.classId);
+      if (!await canAccessClass(req.user!, classId)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      const { enabled } = z.object({ enabled: z.boolean() }).parse(req.body);
+      if (enabled) {
+        await enablePictureLogin(classId, req.user!.id);
+      } else {
+        await disablePictureLogin(classId);
+      }
+      res.json(await getPictureLoginSettings(classId));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to update picture sign-in' });
+    }
+  });
+
+  // New login cards to print, for the given students or the whole class
+  app.post('/api/classes/:classId/picture-login/cards', requireAuth, requireRole('teacher'), async (req, res) => {
+    try {
+      const classId = parseInt(req.params.classId);
+      if (!await canAccessClass(req.user!, classId)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      const { studentIds } = z.object({ studentIds: z.array(z.number().int()).min(1).optional() }).parse(req.body);
+      const cards = await issueLoginCards(classId, studentIds, req.user!.id, `${req.protocol}://${req.get('host')}`);
+      res.json({ cards });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to create login cards' });
+    }
+  });
+
+  app.delete('/api/classes/:classId/picture-login/cards/:studentId', requireAuth, requireRole('teacher'), async (req, res) => {
+    try {
+      const classId = parseInt(req.params.classId);
+      if (!await canAccessClass(req.user!, classId)) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+      await revokeLoginCard(classId, parseInt(req.params.studentId));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to remove login card' });
+    }
+  });
+
   // Student enrollment by code
   app.post('/api/enroll-by-code', requireAuth, async (req, res) => {
     try {
@@ -1425,8 +1916,458 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // File upload routes
   app.post('/api/uploads', requireAuth, upload.array('files', 5), uploadAssignmentFiles);
+  app.post('/api/uploads/map-layer', requireAuth, mapLayerUpload.single('file'), importMapLayer);
   app.get('/api/uploads/:filename', serveFile);
 
+  // Basemap routes
+  app.get('/api/basemaps', requireAuth, async (req, res) => {
+    try {
+      const basemaps = await storage.getBasemaps();
+      res.json(basemaps.map(toPublicBasemap));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch basemaps' });
+    }
+  });
+
+  app.get('/api/admin/basemaps', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await storage.getBasemaps(true));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch basemaps' });
+    }
+  });
+
+  app.post('/api/admin/basemaps', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const basemapData = insertBasemapSchema.parse(req.body);
+      const basemap = await storage.createBasemap(basemapData);
+      res.json(basemap);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid basemap data' });
+    }
+  });
+
+  app.put('/api/admin/basemaps/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const basemapData = insertBasemapSchema.partial().parse(req.body);
+      const basemap = await storage.updateBasemap(parseInt(req.params.id), basemapData);
+      if (!basemap) {
+        return res.status(404).json({ message: 'Basemap not found' });
+      }
+      res.json(basemap);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid basemap data' });
+    }
+  });
+
+  app.delete('/api/admin/basemaps/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteBasemap(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: 'Basemap not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete basemap' });
+    }
+  });
+
+  // Client secrets are write-only: the admin page only learns whether one is set
+  const toAdminSsoProvider = ({ clientSecret, ...provider }: SsoProvider) => ({
+    ...provider,
+    hasClientSecret: !!clientSecret,
+  });
+
+  app.get('/api/admin/schools', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await storage.getSchools());
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch schools' });
+    }
+  });
+
+  app.post('/api/admin/schools', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const schoolData = insertSchoolSchema.parse(req.body);
+      if (await storage.getSchoolByName(schoolData.name)) {
+        return res.status(400).json({ message: 'A school with that name already exists' });
+      }
+      res.json(await storage.createSchool(schoolData));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid school data' });
+    }
+  });
+
+  // School membership decides which single sign-on providers may sign an account in
+  app.get('/api/admin/schools/:id/members', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      if (!await storage.getSchoolById(schoolId)) {
+        return res.status(404).json({ message: 'School not found' });
+      }
+      const members = await storage.getUsersBySchool(schoolId);
+      res.json(members.map(member => ({ ...member, password: undefined })));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch school members' });
+    }
+  });
+
+  app.post('/api/admin/schools/:id/members', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const { username } = z.object({ username: z.string().trim().min(1) }).parse(req.body);
+      if (!await storage.getSchoolById(schoolId)) {
+        return res.status(404).json({ message: 'School not found' });
+      }
+      const user = await storage.getUserByUsername(username) ?? await storage.getUserByEmailIgnoreCase(username);
+      if (!user) {
+        return res.status(404).json({ message: 'No user has that username or email' });
+      }
+      await storage.setUserSchool(user.id, schoolId);
+      res.json({ ...user, schoolId, password: undefined });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to add school member' });
+    }
+  });
+
+  app.delete('/api/admin/schools/:id/members/:userId', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const schoolId = parseInt(req.params.id);
+      const user = await storage.getUser(parseInt(req.params.userId));
+      if (!user || user.schoolId !== schoolId) {
+        return res.status(404).json({ message: 'User is not a member of this school' });
+      }
+      await storage.setUserSchool(user.id, null);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to remove school member' });
+    }
+  });
+
+  app.get('/api/admin/sso-providers', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const providers = await storage.getSsoProviders(true);
+      res.json(providers.map(toAdminSsoProvider));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch SSO providers' });
+    }
+  });
+
+  app.post('/api/admin/sso-providers', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const providerData = insertSsoProviderSchema.parse(req.body);
+      if (await storage.getSsoProviderBySlug(providerData.slug)) {
+        return res.status(400).json({ message: 'Another provider already uses that slug' });
+      }
+      if (!await storage.getSchoolById(providerData.schoolId)) {
+        return res.status(400).json({ message: 'School not found' });
+      }
+      const provider = await storage.createSsoProvider({ ...providerData, clientSecret: providerData.clientSecret || null });
+      res.json(toAdminSsoProvider(provider));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid SSO provider data' });
+    }
+  });
+
+  app.put('/api/admin/sso-providers/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const providerData = insertSsoProviderSchema.partial().parse(req.body);
+      if (providerData.slug) {
+        const existing = await storage.getSsoProviderBySlug(providerData.slug);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: 'Another provider already uses that slug' });
+        }
+      }
+      if (providerData.schoolId !== undefined && !await storage.getSchoolById(providerData.schoolId)) {
+        return res.status(400).json({ message: 'School not found' });
+      }
+      // Leaving the secret out keeps the current one; an empty string or null removes it
+      if (providerData.clientSecret === '') providerData.clientSecret = null;
+      const provider = await storage.updateSsoProvider(id, providerData);
+      if (!provider) {
+        return res.status(404).json({ message: 'SSO provider not found' });
+      }
+      res.json(toAdminSsoProvider(provider));
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid SSO provider data' });
+    }
+  });
+
+  app.delete('/api/admin/sso-providers/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSsoProvider(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: 'SSO provider not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete SSO provider' });
+    }
+  });
+
+  // Checks the issuer's discovery document, so a typo shows up before anyone tries to sign in
+  app.post('/api/admin/sso-providers/:id/test', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const provider = await storage.getSsoProviderById(parseInt(req.params.id));
+      if (!provider) {
+        return res.status(404).json({ message: 'SSO provider not found' });
+      }
+      const metadata = await discoverProvider(provider.issuerUrl);
+      res.json({
+        issuer: metadata.issuer,
+        authorizationEndpoint: metadata.authorization_endpoint,
+        tokenEndpoint: metadata.token_endpoint,
+        redirectUri: getRedirectUri(req),
+      });
+    } catch (error) {
+      const status = error instanceof SsoError ? 502 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to reach SSO provider' });
+    }
+  });
+
+  // Audit trail of accounts locked after failed sign-ins, newest first
+  app.get('/api/admin/lockouts', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await storage.getAccountLockouts(200));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch lockouts' });
+    }
+  });
+
+  // Site-wide security policy
+  app.get('/api/admin/security', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      res.json({ requireTwoFactor: await isTwoFactorRequired() });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch security settings' });
+    }
+  });
+
+  // Making two-factor mandatory doesn't end existing sessions; everyone enrols at their next sign-in
+  app.put('/api/admin/security', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const { requireTwoFactor } = z.object({ requireTwoFactor: z.boolean() }).parse(req.body);
+      await setTwoFactorRequired(requireTwoFactor, req.user!.id);
+      res.json({ requireTwoFactor });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid security settings' });
+    }
+  });
+
+  // ArcGIS Online web maps, served from the server's cache of the groups offered to the user's school
+  app.get('/api/arcgis/maps', requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      res.json(await getArcgisMaps(user?.schoolId ?? null));
+    } catch (error) {
+      const status = error instanceof ArcgisError ? 502 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to fetch ArcGIS maps' });
+    }
+  });
+
+  // Public like uploaded files, since <img> requests don't carry the auth header
+  app.get('/api/arcgis/items/:itemId/thumbnail', async (req, res) => {
+    try {
+      const item = await storage.getArcgisThumbnail(req.params.itemId);
+      // Anything but a raster image (e.g. SVG or HTML) could run script on our origin
+      const type = item?.thumbnailType ?? 'image/png';
+      if (!item || !THUMBNAIL_TYPES.includes(type)) {
+        return res.status(404).json({ message: 'Thumbnail not found' });
+      }
+      res.setHeader('Content-Type', type);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Security-Policy', 'sandbox');
+      res.setHeader('Cache-Control', 'public, max-age=86400');
+      res.send(item.thumbnail);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch thumbnail' });
+    }
+  });
+
+  app.get('/api/admin/arcgis-groups', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      // ?schoolId= lists the groups offered to one school, ?schoolId=none those shared by every school
+      const { schoolId } = req.query;
+      const school = typeof schoolId !== 'string' ? undefined : schoolId === 'none' ? null : parseInt(schoolId);
+      if (typeof school === 'number' && isNaN(school)) {
+        return res.status(400).json({ message: 'Invalid school ID' });
+      }
+      res.json(await storage.getArcgisGroups(true, school));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch ArcGIS groups' });
+    }
+  });
+
+  app.post('/api/admin/arcgis-groups', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const groupData = insertArcgisGroupSchema.parse(req.body);
+      if (groupData.schoolId && !await storage.getSchoolById(groupData.schoolId)) {
+        return res.status(400).json({ message: 'School not found' });
+      }
+      const group = await storage.createArcgisGroup({ ...groupData, groupId: groupData.groupId.toLowerCase() });
+      // Fill the cache straight away; a failure is recorded on the group and retried by the refresh job
+      await refreshArcgisGroup(group).catch(() => {});
+      res.json((await storage.getArcgisGroups(true)).find(g => g.id === group.id) ?? group);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid ArcGIS group data' });
+    }
+  });
+
+  app.put('/api/admin/arcgis-groups/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const groupData = insertArcgisGroupSchema.partial().omit({ groupId: true }).parse(req.body);
+      if (groupData.schoolId && !await storage.getSchoolById(groupData.schoolId)) {
+        return res.status(400).json({ message: 'School not found' });
+      }
+      const group = await storage.updateArcgisGroup(parseInt(req.params.id), groupData);
+      if (!group) {
+        return res.status(404).json({ message: 'ArcGIS group not found' });
+      }
+      res.json(group);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid ArcGIS group data' });
+    }
+  });
+
+  app.delete('/api/admin/arcgis-groups/:id', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteArcgisGroup(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: 'ArcGIS group not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete ArcGIS group' });
+    }
+  });
+
+  app.post('/api/admin/arcgis-groups/:id/refresh', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      const group = (await storage.getArcgisGroups(true)).find(g => g.id === parseInt(req.params.id));
+      if (!group) {
+        return res.status(404).json({ message: 'ArcGIS group not found' });
+      }
+      await refreshArcgisGroup(group);
+      res.json((await storage.getArcgisGroups(true)).find(g => g.id === group.id));
+    } catch (error) {
+      const status = error instanceof ArcgisError ? 502 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to refresh ArcGIS group' });
+    }
+  });
+
+  // Dataset catalog, loaded from data/airtable_data.csv
+  app.get('/api/datasets', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getDatasets());
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch datasets' });
+    }
+  });
+
+  app.post('/api/admin/datasets/import', requireAuth, requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await importDatasets());
+    } catch (error) {
+      const status = error instanceof DatasetImportError ? 400 : 500;
+      res.status(status).json({ message: error instanceof Error ? error.message : 'Failed to import datasets' });
+    }
+  });
+
+  // Field survey routes: observations are shared with everyone in the class
+  app.get('/api/assignments/:id/survey-records', requireAuth, async (req, res) => {
+    try {
+      const assignment = await storage.getAssignmentById(parseInt(req.params.id));
+      if (!assignment?.surveyForm) {
+        return res.status(404).json({ message: 'Field survey not found' });
+      }
+      if (!(await canAccessClass(req.user!, assignment.classId))) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      const records = await storage.getSurveyRecords(assignment.id);
+      const format = req.query.format;
+      if (format === 'csv' || format === 'geojson') {
+        const baseUrl = `${req.protocol}://${req.get('host')}`;
+        const filename = `${assignment.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'survey'}.${format}`;
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        if (format === 'csv') {
+          return res.type('text/csv').send(surveyRecordsToCsv(assignment.surveyForm, records, baseUrl));
+        }
+        return res.type('application/geo+json').send(JSON.stringify(surveyRecordsToGeoJSON(assignment.surveyForm, records, baseUrl)));
+      }
+
+      res.json(records);
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to fetch survey records' });
+    }
+  });
+
+  app.post('/api/assignments/:id/survey-records', requireAuth, requireRole('student'), async (req, res) => {
+    try {
+      const assignment = await storage.getAssignmentById(parseInt(req.params.id));
+      if (!assignment?.surveyForm) {
+        return res.status(404).json({ message: 'Field survey not found' });
+      }
+      if (!(await canAccessClass(req.user!, assignment.classId))) {
+        return res.status(403).json({ message: 'Not enrolled in this class' });
+      }
+
+      const recordData = insertSurveyRecordSchema.parse({
+        assignmentId: assignment.id,
+        studentId: req.user!.id,
+        latitude: req.body.latitude,
+        longitude: req.body.longitude,
+        accuracy: req.body.accuracy ?? null,
+        values: validateSurveyValues(assignment.surveyForm, req.body.values ?? {}),
+      });
+      const record = await storage.createSurveyRecord(recordData);
+      res.json(record);
+    } catch (error) {
+      if (error instanceof SurveyValidationError || error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to save survey record' });
+    }
+  });
+
+  // Students can remove their own observations; teachers can remove any in their class
+  app.delete('/api/survey-records/:id', requireAuth, async (req, res) => {
+    try {
+      const record = await storage.getSurveyRecordById(parseInt(req.params.id));
+      if (!record) {
+        return res.status(404).json({ message: 'Survey record not found' });
+      }
+      const assignment = await storage.getAssignmentById(record.assignmentId);
+      const isOwner = req.user!.role === 'student' && record.studentId === req.user!.id;
+      const isClassTeacher = req.user!.role !== 'student' && !!assignment && (await canAccessClass(req.user!, assignment.classId));
+      if (!isOwner && !isClassTeacher) {
+        return res.status(403).json({ message: 'Forbidden' });
+      }
+
+      await storage.deleteSurveyRecord(record.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete survey record' });
+    }
+  });
+
+  // Map search, answered from the locally loaded gazetteer rather than an external geocoder
+  app.get('/api/geocode', requireAuth, async (req, res) => {
+    try {
+      const q = typeof req.query.q === 'string' ? req.query.q : '';
+      const { name, state } = parseGeocodeQuery(q);
+      if (name.length < 2) {
+        return res.json([]);
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 8, 1), 25);
+      const places = await storage.searchGazetteer(name, state, limit);
+      res.json(places.map(toGeocodeResult));
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to search places' });
+    }
+  });
+
   // Library file routes
   app.get('/api/library/files', requireAuth, async (req, res) => {
     try {
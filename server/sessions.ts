@@ -0,0 +1,113 @@
+/**
+ * Sign-in sessions, kept in Postgres so restarts and deploys don't sign anyone out. Clients get
+ * a random bearer token; only its SHA-256 hash is stored.
+ *
+ * A session ends after SESSION_IDLE_HOURS without use (default 24) and, however active it is,
+ * SESSION_MAX_DAYS after sign-in (default 30).
+ */
+import crypto from 'crypto';
+import type { Request } from 'express';
+import type { Session, User } from '@shared/schema';
+import { storage } from './storage';
+import { log } from './vite';
+
+const IDLE_TIMEOUT_MS = (Number(process.env.SESSION_IDLE_HOURS) || 24) * 60 * 60 * 1000;
+const MAX_AGE_MS = (Number(process.env.SESSION_MAX_DAYS) || 30) * 24 * 60 * 60 * 1000;
+// Renewing on every request would mean a write per API call; a few minutes' slack is plenty
+const RENEW_AFTER_MS = 5 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type SessionUser = NonNullable<Request['user']>;
+
+// A session as listed to its owner
+export interface SessionSummary {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  // The session the list was requested from
+  current: boolean;
+}
+
+// 256 bits, URL-safe; also used for password reset links
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() || null : null;
+}
+
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    email: user.email ?? '',
+    firstName: user.firstName,
+    lastName: user.lastName,
+  };
+}
+
+// Starts a session for a user who has just signed in and returns its bearer token
+export async function createSession(user: User, req: Request): Promise<string> {
+  const token = generateToken();
+  const now = Date.now();
+  await storage.createSession({
+    tokenHash: hashToken(token),
+    userId: user.id,
+    userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+    ipAddress: req.ip ?? null,
+    expiresAt: new Date(now + IDLE_TIMEOUT_MS),
+    absoluteExpiresAt: new Date(now + MAX_AGE_MS),
+  });
+  return token;
+}
+
+/**
+ * The unexpired session and current user for a bearer token. Using a session pushes its idle
+ * expiry forward, up to its absolute expiry.
+ */
+export async function getSession(token: string): Promise<{ session: Session; user: User } | undefined> {
+  const result = await storage.getSessionByTokenHash(hashToken(token));
+  if (!result) return undefined;
+
+  const now = Date.now();
+  if (now - result.session.lastSeenAt.getTime() > RENEW_AFTER_MS) {
+    const lastSeenAt = new Date(now);
+    const expiresAt = new Date(Math.min(now + IDLE_TIMEOUT_MS, result.session.absoluteExpiresAt.getTime()));
+    await storage.updateSession(result.session.id, { lastSeenAt, expiresAt });
+    result.session = { ...result.session, lastSeenAt, expiresAt };
+  }
+  return result;
+}
+
+export function toSessionSummary(session: Session, currentSessionId?: number): SessionSummary {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId,
+  };
+}
+
+// Expired sessions are already refused; this just keeps the table small
+export function startSessionCleanupJob(): void {
+  const run = () => {
+    storage
+      .deleteExpiredSessions()
+      .catch(error => log(`Session cleanup failed: ${error instanceof Error ? error.message : error}`));
+  };
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import type { Position } from 'geojson';
+import { convertShapefileZip } from './shapefile';
+
+const readFixture = (name: string) => fs.readFileSync(new URL(`./test-fixtures/shapefiles/${name}`, import.meta.url));
+
+function assertNear(actual: Position, expected: Position) {
+  assert.ok(
+    Math.abs(actual[0] - expected[0]) < 1e-6 && Math.abs(actual[1] - expected[1]) < 1e-6,
+    `${actual} should be ${expected}`,
+  );
+}
+
+test('Points keep their UTF-8 attributes when a .cpg declares the codepage', () => {
+  const { features } = convertShapefileZip(readFixture('points.zip'));
+
+  assert.equal(features.length, 2);
+  assert.deepEqual(features[0].geometry, { type: 'Point', coordinates: [4.3872, 45.4397] });
+  assert.deepEqual(features[0].properties, { NAME: 'Saint-Étienne', POP: 172565 });
+  assert.deepEqual(features[1].properties, { NAME: 'Zürich', POP: 421878 });
+});
+
+test('Polylines are unprojected from UTM, with multi-part records as MultiLineStrings', () => {
+  const { features } = convertShapefileZip(readFixture('lines.zip'));
+
+  assert.equal(features.length, 2);
+  const line = features[0].geometry;
+  assert.equal(line.type, 'LineString');
+  if (line.type === 'LineString') {
+    assertNear(line.coordinates[0], [-93.265, 44.9778]);
+    assertNear(line.coordinates[1], [-91.5, 30.45]);
+  }
+  assert.equal(features[1].geometry.type, 'MultiLineString');
+  // Without a .cpg the attributes are read as Latin-1
+  assert.equal(features[0].properties?.NAME, 'Café route');
+});
+
+test('Polygon holes stay with their outer ring, and separate outer rings become a MultiPolygon', () => {
+  const { features } = convertShapefileZip(readFixture('polygons.zip'));
+
+  assert.equal(features.length, 2);
+  const courtyard = features[0].geometry;
+  assert.equal(courtyard.type, 'Polygon');
+  if (courtyard.type === 'Polygon') {
+    assert.equal(courtyard.coordinates.length, 2);
+    assert.deepEqual(courtyard.coordinates[1][0], [2, 2]);
+  }
+  const islands = features[1].geometry;
+  assert.equal(islands.type, 'MultiPolygon');
+  if (islands.type === 'MultiPolygon') {
+    assert.equal(islands.coordinates.length, 2);
+  }
+});
+
+test('Zip files without a .shp are rejected', () => {
+  const pointsZip = readFixture('points.zip');
+  assert.throws(() => convertShapefileZip(Buffer.from(pointsZip.toString('latin1').replace(/points\.shp/g, 'points.txt'), 'latin1')), /does not contain a \.shp file/);
+});
@@ -0,0 +1,222 @@
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { readZipEntries } from './zip';
+import { createUnprojector, Unproject } from './projection';
+
+const SHAPE_TYPES: Record<number, 'point' | 'polyline' | 'polygon' | 'multipoint' | 'null'> = {
+  0: 'null',
+  1: 'point',
+  3: 'polyline',
+  5: 'polygon',
+  8: 'multipoint',
+  11: 'point',
+  13: 'polyline',
+  15: 'polygon',
+  18: 'multipoint',
+  21: 'point',
+  23: 'polyline',
+  25: 'polygon',
+  28: 'multipoint',
+};
+
+function readPoints(buffer: Buffer, offset: number, count: number): Position[] {
+  const points: Position[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push([buffer.readDoubleLE(offset + i * 16), buffer.readDoubleLE(offset + i * 16 + 8)]);
+  }
+  return points;
+}
+
+// Signed area via the shoelace formula; shapefile outer rings are clockwise (negative)
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+}
+
+function ringContains(ring: Position[], [x, y]: Position): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Groups shapefile rings into GeoJSON polygons: clockwise rings are outer rings, the rest are holes
+function ringsToGeometry(rings: Position[][]): Geometry {
+  const polygons: Position[][][] = [];
+  const holes: Position[][] = [];
+
+  rings.forEach(ring => {
+    if (ringArea(ring) <= 0) {
+      polygons.push([ring]);
+    } else {
+      holes.push(ring);
+    }
+  });
+
+  holes.forEach(hole => {
+    const owner = polygons.find(polygon => ringContains(polygon[0], hole[0]));
+    if (owner) {
+      owner.push(hole);
+    } else {
+      // Mis-wound ring with no enclosing outer ring; treat it as its own polygon
+      polygons.push([hole]);
+    }
+  });
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function readShapeRecord(buffer: Buffer, offset: number): Geometry | null {
+  const shapeType = SHAPE_TYPES[buffer.readInt32LE(offset)];
+
+  switch (shapeType) {
+    case 'point':
+      return { type: 'Point', coordinates: readPoints(buffer, offset + 4, 1)[0] };
+    case 'multipoint': {
+      const count = buffer.readInt32LE(offset + 36);
+      return { type: 'MultiPoint', coordinates: readPoints(buffer, offset + 40, count) };
+    }
+    case 'polyline':
+    case 'polygon': {
+      const partCount = buffer.readInt32LE(offset + 36);
+      const pointCount = buffer.readInt32LE(offset + 40);
+      const partStarts: number[] = [];
+      for (let i = 0; i < partCount; i++) {
+        partStarts.push(buffer.readInt32LE(offset + 44 + i * 4));
+      }
+      const points = readPoints(buffer, offset + 44 + partCount * 4, pointCount);
+      const parts = partStarts.map((start, i) => points.slice(start, partStarts[i + 1] ?? pointCount));
+
+      if (shapeType === 'polygon') return ringsToGeometry(parts);
+      return parts.length === 1
+        ? { type: 'LineString', coordinates: parts[0] }
+        : { type: 'MultiLineString', coordinates: parts };
+    }
+    default:
+      return null;
+  }
+}
+
+function readShp(buffer: Buffer): (Geometry | null)[] {
+  if (buffer.length < 100 || buffer.readInt32BE(0) !== 9994) {
+    throw new Error('The .shp file is not a valid shapefile.');
+  }
+
+  const fileLength = buffer.readInt32BE(24) * 2;
+  const geometries: (Geometry | null)[] = [];
+  let offset = 100;
+
+  while (offset + 8 <= Math.min(fileLength, buffer.length)) {
+    // Record headers are big-endian and measure content length in 16-bit words
+    const contentLength = buffer.readInt32BE(offset + 4) * 2;
+    geometries.push(readShapeRecord(buffer, offset + 8));
+    offset += 8 + contentLength;
+  }
+
+  return geometries;
+}
+
+function readDbf(buffer: Buffer, encoding: BufferEncoding): Record<string, any>[] {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let offset = 32; offset < headerLength - 1 && buffer[offset] !== 0x0d; offset += 32) {
+    fields.push({
+      name: buffer.toString('latin1', offset, offset + 11).replace(/\0.*$/, '').trim(),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const records: Record<string, any>[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    let offset = headerLength + i * recordLength;
+    // The first byte of each record is the deletion flag; deleted rows keep their slot
+    offset += 1;
+
+    const record: Record<string, any> = {};
+    fields.forEach(field => {
+      const raw = buffer.toString(encoding, offset, offset + field.length).trim();
+      offset += field.length;
+
+      switch (field.type) {
+        case 'N':
+        case 'F':
+          record[field.name] = raw === '' || isNaN(Number(raw)) ? null : Number(raw);
+          break;
+        case 'L':
+          record[field.name] = /^[YyTt]$/.test(raw) ? true : /^[NnFf]$/.test(raw) ? false : null;
+          break;
+        case 'D':
+          record[field.name] = raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}` : null;
+          break;
+        default:
+          record[field.name] = raw;
+      }
+    });
+    records.push(record);
+  }
+
+  return records;
+}
+
+function unprojectGeometry(geometry: Geometry, unproject: Unproject): Geometry {
+  const map = (coordinates: any): any =>
+    typeof coordinates[0] === 'number' ? unproject(coordinates) : coordinates.map(map);
+
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: geometry.geometries.map(child => unprojectGeometry(child, unproject)) };
+  }
+  return { ...geometry, coordinates: map(geometry.coordinates) } as Geometry;
+}
+
+/**
+ * Converts a zipped shapefile (.shp with its .dbf and optional .prj/.cpg sidecars) into GeoJSON
+ * in WGS84. Only the first shapefile in the archive is read.
+ */
+export function convertShapefileZip(buffer: Buffer): FeatureCollection {
+  const entries = readZipEntries(buffer);
+  const findEntry = (extension: string, baseName?: string) =>
+    entries.find(entry => {
+      const name = entry.name.toLowerCase();
+      return name.endsWith(extension) && !name.includes('__macosx') && (!baseName || name === baseName + extension);
+    });
+
+  const shpEntry = findEntry('.shp');
+  if (!shpEntry) {
+    throw new Error('The zip file does not contain a .shp file.');
+  }
+  const baseName = shpEntry.name.toLowerCase().slice(0, -4);
+  const dbfEntry = findEntry('.dbf', baseName);
+  const prjEntry = findEntry('.prj', baseName);
+  const cpgEntry = findEntry('.cpg', baseName);
+
+  const geometries = readShp(shpEntry.read());
+  const encoding: BufferEncoding =
+    cpgEntry && /utf-?8/i.test(cpgEntry.read().toString('latin1')) ? 'utf-8' : 'latin1';
+  const records = dbfEntry ? readDbf(dbfEntry.read(), encoding) : [];
+  const unproject = prjEntry ? createUnprojector(prjEntry.read().toString('latin1')) : null;
+
+  const features: Feature[] = [];
+  geometries.forEach((geometry, index) => {
+    if (!geometry) return;
+    features.push({
+      type: 'Feature',
+      geometry: unproject ? unprojectGeometry(geometry, unproject) : geometry,
+      properties: records[index] || {},
+    });
+  });
+
+  return { type: 'FeatureCollection', features };
+}
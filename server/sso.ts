@@ -0,0 +1,367 @@
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE) against the identity
+ * providers admins configure per school. The ID token is validated here: signature against the
+ * provider's published keys, issuer, audience, expiry and nonce.
+ *
+ * A provider identity is matched to an account by email the first time and by its subject
+ * identifier after that. When no account has the email, a student account can be created.
+ * Accounts are only matched or created by email when the provider says the address is verified.
+ * Each provider belongs to a school and only signs in that school's accounts. An admin adds
+ * accounts to a school; an account with no school joins the provider's only when the provider
+ * restricts email domains and the address is in one of them.
+ *
+ * APP_URL sets the public address used in the redirect URI (e.g. https://civicscape.example.org)
+ * when the server sits behind a proxy; by default it is taken from the request.
+ */
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import type { Request } from 'express';
+import type { SsoProvider, User } from '@shared/schema';
+import { storage } from './storage';
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+// A rotated signing key is picked up by refetching the key set, but not more often than this
+const JWKS_REFETCH_MS = 60 * 1000;
+// How long the user has to sign in at the provider
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 120;
+
+export class SsoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SsoError";
+    Object.setPrototypeOf(this, SsoError.prototype);
+  }
+}
+
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+}
+
+// Asymmetric algorithms only: "none" and the HMAC algorithms are refused
+const SIGNING_ALGORITHMS: Record<string, { hash: string; kty: 'RSA' | 'EC'; options: Partial<crypto.VerifyKeyObjectInput> }> = {
+  RS256: { hash: 'sha256', kty: 'RSA', options: {} },
+  RS384: { hash: 'sha384', kty: 'RSA', options: {} },
+  RS512: { hash: 'sha512', kty: 'RSA', options: {} },
+  PS256: { hash: 'sha256', kty: 'RSA', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+  PS384: { hash: 'sha384', kty: 'RSA', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 48 } },
+  PS512: { hash: 'sha512', kty: 'RSA', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 } },
+  ES256: { hash: 'sha256', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+  ES384: { hash: 'sha384', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+  ES512: { hash: 'sha512', kty: 'EC', options: { dsaEncoding: 'ieee-p1363' } },
+};
+
+const discoveryCache = new Map<string, { metadata: ProviderMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: crypto.JsonWebKey[]; fetchedAt: number }>();
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function withoutTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new SsoError(`The identity provider is unreachable: ${error instanceof Error ? error.message : error}`);
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const reason = data?.error_description || data?.error || `${response.status} ${response.statusText}`;
+    throw new SsoError(`The identity provider responded with an error: ${reason}`);
+  }
+  if (!data || typeof data !== 'object') {
+    throw new SsoError('The identity provider returned an unexpected response.');
+  }
+  return data;
+}
+
+// The provider's endpoints, from its OpenID Connect discovery document
+export async function discoverProvider(issuerUrl: string): Promise<ProviderMetadata> {
+  const issuer = withoutTrailingSlash(issuerUrl);
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) return cached.metadata;
+
+  const metadata = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  for (const field of ['issuer', 'authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof metadata[field] !== 'string') {
+      throw new SsoError(`The identity provider's discovery document has no ${field}.`);
+    }
+  }
+  // Guards against a discovery document served for (or impersonating) another issuer
+  if (withoutTrailingSlash(metadata.issuer) !== issuer) {
+    throw new SsoError(`The identity provider identifies itself as ${metadata.issuer}, not ${issuerUrl}.`);
+  }
+
+  discoveryCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+export function getRedirectUri(req: Request): string {
+  const base = process.env.APP_URL ? withoutTrailingSlash(process.env.APP_URL) : `${req.protocol}://${req.get('host')}`;
+  return `${base}/api/auth/sso/callback`;
+}
+
+// Records the sign-in attempt and returns the provider URL to send the browser to
+export async function startSsoLogin(provider: SsoProvider, redirectUri: string): Promise<string> {
+  const metadata = await discoverProvider(provider.issuerUrl);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+
+  await storage.createSsoLoginState({
+    state,
+    providerId: provider.id,
+    nonce,
+    codeVerifier,
+    redirectUri,
+    expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS),
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', crypto.createHash('sha256').update(codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+async function exchangeCode(provider: SsoProvider, metadata: ProviderMetadata, code: string, codeVerifier: string, redirectUri: string): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    'Accept': 'application/json',
+  };
+
+  if (provider.clientSecret) {
+    // client_secret_basic is the default when a provider doesn't list its methods
+    const methods = metadata.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (methods.includes('client_secret_basic')) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', provider.clientSecret);
+    }
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (typeof tokens.id_token !== 'string') {
+    throw new SsoError('The identity provider did not return an ID token. Check that the "openid" scope is allowed.');
+  }
+  return tokens.id_token;
+}
+
+async function fetchSigningKeys(jwksUri: string): Promise<crypto.JsonWebKey[]> {
+  const jwks = await fetchJson(jwksUri);
+  if (!Array.isArray(jwks.keys)) {
+    throw new SsoError("The identity provider's key set is invalid.");
+  }
+  jwksCache.set(jwksUri, { keys: jwks.keys, fetchedAt: Date.now() });
+  return jwks.keys;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined, kty: 'RSA' | 'EC'): Promise<crypto.KeyObject> {
+  const findKey = (keys: crypto.JsonWebKey[]) => {
+    const candidates = keys.filter(key => key.kty === kty && key.use !== 'enc');
+    return kid ? candidates.find(key => key.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  const cached = jwksCache.get(jwksUri);
+  let key = cached ? findKey(cached.keys) : undefined;
+  if (!key && (!cached || Date.now() - cached.fetchedAt > JWKS_REFETCH_MS)) {
+    key = findKey(await fetchSigningKeys(jwksUri));
+  }
+  if (!key) {
+    throw new SsoError('The ID token was signed with a key the identity provider does not publish.');
+  }
+  return crypto.createPublicKey({ key, format: 'jwk' });
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new SsoError('The ID token is malformed.');
+  }
+}
+
+export async function verifyIdToken(idToken: string, metadata: ProviderMetadata, clientId: string, nonce: string): Promise<IdTokenClaims> {
+  const segments = idToken.split('.');
+  if (segments.length !== 3) {
+    throw new SsoError('The ID token is malformed.');
+  }
+  const header = decodeSegment(segments[0]);
+  const claims: IdTokenClaims = decodeSegment(segments[1]);
+
+  const algorithm = SIGNING_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new SsoError(`ID tokens signed with ${header.alg} are not accepted.`);
+  }
+  const key = await getSigningKey(metadata.jwks_uri, header.kid, algorithm.kty);
+  const isValid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${segments[0]}.${segments[1]}`),
+    { key, ...algorithm.options },
+    Buffer.from(segments[2], 'base64url')
+  );
+  if (!isValid) {
+    throw new SsoError('The ID token signature is invalid.');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const problem =
+    claims.iss !== metadata.issuer ? 'was issued by another provider'
+    : !audiences.includes(clientId) ? 'was issued to another application'
+    : audiences.length > 1 && claims.azp !== undefined && claims.azp !== clientId ? 'was issued to another application'
+    : typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS ? 'has expired'
+    : typeof claims.iat !== 'number' || claims.iat > now + CLOCK_SKEW_SECONDS ? 'was issued in the future'
+    : claims.nonce !== nonce ? 'does not belong to this sign-in'
+    : typeof claims.sub !== 'string' || !claims.sub ? 'does not identify the user'
+    : null;
+  if (problem) {
+    throw new SsoError(`The ID token ${problem}.`);
+  }
+  return claims;
+}
+
+// Usernames for new accounts come from the email address, made unique with a number if needed
+async function generateUsername(email: string): Promise<string> {
+  const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9._-]/g, '') || 'student';
+  let username = base;
+  for (let suffix = 2; await storage.getUserByUsername(username); suffix++) {
+    username = `${base}${suffix}`;
+  }
+  return username;
+}
+
+async function provisionStudent(provider: SsoProvider, claims: IdTokenClaims, email: string): Promise<User> {
+  const [first = '', ...rest] = (claims.name ?? '').trim().split(/\s+/);
+  const username = await generateUsername(email);
+  return await storage.createUser({
+    username,
+    // Never handed out: SSO students sign in through their provider, or set a password via a reset
+    password: await bcrypt.hash(randomToken(), 10),
+    email,
+    role: 'student',
+    firstName: claims.given_name?.trim() || first || username,
+    lastName: claims.family_name?.trim() || rest.join(' '),
+    schoolId: provider.schoolId,
+  });
+}
+
+// Keeps one school's provider from signing in another school's accounts
+async function assertInProviderSchool(provider: SsoProvider, user: User): Promise<void> {
+  if (user.schoolId === provider.schoolId) return;
+  // The email domain check has already passed, so the address shows the account belongs here
+  if (user.schoolId === null && provider.emailDomains.length > 0) {
+    await storage.setUserSchool(user.id, provider.schoolId);
+    return;
+  }
+  throw new SsoError(
+    user.schoolId === null
+      ? `Your CivicScape account is not part of a school yet. Ask your administrator to add it before signing in with ${provider.name}.`
+      : `Your CivicScape account belongs to another school, so you cannot sign in with ${provider.name}.`
+  );
+}
+
+async function findOrCreateUser(provider: SsoProvider, claims: IdTokenClaims): Promise<User> {
+  const linked = await storage.getUserBySsoIdentity(provider.id, claims.sub);
+  if (linked) {
+    // Linked accounts joined the school when first linked; one removed from it since can't sign in
+    if (linked.schoolId !== provider.schoolId) {
+      throw new SsoError(`Your CivicScape account is no longer part of this school, so you cannot sign in with ${provider.name}.`);
+    }
+    await storage.linkSsoIdentity(provider.id, claims.sub, linked.id);
+    return linked;
+  }
+
+  const email = claims.email?.trim().toLowerCase();
+  if (!email) {
+    throw new SsoError(`${provider.name} did not share your email address, so your CivicScape account could not be found.`);
+  }
+  // Without a verified address anyone could claim an account's email; some providers send the flag as a string
+  if (claims.email_verified !== true && claims.email_verified !== 'true') {
+    throw new SsoError(`Your email address has not been verified with ${provider.name}.`);
+  }
+  if (provider.emailDomains.length > 0 && !provider.emailDomains.includes(email.split('@')[1])) {
+    throw new SsoError(`${email} cannot sign in with ${provider.name}.`);
+  }
+
+  let user = await storage.getUserByEmailIgnoreCase(email);
+  if (user?.role === 'admin') {
+    throw new SsoError('Administrators sign in with their password.');
+  }
+  if (!user) {
+    if (!provider.provisionStudents) {
+      throw new SsoError(`There is no CivicScape account for ${email}. Ask your teacher or administrator to create one.`);
+    }
+    user = await provisionStudent(provider, claims, email);
+  } else {
+    await assertInProviderSchool(provider, user);
+  }
+
+  await storage.linkSsoIdentity(provider.id, claims.sub, user.id);
+  return user;
+}
+
+/**
+ * Finishes a sign-in when the provider redirects back: checks the state, exchanges the code,
+ * validates the ID token and returns the matching (or newly created) user.
+ */
+export async function completeSsoLogin(params: { state?: string; code?: string; error?: string; error_description?: string }): Promise<User> {
+  const loginState = params.state ? await storage.consumeSsoLoginState(params.state) : undefined;
+  if (!loginState) {
+    throw new SsoError('This sign-in has expired or was already used. Please sign in again.');
+  }
+  if (params.error) {
+    throw new SsoError(`The sign-in was not completed: ${params.error_description || params.error}`);
+  }
+  if (!params.code) {
+    throw new SsoError('The identity provider did not return an authorization code.');
+  }
+
+  const provider = await storage.getSsoProviderById(loginState.providerId);
+  if (!provider?.isEnabled) {
+    throw new SsoError('This sign-in option is no longer available.');
+  }
+
+  const metadata = await discoverProvider(provider.issuerUrl);
+  const idToken = await exchangeCode(provider, metadata, params.code, loginState.codeVerifier, loginState.redirectUri);
+  const claims = await verifyIdToken(idToken, metadata, provider.clientId, loginState.nonce);
+  return await findOrCreateUser(provider, claims);
+}
@@ -15,6 +15,25 @@ import {
   aiConversations,
   aiChatMessages,
   passwordResetTokens,
+  sessions,
+  schools,
+  ssoProviders,
+  ssoIdentities,
+  ssoLoginStates,
+  loginThrottles,
+  accountLockouts,
+  twoFactorCredentials,
+  twoFactorRecoveryCodes,
+  twoFactorChallenges,
+  appSettings,
+  pictureLoginClasses,
+  pictureLoginCards,
+  gazetteerPlaces,
+  basemaps,
+  surveyRecords,
+  arcgisGroups,
+  arcgisItems,
+  datasets,
   type User,
   type InsertUser,
   type Class,
@@ -42,9 +61,45 @@ import {
   type InsertAiChatMessage,
   type PasswordResetToken,
   type InsertPasswordResetToken,
+  type Session,
+  type InsertSession,
+  type School,
+  type InsertSchool,
+  type SsoProvider,
+  type InsertSsoProvider,
+  type SsoLoginState,
+  type LoginThrottle,
+  type AccountLockout,
+  type InsertAccountLockout,
+  type AccountLockoutWithUser,
+  type TwoFactorCredential,
+  type TwoFactorChallenge,
+  type PictureLoginClass,
+  type PictureLoginCard,
+  type InsertPictureLoginCard,
+  type Basemap,
+  type InsertBasemap,
+  type ArcgisGroup,
+  type ArcgisItem,
+  type InsertArcgisItem,
+  type Dataset,
+  type InsertDataset,
+  type SurveyRecord,
+  type InsertSurveyRecord,
+  type SurveyRecordWithStudent,
+  type GazetteerPlace,
+  type InsertGazetteerPlace,
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, and, desc, inArray } from "drizzle-orm";
+import { eq, and, or, asc, desc, gt, lt, lte, inArray, notInArray, ne, isNull, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// ArcGIS groups assigned to the school, plus those shared by every school
+function offeredToSchool(schoolId: number | null) {
+  return schoolId === null
+    ? isNull(arcgisGroups.schoolId)
+    : or(isNull(arcgisGroups.schoolId), eq(arcgisGroups.schoolId, schoolId));
+}
 
 // Generate a unique 6-character enrollment code
 function generateEnrollmentCode(): string {
@@ -61,9 +116,12 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByEmailIgnoreCase(email: string): Promise<User | undefined>;
   getUsersByRole(role: string): Promise<User[]>;
   getStudentsByTeacher(teacherId: number): Promise<User[]>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser & { schoolId?: number | null }): Promise<User>;
+  getUsersBySchool(schoolId: number): Promise<User[]>;
+  setUserSchool(userId: number, schoolId: number | null): Promise<void>;
   
   // Class methods
   getClassesByTeacher(teacherId: number): Promise<Class[]>;
@@ -154,6 +212,102 @@ export interface IStorage {
   markPasswordResetTokenUsed(token: string): Promise<void>;
   invalidateUserPasswordResetTokens(userId: number): Promise<void>;
   updateUserPassword(userId: number, hashedPassword: string): Promise<void>;
+
+  // Session methods
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionByTokenHash(tokenHash: string): Promise<{ session: Session; user: User } | undefined>;
+  updateSession(id: number, session: Partial<InsertSession>): Promise<void>;
+  getActiveSessionsByUser(userId: number): Promise<Session[]>;
+  deleteSession(id: number, userId: number): Promise<boolean>;
+  deleteSessionsByUser(userId: number): Promise<number>;
+  deleteExpiredSessions(): Promise<number>;
+
+  // SSO methods
+  getSchools(): Promise<School[]>;
+  getSchoolById(id: number): Promise<School | undefined>;
+  getSchoolByName(name: string): Promise<School | undefined>;
+  createSchool(school: InsertSchool): Promise<School>;
+  getSsoProviders(includeDisabled?: boolean): Promise<SsoProvider[]>;
+  getSsoProviderById(id: number): Promise<SsoProvider | undefined>;
+  getSsoProviderBySlug(slug: string): Promise<SsoProvider | undefined>;
+  createSsoProvider(provider: InsertSsoProvider): Promise<SsoProvider>;
+  updateSsoProvider(id: number, provider: Partial<InsertSsoProvider>): Promise<SsoProvider | undefined>;
+  deleteSsoProvider(id: number): Promise<boolean>;
+  getUserBySsoIdentity(providerId: number, subject: string): Promise<User | undefined>;
+  linkSsoIdentity(providerId: number, subject: string, userId: number): Promise<void>;
+  createSsoLoginState(loginState: SsoLoginState): Promise<void>;
+  consumeSsoLoginState(state: string): Promise<SsoLoginState | undefined>;
+
+  // Login throttling methods
+  getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined>;
+  recordLoginThrottleAttempt(scope: string, key: string, windowStart: Date): Promise<LoginThrottle>;
+  setLoginThrottleBlock(id: number, blockedUntil: Date | null): Promise<void>;
+  deleteLoginThrottle(scope: string, key: string): Promise<void>;
+  deleteStaleLoginThrottles(before: Date): Promise<number>;
+  createAccountLockout(lockout: InsertAccountLockout): Promise<AccountLockout>;
+  getActiveAccountLockout(userId: number): Promise<AccountLockout | undefined>;
+  unlockAccount(userId: number, unlockedBy: number): Promise<number>;
+  getAccountLockouts(limit: number): Promise<AccountLockoutWithUser[]>;
+
+  // Two-factor methods
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  saveTwoFactorSecret(userId: number, secret: string): Promise<void>;
+  enableTwoFactor(userId: number, step: number): Promise<void>;
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  deleteTwoFactor(userId: number): Promise<void>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void>;
+  getTwoFactorChallenge(tokenHash: string): Promise<TwoFactorChallenge | undefined>;
+  deleteTwoFactorChallenge(tokenHash: string): Promise<void>;
+
+  // App setting methods
+  getAppSetting<T>(key: string): Promise<T | undefined>;
+  setAppSetting(key: string, value: unknown, updatedBy: number): Promise<void>;
+
+  // Picture login methods
+  getPictureLoginClass(classId: number): Promise<PictureLoginClass | undefined>;
+  getPictureLoginClassByCode(code: string): Promise<PictureLoginClass | undefined>;
+  createPictureLoginClass(classId: number, code: string, enabledBy: number): Promise<PictureLoginClass>;
+  deletePictureLoginClass(classId: number): Promise<void>;
+  getPictureLoginCards(classId: number): Promise<PictureLoginCard[]>;
+  getPictureLoginCard(classId: number, studentId: number): Promise<PictureLoginCard | undefined>;
+  getPictureLoginCardByBadge(classId: number, badgeTokenHash: string): Promise<PictureLoginCard | undefined>;
+  savePictureLoginCard(card: InsertPictureLoginCard): Promise<PictureLoginCard>;
+  deletePictureLoginCard(classId: number, studentId: number): Promise<void>;
+  getPictureLoginRoster(classId: number): Promise<Pick<User, 'id' | 'firstName' | 'lastName'>[]>;
+
+  // Basemap methods
+  getBasemaps(includeDisabled?: boolean): Promise<Basemap[]>;
+  createBasemap(basemap: InsertBasemap): Promise<Basemap>;
+  updateBasemap(id: number, basemap: Partial<InsertBasemap>): Promise<Basemap | undefined>;
+  deleteBasemap(id: number): Promise<boolean>;
+
+  // ArcGIS group methods
+  getArcgisGroups(includeDisabled?: boolean, schoolId?: number | null): Promise<ArcgisGroup[]>;
+  createArcgisGroup(group: typeof arcgisGroups.$inferInsert): Promise<ArcgisGroup>;
+  updateArcgisGroup(id: number, group: Partial<typeof arcgisGroups.$inferInsert>): Promise<ArcgisGroup | undefined>;
+  deleteArcgisGroup(id: number): Promise<boolean>;
+  getArcgisItemsByGroup(groupId: number): Promise<ArcgisItem[]>;
+  replaceArcgisItems(groupId: number, items: InsertArcgisItem[]): Promise<void>;
+  getCachedArcgisMaps(schoolId: number | null): Promise<{ itemId: string; title: string; description: string | null; hasThumbnail: boolean }[]>;
+  getArcgisThumbnail(itemId: string): Promise<{ thumbnail: Buffer; thumbnailType: string | null } | undefined>;
+
+  // Dataset catalog methods
+  getDatasets(): Promise<Dataset[]>;
+  countDatasets(): Promise<number>;
+  replaceDatasets(rows: InsertDataset[]): Promise<number>;
+
+  // Survey record methods
+  getSurveyRecords(assignmentId: number): Promise<SurveyRecordWithStudent[]>;
+  getSurveyRecordById(id: number): Promise<SurveyRecord | undefined>;
+  createSurveyRecord(record: InsertSurveyRecord): Promise<SurveyRecord>;
+  deleteSurveyRecord(id: number): Promise<boolean>;
+
+  // Gazetteer methods
+  searchGazetteer(name: string, state: string | null, limit: number): Promise<GazetteerPlace[]>;
+  upsertGazetteerPlaces(places: InsertGazetteerPlace[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -172,6 +326,12 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Identity providers don't preserve the case an address was registered with
+  async getUserByEmailIgnoreCase(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
+  }
+
   async getUsersByRole(role: string): Promise<User[]> {
     return await db.select().from(users).where(eq(users.role, role as "teacher" | "student"));
   }
@@ -185,6 +345,7 @@ export class DatabaseStorage implements IStorage {
       role: users.role,
       firstName: users.firstName,
       lastName: users.lastName,
+      schoolId: users.schoolId,
       createdAt: users.createdAt,
     })
     .from(users)
@@ -194,16 +355,24 @@ export class DatabaseStorage implements IStorage {
       eq(users.role, 'student'),
       eq(classes.teacherId, teacherId)
     ))
-    .groupBy(users.id, users.username, users.email, users.role, users.firstName, users.lastName, users.createdAt);
+    .groupBy(users.id, users.username, users.email, users.role, users.firstName, users.lastName, users.schoolId, users.createdAt);
     
     return result;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser & { schoolId?: number | null }): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
   }
 
+  async getUsersBySchool(schoolId: number): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.schoolId, schoolId)).orderBy(asc(users.lastName), asc(users.firstName));
+  }
+
+  async setUserSchool(userId: number, schoolId: number | null): Promise<void> {
+    await db.update(users).set({ schoolId }).where(eq(users.id, userId));
+  }
+
   async getClassesByTeacher(teacherId: number): Promise<any[]> {
     // Get classes with enrollment counts
     const result = await pool.query(`
@@ -539,6 +708,8 @@ export class DatabaseStorage implements IStorage {
       studentId: row.student_id,
       writtenResponse: row.written_response,
       mapData: row.map_data,
+      storyResponses: row.story_responses,
+      mapAnswers: row.map_answers,
       attachments: row.attachments,
       status: row.status,
       submittedAt: row.submitted_at,
@@ -590,6 +761,8 @@ export class DatabaseStorage implements IStorage {
       studentId: row.student_id,
       writtenResponse: row.written_response,
       mapData: row.map_data,
+      storyResponses: row.story_responses,
+      mapAnswers: row.map_answers,
       attachments: row.attachments,
       status: row.status,
       submittedAt: row.submitted_at,
@@ -649,6 +822,8 @@ export class DatabaseStorage implements IStorage {
       studentId: row.student_id,
       writtenResponse: row.written_response,
       mapData: row.map_data,
+      storyResponses: row.story_responses,
+      mapAnswers: row.map_answers,
       attachments: row.attachments,
       status: row.status,
       submittedAt: row.submitted_at,
@@ -693,6 +868,7 @@ export class DatabaseStorage implements IStorage {
         a.title as assignment_title, a.description as assignment_description,
         a.type as assignment_type, 
         a.due_date as assignment_due_date, a.attachments as assignment_attachments,
+        a.story_map as assignment_story_map,
         g.score as grade_score, g.max_score as grade_max_score, 
         g.feedback as grade_feedback, g.graded_at as grade_graded_at
       FROM submissions s
@@ -713,6 +889,8 @@ export class DatabaseStorage implements IStorage {
       studentId: row.student_id,
       writtenResponse: row.written_response,
       mapData: row.map_data,
+      storyResponses: row.story_responses,
+      mapAnswers: row.map_answers,
       attachments: row.attachments,
       status: row.status,
       submittedAt: row.submitted_at,
@@ -731,6 +909,7 @@ export class DatabaseStorage implements IStorage {
         type: row.assignment_type,
         dueDate: row.assignment_due_date,
         attachments: row.assignment_attachments,
+        storyMap: row.assignment_story_map,
       } : null,
       grade: row.grade_score !== null ? {
         score: row.grade_score,
@@ -1124,6 +1303,699 @@ export class DatabaseStorage implements IStorage {
       .set({ password: hashedPassword })
       .where(eq(users.id, userId));
   }
+
+  // Session methods
+  async createSession(session: InsertSession): Promise<Session> {
+    const [created] = await db.insert(sessions).values(session).returning();
+    return created;
+  }
+
+  async getSessionByTokenHash(tokenHash: string): Promise<{ session: Session; user: User } | undefined> {
+    const [row] = await db
+      .select({ session: sessions, user: users })
+      .from(sessions)
+      .innerJoin(users, eq(sessions.userId, users.id))
+      .where(and(
+        eq(sessions.tokenHash, tokenHash),
+        gt(sessions.expiresAt, new Date()),
+        gt(sessions.absoluteExpiresAt, new Date())
+      ));
+    return row || undefined;
+  }
+
+  async updateSession(id: number, session: Partial<InsertSession>): Promise<void> {
+    await db.update(sessions).set(session).where(eq(sessions.id, id));
+  }
+
+  async getActiveSessionsByUser(userId: number): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        gt(sessions.expiresAt, new Date()),
+        gt(sessions.absoluteExpiresAt, new Date())
+      ))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  // Scoped to the user so one user can't end another's session
+  async deleteSession(id: number, userId: number): Promise<boolean> {
+    const result = await db
+      .delete(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId)))
+      .returning({ id: sessions.id });
+    return result.length > 0;
+  }
+
+  async deleteSessionsByUser(userId: number): Promise<number> {
+    const result = await db.delete(sessions).where(eq(sessions.userId, userId)).returning({ id: sessions.id });
+    return result.length;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const now = new Date();
+    const result = await db
+      .delete(sessions)
+      .where(or(lte(sessions.expiresAt, now), lte(sessions.absoluteExpiresAt, now)))
+      .returning({ id: sessions.id });
+    return result.length;
+  }
+
+  // SSO methods
+  async getSchools(): Promise<School[]> {
+    return await db.select().from(schools).orderBy(asc(schools.name));
+  }
+
+  async getSchoolById(id: number): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.id, id));
+    return school || undefined;
+  }
+
+  async getSchoolByName(name: string): Promise<School | undefined> {
+    const [school] = await db.select().from(schools).where(eq(schools.name, name));
+    return school || undefined;
+  }
+
+  async createSchool(school: InsertSchool): Promise<School> {
+    const [created] = await db.insert(schools).values(school).returning();
+    return created;
+  }
+
+  async getSsoProviders(includeDisabled = false): Promise<SsoProvider[]> {
+    return await db
+      .select()
+      .from(ssoProviders)
+      .where(includeDisabled ? undefined : eq(ssoProviders.isEnabled, true))
+      .orderBy(asc(ssoProviders.name));
+  }
+
+  async getSsoProviderById(id: number): Promise<SsoProvider | undefined> {
+    const [provider] = await db.select().from(ssoProviders).where(eq(ssoProviders.id, id));
+    return provider || undefined;
+  }
+
+  async getSsoProviderBySlug(slug: string): Promise<SsoProvider | undefined> {
+    const [provider] = await db.select().from(ssoProviders).where(eq(ssoProviders.slug, slug));
+    return provider || undefined;
+  }
+
+  async createSsoProvider(provider: InsertSsoProvider): Promise<SsoProvider> {
+    const [created] = await db.insert(ssoProviders).values(provider).returning();
+    return created;
+  }
+
+  async updateSsoProvider(id: number, provider: Partial<InsertSsoProvider>): Promise<SsoProvider | undefined> {
+    const [updated] = await db
+      .update(ssoProviders)
+      .set(provider)
+      .where(eq(ssoProviders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSsoProvider(id: number): Promise<boolean> {
+    // Linked identities and pending sign-ins are removed with the provider (ON DELETE CASCADE)
+    const result = await db.delete(ssoProviders).where(eq(ssoProviders.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getUserBySsoIdentity(providerId: number, subject: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(ssoIdentities)
+      .innerJoin(users, eq(ssoIdentities.userId, users.id))
+      .where(and(eq(ssoIdentities.providerId, providerId), eq(ssoIdentities.subject, subject)));
+    return row?.user;
+  }
+
+  // Records a sign-in; the first one links the identity to the user
+  async linkSsoIdentity(providerId: number, subject: string, userId: number): Promise<void> {
+    await db
+      .insert(ssoIdentities)
+      .values({ providerId, subject, userId })
+      .onConflictDoUpdate({
+        target: [ssoIdentities.providerId, ssoIdentities.subject],
+        set: { lastLoginAt: new Date() },
+      });
+  }
+
+  async createSsoLoginState(loginState: SsoLoginState): Promise<void> {
+    // Abandoned sign-ins are cleared out as new ones start
+    await db.delete(ssoLoginStates).where(lte(ssoLoginStates.expiresAt, new Date()));
+    await db.insert(ssoLoginStates).values(loginState);
+  }
+
+  // Each state can be used once, so a replayed callback is refused
+  async consumeSsoLoginState(state: string): Promise<SsoLoginState | undefined> {
+    const [loginState] = await db
+      .delete(ssoLoginStates)
+      .where(and(eq(ssoLoginStates.state, state), gt(ssoLoginStates.expiresAt, new Date())))
+      .returning();
+    return loginState || undefined;
+  }
+
+  // Login throttling methods
+  async getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db
+      .select()
+      .from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    return throttle || undefined;
+  }
+
+  // Counts an attempt, starting the count over if the previous one was before windowStart
+  async recordLoginThrottleAttempt(scope: string, key: string, windowStart: Date): Promise<LoginThrottle> {
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ scope, key, attempts: 1, lastAttemptAt: new Date() })
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.key],
+        set: {
+          attempts: sql`case when ${loginThrottles.lastAttemptAt} < ${windowStart} then 1 else ${loginThrottles.attempts} + 1 end`,
+          lastAttemptAt: new Date(),
+        },
+      })
+      .returning();
+    return throttle;
+  }
+
+  async setLoginThrottleBlock(id: number, blockedUntil: Date | null): Promise<void> {
+    await db.update(loginThrottles).set({ blockedUntil }).where(eq(loginThrottles.id, id));
+  }
+
+  async deleteLoginThrottle(scope: string, key: string): Promise<void> {
+    await db.delete(loginThrottles).where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  }
+
+  async deleteStaleLoginThrottles(before: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(and(
+        lt(loginThrottles.lastAttemptAt, before),
+        or(isNull(loginThrottles.blockedUntil), lt(loginThrottles.blockedUntil, new Date())),
+      ))
+      .returning({ id: loginThrottles.id });
+    return deleted.length;
+  }
+
+  async createAccountLockout(lockout: InsertAccountLockout): Promise<AccountLockout> {
+    const [created] = await db.insert(accountLockouts).values(lockout).returning();
+    return created;
+  }
+
+  async getActiveAccountLockout(userId: number): Promise<AccountLockout | undefined> {
+    const [lockout] = await db
+      .select()
+      .from(accountLockouts)
+      .where(and(
+        eq(accountLockouts.userId, userId),
+        isNull(accountLockouts.unlockedAt),
+        gt(accountLockouts.lockedUntil, new Date()),
+      ))
+      .orderBy(desc(accountLockouts.lockedUntil))
+      .limit(1);
+    return lockout || undefined;
+  }
+
+  // Ends the user's current lockouts early; returns how many there were
+  async unlockAccount(userId: number, unlockedBy: number): Promise<number> {
+    const unlocked = await db
+      .update(accountLockouts)
+      .set({ unlockedAt: new Date(), unlockedBy })
+      .where(and(
+        eq(accountLockouts.userId, userId),
+        isNull(accountLockouts.unlockedAt),
+        gt(accountLockouts.lockedUntil, new Date()),
+      ))
+      .returning({ id: accountLockouts.id });
+    return unlocked.length;
+  }
+
+  async getAccountLockouts(limit: number): Promise<AccountLockoutWithUser[]> {
+    const unlocker = alias(users, 'unlocker');
+    const rows = await db
+      .select({
+        lockout: accountLockouts,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        role: users.role,
+        unlockerFirstName: unlocker.firstName,
+        unlockerLastName: unlocker.lastName,
+        unlockerUsername: unlocker.username,
+      })
+      .from(accountLockouts)
+      .innerJoin(users, eq(accountLockouts.userId, users.id))
+      .leftJoin(unlocker, eq(accountLockouts.unlockedBy, unlocker.id))
+      .orderBy(desc(accountLockouts.lockedAt))
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...row.lockout,
+      username: row.username,
+      userName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.username,
+      role: row.role,
+      unlockedByName: row.unlockerUsername
+        ? [row.unlockerFirstName, row.unlockerLastName].filter(Boolean).join(' ') || row.unlockerUsername
+        : null,
+    }));
+  }
+
+  // Two-factor methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential || undefined;
+  }
+
+  // Starts (or restarts) enrolment; two-factor stays off until enableTwoFactor
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<void> {
+    await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
+  }
+
+  async enableTwoFactor(userId: number, step: number): Promise<void> {
+    await db
+      .update(twoFactorCredentials)
+      .set({ enabledAt: new Date(), lastUsedStep: step })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // False when a code from this time step (or a later one) was already accepted
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step)),
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return updated.length > 0;
+  }
+
+  async deleteTwoFactor(userId: number): Promise<void> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await db.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async createTwoFactorChallenge(challenge: TwoFactorChallenge): Promise<void> {
+    await db.delete(twoFactorChallenges).where(lte(twoFactorChallenges.expiresAt, new Date()));
+    await db.insert(twoFactorChallenges).values(challenge);
+  }
+
+  async getTwoFactorChallenge(tokenHash: string): Promise<TwoFactorChallenge | undefined> {
+    const [challenge] = await db
+      .select()
+      .from(twoFactorChallenges)
+      .where(and(eq(twoFactorChallenges.tokenHash, tokenHash), gt(twoFactorChallenges.expiresAt, new Date())));
+    return challenge || undefined;
+  }
+
+  async deleteTwoFactorChallenge(tokenHash: string): Promise<void> {
+    await db.delete(twoFactorChallenges).where(eq(twoFactorChallenges.tokenHash, tokenHash));
+  }
+
+  // App setting methods
+  async getAppSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting ? setting.value as T : undefined;
+  }
+
+  async setAppSetting(key: string, value: unknown, updatedBy: number): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedBy, updatedAt: new Date() },
+      });
+  }
+
+  // Picture login methods
+  async getPictureLoginClass(classId: number): Promise<PictureLoginClass | undefined> {
+    const [pictureLogin] = await db.select().from(pictureLoginClasses).where(eq(pictureLoginClasses.classId, classId));
+    return pictureLogin || undefined;
+  }
+
+  async getPictureLoginClassByCode(code: string): Promise<PictureLoginClass | undefined> {
+    const [pictureLogin] = await db.select().from(pictureLoginClasses).where(eq(pictureLoginClasses.code, code));
+    return pictureLogin || undefined;
+  }
+
+  // Keeps the existing code when the class already allows picture login
+  async createPictureLoginClass(classId: number, code: string, enabledBy: number): Promise<PictureLoginClass> {
+    await db
+      .insert(pictureLoginClasses)
+      .values({ classId, code, enabledBy })
+      .onConflictDoNothing({ target: pictureLoginClasses.classId });
+    return (await this.getPictureLoginClass(classId))!;
+  }
+
+  // Printed cards stop working along with the class sign-in link
+  async deletePictureLoginClass(classId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(pictureLoginCards).where(eq(pictureLoginCards.classId, classId));
+      await tx.delete(pictureLoginClasses).where(eq(pictureLoginClasses.classId, classId));
+    });
+  }
+
+  async getPictureLoginCards(classId: number): Promise<PictureLoginCard[]> {
+    return await db.select().from(pictureLoginCards).where(eq(pictureLoginCards.classId, classId));
+  }
+
+  async getPictureLoginCard(classId: number, studentId: number): Promise<PictureLoginCard | undefined> {
+    const [card] = await db
+      .select()
+      .from(pictureLoginCards)
+      .where(and(eq(pictureLoginCards.classId, classId), eq(pictureLoginCards.studentId, studentId)));
+    return card || undefined;
+  }
+
+  async getPictureLoginCardByBadge(classId: number, badgeTokenHash: string): Promise<PictureLoginCard | undefined> {
+    const [card] = await db
+      .select()
+      .from(pictureLoginCards)
+      .where(and(eq(pictureLoginCards.classId, classId), eq(pictureLoginCards.badgeTokenHash, badgeTokenHash)));
+    return card || undefined;
+  }
+
+  // A new card replaces the student's previous one for the class
+  async savePictureLoginCard(card: InsertPictureLoginCard): Promise<PictureLoginCard> {
+    const [saved] = await db
+      .insert(pictureLoginCards)
+      .values(card)
+      .onConflictDoUpdate({
+        target: [pictureLoginCards.classId, pictureLoginCards.studentId],
+        set: {
+          picturesHash: card.picturesHash,
+          badgeTokenHash: card.badgeTokenHash,
+          createdBy: card.createdBy,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePictureLoginCard(classId: number, studentId: number): Promise<void> {
+    await db
+      .delete(pictureLoginCards)
+      .where(and(eq(pictureLoginCards.classId, classId), eq(pictureLoginCards.studentId, studentId)));
+  }
+
+  // Students still enrolled in the class who have a login card for it
+  async getPictureLoginRoster(classId: number): Promise<Pick<User, 'id' | 'firstName' | 'lastName'>[]> {
+    return await db
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+      .from(pictureLoginCards)
+      .innerJoin(users, eq(pictureLoginCards.studentId, users.id))
+      .innerJoin(enrollments, and(
+        eq(enrollments.studentId, pictureLoginCards.studentId),
+        eq(enrollments.classId, pictureLoginCards.classId),
+      ))
+      .where(eq(pictureLoginCards.classId, classId))
+      .orderBy(asc(users.firstName), asc(users.lastName));
+  }
+
+  // Basemap methods
+  async getBasemaps(includeDisabled = false): Promise<Basemap[]> {
+    return await db
+      .select()
+      .from(basemaps)
+      .where(includeDisabled ? undefined : eq(basemaps.isEnabled, true))
+      .orderBy(asc(basemaps.sortOrder), asc(basemaps.name));
+  }
+
+  async createBasemap(basemap: InsertBasemap): Promise<Basemap> {
+    const [created] = await db.insert(basemaps).values(basemap).returning();
+    if (created.isDefault) await this.clearOtherDefaultBasemaps(created.id);
+    return created;
+  }
+
+  async updateBasemap(id: number, basemap: Partial<InsertBasemap>): Promise<Basemap | undefined> {
+    const [updated] = await db
+      .update(basemaps)
+      .set(basemap)
+      .where(eq(basemaps.id, id))
+      .returning();
+    if (updated?.isDefault) await this.clearOtherDefaultBasemaps(updated.id);
+    return updated || undefined;
+  }
+
+  async deleteBasemap(id: number): Promise<boolean> {
+    const result = await db.delete(basemaps).where(eq(basemaps.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Only one basemap is the default
+  private async clearOtherDefaultBasemaps(id: number): Promise<void> {
+    await db
+      .update(basemaps)
+      .set({ isDefault: false })
+      .where(and(ne(basemaps.id, id), eq(basemaps.isDefault, true)));
+  }
+
+  // ArcGIS group methods
+  // Given a school (null for accounts without one), only the groups whose maps it is offered
+  async getArcgisGroups(includeDisabled = false, schoolId?: number | null): Promise<ArcgisGroup[]> {
+    return await db
+      .select()
+      .from(arcgisGroups)
+      .where(and(
+        includeDisabled ? undefined : eq(arcgisGroups.isEnabled, true),
+        schoolId === undefined ? undefined : offeredToSchool(schoolId),
+      ))
+      .orderBy(asc(arcgisGroups.name));
+  }
+
+  async createArcgisGroup(group: typeof arcgisGroups.$inferInsert): Promise<ArcgisGroup> {
+    const [created] = await db.insert(arcgisGroups).values(group).returning();
+    return created;
+  }
+
+  async updateArcgisGroup(id: number, group: Partial<typeof arcgisGroups.$inferInsert>): Promise<ArcgisGroup | undefined> {
+    const [updated] = await db
+      .update(arcgisGroups)
+      .set(group)
+      .where(eq(arcgisGroups.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteArcgisGroup(id: number): Promise<boolean> {
+    // Cached items are removed with the group (ON DELETE CASCADE)
+    const result = await db.delete(arcgisGroups).where(eq(arcgisGroups.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getArcgisItemsByGroup(groupId: number): Promise<ArcgisItem[]> {
+    return await db.select().from(arcgisItems).where(eq(arcgisItems.groupId, groupId));
+  }
+
+  async replaceArcgisItems(groupId: number, items: InsertArcgisItem[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(arcgisItems).where(eq(arcgisItems.groupId, groupId));
+      if (items.length > 0) {
+        await tx.insert(arcgisItems).values(items).onConflictDoNothing();
+      }
+    });
+  }
+
+  async getCachedArcgisMaps(schoolId: number | null): Promise<{ itemId: string; title: string; description: string | null; hasThumbnail: boolean }[]> {
+    // Thumbnails are served separately, so the image data isn't loaded here
+    const rows = await db
+      .select({
+        itemId: arcgisItems.itemId,
+        title: arcgisItems.title,
+        description: arcgisItems.description,
+        hasThumbnail: sql<boolean>`${arcgisItems.thumbnail} IS NOT NULL`,
+      })
+      .from(arcgisItems)
+      .innerJoin(arcgisGroups, eq(arcgisItems.groupId, arcgisGroups.id))
+      .where(and(eq(arcgisGroups.isEnabled, true), offeredToSchool(schoolId)))
+      .orderBy(asc(arcgisItems.title));
+
+    // A map shared to several groups is listed once
+    const seen = new Set<string>();
+    return rows.filter(row => !seen.has(row.itemId) && !!seen.add(row.itemId));
+  }
+
+  async getArcgisThumbnail(itemId: string): Promise<{ thumbnail: Buffer; thumbnailType: string | null } | undefined> {
+    const [item] = await db
+      .select({ thumbnail: arcgisItems.thumbnail, thumbnailType: arcgisItems.thumbnailType })
+      .from(arcgisItems)
+      .where(and(eq(arcgisItems.itemId, itemId), sql`${arcgisItems.thumbnail} IS NOT NULL`))
+      .limit(1);
+    return item?.thumbnail ? { thumbnail: item.thumbnail, thumbnailType: item.thumbnailType } : undefined;
+  }
+
+  // Dataset catalog methods
+  async getDatasets(): Promise<Dataset[]> {
+    return await db.select().from(datasets).orderBy(asc(datasets.title));
+  }
+
+  async countDatasets(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(datasets);
+    return count;
+  }
+
+  // Upserts by item id and removes datasets not in rows; returns how many were removed
+  async replaceDatasets(rows: InsertDataset[]): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(datasets)
+        .values(rows.map(row => ({ ...row, importedAt: new Date() })))
+        .onConflictDoUpdate({
+          target: datasets.itemId,
+          set: {
+            title: sql`excluded.title`,
+            itemUrl: sql`excluded.item_url`,
+            isVisualized: sql`excluded.is_visualized`,
+            creator: sql`excluded.creator`,
+            source: sql`excluded.source`,
+            dateIssued: sql`excluded.date_issued`,
+            sourceUrl: sql`excluded.source_url`,
+            datesOfData: sql`excluded.dates_of_data`,
+            spatialCoverage: sql`excluded.spatial_coverage`,
+            geometry: sql`excluded.geometry`,
+            geographicUnit: sql`excluded.geographic_unit`,
+            format: sql`excluded.format`,
+            importedAt: sql`excluded.imported_at`,
+          },
+        });
+      const removed = await tx
+        .delete(datasets)
+        .where(notInArray(datasets.itemId, rows.map(row => row.itemId)))
+        .returning({ id: datasets.id });
+      return removed.length;
+    });
+  }
+
+  // Survey record methods
+  async getSurveyRecords(assignmentId: number): Promise<SurveyRecordWithStudent[]> {
+    const rows = await db
+      .select({
+        record: surveyRecords,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+      })
+      .from(surveyRecords)
+      .innerJoin(users, eq(surveyRecords.studentId, users.id))
+      .where(eq(surveyRecords.assignmentId, assignmentId))
+      .orderBy(asc(surveyRecords.createdAt));
+
+    return rows.map(({ record, firstName, lastName, username }) => ({
+      ...record,
+      studentName: [firstName, lastName].filter(Boolean).join(' ') || username,
+    }));
+  }
+
+  async getSurveyRecordById(id: number): Promise<SurveyRecord | undefined> {
+    const [record] = await db.select().from(surveyRecords).where(eq(surveyRecords.id, id));
+    return record || undefined;
+  }
+
+  async createSurveyRecord(record: InsertSurveyRecord): Promise<SurveyRecord> {
+    const [created] = await db.insert(surveyRecords).values(record).returning();
+    return created;
+  }
+
+  async deleteSurveyRecord(id: number): Promise<boolean> {
+    const result = await db.delete(surveyRecords).where(eq(surveyRecords.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Gazetteer methods
+  async searchGazetteer(name: string, state: string | null, limit: number): Promise<GazetteerPlace[]> {
+    const query = name.toLowerCase();
+    // Escape LIKE wildcards so "%" or "_" in a search are matched literally
+    const pattern = query.replace(/[\\%_]/g, '\\$&');
+
+    // Exact names first, then prefixes, then substrings and near misses (pg_trgm),
+    // with larger places ahead of smaller ones that match equally well
+    const result = await pool.query(`
+      SELECT *,
+        CASE
+          WHEN lower(name) = $1 THEN 0
+          WHEN lower(name) LIKE $2 || '%' THEN 1
+          WHEN lower(name) LIKE '%' || $2 || '%' THEN 2
+          ELSE 3
+        END AS match_rank,
+        similarity(lower(name), $1) AS match_score
+      FROM gazetteer_places
+      WHERE (lower(name) LIKE $2 || '%' OR lower(name) LIKE '%' || $2 || '%' OR lower(name) % $1)
+        AND ($3::text IS NULL OR state = $3)
+      ORDER BY match_rank, match_score DESC, land_area DESC NULLS LAST, name
+      LIMIT $4
+    `, [query, pattern, state, limit]);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      sourceId: row.source_id,
+      name: row.name,
+      state: row.state,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      landArea: row.land_area,
+    }));
+  }
+
+  async upsertGazetteerPlaces(places: InsertGazetteerPlace[]): Promise<number> {
+    // National files have tens of thousands of rows; insert in batches to stay under the parameter limit
+    const batchSize = 1000;
+    for (let i = 0; i < places.length; i += batchSize) {
+      await db
+        .insert(gazetteerPlaces)
+        .values(places.slice(i, i + batchSize))
+        .onConflictDoUpdate({
+          target: [gazetteerPlaces.kind, gazetteerPlaces.sourceId],
+          set: {
+            name: sql`excluded.name`,
+            state: sql`excluded.state`,
+            latitude: sql`excluded.latitude`,
+            longitude: sql`excluded.longitude`,
+            landArea: sql`excluded.land_area`,
+          },
+        });
+    }
+    return places.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TwoFactorCredential } from '@shared/schema';
+
+// The pool connects lazily, so storage can be imported without a database
+process.env.DATABASE_URL ||= 'postgres://localhost/unused';
+const { storage } = await import('./storage');
+const { regenerateRecoveryCodes, verifySecondFactor } = await import('./two-factor');
+
+// The RFC 4226 and RFC 6238 SHA-1 test secret, "12345678901234567890", in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const user = { id: 1, username: 'teacher', role: 'teacher' };
+
+let credential: TwoFactorCredential;
+const recoveryCodes = new Map<string, Date | null>();
+storage.getTwoFactorCredential = async () => credential;
+storage.recordTwoFactorStep = async (_userId, step) => {
+  if (credential.lastUsedStep !== null && credential.lastUsedStep >= step) return false;
+  credential.lastUsedStep = step;
+  return true;
+};
+storage.replaceRecoveryCodes = async (_userId, codeHashes) => {
+  recoveryCodes.clear();
+  codeHashes.forEach(codeHash => recoveryCodes.set(codeHash, null));
+};
+storage.useRecoveryCode = async (_userId, codeHash) => {
+  if (!recoveryCodes.has(codeHash) || recoveryCodes.get(codeHash)) return false;
+  recoveryCodes.set(codeHash, new Date());
+  return true;
+};
+
+function resetCredential() {
+  credential = { userId: user.id, secret: RFC_SECRET, enabledAt: new Date(), lastUsedStep: null, createdAt: new Date() };
+}
+
+// Checks a code as if the clock read `seconds` past the epoch; returns the step it was accepted for
+async function verifyAt(seconds: number, code: string): Promise<number | null> {
+  resetCredential();
+  const realNow = Date.now;
+  Date.now = () => seconds * 1000;
+  try {
+    return await verifySecondFactor(user, { code }) ? credential.lastUsedStep : null;
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+test('Codes match the RFC 4226 HOTP test values', async () => {
+  const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+  for (let counter = 0; counter < expected.length; counter++) {
+    // Counter n is the 30-second step starting n * 30 seconds after the epoch
+    assert.equal(await verifyAt(counter * 30 + 15, expected[counter]), counter, `counter ${counter}`);
+  }
+});
+
+test('Codes match the RFC 6238 SHA-1 TOTP test values', async () => {
+  // The RFC lists 8-digit codes; 6-digit codes are their last six digits
+  const vectors: [number, string][] = [
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ];
+  for (const [seconds, code] of vectors) {
+    assert.equal(await verifyAt(seconds, code.slice(-6)), Math.floor(seconds / 30), `T = ${seconds}`);
+  }
+});
+
+test('Codes are accepted one step either side of their own and no further', async () => {
+  // 969429 is the code for step 3, which runs from 90 to 120 seconds
+  assert.equal(await verifyAt(59.999, '969429'), null);
+  assert.equal(await verifyAt(60, '969429'), 3);
+  assert.equal(await verifyAt(149.999, '969429'), 3);
+  assert.equal(await verifyAt(150, '969429'), null);
+});
+
+test('A code cannot be used twice within its step', async () => {
+  resetCredential();
+  const realNow = Date.now;
+  Date.now = () => 100 * 1000;
+  try {
+    assert.equal(await verifySecondFactor(user, { code: '969429' }), true);
+    assert.equal(await verifySecondFactor(user, { code: '969429' }), false);
+  } finally {
+    Date.now = realNow;
+  }
+});
+
+test('A recovery code works once, however it is typed', async () => {
+  resetCredential();
+  const [code, otherCode] = await regenerateRecoveryCodes(user);
+
+  assert.equal(await verifySecondFactor(user, { recoveryCode: code }), true);
+  assert.equal(await verifySecondFactor(user, { recoveryCode: code }), false);
+  assert.equal(await verifySecondFactor(user, { recoveryCode: code.replace('-', '').toLowerCase() }), false);
+  assert.equal(await verifySecondFactor(user, { recoveryCode: ` ${otherCode.toLowerCase()} ` }), true);
+});
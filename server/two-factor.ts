@@ -0,0 +1,252 @@
+/**
+ * Two-factor authentication for teacher and admin accounts: time-based one-time passwords
+ * (RFC 6238 with HMAC-SHA1, 6 digits and 30-second steps, as Google Authenticator, Microsoft
+ * Authenticator and similar apps generate them), plus single-use recovery codes for a lost phone.
+ *
+ * Once the password is accepted, a sign-in that needs a code gets a short-lived challenge token
+ * instead of a session. While admins make two-factor mandatory, teachers and admins who haven't
+ * set it up enrol during that same step.
+ */
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import type { TwoFactorChallenge, User } from '@shared/schema';
+import { storage } from './storage';
+
+const ISSUER = 'CivicScape';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted, for phones whose clocks are a little off
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+// How long the user has to enter their code after the password
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const REQUIRED_SETTING = 'require_two_factor';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// A signed-in user or a full account row both do
+type TwoFactorUser = Pick<User, 'id' | 'username'> & { role: string };
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+    Object.setPrototypeOf(this, TwoFactorError.prototype);
+  }
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Admins have made two-factor mandatory for this account's role
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// What the authenticator app needs; the QR code is a data: URL
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+// RFC 4226 HOTP value for one counter
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// The time step the code belongs to, or null when it matches none near the current time
+function matchTotp(secret: string, code: string): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    // Only reachable with a clock set to the epoch, but HOTP counters can't be negative
+    if (step < 0) continue;
+    if (crypto.timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Recovery codes are typed by hand, so case and dashes don't matter
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// e.g. "K7Q2-M4XP"; 40 random bits each
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(5));
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+}
+
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(code => hashCode(normalizeRecoveryCode(code))));
+  return codes;
+}
+
+export function isTwoFactorRole(role: string): boolean {
+  return role === 'teacher' || role === 'admin';
+}
+
+export async function isTwoFactorRequired(): Promise<boolean> {
+  return (await storage.getAppSetting<boolean>(REQUIRED_SETTING)) ?? false;
+}
+
+export async function setTwoFactorRequired(required: boolean, adminId: number): Promise<void> {
+  await storage.setAppSetting(REQUIRED_SETTING, required, adminId);
+}
+
+export async function getTwoFactorStatus(user: TwoFactorUser): Promise<TwoFactorStatus> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  const enabled = !!credential?.enabledAt;
+  return {
+    enabled,
+    required: isTwoFactorRole(user.role) && await isTwoFactorRequired(),
+    recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+  };
+}
+
+// What a sign-in still needs once the password is accepted: nothing, a code, or enrolment first
+export async function getSignInRequirement(user: TwoFactorUser): Promise<'none' | 'verify' | 'setup'> {
+  if (!isTwoFactorRole(user.role)) return 'none';
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (credential?.enabledAt) return 'verify';
+  return await isTwoFactorRequired() ? 'setup' : 'none';
+}
+
+export async function createChallenge(user: TwoFactorUser, purpose: TwoFactorChallenge['purpose'], ipAddress?: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await storage.createTwoFactorChallenge({
+    tokenHash: hashCode(token),
+    userId: user.id,
+    purpose,
+    ipAddress: ipAddress ?? null,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+  });
+  return token;
+}
+
+export async function getChallenge(token: unknown): Promise<TwoFactorChallenge | undefined> {
+  if (typeof token !== 'string' || !token) return undefined;
+  return await storage.getTwoFactorChallenge(hashCode(token));
+}
+
+export async function deleteChallenge(token: string): Promise<void> {
+  await storage.deleteTwoFactorChallenge(hashCode(token));
+}
+
+// Creates a new secret for the user to scan; two-factor isn't on until completeEnrolment
+export async function beginEnrolment(user: TwoFactorUser): Promise<TwoFactorEnrolment> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (credential?.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already turned on.');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+  await storage.saveTwoFactorSecret(user.id, secret);
+
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 }) };
+}
+
+// Turns two-factor on once the app produces a valid code; returns the first recovery codes
+export async function completeEnrolment(user: TwoFactorUser, code: unknown): Promise<string[] | null> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential) {
+    throw new TwoFactorError('Start the setup again to get a new QR code.');
+  }
+  if (credential.enabledAt) {
+    throw new TwoFactorError('Two-factor authentication is already turned on.');
+  }
+
+  const step = typeof code === 'string' ? matchTotp(credential.secret, code) : null;
+  if (step === null) return null;
+
+  await storage.enableTwoFactor(user.id, step);
+  return await issueRecoveryCodes(user.id);
+}
+
+// Checks an authenticator code, or failing that a recovery code, which is used up
+export async function verifySecondFactor(
+  user: TwoFactorUser,
+  factor: { code?: unknown; recoveryCode?: unknown },
+): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential?.enabledAt) return false;
+
+  if (typeof factor.code === 'string' && factor.code) {
+    const step = matchTotp(credential.secret, factor.code);
+    // Each code works once, even within its 30 seconds
+    return step !== null && await storage.recordTwoFactorStep(user.id, step);
+  }
+  if (typeof factor.recoveryCode === 'string' && factor.recoveryCode) {
+    return await storage.useRecoveryCode(user.id, hashCode(normalizeRecoveryCode(factor.recoveryCode)));
+  }
+  return false;
+}
+
+// Replaces every recovery code, used or not
+export async function regenerateRecoveryCodes(user: TwoFactorUser): Promise<string[]> {
+  return await issueRecoveryCodes(user.id);
+}
+
+export async function disableTwoFactor(user: TwoFactorUser): Promise<void> {
+  if (isTwoFactorRole(user.role) && await isTwoFactorRequired()) {
+    throw new TwoFactorError('Two-factor authentication is required for your account and cannot be turned off.');
+  }
+  await storage.deleteTwoFactor(user.id);
+}
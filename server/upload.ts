@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
+import { convertGeoFile, getGeoFileFormat, GeoImportError } from './geo-import';
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
@@ -49,6 +50,15 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
   }
 };
 
+// Browsers often report GeoJSON/KMZ/zip as octet-stream, so map layer files are accepted by extension
+const mapLayerFileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  if (getGeoFileFormat(file.originalname)) {
+    cb(null, true);
+  } else {
+    cb(new Error('File type not allowed. Please upload a map layer (GeoJSON, KML, KMZ, CSV, zipped shapefile) file.'));
+  }
+};
+
 export const upload = multer({
   storage,
   fileFilter,
@@ -58,6 +68,16 @@ export const upload = multer({
   }
 });
 
+// Only for the map layer import route, so other uploads keep the general allow-list
+export const mapLayerUpload = multer({
+  storage,
+  fileFilter: mapLayerFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+    files: 1
+  }
+});
+
 // File serving route handler
 export const serveFile = async (req: Request, res: Response) => {
   try {
@@ -88,7 +108,12 @@ export const serveFile = async (req: Request, res: Response) => {
       '.png': 'image/png',
       '.gif': 'image/gif',
       '.webp': 'image/webp',
-      '.svg': 'image/svg+xml'
+      '.svg': 'image/svg+xml',
+      '.geojson': 'application/geo+json',
+      '.json': 'application/json',
+      '.kml': 'application/vnd.google-earth.kml+xml',
+      '.kmz': 'application/vnd.google-earth.kmz',
+      '.zip': 'application/zip'
     };
 
     const mimeType = mimeTypes[ext] || 'application/octet-stream';
@@ -124,4 +149,52 @@ export const uploadAssignmentFiles = async (req: Request, res: Response) => {
     console.error('Error uploading files:', error);
     res.status(500).json({ message: 'Error uploading files' });
   }
-};
\ No newline at end of file
+};
+
+// Upload handler for map layer files: converts GeoJSON, KML/KMZ, CSV or a zipped shapefile into a GeoJSON layer
+export const importMapLayer = async (req: Request, res: Response) => {
+  const file = req.file;
+  if (!file) {
+    return res.status(400).json({ message: 'No file uploaded' });
+  }
+
+  try {
+    const buffer = await fs.readFile(file.path);
+    const { format, data, warnings } = convertGeoFile(buffer, file.originalname);
+
+    // Shapefiles can't be displayed directly, so the converted GeoJSON is kept alongside the upload
+    let geojsonUrl: string | undefined;
+    if (format === 'shapefile') {
+      const geojsonFilename = `${path.basename(file.filename, path.extname(file.filename))}.geojson`;
+      await fs.writeFile(path.join(path.dirname(file.path), geojsonFilename), JSON.stringify(data));
+      geojsonUrl = `/api/uploads/${geojsonFilename}`;
+    }
+
+    res.json({
+      file: {
+        originalName: file.originalname,
+        filename: file.filename,
+        url: `/api/uploads/${file.filename}`,
+        size: file.size,
+        mimetype: file.mimetype
+      },
+      layer: {
+        name: path.basename(file.originalname, path.extname(file.originalname)),
+        format,
+        featureCount: data.features.length,
+        data,
+        geojsonUrl,
+        warnings
+      }
+    });
+  } catch (error) {
+    // Invalid layer files are not kept in uploads/
+    await fs.unlink(file.path).catch(() => {});
+
+    if (error instanceof GeoImportError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error('Error importing map layer:', error);
+    res.status(500).json({ message: 'Error importing map layer' });
+  }
+};
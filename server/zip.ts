@@ -0,0 +1,76 @@
+import { inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  read: () => Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Largest entry we will inflate; stops a small upload expanding into gigabytes (a "zip bomb")
+export const MAX_ZIP_ENTRY_BYTES = 100 * 1024 * 1024;
+
+// Minimal reader for the zip archives we accept (KMZ, zipped shapefiles).
+// Supports stored and deflated entries, which covers what GIS tools produce.
+export function readZipEntries(buffer: Buffer): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('File is not a valid zip archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Zip archive is corrupted');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    entries.push({
+      name,
+      read: () => {
+        if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER) {
+          throw new Error('Zip archive is corrupted');
+        }
+        const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+        const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+        const start = localHeaderOffset + 30 + localNameLength + localExtraLength;
+        const data = buffer.subarray(start, start + compressedSize);
+        if (method === 0) return data;
+        if (method !== 8) {
+          throw new Error(`Unsupported zip compression method for ${name}`);
+        }
+        if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) {
+          throw new Error(`${name} is too large to import once uncompressed.`);
+        }
+        // The central directory's size is a claim; inflating more than it promised fails instead of growing
+        try {
+          return inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) });
+        } catch {
+          throw new Error(`${name} could not be decompressed; the zip archive may be corrupted.`);
+        }
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries.filter(entry => !entry.name.endsWith('/'));
+}
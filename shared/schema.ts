@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, unique, customType } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -11,6 +11,8 @@ export const users = pgTable("users", {
   role: text("role", { enum: ["admin", "teacher", "student"] }).notNull(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
+  // The school whose single sign-on providers may sign this user in; set by an admin or an email domain match
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -56,6 +58,13 @@ export const assignments = pgTable("assignments", {
   isGraded: boolean("is_graded").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   selectedMaps: jsonb("maps"),
+  starterMap: jsonb("starter_map"),
+  storyMap: jsonb("story_map"),
+  mapQuestions: jsonb("map_questions").$type<MapQuestion[]>(),
+  // Keys of the basemaps students may choose from; every enabled basemap when null
+  allowedBasemaps: jsonb("allowed_basemaps").$type<string[]>(),
+  // Set for field survey assignments: the form students fill in for each observation
+  surveyForm: jsonb("survey_form").$type<SurveyForm>(),
 });
 
 export const enrollments = pgTable("enrollments", {
@@ -78,6 +87,9 @@ export const submissions = pgTable("submissions", {
   studentId: integer("student_id").notNull().references(() => users.id),
   writtenResponse: text("written_response"),
   mapData: jsonb("map_data"),
+  // Story map answers keyed by slide id
+  storyResponses: jsonb("story_responses").$type<Record<string, string>>(),
+  mapAnswers: jsonb("map_answers"),
   attachments: jsonb("attachments"),
   status: text("status", { enum: ["draft", "submitted", "graded"] }).default("draft").notNull(),
   submittedAt: timestamp("submitted_at"),
@@ -192,6 +204,276 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Signed-in devices. Only a hash of each bearer token is stored, so the table can't be used to sign in
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Shown in the user's list of active sessions
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  // Pushed forward while the session is in use, but never past absoluteExpiresAt
+  expiresAt: timestamp("expires_at").notNull(),
+  absoluteExpiresAt: timestamp("absolute_expires_at").notNull(),
+});
+
+// Schools or districts that sign in with SSO; a provider only signs in its own school's users
+export const schools = pgTable("schools", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// OpenID Connect identity providers, one per school or district that signs in with SSO
+export const ssoProviders = pgTable("sso_providers", {
+  id: serial("id").primaryKey(),
+  schoolId: integer("school_id").notNull().references(() => schools.id),
+  // Shown on the login page as "Sign in with <name>"
+  name: text("name").notNull(),
+  // Used in the sign-in URL, e.g. /api/auth/sso/lincoln-high/start
+  slug: text("slug").notNull().unique(),
+  // Issuer whose /.well-known/openid-configuration describes the provider
+  issuerUrl: text("issuer_url").notNull(),
+  clientId: text("client_id").notNull(),
+  // Unset for public clients, which rely on PKCE alone
+  clientSecret: text("client_secret"),
+  scopes: text("scopes").default("openid email profile").notNull(),
+  // Email domains this provider may sign in; accounts are only linked or created for these
+  emailDomains: jsonb("email_domains").$type<string[]>().default([]).notNull(),
+  // Create a student account on first sign-in when no account has the user's email
+  provisionStudents: boolean("provision_students").default(true).notNull(),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Links a provider's subject identifier to a CivicScape user, so later sign-ins don't depend on the email
+export const ssoIdentities = pgTable("sso_identities", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => ssoProviders.id, { onDelete: "cascade" }),
+  subject: text("subject").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastLoginAt: timestamp("last_login_at").defaultNow().notNull(),
+}, (table) => [
+  unique("sso_identities_provider_id_subject_unique").on(table.providerId, table.subject),
+]);
+
+// Sign-ins in progress: what the callback needs to finish the authorization code flow
+export const ssoLoginStates = pgTable("sso_login_states", {
+  state: text("state").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => ssoProviders.id, { onDelete: "cascade" }),
+  nonce: text("nonce").notNull(),
+  // PKCE verifier; the provider only saw its SHA-256 challenge
+  codeVerifier: text("code_verifier").notNull(),
+  redirectUri: text("redirect_uri").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Recent failed sign-ins and password reset requests per username or IP address, for throttling
+export const loginThrottles = pgTable("login_throttles", {
+  id: serial("id").primaryKey(),
+  // e.g. "login:username" or "reset:ip"
+  scope: text("scope").notNull(),
+  // Lowercased username or IP address
+  key: text("key").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastAttemptAt: timestamp("last_attempt_at").defaultNow().notNull(),
+  // No further attempts are accepted before this
+  blockedUntil: timestamp("blocked_until"),
+}, (table) => [
+  unique("login_throttles_scope_key_unique").on(table.scope, table.key),
+]);
+
+// Accounts locked after repeated failed sign-ins; rows are kept after they end as an audit trail
+export const accountLockouts = pgTable("account_lockouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Where the last failed attempt came from
+  ipAddress: text("ip_address"),
+  failedAttempts: integer("failed_attempts").notNull(),
+  lockedAt: timestamp("locked_at").defaultNow().notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  // Set when a teacher or admin ends the lockout early
+  unlockedAt: timestamp("unlocked_at"),
+  unlockedBy: integer("unlocked_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// TOTP two-factor authentication for a teacher or admin account
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  // Base32 shared secret, as encoded in the authenticator app's QR code
+  secret: text("secret").notNull(),
+  // Null until the user proves their app works by entering a code
+  enabledAt: timestamp("enabled_at"),
+  // Time step of the last accepted code, so a code can't be used twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One-time codes for signing in without the authenticator app
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Sign-ins that passed the password check and are waiting for a two-factor code
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  tokenHash: text("token_hash").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // "setup" when the user must enrol before finishing the sign-in
+  purpose: text("purpose", { enum: ["verify", "setup"] }).notNull(),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Site-wide settings changed by admins, e.g. whether two-factor authentication is mandatory
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  updatedBy: integer("updated_by").references(() => users.id, { onDelete: "set null" }),
+});
+
+// Classes whose young students sign in from the roster instead of typing a password
+export const pictureLoginClasses = pgTable("picture_login_classes", {
+  classId: integer("class_id").primaryKey().references(() => classes.id, { onDelete: "cascade" }),
+  // In the class sign-in link, e.g. /picture-login/K7Q2M4XP; anyone with it can see the roster's first names
+  code: text("code").notNull().unique(),
+  enabledBy: integer("enabled_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A student's printed login card for one class: a picture sequence and a QR badge
+export const pictureLoginCards = pgTable("picture_login_cards", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
+  studentId: integer("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // bcrypt hash of the picture ids joined with commas, in order
+  picturesHash: text("pictures_hash").notNull(),
+  // SHA-256 of the secret in the badge's QR code
+  badgeTokenHash: text("badge_token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+}, (table) => [
+  unique("picture_login_cards_class_id_student_id_unique").on(table.classId, table.studentId),
+]);
+
+// Tile services offered as map backgrounds, managed by admins so districts can use their own tile servers
+export const basemaps = pgTable("basemaps", {
+  id: serial("id").primaryKey(),
+  // Used as the tile layer's id in saved maps
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(),
+  // Leaflet URL template, e.g. https://{s}.tile.example.org/{z}/{x}/{y}.png; {apiKey} is filled in from apiKey
+  urlTemplate: text("url_template").notNull(),
+  // HTML shown in the map's attribution control
+  attribution: text("attribution").notNull(),
+  maxZoom: integer("max_zoom").default(19).notNull(),
+  // Letters substituted for {s}; Leaflet's default is "abc"
+  subdomains: text("subdomains"),
+  apiKey: text("api_key"),
+  // Shown on maps that don't pick a basemap of their own
+  isDefault: boolean("is_default").default(false).notNull(),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Postgres bytea, read and written as a Buffer
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => "bytea",
+});
+
+// ArcGIS Online groups whose web maps teachers can attach to assignments
+export const arcgisGroups = pgTable("arcgis_groups", {
+  id: serial("id").primaryKey(),
+  // ArcGIS Online group id, e.g. 18314398dbda4b39a10071f5e022d42d
+  groupId: text("group_id").notNull().unique(),
+  name: text("name").notNull(),
+  // The school whose teachers and students are offered the group's maps; unset offers them to every school
+  schoolId: integer("school_id").references(() => schools.id, { onDelete: "cascade" }),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  // Last successful refresh of the cached items
+  lastRefreshedAt: timestamp("last_refreshed_at"),
+  // Why the last refresh failed; cleared by the next successful one
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Cached copy of each group's web maps, so the map picker keeps working when ArcGIS Online is unreachable
+export const arcgisItems = pgTable("arcgis_items", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => arcgisGroups.id, { onDelete: "cascade" }),
+  itemId: text("item_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  // File name of the item's thumbnail on ArcGIS Online; a changed name means a new thumbnail
+  thumbnailName: text("thumbnail_name"),
+  thumbnail: bytea("thumbnail"),
+  thumbnailType: text("thumbnail_type"),
+  cachedAt: timestamp("cached_at").defaultNow().notNull(),
+}, (table) => [
+  unique("arcgis_items_group_id_item_id_unique").on(table.groupId, table.itemId),
+]);
+
+// Observations recorded by students for a field survey assignment, shared with the whole class
+export const surveyRecords = pgTable("survey_records", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull().references(() => assignments.id),
+  studentId: integer("student_id").notNull().references(() => users.id),
+  // Device location when the observation was recorded
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  // Radius of the location's uncertainty in metres, as reported by the browser
+  accuracy: doublePrecision("accuracy"),
+  // Answers keyed by survey field id; photo fields hold the uploaded file's URL
+  values: jsonb("values").$type<SurveyValues>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Offline gazetteer behind the map search box: place, county, ZIP code and school locations
+export const gazetteerPlaces = pgTable("gazetteer_places", {
+  id: serial("id").primaryKey(),
+  kind: text("kind", { enum: ["place", "county", "zip", "school"] }).notNull(),
+  // Identifier from the source file (e.g. Census GEOID), so re-importing a file updates rather than duplicates
+  sourceId: text("source_id").notNull(),
+  name: text("name").notNull(),
+  // Two-letter state abbreviation
+  state: text("state"),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  // Square metres; used to rank larger places first and to pick a zoom level
+  landArea: doublePrecision("land_area"),
+}, (table) => [
+  unique("gazetteer_places_kind_source_id_unique").on(table.kind, table.sourceId),
+]);
+
+// Catalog of the CivicScape geospatial datasets, imported from data/airtable_data.csv
+export const datasets = pgTable("datasets", {
+  id: serial("id").primaryKey(),
+  // ArcGIS Online item id of the dataset's web map; re-importing updates the row with the same id
+  itemId: text("item_id").notNull().unique(),
+  title: text("title").notNull(),
+  itemUrl: text("item_url"),
+  isVisualized: boolean("is_visualized").default(false).notNull(),
+  creator: text("creator"),
+  source: text("source"),
+  dateIssued: text("date_issued"),
+  // Where the original data was published
+  sourceUrl: text("source_url"),
+  // Period the data covers, as written in the catalog (e.g. "2021 - 2022")
+  datesOfData: text("dates_of_data"),
+  spatialCoverage: text("spatial_coverage"),
+  geometry: text("geometry"),
+  geographicUnit: text("geographic_unit"),
+  format: text("format"),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdClasses: many(classes),
@@ -367,8 +649,10 @@ export const passwordResetTokensRelations = relations(passwordResetTokens, ({ on
 }));
 
 // Zod schemas
+// Users can't pick their own school; it is set by whoever or whatever creates the account
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
+  schoolId: true,
   createdAt: true,
 });
 
@@ -399,6 +683,116 @@ export const insertUnitSchema = createInsertSchema(units).omit({
   createdAt: true,
 });
 
+// Annotation colours end up in map label markup, so only hex values are accepted
+const hexColorSchema = z.string().regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i, 'Colors must be hex values such as #3388ff');
+const latLngSchema = z.tuple([z.number().finite(), z.number().finite()]);
+
+// A drawn map annotation; coordinates are [lat, lng], or a list of them for lines, polygons and rectangles
+export const mapAnnotationSchema = z.object({
+  id: z.string(),
+  type: z.enum(["point", "line", "polygon", "rectangle", "circle", "text"]),
+  coordinates: z.union([latLngSchema, z.array(latLngSchema)]),
+  properties: z.object({
+    color: hexColorSchema.optional(),
+    fillColor: hexColorSchema.optional(),
+    strokeColor: hexColorSchema.optional(),
+    strokeWidth: z.number().finite().min(0).max(50).optional(),
+    opacity: z.number().finite().min(0).max(1).optional(),
+    fillOpacity: z.number().finite().min(0).max(1).optional(),
+    radius: z.number().finite().min(0).optional(),
+    fontSize: z.number().finite().min(1).max(200).optional(),
+    text: z.string().optional(),
+    prompt: z.boolean().optional(),
+  }),
+});
+
+// Teacher-authored map that each student's map editor opens with (same shape as a submission's mapData)
+export const starterMapSchema = z.object({
+  center: z.tuple([z.number(), z.number()]),
+  zoom: z.number(),
+  layers: z.array(z.record(z.any())),
+  annotations: z.array(mapAnnotationSchema),
+  timeWindow: z.object({
+    start: z.string(),
+    end: z.string(),
+    step: z.enum(["day", "month", "year"]),
+  }).optional(),
+});
+
+export const storySlideSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  body: z.string(),
+  center: z.tuple([z.number(), z.number()]),
+  zoom: z.number(),
+  visibleLayerIds: z.array(z.string()),
+  highlightedAnnotationIds: z.array(z.string()),
+  question: z.string().optional(),
+});
+
+export const storyMapSchema = z.object({
+  slides: z.array(storySlideSchema),
+});
+
+// A point as [lat, lng] or a polygon ring as [lat, lng][], like map annotations
+export const mapQuestionGeometrySchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("point"), coordinates: z.tuple([z.number(), z.number()]) }),
+  z.object({ type: z.literal("polygon"), coordinates: z.array(z.tuple([z.number(), z.number()])).min(3) }),
+]);
+
+// A submission's answers keyed by map question id, and its story responses keyed by slide id
+export const mapAnswersSchema = z.record(mapQuestionGeometrySchema);
+export const storyResponsesSchema = z.record(z.string());
+
+export const mapQuestionSchema = z.object({
+  id: z.string(),
+  prompt: z.string().min(1, 'Question prompt is required'),
+  // What the student does: place a point or draw a region
+  responseType: z.enum(["point", "polygon"]),
+  answer: mapQuestionGeometrySchema,
+  // Point answers count anything within this distance as correct
+  toleranceMeters: z.number().positive().optional(),
+});
+
+export const surveyFieldSchema = z.object({
+  id: z.string(),
+  label: z.string().min(1, 'Field label is required'),
+  type: z.enum(["text", "number", "choice", "photo"]),
+  required: z.boolean().optional(),
+  // Choices offered for choice fields
+  options: z.array(z.string()).optional(),
+}).refine(field => field.type !== "choice" || (field.options?.length ?? 0) > 0, {
+  message: 'Choice fields need at least one option',
+});
+
+export const surveyFormSchema = z.object({
+  fields: z.array(surveyFieldSchema).min(1, 'A survey form needs at least one field'),
+});
+
+export type MapQuestionGeometry = z.infer<typeof mapQuestionGeometrySchema>;
+export type MapQuestion = z.infer<typeof mapQuestionSchema>;
+export type SurveyField = z.infer<typeof surveyFieldSchema>;
+export type SurveyForm = z.infer<typeof surveyFormSchema>;
+export type SurveyValues = Record<string, string | number | null>;
+
+// What young students tap to sign in; the id is what gets hashed, the emoji is what they see
+export const loginPictures = [
+  { id: "apple", emoji: "🍎", label: "Apple" },
+  { id: "ball", emoji: "⚽", label: "Ball" },
+  { id: "car", emoji: "🚗", label: "Car" },
+  { id: "cat", emoji: "🐱", label: "Cat" },
+  { id: "dog", emoji: "🐶", label: "Dog" },
+  { id: "fish", emoji: "🐟", label: "Fish" },
+  { id: "flower", emoji: "🌸", label: "Flower" },
+  { id: "house", emoji: "🏠", label: "House" },
+  { id: "moon", emoji: "🌙", label: "Moon" },
+  { id: "star", emoji: "⭐", label: "Star" },
+  { id: "sun", emoji: "☀️", label: "Sun" },
+  { id: "tree", emoji: "🌳", label: "Tree" },
+] as const;
+
+export type LoginPictureId = typeof loginPictures[number]["id"];
+
 export const insertAssignmentSchema = createInsertSchema(assignments, {
   dueDate: z.union([z.string(), z.date(), z.null()]).optional(),
   title: z.string().min(1, 'Title is required'),
@@ -414,7 +808,14 @@ export const insertAssignmentSchema = createInsertSchema(assignments, {
     title: z.string(),
     description: z.string().optional(),
     thumbnailUrl: z.string().optional(),
+    // Link to open instead of the ArcGIS map viewer, e.g. a catalog dataset's item page
+    url: z.string().url().optional(),
   })).optional(),
+  starterMap: starterMapSchema.nullable().optional(),
+  storyMap: storyMapSchema.nullable().optional(),
+  mapQuestions: z.array(mapQuestionSchema).optional(),
+  allowedBasemaps: z.array(z.string()).nullable().optional(),
+  surveyForm: surveyFormSchema.nullable().optional(),
 });
 
 export const updateAssignmentSchema = insertAssignmentSchema.partial().omit({
@@ -432,6 +833,9 @@ export type UpdateAssignment = z.infer<typeof updateAssignmentSchema>;
 
 export const insertSubmissionSchema = createInsertSchema(submissions, {
   submittedAt: z.coerce.date().optional(),
+  mapData: starterMapSchema.nullable().optional(),
+  mapAnswers: mapAnswersSchema.nullable().optional(),
+  storyResponses: storyResponsesSchema.nullable().optional(),
 }).omit({
   id: true,
   createdAt: true,
@@ -440,11 +844,16 @@ export const insertSubmissionSchema = createInsertSchema(submissions, {
   if (data.status === 'submitted') {
     const hasWrittenResponse = data.writtenResponse && data.writtenResponse.trim().length > 0;
     const hasAttachments = data.attachments && Array.isArray(data.attachments) && data.attachments.length > 0;
-    return hasWrittenResponse || hasAttachments;
+    // Prompt markers come from the teacher's starter map and don't count as the student's work
+    const mapAnnotations = (data.mapData as { annotations?: { properties?: { prompt?: boolean } }[] } | null | undefined)?.annotations;
+    const hasMapAnnotations = Array.isArray(mapAnnotations) && mapAnnotations.some(a => !a.properties?.prompt);
+    const hasStoryResponses = !!data.storyResponses && Object.values(data.storyResponses).some(r => r.trim().length > 0);
+    const hasMapAnswers = !!data.mapAnswers && Object.keys(data.mapAnswers).length > 0;
+    return hasWrittenResponse || hasAttachments || hasMapAnnotations || hasStoryResponses || hasMapAnswers;
   }
   return true;
 }, {
-  message: "Submitted assignments must include a written response or file attachments.",
+  message: "Submitted assignments must include a written response, file attachments, map annotations, story responses or map answers.",
 });
 
 export const insertGradeSchema = createInsertSchema(grades).omit({
@@ -503,6 +912,61 @@ export const insertAiChatMessageSchema = createInsertSchema(aiChatMessages).omit
   updatedAt: true,
 });
 
+export const insertBasemapSchema = createInsertSchema(basemaps, {
+  key: z.string().regex(/^[a-z0-9-]+$/, 'Key may only contain lowercase letters, numbers and hyphens'),
+  name: z.string().min(1, 'Name is required'),
+  urlTemplate: z.string()
+    .regex(/^https?:\/\//, 'Tile URL must start with http:// or https://')
+    .refine(url => ['{z}', '{x}', '{y}'].every(part => url.includes(part)), 'Tile URL must contain {z}, {x} and {y}'),
+  attribution: z.string().min(1, 'Attribution is required'),
+  maxZoom: z.number().int().min(1).max(24).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSchoolSchema = createInsertSchema(schools, {
+  name: z.string().trim().min(1, 'Name is required'),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSsoProviderSchema = createInsertSchema(ssoProviders, {
+  schoolId: z.number({ required_error: 'School is required' }).int(),
+  name: z.string().trim().min(1, 'Name is required'),
+  slug: z.string().trim().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes'),
+  issuerUrl: z.string().trim().url('Issuer must be a URL'),
+  clientId: z.string().trim().min(1, 'Client id is required'),
+  clientSecret: z.string().nullable().optional(),
+  scopes: z.string().trim().refine(scopes => scopes.split(/\s+/).includes('openid'), 'Scopes must include "openid"').optional(),
+  emailDomains: z.array(z.string().trim().toLowerCase().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, 'Invalid email domain')).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertArcgisGroupSchema = createInsertSchema(arcgisGroups, {
+  groupId: z.string().trim().regex(/^[0-9a-f]{32}$/i, 'Group id must be the 32-character id from the group page URL'),
+  name: z.string().min(1, 'Name is required'),
+  schoolId: z.number().int().positive().nullable().optional(),
+}).omit({
+  id: true,
+  lastRefreshedAt: true,
+  lastError: true,
+  createdAt: true,
+});
+
+export const insertSurveyRecordSchema = createInsertSchema(surveyRecords, {
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().nullable().optional(),
+  values: z.record(z.union([z.string(), z.number(), z.null()])),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
   id: true,
   createdAt: true,
@@ -539,3 +1003,41 @@ export type AiChatMessage = typeof aiChatMessages.$inferSelect;
 export type InsertAiChatMessage = z.infer<typeof insertAiChatMessageSchema>;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertSession = typeof sessions.$inferInsert;
+export type School = typeof schools.$inferSelect;
+export type InsertSchool = z.infer<typeof insertSchoolSchema>;
+export type SsoProvider = typeof ssoProviders.$inferSelect;
+export type InsertSsoProvider = z.infer<typeof insertSsoProviderSchema>;
+export type SsoIdentity = typeof ssoIdentities.$inferSelect;
+export type SsoLoginState = typeof ssoLoginStates.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type AccountLockout = typeof accountLockouts.$inferSelect;
+export type InsertAccountLockout = typeof accountLockouts.$inferInsert;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+export type AppSetting = typeof appSettings.$inferSelect;
+// As listed in the audit log: whose account was locked and who unlocked it
+export type AccountLockoutWithUser = AccountLockout & {
+  username: string;
+  userName: string;
+  role: User['role'];
+  unlockedByName: string | null;
+};
+export type PictureLoginClass = typeof pictureLoginClasses.$inferSelect;
+export type PictureLoginCard = typeof pictureLoginCards.$inferSelect;
+export type InsertPictureLoginCard = typeof pictureLoginCards.$inferInsert;
+export type Basemap = typeof basemaps.$inferSelect;
+export type InsertBasemap = z.infer<typeof insertBasemapSchema>;
+export type ArcgisGroup = typeof arcgisGroups.$inferSelect;
+export type InsertArcgisGroup = z.infer<typeof insertArcgisGroupSchema>;
+export type ArcgisItem = typeof arcgisItems.$inferSelect;
+export type InsertArcgisItem = typeof arcgisItems.$inferInsert;
+export type SurveyRecord = typeof surveyRecords.$inferSelect;
+export type InsertSurveyRecord = z.infer<typeof insertSurveyRecordSchema>;
+// As listed to the class: who recorded each observation
+export type SurveyRecordWithStudent = SurveyRecord & { studentName: string };
+export type Dataset = typeof datasets.$inferSelect;
+export type InsertDataset = typeof datasets.$inferInsert;
+export type GazetteerPlace = typeof gazetteerPlaces.$inferSelect;
+export type InsertGazetteerPlace = typeof gazetteerPlaces.$inferInsert;